@@ -1,7 +1,6 @@
 import fs from "fs";
 import path from "path";
-import { getPublicRoutes } from "./routeData.js";
-import { resources, contributors } from "../src/content/authorityData.js";
+import { getPublicRoutes, loadAuthorityContent } from "./routeData.js";
 
 const ROOT_DIR = process.cwd();
 const DIST_DIR = path.join(ROOT_DIR, "dist");
@@ -9,7 +8,7 @@ const OUTPUT_PATH = path.join(DIST_DIR, "sitemap.xml");
 const CANONICAL_SITE_URL = "https://horalix.com";
 
 // Build a map of route -> lastmod date from known content
-function buildLastmodMap() {
+function buildLastmodMap({ resources, contributors }) {
   const map = {};
   const buildDate = new Date().toISOString().split("T")[0];
 
@@ -28,9 +27,9 @@ function buildLastmodMap() {
     map["/resources"] = latestResourceDate;
   }
 
-  // Team profiles use build date (no updatedAt field)
+  // Team profiles use the CMS updated_at when available, otherwise the build date
   for (const contributor of contributors) {
-    map[`/team/${contributor.slug}`] = buildDate;
+    map[`/team/${contributor.slug}`] = contributor.updatedAt || buildDate;
   }
 
   return map;
@@ -96,7 +95,7 @@ async function generateSitemap() {
     return;
   }
 
-  const lastmodMap = buildLastmodMap();
+  const lastmodMap = buildLastmodMap(await loadAuthorityContent());
   const sitemapXml = createSitemap(routes, lastmodMap);
   fs.writeFileSync(OUTPUT_PATH, sitemapXml, "utf8");
   console.log(`[sitemap] Generated ${OUTPUT_PATH} with ${routes.length} routes.`);
@@ -3,16 +3,18 @@ import path from "path";
 
 import {
   benchmarkDisclosures,
-  contributors,
   defaultSolutions,
-  evidenceSourceOrder,
-  evidenceSources,
-  getRelatedResources,
   hospitalValuePoints,
   investorSignalPoints,
   organizationProfile,
-  resources,
 } from "../src/content/authorityData.js";
+import {
+  getRelatedResourcesFrom,
+  getResourcesForSolutionFrom,
+  indexEvidenceSources,
+} from "../src/content/authorityContent.js";
+import { renderMarkdown } from "../src/lib/markdown.js";
+import { loadAuthorityContent, loadEvidenceSources } from "./routeData.js";
 
 import {
   buildBreadcrumbJsonLd,
@@ -226,7 +228,7 @@ function footerNav(currentPage) {
 
 // ─── Page renderers ──────────────────────────────────────────────────────────
 
-function renderHomePage() {
+function renderHomePage({ resources, contributors, evidenceSources }) {
   return {
     title: "Horalix | AI-Powered Echocardiography Workflow Software",
     description:
@@ -331,7 +333,7 @@ function renderHomePage() {
         <ul>
           ${benchmarkDisclosures.map((d) => `<li>${escapeHtml(d)}</li>`).join("")}
         </ul>
-        <p>External evidence sources include <a href="${evidenceSources.S1.url}" rel="noopener">${escapeHtml(evidenceSources.S1.shortLabel)}</a>, <a href="${evidenceSources.S2.url}" rel="noopener">${escapeHtml(evidenceSources.S2.shortLabel)}</a>, and <a href="${evidenceSources.S3.url}" rel="noopener">${escapeHtml(evidenceSources.S3.shortLabel)}</a>.</p>
+        <p>External evidence sources include ${evidenceSources.map((source) => `<a href="${source.url || "/evidence"}" rel="noopener">${escapeHtml(source.shortLabel)}</a>`).join(", ")}.</p>
         <p><a href="/evidence">View full evidence and benchmark disclosures</a></p>
       </section>
 
@@ -364,7 +366,7 @@ function renderHomePage() {
   };
 }
 
-function renderSolutionsPage(solutions) {
+function renderSolutionsPage(solutions, { resources }) {
   return {
     title: "Solutions | Horalix Clinical AI Workflow Software",
     description: "Explore Horalix clinical AI workflow solutions: CardiologyAI for echocardiography, PathologyAI, and RadiologyAI. Modular medical imaging workflow automation.",
@@ -420,9 +422,8 @@ function renderSolutionsPage(solutions) {
   };
 }
 
-function renderSolutionDetail(solution) {
-  const related = resources
-    .filter((resource) => resource.solutionSlugs.includes(solution.slug))
+function renderSolutionDetail(solution, { resources }) {
+  const related = getResourcesForSolutionFrom(resources, solution.slug)
     .slice(0, 4)
     .map((resource) => ({ href: `/resources/${resource.slug}`, label: resource.title }));
 
@@ -490,7 +491,7 @@ function renderSolutionDetail(solution) {
   };
 }
 
-function renderResourcesPage() {
+function renderResourcesPage({ resources, contributors }) {
   return {
     title: "Resources | AI Echocardiography and Clinical Workflow | Horalix",
     description: "Read Horalix resources on AI echocardiography software, echo workflow automation, automated reporting, cardiac ultrasound AI, and clinical AI operations.",
@@ -546,9 +547,10 @@ function renderResourcesPage() {
   };
 }
 
-function renderResourceDetail(resource) {
+function renderResourceDetail(resource, { resources, contributors, evidenceSources }) {
   const author = contributors.find((item) => item.slug === resource.authorSlug);
-  const related = getRelatedResources(resource);
+  const sourceMap = indexEvidenceSources(evidenceSources);
+  const related = getRelatedResourcesFrom(resources, resource);
 
   // Citation-ready TL;DR block for LLM discoverability
   const tldrHtml = `<section data-speakable ${S}="margin-top:16px;border:2px solid #2563eb;padding:16px 20px;background:#eff6ff;border-radius:8px">
@@ -560,7 +562,7 @@ function renderResourceDetail(resource) {
     ? `<section ${S}="margin-top:32px;border-left:4px solid #2563eb;padding:16px 20px;background:#f8fafc;border-radius:0 8px 8px 0">
         <h2 ${S}="margin:0 0 12px;font-size:18px">Evidence context</h2>
         <p ${S}="margin:0 0 8px;font-size:13px;color:#64748b">The following claims reference external evidence sources. See <a href="/evidence">evidence and benchmark disclosures</a> for governance details.</p>
-        <ul ${S}="margin:0;padding-left:20px">${resource.citedClaims.map((claim) => `<li>${escapeHtml(claim.text)} [${claim.sourceIds.map((id) => `<a href="${evidenceSources[id]?.url || '/evidence'}" rel="noopener">${id}: ${escapeHtml(evidenceSources[id]?.shortLabel || id)}</a>`).join(", ")}]</li>`).join("")}</ul>
+        <ul ${S}="margin:0;padding-left:20px">${resource.citedClaims.map((claim) => `<li>${escapeHtml(claim.text)} [${claim.sourceIds.map((id) => `<a href="${sourceMap[id]?.url || '/evidence'}" rel="noopener">${id}: ${escapeHtml(sourceMap[id]?.shortLabel || id)}</a>`).join(", ")}]</li>`).join("")}</ul>
       </section>`
     : "";
 
@@ -635,7 +637,7 @@ function renderResourceDetail(resource) {
   };
 }
 
-function renderAboutPage() {
+function renderAboutPage({ contributors }) {
   return {
     title: "About Horalix | Clinical AI Infrastructure for Echocardiography",
     description: "Learn about Horalix: the company, founding team, clinical AI philosophy, and Europe-first approach to echocardiography workflow software.",
@@ -706,7 +708,7 @@ function renderAboutPage() {
   };
 }
 
-function renderTeamProfile(contributor) {
+function renderTeamProfile(contributor, { resources, contributors }) {
   const authoredResources = resources.filter((r) => r.authorSlug === contributor.slug);
   const otherMembers = contributors.filter((c) => c.slug !== contributor.slug);
 
@@ -767,7 +769,7 @@ function renderTeamProfile(contributor) {
   };
 }
 
-function renderEvidencePage() {
+function renderEvidencePage({ evidenceSources }) {
   return {
     title: "Evidence and Benchmarks | Horalix Clinical AI",
     description: "Review Horalix benchmark disclosures, evidence governance policy, external evidence sources, and how internal benchmarks are separated from external context.",
@@ -803,8 +805,8 @@ function renderEvidencePage() {
         <h2>External evidence sources</h2>
         <p>Horalix references the following published, peer-reviewed sources for external benchmark context:</p>
         <ul>
-          ${evidenceSourceOrder.map((sourceId) => `
-            <li><strong>${sourceId}:</strong> <a href="${evidenceSources[sourceId].url}" rel="noopener">${escapeHtml(evidenceSources[sourceId].fullLabel)}</a></li>
+          ${evidenceSources.map((source) => `
+            <li><strong>${source.id}:</strong> ${source.url ? `<a href="${source.url}" rel="noopener">${escapeHtml(source.fullLabel)}</a>` : escapeHtml(source.fullLabel)}${source.doi ? ` (doi:${escapeHtml(source.doi)})` : ""}</li>
           `).join("")}
         </ul>
       </section>
@@ -882,8 +884,9 @@ function renderNewsPage(newsItems) {
 }
 
 function renderNewsArticle(article) {
+  // renderMarkdown escapes its input, so CMS content cannot inject markup here
   const paragraphs = typeof article.content === "string" && article.content
-    ? article.content.split("\n\n").map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("")
+    ? renderMarkdown(article.content, { siteUrl: CANONICAL_SITE_URL })
     : `<p>${escapeHtml(article.summary || "Company update from Horalix.")}</p>`;
 
   return {
@@ -896,7 +899,7 @@ function renderNewsArticle(article) {
       ${nav([{ href: "/", label: "Home" }, { href: "/news", label: "News" }, { href: `/news/${article.slug}`, label: article.title }])}
       <article>
         <h1>${escapeHtml(article.title)}</h1>
-        <p ${S}="font-size:13px;color:#64748b">${escapeHtml(article.category || "UPDATE")}${article.display_date ? ` | ${article.display_date}` : ""}${article.location ? ` | ${escapeHtml(article.location)}` : ""}</p>
+        <p ${S}="font-size:13px;color:#64748b">${escapeHtml(article.category || "UPDATE")}${article.display_date ? ` | ${article.display_date}` : ""}${article.content_updated_at ? ` | Updated: ${article.content_updated_at.slice(0, 10)}` : ""}${article.location ? ` | ${escapeHtml(article.location)}` : ""}</p>
         ${article.summary ? `<p ${S}="font-size:18px;color:#475569">${escapeHtml(article.summary)}</p>` : ""}
         ${paragraphs}
       </article>
@@ -982,10 +985,14 @@ function renderTermsPage() {
 
 async function loadDynamicData() {
   const config = getSupabaseConfig();
+  const authorityContent = {
+    ...(await loadAuthorityContent()),
+    evidenceSources: await loadEvidenceSources(),
+  };
 
   if (!config) {
     console.warn("[static-pages] Missing Supabase env vars. Using fallback news and solution data.");
-    return { solutions: defaultSolutions, newsItems: FALLBACK_NEWS };
+    return { solutions: defaultSolutions, newsItems: FALLBACK_NEWS, authorityContent };
   }
 
   const [solutions, newsItems] = await Promise.allSettled([
@@ -993,8 +1000,9 @@ async function loadDynamicData() {
       ["is_active", "eq.true"],
       ["order", "display_order.asc"],
     ]),
-    fetchTable(config, "news_articles", "slug,title,summary,content,category,location,display_date,published_at", [
+    fetchTable(config, "news_articles", "slug,title,summary,content,category,location,display_date,published_at,content_updated_at", [
       ["is_published", "eq.true"],
+      ["published_at", `lte.${new Date().toISOString()}`],
       ["order", "display_date.desc.nullslast"],
     ]),
   ]);
@@ -1002,6 +1010,7 @@ async function loadDynamicData() {
   return {
     solutions: solutions.status === "fulfilled" && solutions.value.length > 0 ? solutions.value : defaultSolutions,
     newsItems: newsItems.status === "fulfilled" && newsItems.value.length > 0 ? newsItems.value : FALLBACK_NEWS,
+    authorityContent,
   };
 }
 
@@ -1012,27 +1021,27 @@ async function generateStaticPages() {
   }
 
   const template = fs.readFileSync(TEMPLATE_PATH, "utf8");
-  const { solutions, newsItems } = await loadDynamicData();
+  const { solutions, newsItems, authorityContent } = await loadDynamicData();
 
   const pages = new Map();
-  pages.set("/", renderHomePage());
-  pages.set("/about", renderAboutPage());
-  pages.set("/evidence", renderEvidencePage());
-  pages.set("/resources", renderResourcesPage());
-  pages.set("/solutions", renderSolutionsPage(solutions));
+  pages.set("/", renderHomePage(authorityContent));
+  pages.set("/about", renderAboutPage(authorityContent));
+  pages.set("/evidence", renderEvidencePage(authorityContent));
+  pages.set("/resources", renderResourcesPage(authorityContent));
+  pages.set("/solutions", renderSolutionsPage(solutions, authorityContent));
   pages.set("/news", renderNewsPage(newsItems));
   pages.set("/terms", renderTermsPage());
 
-  for (const resource of resources) {
-    pages.set(`/resources/${resource.slug}`, renderResourceDetail(resource));
+  for (const resource of authorityContent.resources) {
+    pages.set(`/resources/${resource.slug}`, renderResourceDetail(resource, authorityContent));
   }
 
-  for (const contributor of contributors) {
-    pages.set(`/team/${contributor.slug}`, renderTeamProfile(contributor));
+  for (const contributor of authorityContent.contributors) {
+    pages.set(`/team/${contributor.slug}`, renderTeamProfile(contributor, authorityContent));
   }
 
   for (const solution of solutions) {
-    pages.set(`/solutions/${solution.slug}`, renderSolutionDetail(solution));
+    pages.set(`/solutions/${solution.slug}`, renderSolutionDetail(solution, authorityContent));
   }
 
   for (const article of newsItems) {
@@ -1,6 +1,11 @@
 import fs from "fs";
 import path from "path";
-import { contributors, resources } from "../src/content/authorityData.js";
+import {
+  buildAuthorityContent,
+  buildEvidenceSources,
+  fallbackAuthorityContent,
+  fallbackEvidenceSources,
+} from "../src/content/authorityContent.js";
 
 const ROOT_DIR = process.cwd();
 const ENV_PATH = path.join(ROOT_DIR, ".env");
@@ -17,8 +22,6 @@ const FALLBACK_SOLUTION_ROUTES = [
   "/solutions/pathology-ai",
   "/solutions/radiology-ai",
 ];
-const RESOURCE_ROUTES = resources.map((resource) => `/resources/${resource.slug}`);
-const CONTRIBUTOR_ROUTES = contributors.map((contributor) => `/team/${contributor.slug}`);
 
 function readEnvFile() {
   if (!fs.existsSync(ENV_PATH)) {
@@ -71,8 +74,8 @@ function getSupabaseConfig() {
   return { url, key };
 }
 
-async function fetchTableSlugs(config, table, filters = []) {
-  const params = new URLSearchParams({ select: "slug" });
+async function fetchTableRows(config, table, select, filters = []) {
+  const params = new URLSearchParams({ select });
   for (const [name, value] of filters) {
     params.set(name, value);
   }
@@ -90,15 +93,89 @@ async function fetchTableSlugs(config, table, filters = []) {
   }
 
   const payload = await response.json();
-  if (!Array.isArray(payload)) {
-    return [];
-  }
+  return Array.isArray(payload) ? payload : [];
+}
 
-  return payload
+async function fetchTableSlugs(config, table, filters = []) {
+  const rows = await fetchTableRows(config, table, "slug", filters);
+
+  return rows
     .map((entry) => (entry && typeof entry.slug === "string" ? entry.slug.trim() : ""))
     .filter(Boolean);
 }
 
+let authorityContentPromise = null;
+
+/**
+ * Public contributors and published resources from Supabase, merged over the
+ * static seed in authorityData.js. Cached per process because the sitemap,
+ * static pages and prerender steps all ask for it.
+ */
+export function loadAuthorityContent() {
+  if (authorityContentPromise) {
+    return authorityContentPromise;
+  }
+
+  authorityContentPromise = (async () => {
+    const config = getSupabaseConfig();
+    if (!config) {
+      return fallbackAuthorityContent;
+    }
+
+    try {
+      const [contributorRows, resourceRows] = await Promise.all([
+        fetchTableRows(config, "contributors", "*", [
+          ["is_public", "eq.true"],
+          ["order", "display_order.asc"],
+        ]),
+        fetchTableRows(config, "resources", "*", [
+          ["is_published", "eq.true"],
+          ["published_at", `lte.${new Date().toISOString()}`],
+          ["order", "published_at.desc.nullslast"],
+        ]),
+      ]);
+      return buildAuthorityContent(contributorRows, resourceRows);
+    } catch {
+      console.warn("[routes] Could not fetch contributors and resources. Using static authority content.");
+      return fallbackAuthorityContent;
+    }
+  })();
+
+  return authorityContentPromise;
+}
+
+let evidenceSourcesPromise = null;
+
+/**
+ * Public evidence sources from the CMS registry, or the static S1-S3 list when
+ * Supabase is unavailable or the registry is empty.
+ */
+export function loadEvidenceSources() {
+  if (evidenceSourcesPromise) {
+    return evidenceSourcesPromise;
+  }
+
+  evidenceSourcesPromise = (async () => {
+    const config = getSupabaseConfig();
+    if (!config) {
+      return fallbackEvidenceSources;
+    }
+
+    try {
+      const rows = await fetchTableRows(config, "evidence_sources", "*", [
+        ["is_public", "eq.true"],
+        ["order", "display_order.asc"],
+      ]);
+      return buildEvidenceSources(rows);
+    } catch {
+      console.warn("[routes] Could not fetch evidence sources. Using static evidence sources.");
+      return fallbackEvidenceSources;
+    }
+  })();
+
+  return evidenceSourcesPromise;
+}
+
 function dedupeRoutes(routes) {
   return [...new Set(routes)];
 }
@@ -108,14 +185,19 @@ export async function getPublicRoutes() {
   let newsRoutes = FALLBACK_NEWS_ROUTES;
   let solutionRoutes = FALLBACK_SOLUTION_ROUTES;
 
+  const { contributors, resources } = await loadAuthorityContent();
+  const resourceRoutes = resources.map((resource) => `/resources/${resource.slug}`);
+  const contributorRoutes = contributors.map((contributor) => `/team/${contributor.slug}`);
+
   if (!config) {
     console.warn("[routes] Missing Supabase env vars. Using fallback routes.");
-    return dedupeRoutes([...CORE_ROUTES, ...solutionRoutes, ...newsRoutes, ...RESOURCE_ROUTES, ...CONTRIBUTOR_ROUTES]);
+    return dedupeRoutes([...CORE_ROUTES, ...solutionRoutes, ...newsRoutes, ...resourceRoutes, ...contributorRoutes]);
   }
 
   try {
     const newsSlugs = await fetchTableSlugs(config, "news_articles", [
       ["is_published", "eq.true"],
+      ["published_at", `lte.${new Date().toISOString()}`],
       ["order", "display_date.desc.nullslast"],
     ]);
     if (newsSlugs.length > 0) {
@@ -137,5 +219,5 @@ export async function getPublicRoutes() {
     console.warn("[routes] Could not fetch active solution slugs. Using fallback solution routes.");
   }
 
-  return dedupeRoutes([...CORE_ROUTES, ...solutionRoutes, ...newsRoutes, ...RESOURCE_ROUTES, ...CONTRIBUTOR_ROUTES]);
+  return dedupeRoutes([...CORE_ROUTES, ...solutionRoutes, ...newsRoutes, ...resourceRoutes, ...contributorRoutes]);
 }
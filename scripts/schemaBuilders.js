@@ -168,7 +168,7 @@ const buildNewsArticleJsonLd = (article) => {
     headline: article.title,
     description: article.summary || "",
     datePublished,
-    ...(article.updated_at ? { dateModified: article.updated_at } : {}),
+    ...(article.content_updated_at ? { dateModified: article.content_updated_at } : {}),
     ...(article.image_urls?.length ? { image: article.image_urls } : {}),
     url: absoluteUrl(`/news/${article.slug}`),
     author: {
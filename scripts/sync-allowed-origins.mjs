@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+
+import {
+  originPatternToRegex,
+  parseAllowedOrigins,
+  splitAllowedOrigins,
+  validateOriginPattern,
+} from "../src/lib/allowedOrigins.js";
+
+// Copies ALLOWED_ORIGINS into the allowed_origins table read by is_allowed_origin(), so
+// the RLS origin checks match the edge functions and the frontend. Each pattern is sent
+// with the regex lib/allowedOrigins builds for it, so the database has no matching rules
+// of its own. Runs as its own deploy step (.github/workflows/sync-allowed-origins.yml),
+// never inside the site build, so SUPABASE_SERVICE_ROLE_KEY stays out of the Netlify
+// build environment; needs VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+
+const ROOT_DIR = process.cwd();
+const ENV_PATH = path.join(ROOT_DIR, ".env");
+
+function readEnvFile() {
+  if (!fs.existsSync(ENV_PATH)) {
+    return {};
+  }
+
+  const envVars = {};
+  const fileContent = fs.readFileSync(ENV_PATH, "utf8");
+
+  for (const rawLine of fileContent.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const separatorIndex = line.indexOf("=");
+    if (separatorIndex < 0) continue;
+
+    const key = line.slice(0, separatorIndex).trim();
+    let value = line.slice(separatorIndex + 1).trim();
+    if (
+      (value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'"))
+    ) {
+      value = value.slice(1, -1);
+    }
+
+    envVars[key] = value;
+  }
+
+  return envVars;
+}
+
+const loadedEnv = readEnvFile();
+
+function resolveEnv(name) {
+  const fromProcess = process.env[name];
+  if (fromProcess && fromProcess.trim()) return fromProcess.trim();
+  const fromFile = loadedEnv[name];
+  return typeof fromFile === "string" && fromFile.trim() ? fromFile.trim() : undefined;
+}
+
+async function syncAllowedOrigins() {
+  const url = resolveEnv("VITE_SUPABASE_URL");
+  const serviceKey = resolveEnv("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !serviceKey) {
+    throw new Error("VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  }
+
+  // Refuse to sync a list the edge functions would partly ignore
+  const rawValue = resolveEnv("ALLOWED_ORIGINS");
+  const invalid = splitAllowedOrigins(rawValue).filter((entry) => validateOriginPattern(entry));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid ALLOWED_ORIGINS entries: ${invalid.join(", ")}`);
+  }
+
+  const patterns = parseAllowedOrigins(rawValue);
+  const origins = patterns.map((pattern) => ({ pattern, match_regex: originPatternToRegex(pattern) }));
+
+  const response = await fetch(`${url}/rest/v1/rpc/replace_allowed_origins`, {
+    method: "POST",
+    headers: {
+      apikey: serviceKey,
+      Authorization: `Bearer ${serviceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ _origins: origins }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+  }
+
+  console.log(`[allowed-origins] Synced ${patterns.length} origins: ${patterns.join(", ")}`);
+}
+
+syncAllowedOrigins().catch((error) => {
+  console.error("[allowed-origins] Sync error:", error.message);
+  process.exit(1);
+});
@@ -1,9 +1,9 @@
 import { lazy, Suspense } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Route, Routes } from "react-router-dom";
+import { BrowserRouter, Navigate, Route, Routes, useLocation } from "react-router-dom";
 
-import { PendingSubmissionHandler } from "./components/home/PendingSubmissionHandler";
 import { AuthenticatedRoute } from "./components/auth/AuthenticatedRoute";
+import { AuthProvider } from "./components/auth/AuthProvider";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -19,15 +19,19 @@ const About = lazy(() => import("./pages/About"));
 const TeamProfile = lazy(() => import("./pages/TeamProfile"));
 const Evidence = lazy(() => import("./pages/Evidence"));
 const Terms = lazy(() => import("./pages/Terms"));
-const Unsubscribe = lazy(() => import("./pages/Unsubscribe"));
+const NewsletterConfirm = lazy(() => import("./pages/NewsletterConfirm"));
+const NewsletterPreferences = lazy(() => import("./pages/NewsletterPreferences"));
 const Login = lazy(() => import("./pages/Login"));
 const Signup = lazy(() => import("./pages/Signup"));
 const VerifyEmail = lazy(() => import("./pages/VerifyEmail"));
+const ForgotPassword = lazy(() => import("./pages/ForgotPassword"));
+const ResetPassword = lazy(() => import("./pages/ResetPassword"));
 const Profile = lazy(() => import("./pages/Profile"));
 const ProfileSubmissions = lazy(() => import("./pages/ProfileSubmissions"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const AdminLogin = lazy(() => import("./pages/admin/Login"));
+const AdminTwoFactor = lazy(() => import("./pages/admin/TwoFactor"));
 const AdminDashboard = lazy(() => import("./pages/admin/Dashboard"));
 const NewsManager = lazy(() => import("./pages/admin/NewsManager"));
 const LinkedInManager = lazy(() => import("./pages/admin/LinkedInManager"));
@@ -35,9 +39,17 @@ const TeamManager = lazy(() => import("./pages/admin/TeamManager"));
 const SolutionsManager = lazy(() => import("./pages/admin/SolutionsManager"));
 const ResourcesManager = lazy(() => import("./pages/admin/ResourcesManager"));
 const ContributorsManager = lazy(() => import("./pages/admin/ContributorsManager"));
+const EvidenceManager = lazy(() => import("./pages/admin/EvidenceManager"));
 const ContentManager = lazy(() => import("./pages/admin/ContentManager"));
+const EmailTemplatesManager = lazy(() => import("./pages/admin/EmailTemplatesManager"));
 const ContactsManager = lazy(() => import("./pages/admin/ContactsManager"));
 const FAQManager = lazy(() => import("./pages/admin/FAQManager"));
+const UsersManager = lazy(() => import("./pages/admin/UsersManager"));
+const AuditLog = lazy(() => import("./pages/admin/AuditLog"));
+const NewsletterManager = lazy(() => import("./pages/admin/NewsletterManager"));
+const CampaignsManager = lazy(() => import("./pages/admin/CampaignsManager"));
+const SubscribersManager = lazy(() => import("./pages/admin/SubscribersManager"));
+const RateLimitsManager = lazy(() => import("./pages/admin/RateLimitsManager"));
 
 const queryClient = new QueryClient();
 
@@ -47,66 +59,86 @@ const RouteLoadingState = () => (
   </div>
 );
 
+// Links in emails sent before the preference center still point at /unsubscribe?token=...
+const LegacyUnsubscribeRedirect = () => {
+  const { search } = useLocation();
+  return <Navigate to={`/newsletter/preferences${search}`} replace />;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <PendingSubmissionHandler />
-        <Suspense fallback={<RouteLoadingState />}>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/news" element={<News />} />
-            <Route path="/news/:slug" element={<NewsArticle />} />
-            <Route path="/solutions" element={<Solutions />} />
-            <Route path="/solutions/:slug" element={<SolutionDetail />} />
-            <Route path="/resources" element={<Resources />} />
-            <Route path="/resources/:slug" element={<ResourceDetail />} />
-            <Route path="/about" element={<About />} />
-            <Route path="/team/:slug" element={<TeamProfile />} />
-            <Route path="/evidence" element={<Evidence />} />
-            <Route path="/terms" element={<Terms />} />
-            <Route path="/unsubscribe" element={<Unsubscribe />} />
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Suspense fallback={<RouteLoadingState />}>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/news" element={<News />} />
+              <Route path="/news/:slug" element={<NewsArticle />} />
+              <Route path="/solutions" element={<Solutions />} />
+              <Route path="/solutions/:slug" element={<SolutionDetail />} />
+              <Route path="/resources" element={<Resources />} />
+              <Route path="/resources/:slug" element={<ResourceDetail />} />
+              <Route path="/about" element={<About />} />
+              <Route path="/team/:slug" element={<TeamProfile />} />
+              <Route path="/evidence" element={<Evidence />} />
+              <Route path="/terms" element={<Terms />} />
+              <Route path="/newsletter/confirm" element={<NewsletterConfirm />} />
+              <Route path="/newsletter/preferences" element={<NewsletterPreferences />} />
+              <Route path="/unsubscribe" element={<LegacyUnsubscribeRedirect />} />
 
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<Signup />} />
-            <Route path="/verify-email" element={<VerifyEmail />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/signup" element={<Signup />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
 
-            <Route
-              path="/profile"
-              element={
-                <AuthenticatedRoute>
-                  <Profile />
-                </AuthenticatedRoute>
-              }
-            />
-            <Route
-              path="/profile/submissions"
-              element={
-                <AuthenticatedRoute>
-                  <ProfileSubmissions />
-                </AuthenticatedRoute>
-              }
-            />
+              <Route
+                path="/profile"
+                element={
+                  <AuthenticatedRoute>
+                    <Profile />
+                  </AuthenticatedRoute>
+                }
+              />
+              <Route
+                path="/profile/submissions"
+                element={
+                  <AuthenticatedRoute>
+                    <ProfileSubmissions />
+                  </AuthenticatedRoute>
+                }
+              />
 
-            <Route path="/admin/login" element={<AdminLogin />} />
-            <Route path="/admin" element={<AdminDashboard />} />
-            <Route path="/admin/news" element={<NewsManager />} />
-            <Route path="/admin/linkedin" element={<LinkedInManager />} />
-            <Route path="/admin/team" element={<TeamManager />} />
-            <Route path="/admin/solutions" element={<SolutionsManager />} />
-            <Route path="/admin/resources" element={<ResourcesManager />} />
-            <Route path="/admin/contributors" element={<ContributorsManager />} />
-            <Route path="/admin/content" element={<ContentManager />} />
-            <Route path="/admin/contacts" element={<ContactsManager />} />
-            <Route path="/admin/faq" element={<FAQManager />} />
+              <Route path="/admin/login" element={<AdminLogin />} />
+              <Route path="/admin/mfa" element={<AdminTwoFactor />} />
+              <Route path="/admin" element={<AdminDashboard />} />
+              <Route path="/admin/news" element={<NewsManager />} />
+              <Route path="/admin/linkedin" element={<LinkedInManager />} />
+              <Route path="/admin/team" element={<TeamManager />} />
+              <Route path="/admin/solutions" element={<SolutionsManager />} />
+              <Route path="/admin/resources" element={<ResourcesManager />} />
+              <Route path="/admin/contributors" element={<ContributorsManager />} />
+              <Route path="/admin/evidence" element={<EvidenceManager />} />
+              <Route path="/admin/content" element={<ContentManager />} />
+              <Route path="/admin/emails" element={<EmailTemplatesManager />} />
+              <Route path="/admin/contacts" element={<ContactsManager />} />
+              <Route path="/admin/campaigns" element={<CampaignsManager />} />
+              <Route path="/admin/newsletter" element={<NewsletterManager />} />
+              <Route path="/admin/subscribers" element={<SubscribersManager />} />
+              <Route path="/admin/faq" element={<FAQManager />} />
+              <Route path="/admin/users" element={<UsersManager />} />
+              <Route path="/admin/audit" element={<AuditLog />} />
+              <Route path="/admin/rate-limits" element={<RateLimitsManager />} />
 
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </Suspense>
-      </BrowserRouter>
-    </TooltipProvider>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </Suspense>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, Loader2, Send } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONTACT_CHANNEL_LABELS,
+  MAX_CONTACT_MESSAGE_LENGTH,
+  contactThreadQueryKey,
+  fetchContactThread,
+  sendContactReply,
+  type ContactReplyResult,
+} from "@/lib/contactThread";
+import { cn } from "@/lib/utils";
+
+/**
+ * ContactThread - Conversation on a contact submission
+ * Starts with the original form message; staff see who replied and whether the email went out,
+ * senders see replies from "Horalix". Replies go through the contact-thread function.
+ */
+
+interface ContactThreadProps {
+  submission: { id: string; name: string; message: string; created_at: string };
+  viewer: "staff" | "sender";
+  canReply?: boolean;
+  onReplied?: (result: ContactReplyResult) => void;
+}
+
+export const ContactThread = ({ submission, viewer, canReply = true, onReplied }: ContactThreadProps) => {
+  const [draft, setDraft] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: messages, isLoading } = useQuery({
+    queryKey: contactThreadQueryKey(submission.id),
+    queryFn: () => fetchContactThread(submission.id),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: (body: string) =>
+      sendContactReply(viewer === "staff" ? "reply" : "sender_reply", submission.id, body),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: contactThreadQueryKey(submission.id) });
+      setDraft("");
+      onReplied?.(result);
+
+      if (viewer === "staff" && result.email_sent === false) {
+        toast({
+          variant: "destructive",
+          title: "Email not sent",
+          description: result.error || "The reply was saved, but the email could not be sent.",
+        });
+      } else {
+        toast({ title: "Reply sent" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Reply failed", description: error.message });
+    },
+  });
+
+  const entries = [
+    {
+      id: "original",
+      fromSender: true,
+      author: submission.name,
+      body: submission.message,
+      createdAt: submission.created_at,
+      detail: "Contact form",
+      failed: false,
+    },
+    ...(messages ?? []).map((message) => ({
+      id: message.id,
+      fromSender: message.sender === "user",
+      author:
+        message.sender === "user"
+          ? message.author_name || submission.name
+          : viewer === "staff"
+            ? message.author_name || "Staff"
+            : "Horalix",
+      body: message.body,
+      createdAt: message.created_at,
+      detail: CONTACT_CHANNEL_LABELS[message.channel],
+      failed: viewer === "staff" && message.email_status === "failed",
+    })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {entries.map((entry) => {
+          const isOwn = entry.fromSender === (viewer === "sender");
+          return (
+            <div key={entry.id} className={cn("flex", isOwn ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-lg p-3 text-sm",
+                  isOwn ? "bg-accent/10 border border-accent/20" : "bg-secondary"
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground mb-1">
+                  <span className="font-medium text-foreground">{entry.author}</span>
+                  <span>{format(new Date(entry.createdAt), "MMM d, yyyy 'at' h:mm a")}</span>
+                  {viewer === "staff" && entry.detail && <span>· {entry.detail}</span>}
+                </div>
+                <p className="whitespace-pre-wrap">{entry.body}</p>
+                {entry.failed && (
+                  <p className="mt-2 flex items-center gap-1 text-xs text-destructive">
+                    <AlertCircle className="w-3 h-3" />
+                    Email not delivered
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin mx-auto text-muted-foreground" />}
+      </div>
+
+      {canReply && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (draft.trim()) replyMutation.mutate(draft.trim());
+          }}
+          className="space-y-2"
+        >
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={viewer === "staff" ? `Reply to ${submission.name}...` : "Write a reply..."}
+            rows={4}
+            maxLength={MAX_CONTACT_MESSAGE_LENGTH}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {viewer === "staff"
+                ? "Emailed to the sender, who can answer by email or from their submissions page."
+                : "Our team is notified of your reply."}
+            </p>
+            <Button type="submit" size="sm" disabled={!draft.trim() || replyMutation.isPending}>
+              {replyMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-1" />
+              )}
+              {viewer === "staff" ? "Send reply" : "Reply"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
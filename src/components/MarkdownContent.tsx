@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { renderMarkdown } from "@/lib/markdown";
+import { CANONICAL_SITE_URL } from "@/lib/canonical";
+import { cn } from "@/lib/utils";
+
+/**
+ * MarkdownContent - Renders CMS Markdown through the escaping renderer in lib/markdown
+ * Raw HTML in the source is never executed, so injecting the output is safe.
+ */
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  const html = useMemo(() => renderMarkdown(content, { siteUrl: CANONICAL_SITE_URL }), [content]);
+
+  return (
+    <div
+      className={cn(
+        "space-y-4 text-base leading-relaxed text-muted-foreground",
+        "[&_h2]:pt-4 [&_h2]:font-space [&_h2]:text-2xl [&_h2]:font-bold [&_h2]:text-primary",
+        "[&_h3]:pt-2 [&_h3]:font-space [&_h3]:text-xl [&_h3]:font-semibold [&_h3]:text-primary",
+        "[&_h4]:font-semibold [&_h4]:text-foreground",
+        "[&_a]:text-accent [&_a]:underline [&_a]:underline-offset-4 hover:[&_a]:text-accent/80",
+        "[&_strong]:font-semibold [&_strong]:text-foreground",
+        "[&_ul]:list-disc [&_ul]:space-y-2 [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:space-y-2 [&_ol]:pl-6",
+        "[&_blockquote]:border-l-2 [&_blockquote]:border-accent [&_blockquote]:pl-4 [&_blockquote]:italic",
+        "[&_code]:rounded [&_code]:bg-muted [&_code]:px-1.5 [&_code]:py-0.5 [&_code]:font-mono [&_code]:text-sm",
+        "[&_figure]:my-6 [&_img]:max-w-full [&_img]:rounded-md [&_img]:border [&_img]:border-border",
+        "[&_hr]:my-8 [&_hr]:border-border",
+        className,
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownContent;
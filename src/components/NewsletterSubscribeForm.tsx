@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { CheckCircle, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  ALL_NEWSLETTER_TOPICS,
+  NEWSLETTER_TOPICS,
+  invokeNewsletterFunction,
+  type NewsletterTopic,
+} from "@/lib/newsletterPreferences";
+
+/**
+ * NewsletterSubscribeForm - Public newsletter sign-up, no account required
+ * Sends a confirmation email; the subscription starts once the link in it is clicked
+ */
+
+export const NewsletterSubscribeForm = () => {
+  const [email, setEmail] = useState("");
+  const [topics, setTopics] = useState<NewsletterTopic[]>(ALL_NEWSLETTER_TOPICS);
+  const [website, setWebsite] = useState("");
+  const [status, setStatus] = useState<"idle" | "loading" | "pending" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("loading");
+
+    try {
+      const result = await invokeNewsletterFunction<{ message: string }>("newsletter-subscribe", {
+        email: email.trim(),
+        topics,
+        website,
+      });
+      setStatus("pending");
+      setMessage(result.message);
+    } catch (error) {
+      setStatus("error");
+      setMessage(error instanceof Error ? error.message : "Something went wrong. Please try again later.");
+    }
+  };
+
+  if (status === "pending") {
+    return (
+      <p className="flex items-start gap-2 text-sm text-primary-foreground/80">
+        <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-accent" />
+        {message}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="you@hospital.org"
+          aria-label="Email address"
+          required
+          className="border-primary-foreground/20 bg-primary-foreground/5 text-primary-foreground placeholder:text-primary-foreground/40"
+        />
+        <Button type="submit" variant="secondary" disabled={status === "loading" || topics.length === 0}>
+          {status === "loading" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Subscribe
+        </Button>
+      </div>
+
+      {/* Honeypot: hidden from people, bots fill it in */}
+      <input
+        type="text"
+        name="website"
+        value={website}
+        onChange={(event) => setWebsite(event.target.value)}
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+        className="hidden"
+      />
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {NEWSLETTER_TOPICS.map((topic) => (
+          <label key={topic.value} className="flex items-center gap-2 text-xs text-primary-foreground/70">
+            <Checkbox
+              checked={topics.includes(topic.value)}
+              onCheckedChange={(checked) =>
+                setTopics((current) =>
+                  checked === true ? [...current, topic.value] : current.filter((value) => value !== topic.value)
+                )
+              }
+              className="border-primary-foreground/40"
+            />
+            {topic.label}
+          </label>
+        ))}
+      </div>
+
+      {status === "error" && <p className="text-xs text-red-300">{message}</p>}
+    </form>
+  );
+};
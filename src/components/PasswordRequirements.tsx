@@ -0,0 +1,30 @@
+import { Check, X } from "lucide-react";
+import { validatePassword } from "@/lib/authProxy";
+
+/**
+ * PasswordRequirements - Live checklist of the password rules
+ * Shown under new-password fields on signup and password reset
+ */
+
+const RequirementIndicator = ({ met, label }: { met: boolean; label: string }) => (
+  <div
+    className={`flex items-center gap-2 text-xs ${
+      met ? "text-green-600" : "text-muted-foreground"
+    }`}
+  >
+    {met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+    {label}
+  </div>
+);
+
+export const PasswordRequirements = ({ password }: { password: string }) => {
+  const validation = validatePassword(password);
+
+  return (
+    <div className="space-y-1 mt-2">
+      <RequirementIndicator met={validation.minLength} label="At least 8 characters" />
+      <RequirementIndicator met={validation.hasLetter} label="At least one letter" />
+      <RequirementIndicator met={validation.hasNumber} label="At least one number" />
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { format } from "date-fns";
+import { Eye } from "lucide-react";
+
+/**
+ * PreviewBanner - Fixed notice shown while a page renders a draft from a preview link
+ * Keeps reviewers from mistaking the draft for the live page.
+ */
+
+interface PreviewBannerProps {
+  isPublished: boolean;
+  publishedAt: string | null;
+  expiresAt: string | null;
+}
+
+const PreviewBanner = ({ isPublished, publishedAt, expiresAt }: PreviewBannerProps) => {
+  // Step 1: Describe where the record is in its lifecycle
+  const isLive = isPublished && !!publishedAt && new Date(publishedAt).getTime() <= Date.now();
+  const status = isLive
+    ? "This version is live."
+    : isPublished && publishedAt
+      ? `Scheduled to go live ${format(new Date(publishedAt), "MMM d, yyyy HH:mm")}.`
+      : "This draft is not published.";
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-0 z-50 border-t border-accent/40 bg-primary px-6 py-3 text-primary-foreground shadow-lg"
+    >
+      <div className="mx-auto flex max-w-6xl flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span className="inline-flex items-center gap-2 font-mono text-xs font-bold uppercase tracking-[0.2em] text-accent">
+          <Eye className="h-4 w-4" />
+          Preview
+        </span>
+        <span>{status}</span>
+        {expiresAt && (
+          <span className="text-primary-foreground/70">
+            Link expires {format(new Date(expiresAt), "MMM d, yyyy HH:mm")}.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewBanner;
@@ -3,6 +3,7 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import type { AdminSection } from "@/lib/permissions";
 import SEO from "@/components/SEO";
 import {
   LayoutDashboard,
@@ -13,11 +14,21 @@ import {
   UserRound,
   FileText,
   Mail,
+  MailOpen,
   LogOut,
   Menu,
   X,
   Linkedin,
   HelpCircle,
+  FileCheck2,
+  ShieldCheck,
+  ScrollText,
+  Send,
+  Megaphone,
+  UserCheck,
+  KeyRound,
+  ShieldAlert,
+  type LucideIcon,
 } from "lucide-react";
 import horalixLogo from "@/assets/horalix-logo.png";
 
@@ -30,24 +41,33 @@ interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
-const NAV_ITEMS = [
-  { label: "Dashboard", href: "/admin", icon: LayoutDashboard },
-  { label: "News", href: "/admin/news", icon: Newspaper },
-  { label: "LinkedIn Posts", href: "/admin/linkedin", icon: Linkedin },
-  { label: "Team", href: "/admin/team", icon: Users },
-  { label: "Solutions", href: "/admin/solutions", icon: Layers },
-  { label: "Resources", href: "/admin/resources", icon: LibraryBig },
-  { label: "Contributors", href: "/admin/contributors", icon: UserRound },
-  { label: "Site Content", href: "/admin/content", icon: FileText },
-  { label: "FAQ", href: "/admin/faq", icon: HelpCircle },
-  { label: "Contact Submissions", href: "/admin/contacts", icon: Mail },
+// Each entry shows only to roles with access to its section (lib/permissions)
+const NAV_ITEMS: { label: string; href: string; icon: LucideIcon; section: AdminSection }[] = [
+  { label: "Dashboard", href: "/admin", icon: LayoutDashboard, section: "dashboard" },
+  { label: "News", href: "/admin/news", icon: Newspaper, section: "news" },
+  { label: "LinkedIn Posts", href: "/admin/linkedin", icon: Linkedin, section: "linkedin" },
+  { label: "Team", href: "/admin/team", icon: Users, section: "team" },
+  { label: "Solutions", href: "/admin/solutions", icon: Layers, section: "solutions" },
+  { label: "Resources", href: "/admin/resources", icon: LibraryBig, section: "resources" },
+  { label: "Contributors", href: "/admin/contributors", icon: UserRound, section: "contributors" },
+  { label: "Evidence", href: "/admin/evidence", icon: FileCheck2, section: "evidence" },
+  { label: "Site Content", href: "/admin/content", icon: FileText, section: "content" },
+  { label: "FAQ", href: "/admin/faq", icon: HelpCircle, section: "faq" },
+  { label: "Contact Submissions", href: "/admin/contacts", icon: Mail, section: "contacts" },
+  { label: "Emails", href: "/admin/emails", icon: MailOpen, section: "emails" },
+  { label: "Campaigns", href: "/admin/campaigns", icon: Megaphone, section: "campaigns" },
+  { label: "Newsletter", href: "/admin/newsletter", icon: Send, section: "newsletter" },
+  { label: "Subscribers", href: "/admin/subscribers", icon: UserCheck, section: "subscribers" },
+  { label: "Audit Log", href: "/admin/audit", icon: ScrollText, section: "audit" },
+  { label: "Users & Roles", href: "/admin/users", icon: ShieldCheck, section: "users" },
+  { label: "Rate Limits", href: "/admin/rate-limits", icon: ShieldAlert, section: "rateLimits" },
 ];
 
 export const AdminLayout = ({ children }: AdminLayoutProps) => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, roles, isEditor, can } = useAuth();
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -89,7 +109,7 @@ export const AdminLayout = ({ children }: AdminLayoutProps) => {
         </div>
 
         <nav className="space-y-1 p-4">
-          {NAV_ITEMS.map((item) => {
+          {NAV_ITEMS.filter((item) => can(item.section)).map((item) => {
             const Icon = item.icon;
             const isActive = location.pathname === item.href;
 
@@ -113,6 +133,20 @@ export const AdminLayout = ({ children }: AdminLayoutProps) => {
 
         <div className="absolute bottom-0 left-0 right-0 border-t border-border p-4">
           <div className="mb-2 truncate text-xs text-muted-foreground">{user?.email}</div>
+          {roles.length > 0 && (
+            <div className="mb-2 font-mono text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+              {roles.length === 1 && roles[0] === "viewer" ? "Viewer · read-only" : roles.join(" · ")}
+            </div>
+          )}
+          {isEditor && (
+            <Link
+              to="/admin/mfa"
+              className="mb-2 flex items-center gap-2 text-xs text-muted-foreground transition-colors hover:text-accent"
+            >
+              <KeyRound className="h-3 w-3" />
+              Two-factor settings
+            </Link>
+          )}
           <Button variant="outline" size="sm" className="w-full" onClick={handleLogout}>
             <LogOut className="mr-2 h-4 w-4" />
             Sign Out
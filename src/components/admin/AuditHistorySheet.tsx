@@ -0,0 +1,119 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { AUDIT_ACTION_STYLES, AUDIT_TABLE_LABELS, formatAuditActor, type AuditTableName } from "@/lib/auditLog";
+import { formatFieldValue } from "@/lib/contentDiff";
+
+/**
+ * AuditHistorySheet - Side drawer listing every audit_log entry for one record
+ * Shows who created, changed or deleted it and the before/after value of each changed field
+ */
+
+type AuditEntry = Tables<"audit_log">;
+
+interface AuditHistorySheetProps {
+  tableName: AuditTableName;
+  recordId: string | null;
+  recordLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Long values (article bodies, JSON columns) are clipped; the revision history has the full diff
+const MAX_VALUE_LENGTH = 280;
+
+const clip = (value: Json | undefined) => {
+  const text = formatFieldValue(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const valueOf = (data: Json | null, field: string): Json | undefined =>
+  data && typeof data === "object" && !Array.isArray(data) ? data[field] : undefined;
+
+const AuditEntryChanges = ({ entry }: { entry: AuditEntry }) => {
+  if (entry.action === "delete") {
+    return <p className="text-xs text-muted-foreground">Record deleted.</p>;
+  }
+  if (entry.action === "insert") {
+    return <p className="text-xs text-muted-foreground">Record created.</p>;
+  }
+
+  return (
+    <dl className="space-y-2">
+      {entry.changed_fields.map((field) => (
+        <div key={field} className="text-xs">
+          <dt className="font-mono text-muted-foreground">{field}</dt>
+          <dd className="mt-1 grid gap-1">
+            <span className="whitespace-pre-wrap break-words rounded bg-red-500/10 px-2 py-1 text-red-600 line-through">
+              {clip(valueOf(entry.old_data, field)) || "(empty)"}
+            </span>
+            <span className="whitespace-pre-wrap break-words rounded bg-green-500/10 px-2 py-1 text-green-700">
+              {clip(valueOf(entry.new_data, field)) || "(empty)"}
+            </span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export const AuditHistorySheet = ({ tableName, recordId, recordLabel, open, onOpenChange }: AuditHistorySheetProps) => {
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ["audit-log", tableName, recordId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("audit_log")
+        .select("*")
+        .eq("table_name", tableName)
+        .eq("record_id", recordId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!recordId,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Audit trail{recordLabel ? `: ${recordLabel}` : ""}</SheetTitle>
+          <SheetDescription>{AUDIT_TABLE_LABELS[tableName]} · every change, newest first</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+          </div>
+        ) : !entries || entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <ol className="mt-6 space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-md border border-border p-3">
+                <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs ${AUDIT_ACTION_STYLES[entry.action]?.className ?? "bg-secondary"}`}
+                    >
+                      {AUDIT_ACTION_STYLES[entry.action]?.label ?? entry.action}
+                    </span>
+                    <span className="font-medium">{formatAuditActor(entry)}</span>
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                  </span>
+                </div>
+                <AuditEntryChanges entry={entry} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,70 @@
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Link2, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { PreviewTable } from "@/hooks/useContentPreview";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * PreviewLinkButton - Creates a signed preview link for a draft and copies it to the clipboard
+ * Links open the public page with ?preview=<token>, no admin account required.
+ */
+
+interface PreviewLinkButtonProps {
+  table: PreviewTable;
+  recordId: string;
+  /** Public path prefix, e.g. "/news" */
+  basePath: string;
+}
+
+interface PreviewLinkResponse {
+  token: string;
+  slug: string;
+  expires_at: string;
+}
+
+export const PreviewLinkButton = ({ table, recordId, basePath }: PreviewLinkButtonProps) => {
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke<PreviewLinkResponse>("content-preview", {
+        body: { action: "create", table, record_id: recordId },
+      });
+      if (error) throw error;
+      if (!data?.token) throw new Error("No preview token returned");
+
+      const url = `${window.location.origin}${basePath}/${data.slug}?preview=${encodeURIComponent(data.token)}`;
+      let copied = true;
+      try {
+        await navigator.clipboard.writeText(url);
+      } catch {
+        copied = false;
+      }
+      return { url, copied, expiresAt: data.expires_at };
+    },
+    onSuccess: ({ url, copied, expiresAt }) => {
+      toast({
+        title: copied ? "Preview link copied" : "Preview link created",
+        description: `${copied ? "" : `${url} — `}Expires ${format(new Date(expiresAt), "MMM d, yyyy HH:mm")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  return (
+    <Button
+      size="icon"
+      variant="ghost"
+      title="Copy preview link"
+      onClick={() => createMutation.mutate()}
+      disabled={createMutation.isPending}
+    >
+      {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+    </Button>
+  );
+};
@@ -1,21 +1,29 @@
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useMfaStatus } from "@/hooks/useMfaStatus";
+import type { AdminSection } from "@/lib/permissions";
 import { Loader2 } from "lucide-react";
 
 /**
  * ProtectedRoute - Wrapper for admin-only routes
- * Redirects to login if user is not authenticated or lacks permissions
+ * Redirects to login if user is not authenticated or lacks permissions, admins and
+ * editors to /admin/mfa until they have signed in with their authenticator (aal2), and
+ * staff without access to the page's section (lib/permissions) to the dashboard
  */
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  /** The admin section this page belongs to; staff without access are sent to the dashboard */
+  section?: AdminSection;
 }
 
-export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { user, isLoading, isEditor } = useAuth();
+export const ProtectedRoute = ({ children, section }: ProtectedRouteProps) => {
+  const { user, isLoading, isEditor, hasAdminAccess, can } = useAuth();
+  const { status: mfaStatus, isLoading: mfaLoading } = useMfaStatus(user);
+  const location = useLocation();
 
   // Step 1: Show loading state while checking auth
-  if (isLoading) {
+  if (isLoading || mfaLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Loader2 className="w-8 h-8 animate-spin text-accent" />
@@ -28,11 +36,22 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/admin/login" replace />;
   }
 
-  // Step 3: Redirect to login if not an admin/editor
-  if (!isEditor) {
+  // Step 3: Redirect to login if not staff (viewers get read-only access)
+  if (!hasAdminAccess) {
     return <Navigate to="/admin/login" replace />;
   }
 
-  // Step 4: Render protected content
+  // Step 4: Admins and editors need two-factor authentication
+  if (isEditor && !mfaStatus?.verified) {
+    const returnTo = `${location.pathname}${location.search}`;
+    return <Navigate to={`/admin/mfa?returnTo=${encodeURIComponent(returnTo)}`} replace />;
+  }
+
+  // Step 5: Keep sections away from roles without access
+  if (section && !can(section)) {
+    return <Navigate to="/admin" replace />;
+  }
+
+  // Step 6: Render protected content
   return <>{children}</>;
 };
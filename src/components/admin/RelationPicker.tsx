@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * RelationPicker - Searchable checkbox list for linking records by key
+ * Selected keys that no longer match an option are kept and listed as unknown
+ */
+
+export interface RelationOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+interface RelationPickerProps {
+  label: string;
+  options: RelationOption[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  emptyMessage?: string;
+}
+
+export const RelationPicker = ({
+  label,
+  options,
+  value,
+  onChange,
+  emptyMessage = "Nothing to link yet.",
+}: RelationPickerProps) => {
+  const [filter, setFilter] = useState("");
+  const query = filter.trim().toLowerCase();
+  const visibleOptions = query
+    ? options.filter(
+        (option) =>
+          option.label.toLowerCase().includes(query) || option.value.toLowerCase().includes(query),
+      )
+    : options;
+  const unknownValues = value.filter((item) => !options.some((option) => option.value === item));
+
+  const toggle = (optionValue: string, checked: boolean) => {
+    onChange(checked ? [...value, optionValue] : value.filter((item) => item !== optionValue));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>{label}</Label>
+        <span className="text-xs text-muted-foreground">{value.length} selected</span>
+      </div>
+      {options.length > 6 && (
+        <Input value={filter} onChange={(event) => setFilter(event.target.value)} placeholder="Filter..." className="h-8" />
+      )}
+      <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border border-input p-3">
+        {visibleOptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{options.length === 0 ? emptyMessage : "No matches."}</p>
+        ) : (
+          visibleOptions.map((option) => (
+            <label key={option.value} className="flex cursor-pointer items-start gap-2 text-sm">
+              <Checkbox
+                checked={value.includes(option.value)}
+                onCheckedChange={(checked) => toggle(option.value, checked === true)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                {option.description && <span className="block text-xs text-muted-foreground">{option.description}</span>}
+              </span>
+            </label>
+          ))
+        )}
+      </div>
+      {unknownValues.length > 0 && (
+        <p className="text-xs text-destructive">
+          Unknown: {unknownValues.join(", ")}{" "}
+          <button
+            type="button"
+            className="underline"
+            onClick={() => onChange(value.filter((item) => !unknownValues.includes(item)))}
+          >
+            Remove
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { CitedClaimDraft, KeyTakeawayDraft, SectionDraft } from "@/lib/resourceStructure";
+import { RelationPicker, type RelationOption } from "./RelationPicker";
+
+/**
+ * ResourceStructureEditors - Repeatable editors for structured resource content
+ * Mirrors the keyTakeaways / sections / citedClaims shapes rendered by ResourceDetail
+ */
+
+// Step 1: Shared list helpers
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const updateItem = <T,>(items: T[], index: number, patch: Partial<T>) =>
+  items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item));
+
+interface ItemToolbarProps {
+  title: string;
+  index: number;
+  count: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}
+
+const ItemToolbar = ({ title, index, count, onMove, onRemove }: ItemToolbarProps) => (
+  <div className="flex items-center justify-between">
+    <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+      {title} {index + 1}
+    </span>
+    <div className="flex items-center gap-1">
+      <Button type="button" size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => onMove(index - 1)}>
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7"
+        disabled={index === count - 1}
+        onClick={() => onMove(index + 1)}
+      >
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={onRemove}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+// Step 2: Key takeaways
+interface KeyTakeawaysEditorProps {
+  value: KeyTakeawayDraft[];
+  onChange: (value: KeyTakeawayDraft[]) => void;
+}
+
+export const KeyTakeawaysEditor = ({ value, onChange }: KeyTakeawaysEditorProps) => (
+  <div className="space-y-3">
+    <Label>Key Takeaways</Label>
+    {value.map((takeaway, index) => (
+      <div key={index} className="space-y-2 rounded-md border border-border p-3">
+        <ItemToolbar
+          title="Takeaway"
+          index={index}
+          count={value.length}
+          onMove={(to) => onChange(moveItem(value, index, to))}
+          onRemove={() => onChange(value.filter((_, itemIndex) => itemIndex !== index))}
+        />
+        <Input
+          value={takeaway.label}
+          onChange={(event) => onChange(updateItem(value, index, { label: event.target.value }))}
+          placeholder="Label, e.g. Workflow change"
+        />
+        <Textarea
+          value={takeaway.text}
+          onChange={(event) => onChange(updateItem(value, index, { text: event.target.value }))}
+          rows={2}
+          placeholder="Takeaway"
+        />
+      </div>
+    ))}
+    <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, { label: "", text: "" }])}>
+      <Plus className="mr-2 h-4 w-4" />
+      Add takeaway
+    </Button>
+  </div>
+);
+
+// Step 3: Sections
+interface SectionsEditorProps {
+  value: SectionDraft[];
+  onChange: (value: SectionDraft[]) => void;
+}
+
+export const SectionsEditor = ({ value, onChange }: SectionsEditorProps) => (
+  <div className="space-y-3">
+    <Label>Sections</Label>
+    {value.map((section, index) => (
+      <div key={index} className="space-y-2 rounded-md border border-border p-3">
+        <ItemToolbar
+          title="Section"
+          index={index}
+          count={value.length}
+          onMove={(to) => onChange(moveItem(value, index, to))}
+          onRemove={() => onChange(value.filter((_, itemIndex) => itemIndex !== index))}
+        />
+        <Input
+          value={section.title}
+          onChange={(event) => onChange(updateItem(value, index, { title: event.target.value }))}
+          placeholder="Section title"
+        />
+        <Textarea
+          value={section.paragraphs}
+          onChange={(event) => onChange(updateItem(value, index, { paragraphs: event.target.value }))}
+          rows={5}
+          placeholder="Paragraphs, separated by a blank line"
+        />
+        <Textarea
+          value={section.bullets}
+          onChange={(event) => onChange(updateItem(value, index, { bullets: event.target.value }))}
+          rows={3}
+          placeholder="Bullets, one per line (optional)"
+        />
+      </div>
+    ))}
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={() => onChange([...value, { title: "", paragraphs: "", bullets: "" }])}
+    >
+      <Plus className="mr-2 h-4 w-4" />
+      Add section
+    </Button>
+  </div>
+);
+
+// Step 4: Cited claims
+interface CitedClaimsEditorProps {
+  value: CitedClaimDraft[];
+  onChange: (value: CitedClaimDraft[]) => void;
+  sourceOptions: RelationOption[];
+}
+
+export const CitedClaimsEditor = ({ value, onChange, sourceOptions }: CitedClaimsEditorProps) => (
+  <div className="space-y-3">
+    <Label>Cited Claims</Label>
+    {value.map((claim, index) => (
+      <div key={index} className="space-y-2 rounded-md border border-border p-3">
+        <ItemToolbar
+          title="Claim"
+          index={index}
+          count={value.length}
+          onMove={(to) => onChange(moveItem(value, index, to))}
+          onRemove={() => onChange(value.filter((_, itemIndex) => itemIndex !== index))}
+        />
+        <Textarea
+          value={claim.text}
+          onChange={(event) => onChange(updateItem(value, index, { text: event.target.value }))}
+          rows={2}
+          placeholder="Claim text"
+        />
+        <RelationPicker
+          label="Sources"
+          options={sourceOptions}
+          value={claim.sourceIds}
+          onChange={(sourceIds) => onChange(updateItem(value, index, { sourceIds }))}
+          emptyMessage="No evidence sources available."
+        />
+      </div>
+    ))}
+    <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, { text: "", sourceIds: [] }])}>
+      <Plus className="mr-2 h-4 w-4" />
+      Add claim
+    </Button>
+  </div>
+);
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { diffSnapshots, type RevisionTableName } from "@/lib/contentDiff";
+import { cn } from "@/lib/utils";
+
+/**
+ * RevisionHistoryDialog - Lists content_revisions for one record with a per-revision diff
+ * Restoring goes through restore_content_revision, which keeps publish state untouched
+ */
+
+type ContentRevision = Tables<"content_revisions">;
+
+interface RevisionHistoryDialogProps {
+  tableName: RevisionTableName;
+  recordId: string | null;
+  recordLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Query keys to refresh after a restore, e.g. the manager's list */
+  invalidateKeys?: string[][];
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  insert: "Created",
+  update: "Edited",
+  restore: "Restored",
+};
+
+export const RevisionHistoryDialog = ({
+  tableName,
+  recordId,
+  recordLabel,
+  open,
+  onOpenChange,
+  invalidateKeys = [],
+}: RevisionHistoryDialogProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isEditor } = useAuth();
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ["content-revisions", tableName, recordId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("content_revisions")
+        .select("*")
+        .eq("table_name", tableName)
+        .eq("record_id", recordId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!recordId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const { error } = await supabase.rpc("restore_content_revision", { _revision_id: revisionId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["content-revisions", tableName, recordId] });
+      invalidateKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setConfirmRestore(false);
+      setSelectedId(null);
+      toast({ title: "Revision restored" });
+    },
+    onError: (error: Error) => {
+      setConfirmRestore(false);
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  // Step 1: Resolve the selected revision and the one before it
+  const list = revisions ?? [];
+  const selectedIndex = Math.max(
+    0,
+    list.findIndex((revision) => revision.id === selectedId),
+  );
+  const selected: ContentRevision | undefined = list[selectedIndex];
+  const previous: ContentRevision | undefined = list[selectedIndex + 1];
+  const isCurrent = selectedIndex === 0;
+
+  // Step 2: Diff against the previous revision (or an empty record for the first one)
+  const fieldDiffs = selected ? diffSnapshots(previous?.snapshot ?? null, selected.snapshot) : [];
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setSelectedId(null);
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] max-w-5xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Revision history{recordLabel ? `: ${recordLabel}` : ""}</DialogTitle>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="py-8 text-center">
+              <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+            </div>
+          ) : list.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No revisions recorded yet.</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+              <ul className="max-h-[65vh] space-y-1 overflow-y-auto pr-1">
+                {list.map((revision, index) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        "w-full rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                        index === selectedIndex ? "border-accent bg-accent/10" : "border-border hover:bg-muted",
+                      )}
+                    >
+                      <span className="block font-medium">{format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {OPERATION_LABELS[revision.operation] ?? revision.operation}
+                        {index === 0 && " · current"}
+                        {revision.operation !== "insert" && (revision.is_substantive ? " · substantive" : " · minor")}
+                      </span>
+                      {revision.changed_fields.length > 0 && (
+                        <span className="mt-1 block truncate font-mono text-[10px] text-muted-foreground">
+                          {revision.changed_fields.join(", ")}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground">
+                    {previous ? "Changes compared with the previous revision" : "Initial version"}
+                  </p>
+                  {isEditor && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isCurrent || restoreMutation.isPending}
+                      onClick={() => setConfirmRestore(true)}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                {fieldDiffs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No content fields changed in this revision.</p>
+                ) : (
+                  fieldDiffs.map((fieldDiff) => (
+                    <section key={fieldDiff.field} className="overflow-hidden rounded-md border border-border">
+                      <p className="border-b border-border bg-muted px-3 py-1.5 font-mono text-xs">{fieldDiff.field}</p>
+                      <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words p-0 text-xs leading-5">
+                        {fieldDiff.lines.map((line, index) => (
+                          <div
+                            key={index}
+                            className={cn(
+                              "px-3",
+                              line.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400",
+                              line.type === "removed" && "bg-red-500/15 text-red-700 line-through dark:text-red-400",
+                              line.type === "same" && "text-muted-foreground",
+                            )}
+                          >
+                            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                            {line.text || " "}
+                          </div>
+                        ))}
+                      </pre>
+                    </section>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Content fields are replaced with this revision and recorded as a new substantive update. Publish status
+              and the first-publish date stay as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (selected) restoreMutation.mutate(selected.id);
+              }}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
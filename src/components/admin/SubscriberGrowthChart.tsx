@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * SubscriberGrowthChart - Newsletter list size and daily joins/leaves
+ * Built on newsletter_subscriber_growth(), which counts the running total back from today
+ */
+
+const RANGES = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "12 months" },
+];
+
+const chartConfig = {
+  total: { label: "Subscribers", color: "hsl(var(--accent))" },
+  subscribed: { label: "Joined", color: "hsl(142 71% 45%)" },
+  unsubscribed: { label: "Left", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const formatDay = (value: string) => format(new Date(`${value}T00:00:00`), "MMM d");
+
+export const SubscriberGrowthChart = () => {
+  const [days, setDays] = useState(90);
+
+  const { data: growth, isLoading } = useQuery({
+    queryKey: ["admin-subscriber-growth", days],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("newsletter_subscriber_growth", { _days: days });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const joined = growth?.reduce((sum, point) => sum + point.subscribed, 0) ?? 0;
+  const left = growth?.reduce((sum, point) => sum + point.unsubscribed, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Growth</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {joined} joined, {left} left in the last {RANGES.find((range) => range.days === days)?.label}
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(event) => setDays(Number(event.target.value))}
+          aria-label="Chart range"
+          className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+        >
+          {RANGES.map((range) => (
+            <option key={range.days} value={range.days}>
+              {range.label}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !growth ? (
+          <div className="flex h-[240px] items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ChartContainer config={chartConfig} className="h-[240px] w-full">
+              <AreaChart data={growth} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatDay} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <Area
+                  dataKey="total"
+                  type="monotone"
+                  stroke="var(--color-total)"
+                  fill="var(--color-total)"
+                  fillOpacity={0.2}
+                />
+              </AreaChart>
+            </ChartContainer>
+            <ChartContainer config={chartConfig} className="h-[240px] w-full">
+              <BarChart data={growth} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatDay} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="subscribed" fill="var(--color-subscribed)" radius={2} />
+                <Bar dataKey="unsubscribed" fill="var(--color-unsubscribed)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
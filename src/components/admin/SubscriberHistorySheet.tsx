@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { supabase } from "@/integrations/supabase/client";
+import { NEWSLETTER_TOPICS } from "@/lib/newsletterPreferences";
+import { SUBSCRIBER_SOURCE_LABELS, SUBSCRIPTION_EVENT_LABELS } from "@/lib/newsletterSubscribers";
+
+/**
+ * SubscriberHistorySheet - Side drawer listing every subscribe/unsubscribe event for one address
+ * Reads newsletter_subscription_events by email, so removed and re-added subscribers keep their history
+ */
+
+interface SubscriberHistorySheetProps {
+  email: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const topicLabel = (topic: string) => NEWSLETTER_TOPICS.find((option) => option.value === topic)?.label ?? topic;
+
+// Without a signed-in actor the change came from the subscriber's own links or from a bounce;
+// for the first event the row's source says where the address came from
+const describeActor = (event: { event: string; actor_email: string | null; source: string | null }) => {
+  if (event.actor_email) return `By ${event.actor_email}`;
+  if ((event.event === "pending" || event.event === "subscribed") && event.source) {
+    return SUBSCRIBER_SOURCE_LABELS[event.source] ?? event.source;
+  }
+  return "Self-service or automatic";
+};
+
+export const SubscriberHistorySheet = ({ email, open, onOpenChange }: SubscriberHistorySheetProps) => {
+  const { data: events, isLoading } = useQuery({
+    queryKey: ["admin-subscriber-history", email],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("newsletter_subscription_events")
+        .select("*")
+        .eq("email", email)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!email,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Subscription history</SheetTitle>
+          <SheetDescription>{email} · newest first</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+          </div>
+        ) : !events || events.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No history recorded yet.</p>
+        ) : (
+          <ol className="mt-6 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="rounded-md border border-border p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium">{SUBSCRIPTION_EVENT_LABELS[event.event] ?? event.event}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(event.created_at), "MMM d, yyyy HH:mm")}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {describeActor(event)}
+                  {event.topics.length > 0 && ` · ${event.topics.map(topicLabel).join(", ")}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
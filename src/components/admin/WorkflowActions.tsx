@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  WORKFLOW_ACTIONS,
+  getAvailableActions,
+  type WorkflowAction,
+  type WorkflowPermissions,
+  type WorkflowTable,
+} from "@/lib/editorialWorkflow";
+import { isFutureTimestamp } from "@/lib/publishSchedule";
+
+/**
+ * WorkflowActions - Row menu that moves a news article or resource through editorial review
+ * Transitions run through transition_content_workflow; publishing a news article that is
+ * due now also sends its newsletter (scheduled ones are sent by publish-scheduled).
+ */
+
+interface WorkflowActionsProps extends WorkflowPermissions {
+  table: WorkflowTable;
+  recordId: string;
+  status: string;
+  publishedAt: string | null;
+  /** Query keys to refresh after a transition */
+  invalidateKeys: string[][];
+}
+
+interface TransitionRequest {
+  action: WorkflowAction;
+  note?: string;
+}
+
+// Returns a warning message when the newsletter could not be sent, null otherwise
+const sendArticleNewsletter = async (articleId: string): Promise<string | null> => {
+  try {
+    const { data: result, error: fnError } = await supabase.functions.invoke("send-newsletter", {
+      body: { article_id: articleId },
+    });
+
+    if (fnError) {
+      console.error("Newsletter function error:", fnError);
+      return `Newsletter send failed: ${fnError.message}`;
+    }
+    if (result?.error) {
+      console.error("Newsletter error:", result.error);
+      return `Newsletter failed: ${result.error}`;
+    }
+    if (result?.skipped) {
+      console.log("Newsletter already sent for this article");
+    } else if (result?.success) {
+      console.log(`Newsletter queued for ${result.recipients} subscribers`);
+    }
+    return null;
+  } catch (newsletterError: unknown) {
+    const message = newsletterError instanceof Error ? newsletterError.message : "Unknown newsletter error";
+    console.error("Failed to send newsletter:", newsletterError);
+    return `Newsletter failed: ${message}`;
+  }
+};
+
+export const WorkflowActions = ({
+  table,
+  recordId,
+  status,
+  publishedAt,
+  invalidateKeys,
+  ...permissions
+}: WorkflowActionsProps) => {
+  const [noteAction, setNoteAction] = useState<WorkflowAction | null>(null);
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const actions = getAvailableActions(table, status, permissions);
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ action, note: reviewNote }: TransitionRequest) => {
+      const { error } = await supabase.rpc("transition_content_workflow", {
+        _table: table,
+        _record_id: recordId,
+        _action: action,
+        _note: reviewNote || null,
+      });
+      if (error) throw error;
+
+      // Step 1: A news article that goes live now sends its newsletter straight away
+      const goesLiveNow = action === "publish" && !isFutureTimestamp(publishedAt);
+      const newsletterWarning =
+        table === "news_articles" && goesLiveNow ? await sendArticleNewsletter(recordId) : null;
+
+      return { action, newsletterWarning };
+    },
+    onSuccess: ({ action, newsletterWarning }) => {
+      invalidateKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setNoteAction(null);
+      setNote("");
+
+      if (newsletterWarning) {
+        toast({ variant: "destructive", title: "Published with warnings", description: newsletterWarning });
+        return;
+      }
+      toast({ title: WORKFLOW_ACTIONS[action].doneLabel });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  if (actions.length === 0) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" disabled={transitionMutation.isPending}>
+            {transitionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Workflow
+            <ChevronDown className="ml-1 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {actions.map((action) => (
+            <DropdownMenuItem
+              key={action}
+              onSelect={() => {
+                if (WORKFLOW_ACTIONS[action].withNote) {
+                  setNoteAction(action);
+                } else {
+                  transitionMutation.mutate({ action });
+                }
+              }}
+            >
+              {WORKFLOW_ACTIONS[action].label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={!!noteAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setNoteAction(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent aria-describedby="workflow-note-description">
+          <DialogHeader>
+            <DialogTitle>{noteAction ? WORKFLOW_ACTIONS[noteAction].label : ""}</DialogTitle>
+            <DialogDescription id="workflow-note-description">
+              {noteAction === "request_changes"
+                ? "Explain what needs to change. The item goes back to draft."
+                : "Optionally leave a note for the editor."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workflow-note">Review notes</Label>
+            <Textarea
+              id="workflow-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={4}
+              required={noteAction === "request_changes"}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNoteAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={transitionMutation.isPending || (noteAction === "request_changes" && !note.trim())}
+              onClick={() => noteAction && transitionMutation.mutate({ action: noteAction, note })}
+            >
+              {transitionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {noteAction ? WORKFLOW_ACTIONS[noteAction].label : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
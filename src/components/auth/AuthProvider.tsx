@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useState } from "react";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type AuthState } from "@/hooks/useAuth";
+import { hasSectionPermission, readRoleClaim, ROLE_ORDER, type AppRole } from "@/lib/permissions";
+
+/**
+ * AuthProvider - Session and staff roles for the whole app (read with useAuth)
+ * Roles come from the user_roles claim that the custom access token hook adds to every
+ * token (see the user_roles_jwt_claim migration), so they update with each token refresh.
+ */
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  // undefined until the stored session has been read
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [lookedUpRoles, setLookedUpRoles] = useState<{ userId: string; roles: AppRole[] } | null>(null);
+
+  // Step 1: Follow the session; the first event carries the stored session
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Step 2: Read roles from the token
+  const claimedRoles = useMemo(() => (session ? readRoleClaim(session.access_token) : null), [session]);
+
+  // Step 3: Sessions from before the hook was enabled have no claim; look the roles up once
+  const userId = session?.user.id ?? null;
+  const needsLookup = !!userId && claimedRoles === null;
+
+  useEffect(() => {
+    if (!needsLookup) return;
+
+    let cancelled = false;
+    supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", userId)
+      .then(({ data }) => {
+        if (cancelled) return;
+        const held = (data ?? []).map((row) => row.role);
+        setLookedUpRoles({ userId, roles: ROLE_ORDER.filter((role) => held.includes(role)) });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsLookup, userId]);
+
+  const value = useMemo<AuthState>(() => {
+    const user = session?.user ?? null;
+    const roles = user
+      ? (claimedRoles ?? (lookedUpRoles?.userId === user.id ? lookedUpRoles.roles : null))
+      : [];
+    const resolvedRoles = roles ?? [];
+
+    return {
+      session: session ?? null,
+      user,
+      roles: resolvedRoles,
+      role: resolvedRoles[0] ?? null,
+      isLoading: session === undefined || roles === null,
+      isAdmin: resolvedRoles.includes("admin"),
+      isEditor: resolvedRoles.includes("admin") || resolvedRoles.includes("editor"),
+      hasAdminAccess: resolvedRoles.length > 0,
+      can: (section, permission) => hasSectionPermission(resolvedRoles, section, permission),
+    };
+  }, [session, claimedRoles, lookedUpRoles]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
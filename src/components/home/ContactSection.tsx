@@ -1,5 +1,4 @@
-import { useState, useEffect, forwardRef } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, forwardRef } from "react";
 import horalixLogoWhite from "@/assets/horalix-logo-white.png";
 import { ShieldCheck, Send, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -8,24 +7,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/hooks/useAuth";
+import { fetchFormChallenge, type SolvedFormChallenge } from "@/lib/formChallenge";
+import { SubmissionSuccessModal } from "./SubmissionSuccessModal";
 import { z } from "zod";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 
-// localStorage key for saving pending contact form data
+// Form data saved by the old sign-in-to-submit flow; restored once, then cleared
 const PENDING_CONTACT_KEY = "horalix_pending_contact";
 
 /**
  * ContactSection - Contact form with validation
- * Stores submissions to database (email notification handled by edge function)
- * If user is not logged in, shows dialog and auto-submits after authentication
+ * Submits through the contact-submit edge function, no account needed. A signed challenge
+ * is fetched (and its proof of work solved) when the form is first used; signed-in visitors
+ * are linked to their submission by the function.
  */
 
 // Form validation schema
@@ -49,18 +42,49 @@ const contactSchema = z.object({
 
 type ContactFormData = z.infer<typeof contactSchema>;
 
+interface SubmitResult {
+  success?: boolean;
+  team_notified?: boolean;
+  user_notified?: boolean;
+}
+
+class ContactSubmitError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
 export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
   const { toast } = useToast();
   const { user, isLoading: authLoading } = useAuth();
-  const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const [showSuccess, setShowSuccess] = useState(false);
   const [formData, setFormData] = useState<ContactFormData>({
     name: "",
     email: "",
     message: "",
   });
+  const [website, setWebsite] = useState("");
   const [errors, setErrors] = useState<Partial<ContactFormData>>({});
+  const challengeRef = useRef<Promise<SolvedFormChallenge> | null>(null);
+
+  // Restore a message saved by the old sign-in-to-submit flow
+  useEffect(() => {
+    const saved = localStorage.getItem(PENDING_CONTACT_KEY);
+    if (!saved) return;
+    localStorage.removeItem(PENDING_CONTACT_KEY);
+    try {
+      const { name, email, message } = JSON.parse(saved);
+      setFormData((prev) => ({
+        name: typeof name === "string" ? name : prev.name,
+        email: typeof email === "string" ? email : prev.email,
+        message: typeof message === "string" ? message : prev.message,
+      }));
+    } catch {
+      // Ignore malformed data
+    }
+  }, []);
+
   // Pre-fill form with user data
   useEffect(() => {
     const prefillFromProfile = async () => {
@@ -76,13 +100,12 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
             .eq("user_id", user.id)
             .maybeSingle();
 
-          if (data) {
-            setFormData((prev) => ({
-              ...prev,
-              name: data.full_name || prev.name,
-              email: data.email || user.email || prev.email,
-            }));
-          }
+          // Signed-in submissions always use the account's address (see contact-submit)
+          setFormData((prev) => ({
+            ...prev,
+            name: prev.name || data?.full_name || "",
+            email: user.email || prev.email,
+          }));
         } catch (error) {
           console.error("Error fetching user profile:", error);
         }
@@ -92,6 +115,19 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
     prefillFromProfile();
   }, [user, authLoading]);
 
+  // Fetch the challenge when the form is first used so the proof of work runs while typing
+  const prepareChallenge = () => {
+    if (!challengeRef.current) {
+      const challenge = fetchFormChallenge("contact-submit");
+      // A failed fetch is retried on the next attempt
+      challenge.catch(() => {
+        if (challengeRef.current === challenge) challengeRef.current = null;
+      });
+      challengeRef.current = challenge;
+    }
+    return challengeRef.current;
+  };
+
   // Handle input changes
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -104,11 +140,24 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
     }
   };
 
-  // Handle dialog continue to login
-  const handleContinueToLogin = () => {
-    setShowLoginDialog(false);
-    // Navigate to login without hash - PendingSubmissionHandler will auto-submit
-    navigate("/login?returnTo=/");
+  const submitToFunction = async (data: ContactFormData): Promise<SubmitResult> => {
+    const challenge = await prepareChallenge();
+    const { data: result, error } = await supabase.functions.invoke("contact-submit", {
+      body: { action: "submit", ...data, website, token: challenge.token, nonce: challenge.nonce },
+    });
+    if (error) {
+      const context = (error as { context?: Response }).context;
+      const errorBody = context ? await context.json().catch(() => null) : null;
+      // Anything but "too fast" needs a fresh challenge for the next attempt
+      if (errorBody?.code !== "too_fast") challengeRef.current = null;
+      throw new ContactSubmitError(
+        errorBody?.error || "Unable to send message. Please try again later.",
+        errorBody?.code
+      );
+    }
+    // Each challenge is good for one submission
+    challengeRef.current = null;
+    return result as SubmitResult;
   };
 
   // Handle form submission
@@ -116,7 +165,6 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
     e.preventDefault();
     setErrors({});
 
-    // Validate form data first (so we save valid data)
     const result = contactSchema.safeParse(formData);
     if (!result.success) {
       const fieldErrors: Partial<ContactFormData> = {};
@@ -129,55 +177,20 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
       return;
     }
 
-    // Check if user is logged in - require login to submit
-    if (!user) {
-      // Save complete form data to localStorage for auto-submit after login
-      localStorage.setItem(
-        PENDING_CONTACT_KEY,
-        JSON.stringify({
-          name: result.data.name,
-          email: result.data.email,
-          message: result.data.message,
-          savedAt: new Date().toISOString(),
-        })
-      );
-      // Show dialog instead of immediate redirect
-      setShowLoginDialog(true);
-      return;
-    }
-
-    // Form data already validated above
-
     setIsSubmitting(true);
 
     try {
-      // Store submission in database (user is required now)
-      const { data: insertData, error } = await supabase
-        .from("contact_submissions")
-        .insert({
-          name: result.data.name,
-          email: result.data.email,
-          message: result.data.message,
-          user_id: user.id,
-        })
-        .select("id")
-        .single();
-
-      if (error) throw error;
-
-      // Invoke notification edge function and surface errors to the user
-      const { data: notificationResult, error: notificationError } =
-        await supabase.functions.invoke("send-contact-notification", {
-          body: { submission_id: insertData.id },
-        });
+      let submitResult: SubmitResult;
+      try {
+        submitResult = await submitToFunction(result.data);
+      } catch (error) {
+        // An expired challenge (e.g. the page was left open) is retried once with a new one
+        if (!(error instanceof ContactSubmitError) || error.code !== "invalid") throw error;
+        submitResult = await submitToFunction(result.data);
+      }
 
-      if (
-        notificationError ||
-        notificationResult?.error ||
-        notificationResult?.team_notified === false ||
-        notificationResult?.user_notified === false
-      ) {
-        console.error("Contact notification failed:", notificationError || notificationResult);
+      if (submitResult?.team_notified === false || submitResult?.user_notified === false) {
+        console.error("Contact notification failed:", submitResult);
         toast({
           title: "Notification Warning",
           description:
@@ -186,22 +199,17 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
         });
       }
 
-      // Clear any saved form data
-      localStorage.removeItem(PENDING_CONTACT_KEY);
-
-      // Show success message
-      toast({
-        title: "Message Transmitted",
-        description: "Your inquiry has been received. We'll respond shortly.",
-      });
-
-      // Reset form
-      setFormData({ name: "", email: "", message: "" });
+      // Show success message and reset the message, keeping name and email
+      setShowSuccess(true);
+      setFormData((prev) => ({ ...prev, message: "" }));
     } catch (error) {
       console.error("Contact form submission error:", error);
       toast({
         title: "Transmission Failed",
-        description: "Unable to send message. Please try again later.",
+        description:
+          error instanceof ContactSubmitError
+            ? error.message
+            : "Unable to send message. Please try again later.",
         variant: "destructive",
       });
     } finally {
@@ -245,7 +253,7 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
           </div>
 
           {/* Contact form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <form onSubmit={handleSubmit} onFocus={prepareChallenge} className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Name field */}
               <div className="space-y-2">
@@ -291,7 +299,11 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
                     errors.email ? "border-destructive" : ""
                   }`}
                   disabled={isSubmitting}
+                  readOnly={!!user?.email}
                 />
+                {user?.email && !errors.email && (
+                  <p className="text-xs text-muted-foreground">Replies go to your account's email address.</p>
+                )}
                 {errors.email && (
                   <p className="text-xs text-destructive">{errors.email}</p>
                 )}
@@ -323,6 +335,18 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
               )}
             </div>
 
+            {/* Honeypot: hidden from people, bots fill it in */}
+            <input
+              type="text"
+              name="website"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              tabIndex={-1}
+              autoComplete="off"
+              aria-hidden="true"
+              className="hidden"
+            />
+
             {/* Submit section */}
             <div className="pt-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -351,27 +375,11 @@ export const ContactSection = forwardRef<HTMLElement>((_, ref) => {
         </div>
       </div>
 
-      {/* Login required dialog */}
-      <AlertDialog open={showLoginDialog} onOpenChange={setShowLoginDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Sign In Required</AlertDialogTitle>
-            <AlertDialogDescription>
-              Your message has been saved. Please sign in or create an account
-              to submit your inquiry. Once you're signed in, your form will be
-              automatically submitted.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <Button variant="outline" onClick={() => setShowLoginDialog(false)}>
-              Cancel
-            </Button>
-            <AlertDialogAction onClick={handleContinueToLogin}>
-              Continue to Sign In
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <SubmissionSuccessModal
+        open={showSuccess}
+        onClose={() => setShowSuccess(false)}
+        showSubmissionsLink={!!user}
+      />
     </section>
   );
 });
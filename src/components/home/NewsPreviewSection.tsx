@@ -24,6 +24,7 @@ export const NewsPreviewSection = () => {
         .from("news_articles")
         .select("id, slug, title, summary, image_urls, category, location, published_at, display_date")
         .eq("is_published", true)
+        .lte("published_at", new Date().toISOString())
         .order("display_date", { ascending: false, nullsFirst: false })
         .limit(10);
 
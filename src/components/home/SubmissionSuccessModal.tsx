@@ -12,15 +12,18 @@ import { Button } from "@/components/ui/button";
 interface SubmissionSuccessModalProps {
   open: boolean;
   onClose: () => void;
+  /** Signed-in senders can follow the conversation on their submissions page */
+  showSubmissionsLink?: boolean;
 }
 
 /**
- * SubmissionSuccessModal - Prominent confirmation after auto-submission
+ * SubmissionSuccessModal - Prominent confirmation after a contact submission
  * Displays center-screen to ensure users don't miss the confirmation
  */
 export const SubmissionSuccessModal = ({
   open,
   onClose,
+  showSubmissionsLink = true,
 }: SubmissionSuccessModalProps) => {
   const navigate = useNavigate();
 
@@ -51,13 +54,15 @@ export const SubmissionSuccessModal = ({
 
         {/* Step 4: Action buttons */}
         <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:justify-center">
-          <Button
-            variant="outline"
-            onClick={handleViewSubmissions}
-            className="order-2 sm:order-1"
-          >
-            View My Submissions
-          </Button>
+          {showSubmissionsLink && (
+            <Button
+              variant="outline"
+              onClick={handleViewSubmissions}
+              className="order-2 sm:order-1"
+            >
+              View My Submissions
+            </Button>
+          )}
           <Button onClick={onClose} className="order-1 sm:order-2">
             Got it
           </Button>
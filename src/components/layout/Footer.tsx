@@ -2,6 +2,7 @@ import { forwardRef } from "react";
 import { Link, useLocation } from "react-router-dom";
 
 import horalixLogo from "@/assets/horalix-logo.png";
+import { NewsletterSubscribeForm } from "@/components/NewsletterSubscribeForm";
 
 export const Footer = forwardRef<HTMLElement>((_, ref) => {
   const currentYear = new Date().getFullYear();
@@ -28,6 +29,10 @@ export const Footer = forwardRef<HTMLElement>((_, ref) => {
               Horalix builds clinical AI workflow software that helps care teams move from manual
               measurement toward faster, more structured reporting operations.
             </p>
+            <div className="mt-6 max-w-md">
+              <h4 className="mb-3 text-xs font-bold uppercase tracking-widest text-accent">Newsletter</h4>
+              <NewsletterSubscribeForm />
+            </div>
           </div>
 
           <div>
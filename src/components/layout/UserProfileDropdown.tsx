@@ -26,7 +26,7 @@ interface ProfileData {
 export const UserProfileDropdown = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user, isAdmin, isEditor } = useAuth();
+  const { user, hasAdminAccess } = useAuth();
   const [profile, setProfile] = useState<ProfileData | null>(null);
 
   // Fetch profile data
@@ -133,8 +133,8 @@ export const UserProfileDropdown = () => {
           </Link>
         </DropdownMenuItem>
 
-        {/* Admin CMS link - only for admin/editor roles */}
-        {(isAdmin || isEditor) && (
+        {/* Admin CMS link - only for staff roles */}
+        {hasAdminAccess && (
           <>
             <DropdownMenuSeparator />
             <DropdownMenuItem asChild className="cursor-pointer">
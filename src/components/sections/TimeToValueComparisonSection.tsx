@@ -3,29 +3,16 @@ import { Link, useLocation } from "react-router-dom";
 import { ArrowRight, Check, Clock, Zap } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
-import {
-  evidenceSourceOrder,
-  evidenceSources,
-  hospitalValuePoints,
-  investorSignalPoints,
-} from "@/content/authorityData";
+import { hospitalValuePoints, investorSignalPoints } from "@/content/authorityData";
+import { useEvidenceSources } from "@/hooks/useEvidenceSources";
 import { cn } from "@/lib/utils";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type SourceId = "S1" | "S2" | "S3";
-
-type Source = {
-  id: SourceId;
-  shortLabel: string;
-  fullLabel: string;
-  url: string;
-};
-
 type WorkflowLane = {
   title: string;
   badge: string;
-  sourceId?: SourceId;
+  sourceId?: string;
   time: string;
   summary: string;
   detail: string;
@@ -37,7 +24,7 @@ type WorkflowLane = {
 type ComparisonRow = {
   metric: string;
   advantage: string;
-  sourceIds?: SourceId[];
+  sourceIds?: string[];
   horalix: string;
   traditional: string;
 };
@@ -46,14 +33,11 @@ type OutcomeCell = {
   title: string;
   eyebrow: string;
   points: string[];
-  sourceId?: SourceId;
+  sourceId?: string;
 };
 
 // ─── Data ─────────────────────────────────────────────────────────────────────
 
-const SOURCES = evidenceSources as Record<SourceId, Source>;
-const SOURCE_ORDER = evidenceSourceOrder as SourceId[];
-
 const WORKFLOW_LANES: WorkflowLane[] = [
   {
     title: "Horalix AI",
@@ -126,8 +110,9 @@ const OUTCOME_CELLS: OutcomeCell[] = [
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
-const SourceChip = ({ sourceId }: { sourceId: SourceId }) => {
-  const source = SOURCES[sourceId];
+const SourceChip = ({ sourceId }: { sourceId: string }) => {
+  const { sourceMap } = useEvidenceSources();
+  const source = sourceMap[sourceId];
   // [FIX] Null-guard for missing source data
   if (!source) return null;
 
@@ -144,8 +129,9 @@ const SourceChip = ({ sourceId }: { sourceId: SourceId }) => {
   );
 };
 
-const SourceLegendLink = ({ sourceId }: { sourceId: SourceId }) => {
-  const source = SOURCES[sourceId];
+const SourceLegendLink = ({ sourceId }: { sourceId: string }) => {
+  const { sourceMap } = useEvidenceSources();
+  const source = sourceMap[sourceId];
   // [FIX] Null-guard for missing source data
   if (!source) return null;
 
@@ -171,7 +157,7 @@ const ProofBadge = ({
   tone = "neutral",
 }: {
   label: string;
-  sourceId?: SourceId;
+  sourceId?: string;
   tone?: "accent" | "neutral";
 }) =>
   sourceId ? (
@@ -193,6 +179,7 @@ const ProofBadge = ({
 
 export const TimeToValueComparisonSection = () => {
   const location = useLocation();
+  const { sources } = useEvidenceSources();
   const sectionRef = useRef<HTMLElement | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
@@ -618,8 +605,8 @@ export const TimeToValueComparisonSection = () => {
           <footer className="overflow-hidden border border-border/80 bg-secondary/35">
             <div className="grid gap-4 px-4 py-4 sm:px-5 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,0.9fr)_auto] lg:items-center lg:gap-5">
               <div className="flex flex-wrap items-center gap-2">
-                {SOURCE_ORDER.map((sourceId) => (
-                  <SourceLegendLink key={sourceId} sourceId={sourceId} />
+                {sources.map((source) => (
+                  <SourceLegendLink key={source.id} sourceId={source.id} />
                 ))}
               </div>
 
@@ -0,0 +1,207 @@
+import {
+  contributors as staticContributors,
+  evidenceSourceOrder,
+  evidenceSources as staticEvidenceSources,
+  resources as staticResources,
+} from "./authorityData.js";
+
+// Shared by the React pages (via useAuthorityContent) and the Node build scripts,
+// so keep this module free of browser-only and Vite-only imports.
+
+const CONTENT_TYPE_LABELS = {
+  pillar: "Category guide",
+  guide: "Guide",
+  comparison: "Comparison",
+};
+
+const DEFAULT_CTA_TITLE = "See how Horalix fits into your clinical workflow in a live demo.";
+
+const toStringArray = (value) =>
+  Array.isArray(value) ? value.filter((item) => typeof item === "string" && item.trim()) : [];
+
+const toDateOnly = (value) => (typeof value === "string" && value ? value.slice(0, 10) : "");
+
+const isObject = (value) => Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const toKeyTakeaways = (value) =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((item) => ({ label: String(item.label || "").trim(), text: String(item.text || "").trim() }))
+    .filter((item) => item.text);
+
+const toSections = (value) =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((item) => ({
+      title: String(item.title || "").trim(),
+      paragraphs: toStringArray(item.paragraphs),
+      bullets: toStringArray(item.bullets),
+    }))
+    .filter((item) => item.title && (item.paragraphs.length > 0 || item.bullets.length > 0));
+
+const toCitedClaims = (value) =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((item) => ({ text: String(item.text || "").trim(), sourceIds: toStringArray(item.sourceIds) }))
+    .filter((item) => item.text);
+
+/**
+ * Splits flat resource content into the section layout used by the static resources.
+ * Blocks are separated by blank lines, "## " starts a new section and "- " lines become bullets.
+ */
+export function contentToSections(content, fallbackTitle = "Overview") {
+  const sections = [];
+  let current = null;
+
+  const ensureSection = (title) => {
+    current = { title, paragraphs: [], bullets: [] };
+    sections.push(current);
+    return current;
+  };
+
+  for (const rawBlock of String(content || "").split(/\n\s*\n/)) {
+    let block = rawBlock.trim();
+
+    if (block.startsWith("## ")) {
+      const [heading, ...rest] = block.split("\n");
+      ensureSection(heading.slice(3).trim());
+      block = rest.join("\n").trim();
+    }
+
+    if (!block) continue;
+
+    const section = current || ensureSection(fallbackTitle);
+    const lines = block.split("\n").map((line) => line.trim());
+    if (lines.every((line) => line.startsWith("- "))) {
+      section.bullets.push(...lines.map((line) => line.slice(2).trim()).filter(Boolean));
+    } else {
+      section.paragraphs.push(lines.join(" "));
+    }
+  }
+
+  return sections;
+}
+
+export function mapContributorRow(row) {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    role: row.role,
+    credentials: row.credentials || "",
+    specialty: row.specialty || "",
+    contributorType: row.contributor_type,
+    bioShort: row.bio_short,
+    bioLong: row.bio_long || row.bio_short,
+    focusAreas: toStringArray(row.focus_areas),
+    photoUrl: row.photo_url || null,
+    linkedinUrl: row.linkedin_url || null,
+    sameAs: toStringArray(row.same_as),
+    updatedAt: toDateOnly(row.updated_at),
+  };
+}
+
+export function mapResourceRow(row, contributorsById = new Map()) {
+  const author = row.author_id ? contributorsById.get(row.author_id) : null;
+  const reviewer = row.reviewer_id ? contributorsById.get(row.reviewer_id) : null;
+  const sections = toSections(row.sections);
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    summary: row.summary,
+    heroKicker: row.hero_kicker || CONTENT_TYPE_LABELS[row.content_type] || "Resource",
+    audience: row.audience || "",
+    contentType: row.content_type,
+    topicCluster: row.topic_cluster || "",
+    primaryKeyword: row.primary_keyword || row.title,
+    secondaryKeywords: toStringArray(row.secondary_keywords),
+    regionScope: row.region_scope || "global",
+    authorSlug: author?.slug || "",
+    reviewerSlug: reviewer?.slug || "",
+    reviewedAt: toDateOnly(row.reviewed_at),
+    heroImageUrl: row.hero_image_url || null,
+    publishedAt: toDateOnly(row.published_at) || toDateOnly(row.created_at),
+    // Only substantive updates count; typo fixes keep the previous date
+    updatedAt: toDateOnly(row.content_updated_at) || toDateOnly(row.published_at) || toDateOnly(row.created_at),
+    seoTitle: row.seo_title || `${row.title} | Horalix Resources`,
+    seoDescription: row.seo_description || row.summary,
+    canonicalPath: row.canonical_path || `/resources/${row.slug}`,
+    solutionSlugs: toStringArray(row.solution_slugs),
+    relatedResourceSlugs: toStringArray(row.related_resource_slugs),
+    sourceIds: toStringArray(row.source_ids),
+    keyTakeaways: toKeyTakeaways(row.key_takeaways),
+    sections: sections.length > 0 ? sections : contentToSections(row.content),
+    citedClaims: toCitedClaims(row.cited_claims),
+    ctaTitle: row.cta_title || DEFAULT_CTA_TITLE,
+  };
+}
+
+/**
+ * Database rows win over static entries with the same slug; static entries without
+ * a database counterpart stay available until they are migrated into the CMS.
+ */
+export function mergeBySlug(primary, fallback) {
+  const seen = new Set(primary.map((item) => item.slug));
+  return [...primary, ...fallback.filter((item) => !seen.has(item.slug))];
+}
+
+export function buildAuthorityContent(contributorRows = [], resourceRows = []) {
+  const mappedContributors = contributorRows.map(mapContributorRow);
+  const contributorsById = new Map(mappedContributors.map((contributor) => [contributor.id, contributor]));
+
+  return {
+    contributors: mergeBySlug(mappedContributors, staticContributors),
+    resources: mergeBySlug(
+      resourceRows.map((row) => mapResourceRow(row, contributorsById)),
+      staticResources,
+    ),
+  };
+}
+
+export const fallbackAuthorityContent = {
+  contributors: staticContributors,
+  resources: staticResources,
+};
+
+export function findBySlug(items, slug) {
+  return items.find((item) => item.slug === slug) ?? null;
+}
+
+export function getResourcesForSolutionFrom(resources, solutionSlug) {
+  return resources.filter((resource) => (resource.solutionSlugs || []).includes(solutionSlug));
+}
+
+export function getRelatedResourcesFrom(resources, resource, limit = 3) {
+  return (resource.relatedResourceSlugs || [])
+    .map((slug) => findBySlug(resources, slug))
+    .filter(Boolean)
+    .slice(0, limit);
+}
+
+export function mapEvidenceSourceRow(row) {
+  return {
+    id: row.source_key,
+    shortLabel: row.short_label,
+    fullLabel: row.full_citation,
+    url: row.url || (row.doi ? `https://doi.org/${row.doi}` : ""),
+    doi: row.doi || null,
+    accessedOn: toDateOnly(row.accessed_on),
+    disclosureType: row.disclosure_type || "external_evidence",
+  };
+}
+
+export const fallbackEvidenceSources = evidenceSourceOrder.map((id) => staticEvidenceSources[id]);
+
+/**
+ * Unlike resources, evidence sources are not merged by key: once the registry has
+ * rows it is the single source of truth, so a removed source stays removed.
+ */
+export function buildEvidenceSources(rows = []) {
+  return rows.length > 0 ? rows.map(mapEvidenceSourceRow) : fallbackEvidenceSources;
+}
+
+export function indexEvidenceSources(sources) {
+  return Object.fromEntries(sources.map((source) => [source.id, source]));
+}
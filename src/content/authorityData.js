@@ -4,23 +4,41 @@ export const evidenceSources = {
     shortLabel: "IAC Adult Echo Standards (2025)",
     fullLabel: "IAC Adult Echocardiography Standards & Guidelines (2025)",
     url: "https://intersocietal.org/wp-content/uploads/2025/04/IACAdultEchocardiographyStandards2025.pdf",
+    disclosureType: "external_evidence",
   },
   S2: {
     id: "S2",
     shortLabel: "AI-assisted FoCUS benchmark",
     fullLabel: "AI-assisted FoCUS benchmark context",
     url: "https://pmc.ncbi.nlm.nih.gov/articles/PMC12610991/",
+    disclosureType: "benchmark_context",
   },
   S3: {
     id: "S3",
     shortLabel: "AI-Echo workflow trial",
     fullLabel: "AI-Echo randomized trial workflow and interaction burden context",
     url: "https://pmc.ncbi.nlm.nih.gov/articles/PMC12909003/",
+    disclosureType: "benchmark_context",
   },
 };
 
 export const evidenceSourceOrder = ["S1", "S2", "S3"];
 
+export const evidenceDisclosureTypes = {
+  external_evidence: {
+    label: "External evidence",
+    description: "The cited source directly supports the claim it is attached to.",
+  },
+  benchmark_context: {
+    label: "Benchmark context",
+    description: "Adjacent AI-assisted performance context, not a direct Horalix validation trial.",
+  },
+  internal_benchmark: {
+    label: "Internal benchmark",
+    description: "Product performance measured by Horalix, not an external peer-reviewed validation claim.",
+  },
+};
+
 export const benchmarkDisclosures = [
   "Internal benchmark means measured product performance observed by Horalix and not an external peer-reviewed validation claim.",
   "Benchmark context means the external study describes adjacent AI-assisted performance context rather than a direct Horalix validation trial.",
@@ -1,82 +1,34 @@
-import { useEffect, useState } from "react";
-import { User } from "@supabase/supabase-js";
-import { supabase } from "@/integrations/supabase/client";
+import { createContext, useContext } from "react";
+import { Session, User } from "@supabase/supabase-js";
+import type { AdminSection, AppRole, SectionPermission } from "@/lib/permissions";
 
 /**
- * useAuth - Custom hook for authentication state
- * Provides current user and role information
+ * useAuth - Current user and staff roles
+ * Reads the state kept by AuthProvider (components/auth/AuthProvider), which takes the
+ * roles from the user_roles claim of the access token
  */
 
-interface AuthState {
+export interface AuthState {
+  session: Session | null;
   user: User | null;
-  role: string | null;
+  /** Every role the user holds, highest first */
+  roles: AppRole[];
+  /** Highest role, for display */
+  role: AppRole | null;
   isLoading: boolean;
   isAdmin: boolean;
+  /** Admin or editor: may change content */
   isEditor: boolean;
+  /** Any staff role, including read-only viewers */
+  hasAdminAccess: boolean;
+  /** Whether the user may view (or edit) an admin section, see lib/permissions */
+  can: (section: AdminSection, permission?: SectionPermission) => boolean;
 }
 
-export const useAuth = (): AuthState => {
-  const [user, setUser] = useState<User | null>(null);
-  const [role, setRole] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    // Step 1: Set up auth state listener FIRST
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        const currentUser = session?.user ?? null;
-        setUser(currentUser);
-
-        if (currentUser) {
-          // Step 2: Fetch user role (using setTimeout to avoid race condition)
-          setTimeout(async () => {
-            const { data: roleData } = await supabase
-              .from("user_roles")
-              .select("role")
-              .eq("user_id", currentUser.id)
-              .maybeSingle();
-            
-            setRole(roleData?.role ?? null);
-            setIsLoading(false);
-          }, 0);
-        } else {
-          setRole(null);
-          setIsLoading(false);
-        }
-      }
-    );
-
-    // Step 3: Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      const currentUser = session?.user ?? null;
-      setUser(currentUser);
+export const AuthContext = createContext<AuthState | null>(null);
 
-      if (currentUser) {
-        supabase
-          .from("user_roles")
-          .select("role")
-          .eq("user_id", currentUser.id)
-          .maybeSingle()
-          .then(({ data: roleData }) => {
-            setRole(roleData?.role ?? null);
-            setIsLoading(false);
-          });
-      } else {
-        setIsLoading(false);
-      }
-    });
-
-    // Cleanup subscription
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
-
-  return {
-    user,
-    role,
-    isLoading,
-    isAdmin: role === "admin",
-    isEditor: role === "editor" || role === "admin",
-  };
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used within AuthProvider");
+  return auth;
 };
@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { buildAuthorityContent, fallbackAuthorityContent } from "@/content/authorityContent";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * useAuthorityContent - Public contributors and published resources
+ * Database rows override the static seed in authorityData.js by slug.
+ */
+
+export interface AuthorityContributor {
+  id?: string;
+  slug: string;
+  name: string;
+  role: string;
+  credentials: string;
+  specialty: string;
+  contributorType: string;
+  bioShort: string;
+  bioLong: string;
+  focusAreas: string[];
+  photoUrl?: string | null;
+  linkedinUrl?: string | null;
+  sameAs: string[];
+  updatedAt?: string;
+}
+
+export interface AuthorityResourceSection {
+  title: string;
+  paragraphs: string[];
+  bullets?: string[];
+}
+
+export interface AuthorityResource {
+  id?: string;
+  slug: string;
+  title: string;
+  summary: string;
+  heroKicker: string;
+  audience: string;
+  contentType: string;
+  topicCluster: string;
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  regionScope: string;
+  authorSlug: string;
+  reviewerSlug?: string;
+  publishedAt: string;
+  updatedAt: string;
+  seoTitle: string;
+  seoDescription: string;
+  solutionSlugs: string[];
+  relatedResourceSlugs: string[];
+  sourceIds: string[];
+  keyTakeaways: { label: string; text: string }[];
+  sections: AuthorityResourceSection[];
+  citedClaims: { text: string; sourceIds: string[] }[];
+  ctaTitle: string;
+}
+
+interface AuthorityContent {
+  contributors: AuthorityContributor[];
+  resources: AuthorityResource[];
+}
+
+interface AuthorityContentResult extends AuthorityContent {
+  isLoading: boolean;
+}
+
+export const useAuthorityContent = (): AuthorityContentResult => {
+  const { data, isLoading, isPlaceholderData } = useQuery({
+    queryKey: ["authority-content"],
+    queryFn: async (): Promise<AuthorityContent> => {
+      const [contributorsResult, resourcesResult] = await Promise.all([
+        supabase
+          .from("contributors")
+          .select("*")
+          .eq("is_public", true)
+          .order("display_order", { ascending: true }),
+        supabase
+          .from("resources")
+          .select("*")
+          .eq("is_published", true)
+          .lte("published_at", new Date().toISOString())
+          .order("published_at", { ascending: false, nullsFirst: false }),
+      ]);
+
+      if (contributorsResult.error) throw contributorsResult.error;
+      if (resourcesResult.error) throw resourcesResult.error;
+
+      return buildAuthorityContent(contributorsResult.data, resourcesResult.data);
+    },
+    placeholderData: fallbackAuthorityContent as AuthorityContent,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const content = data ?? (fallbackAuthorityContent as AuthorityContent);
+
+  return {
+    contributors: content.contributors,
+    resources: content.resources,
+    isLoading: isLoading || isPlaceholderData,
+  };
+};
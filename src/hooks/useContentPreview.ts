@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * useContentPreview - Resolves a ?preview= token through the content-preview edge function
+ * Lets public detail pages render an unpublished record for reviewers holding a signed link.
+ */
+
+export type PreviewTable = "news_articles" | "resources";
+
+interface PreviewResponse<T extends PreviewTable> {
+  table: T;
+  /** Only the columns the detail page renders; workflow columns are left out */
+  record: Tables<T>;
+  expires_at: string;
+}
+
+interface ContentPreviewResult<T extends PreviewTable> {
+  /** True when the URL carries a preview token, even if it turns out to be invalid */
+  isPreview: boolean;
+  record: Tables<T> | null;
+  expiresAt: string | null;
+  isLoading: boolean;
+}
+
+export const useContentPreview = <T extends PreviewTable>(table: T): ContentPreviewResult<T> => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("preview");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["content-preview", table, token],
+    queryFn: async (): Promise<PreviewResponse<T> | null> => {
+      const { data: result, error } = await supabase.functions.invoke<PreviewResponse<T>>("content-preview", {
+        body: { action: "resolve", token },
+      });
+
+      // Invalid and expired links render the normal not-found state
+      if (error || !result || result.table !== table) return null;
+      return result;
+    },
+    enabled: !!token,
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    isPreview: !!token,
+    record: data?.record ?? null,
+    expiresAt: data?.expires_at ?? null,
+    isLoading: !!token && isLoading,
+  };
+};
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { buildEvidenceSources, fallbackEvidenceSources, indexEvidenceSources } from "@/content/authorityContent";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * useEvidenceSources - Public evidence source registry
+ * Citations reference sources by key (S1, S2, ...), resolved at render time
+ */
+
+export interface EvidenceSource {
+  id: string;
+  shortLabel: string;
+  fullLabel: string;
+  url: string;
+  doi?: string | null;
+  accessedOn?: string;
+  disclosureType: string;
+}
+
+interface EvidenceSourcesResult {
+  sources: EvidenceSource[];
+  sourceMap: Record<string, EvidenceSource>;
+  isLoading: boolean;
+}
+
+export const useEvidenceSources = (): EvidenceSourcesResult => {
+  const { data, isLoading } = useQuery({
+    queryKey: ["evidence-sources"],
+    queryFn: async (): Promise<EvidenceSource[]> => {
+      const { data, error } = await supabase
+        .from("evidence_sources")
+        .select("*")
+        .eq("is_public", true)
+        .order("display_order", { ascending: true });
+
+      if (error) throw error;
+
+      return buildEvidenceSources(data);
+    },
+    placeholderData: fallbackEvidenceSources as EvidenceSource[],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const sources = data ?? (fallbackEvidenceSources as EvidenceSource[]);
+
+  return {
+    sources,
+    sourceMap: indexEvidenceSources(sources) as Record<string, EvidenceSource>,
+    isLoading,
+  };
+};
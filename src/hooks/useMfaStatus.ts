@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * useMfaStatus - Two-factor state of the current session
+ * Admins and editors need an aal2 session (see the staff_mfa migration). Re-read whenever
+ * the session changes, e.g. right after an authenticator code is verified.
+ */
+
+export interface MfaStatus {
+  /** The session was signed in with a second factor */
+  verified: boolean;
+  /** The user has a verified authenticator to challenge */
+  enrolled: boolean;
+}
+
+export const useMfaStatus = (user: User | null): { status: MfaStatus | null; isLoading: boolean } => {
+  // Keyed by user so a newly signed-in user never sees the previous user's state
+  const [result, setResult] = useState<{ userId: string; status: MfaStatus } | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel().then(({ data }) => {
+      if (cancelled) return;
+      setResult({
+        userId: user.id,
+        status: {
+          verified: data?.currentLevel === "aal2",
+          enrolled: data?.nextLevel === "aal2",
+        },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const isCurrent = !!user && result?.userId === user.id;
+  return { status: isCurrent ? result.status : null, isLoading: !!user && !isCurrent };
+};
@@ -14,45 +14,398 @@ export type Database = {
   }
   public: {
     Tables: {
+      allowed_origins: {
+        Row: {
+          created_at: string
+          match_regex: string
+          pattern: string
+        }
+        Insert: {
+          created_at?: string
+          match_regex: string
+          pattern: string
+        }
+        Update: {
+          created_at?: string
+          match_regex?: string
+          pattern?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_role: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      captured_emails: {
+        Row: {
+          created_at: string
+          from_address: string
+          headers: Json
+          html: string
+          id: string
+          reply_to: string | null
+          subject: string
+          text: string | null
+          to_addresses: string[]
+        }
+        Insert: {
+          created_at?: string
+          from_address: string
+          headers?: Json
+          html: string
+          id?: string
+          reply_to?: string | null
+          subject: string
+          text?: string | null
+          to_addresses: string[]
+        }
+        Update: {
+          created_at?: string
+          from_address?: string
+          headers?: Json
+          html?: string
+          id?: string
+          reply_to?: string | null
+          subject?: string
+          text?: string | null
+          to_addresses?: string[]
+        }
+        Relationships: []
+      }
+      contact_messages: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          body: string
+          channel: string
+          created_at: string
+          email_error: string | null
+          email_message_id: string | null
+          email_status: string | null
+          from_address: string | null
+          id: string
+          sender: string
+          submission_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          body: string
+          channel: string
+          created_at?: string
+          email_error?: string | null
+          email_message_id?: string | null
+          email_status?: string | null
+          from_address?: string | null
+          id?: string
+          sender: string
+          submission_id: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          body?: string
+          channel?: string
+          created_at?: string
+          email_error?: string | null
+          email_message_id?: string | null
+          email_status?: string | null
+          from_address?: string | null
+          id?: string
+          sender?: string
+          submission_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_messages_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "contact_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_submissions: {
         Row: {
+          assigned_to: string | null
+          client_ip_hash: string | null
           created_at: string
           email: string
+          first_response_at: string | null
+          form_token_id: string | null
           id: string
+          last_message_at: string | null
           message: string
           name: string
           notes: string | null
+          priority: string
+          reply_token: string
           responded_at: string | null
           responded_by: string | null
+          response_due_at: string | null
+          search: unknown | null
           status: string
+          tags: string[]
           user_id: string | null
         }
         Insert: {
+          assigned_to?: string | null
+          client_ip_hash?: string | null
           created_at?: string
           email: string
+          first_response_at?: string | null
+          form_token_id?: string | null
           id?: string
+          last_message_at?: string | null
           message: string
           name: string
           notes?: string | null
+          priority?: string
+          reply_token?: string
           responded_at?: string | null
           responded_by?: string | null
+          response_due_at?: string | null
+          search?: unknown | null
           status?: string
+          tags?: string[]
           user_id?: string | null
         }
         Update: {
+          assigned_to?: string | null
+          client_ip_hash?: string | null
           created_at?: string
           email?: string
+          first_response_at?: string | null
+          form_token_id?: string | null
           id?: string
+          last_message_at?: string | null
           message?: string
           name?: string
           notes?: string | null
+          priority?: string
+          reply_token?: string
           responded_at?: string | null
           responded_by?: string | null
+          response_due_at?: string | null
+          search?: unknown | null
           status?: string
+          tags?: string[]
           user_id?: string | null
         }
         Relationships: []
       }
+      content_revisions: {
+        Row: {
+          changed_fields: string[]
+          created_at: string
+          created_by: string | null
+          id: string
+          is_substantive: boolean
+          operation: string
+          record_id: string
+          snapshot: Json
+          table_name: string
+        }
+        Insert: {
+          changed_fields?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_substantive?: boolean
+          operation: string
+          record_id: string
+          snapshot: Json
+          table_name: string
+        }
+        Update: {
+          changed_fields?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_substantive?: boolean
+          operation?: string
+          record_id?: string
+          snapshot?: Json
+          table_name?: string
+        }
+        Relationships: []
+      }
+      contributors: {
+        Row: {
+          bio_long: string | null
+          bio_short: string
+          contributor_type: string
+          created_at: string
+          credentials: string | null
+          display_order: number
+          focus_areas: Json
+          id: string
+          is_public: boolean
+          linkedin_url: string | null
+          name: string
+          photo_url: string | null
+          role: string
+          same_as: Json
+          slug: string
+          specialty: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bio_long?: string | null
+          bio_short: string
+          contributor_type?: string
+          created_at?: string
+          credentials?: string | null
+          display_order?: number
+          focus_areas?: Json
+          id?: string
+          is_public?: boolean
+          linkedin_url?: string | null
+          name: string
+          photo_url?: string | null
+          role: string
+          same_as?: Json
+          slug: string
+          specialty?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bio_long?: string | null
+          bio_short?: string
+          contributor_type?: string
+          created_at?: string
+          credentials?: string | null
+          display_order?: number
+          focus_areas?: Json
+          id?: string
+          is_public?: boolean
+          linkedin_url?: string | null
+          name?: string
+          photo_url?: string | null
+          role?: string
+          same_as?: Json
+          slug?: string
+          specialty?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      email_templates: {
+        Row: {
+          body: string | null
+          created_at: string
+          heading: string | null
+          id: string
+          key: string
+          subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          heading?: string | null
+          id?: string
+          key: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          heading?: string | null
+          id?: string
+          key?: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      evidence_sources: {
+        Row: {
+          accessed_on: string | null
+          created_at: string
+          disclosure_type: string
+          display_order: number
+          doi: string | null
+          full_citation: string
+          id: string
+          is_public: boolean
+          short_label: string
+          source_key: string
+          updated_at: string
+          url: string | null
+        }
+        Insert: {
+          accessed_on?: string | null
+          created_at?: string
+          disclosure_type?: string
+          display_order?: number
+          doi?: string | null
+          full_citation: string
+          id?: string
+          is_public?: boolean
+          short_label: string
+          source_key: string
+          updated_at?: string
+          url?: string | null
+        }
+        Update: {
+          accessed_on?: string | null
+          created_at?: string
+          disclosure_type?: string
+          display_order?: number
+          doi?: string | null
+          full_citation?: string
+          id?: string
+          is_public?: boolean
+          short_label?: string
+          source_key?: string
+          updated_at?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
       faq_items: {
         Row: {
           answer: string
@@ -119,11 +472,36 @@ export type Database = {
         }
         Relationships: []
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       news_articles: {
         Row: {
           author_id: string | null
           category: string
           content: string
+          content_updated_at: string | null
           created_at: string
           display_date: string | null
           id: string
@@ -132,15 +510,20 @@ export type Database = {
           is_published: boolean
           location: string | null
           published_at: string | null
+          review_notes: string | null
           slug: string
+          submitted_by: string | null
           summary: string
           title: string
           updated_at: string
+          went_live_at: string | null
+          workflow_status: string
         }
         Insert: {
           author_id?: string | null
           category?: string
           content: string
+          content_updated_at?: string | null
           created_at?: string
           display_date?: string | null
           id?: string
@@ -149,15 +532,20 @@ export type Database = {
           is_published?: boolean
           location?: string | null
           published_at?: string | null
+          review_notes?: string | null
           slug: string
+          submitted_by?: string | null
           summary: string
           title: string
           updated_at?: string
+          went_live_at?: string | null
+          workflow_status?: string
         }
         Update: {
           author_id?: string | null
           category?: string
           content?: string
+          content_updated_at?: string | null
           created_at?: string
           display_date?: string | null
           id?: string
@@ -166,31 +554,157 @@ export type Database = {
           is_published?: boolean
           location?: string | null
           published_at?: string | null
+          review_notes?: string | null
           slug?: string
+          submitted_by?: string | null
           summary?: string
           title?: string
           updated_at?: string
+          went_live_at?: string | null
+          workflow_status?: string
+        }
+        Relationships: []
+      }
+      newsletter_campaigns: {
+        Row: {
+          article_ids: string[]
+          campaign_type: string
+          created_at: string
+          created_by: string | null
+          id: string
+          intro: string
+          resource_ids: string[]
+          scheduled_at: string | null
+          segment: string
+          segment_subscribed_since: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          topic: string
+          updated_at: string
+        }
+        Insert: {
+          article_ids?: string[]
+          campaign_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          intro?: string
+          resource_ids?: string[]
+          scheduled_at?: string | null
+          segment?: string
+          segment_subscribed_since?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          topic?: string
+          updated_at?: string
+        }
+        Update: {
+          article_ids?: string[]
+          campaign_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          intro?: string
+          resource_ids?: string[]
+          scheduled_at?: string | null
+          segment?: string
+          segment_subscribed_since?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          topic?: string
+          updated_at?: string
         }
         Relationships: []
       }
+      newsletter_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          email: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          provider_message_id: string | null
+          send_id: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          email: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          send_id: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          email?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          send_id?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "newsletter_deliveries_send_id_fkey"
+            columns: ["send_id"]
+            isOneToOne: false
+            referencedRelation: "newsletter_sends"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       newsletter_sends: {
         Row: {
-          article_id: string
+          article_id: string | null
+          campaign_id: string | null
+          completed_at: string | null
+          html: string | null
           id: string
           recipients_count: number
           sent_at: string
+          subject: string | null
+          total_count: number
         }
         Insert: {
-          article_id: string
+          article_id?: string | null
+          campaign_id?: string | null
+          completed_at?: string | null
+          html?: string | null
           id?: string
           recipients_count?: number
           sent_at?: string
+          subject?: string | null
+          total_count?: number
         }
         Update: {
-          article_id?: string
+          article_id?: string | null
+          campaign_id?: string | null
+          completed_at?: string | null
+          html?: string | null
           id?: string
           recipients_count?: number
           sent_at?: string
+          subject?: string | null
+          total_count?: number
         }
         Relationships: [
           {
@@ -200,35 +714,90 @@ export type Database = {
             referencedRelation: "news_articles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "newsletter_sends_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: true
+            referencedRelation: "newsletter_campaigns"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      newsletter_subscription_events: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          email: string
+          event: string
+          id: string
+          source: string | null
+          subscription_id: string
+          topics: string[]
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          email: string
+          event: string
+          id?: string
+          source?: string | null
+          subscription_id: string
+          topics?: string[]
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          email?: string
+          event?: string
+          id?: string
+          source?: string | null
+          subscription_id?: string
+          topics?: string[]
+        }
+        Relationships: []
+      }
       newsletter_subscriptions: {
         Row: {
+          confirmation_sent_at: string | null
+          confirmed_at: string | null
           created_at: string
           email: string
           id: string
           is_subscribed: boolean
+          source: string
           subscribed_at: string
+          topics: string[]
           unsubscribed_at: string | null
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          confirmation_sent_at?: string | null
+          confirmed_at?: string | null
           created_at?: string
           email: string
           id?: string
           is_subscribed?: boolean
+          source?: string
           subscribed_at?: string
+          topics?: string[]
           unsubscribed_at?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          confirmation_sent_at?: string | null
+          confirmed_at?: string | null
           created_at?: string
           email?: string
           id?: string
           is_subscribed?: boolean
+          source?: string
           subscribed_at?: string
+          topics?: string[]
           unsubscribed_at?: string | null
           updated_at?: string
           user_id?: string | null
@@ -265,6 +834,195 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_blocks: {
+        Row: {
+          actor_hash: string
+          actor_label: string | null
+          actor_type: string
+          blocked_until: string
+          id: string
+          last_blocked_at: string
+          route: string
+          strikes: number
+        }
+        Insert: {
+          actor_hash: string
+          actor_label?: string | null
+          actor_type: string
+          blocked_until: string
+          id?: string
+          last_blocked_at?: string
+          route: string
+          strikes?: number
+        }
+        Update: {
+          actor_hash?: string
+          actor_label?: string | null
+          actor_type?: string
+          blocked_until?: string
+          id?: string
+          last_blocked_at?: string
+          route?: string
+          strikes?: number
+        }
+        Relationships: []
+      }
+      rate_limit_events: {
+        Row: {
+          actor_hash: string
+          actor_type: string
+          created_at: string
+          id: number
+          route: string
+        }
+        Insert: {
+          actor_hash: string
+          actor_type: string
+          created_at?: string
+          id?: number
+          route: string
+        }
+        Update: {
+          actor_hash?: string
+          actor_type?: string
+          created_at?: string
+          id?: number
+          route?: string
+        }
+        Relationships: []
+      }
+      resources: {
+        Row: {
+          audience: string | null
+          author_id: string | null
+          canonical_path: string | null
+          cited_claims: Json
+          content: string
+          content_type: string
+          content_updated_at: string | null
+          created_at: string
+          cta_title: string | null
+          cta_variant: string | null
+          hero_image_url: string | null
+          hero_kicker: string | null
+          id: string
+          is_published: boolean
+          key_takeaways: Json
+          primary_keyword: string | null
+          published_at: string | null
+          region_scope: string
+          related_resource_slugs: Json
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewer_id: string | null
+          secondary_keywords: Json
+          sections: Json
+          seo_description: string | null
+          seo_title: string | null
+          slug: string
+          solution_slugs: Json
+          source_ids: Json
+          submitted_by: string | null
+          summary: string
+          title: string
+          topic_cluster: string | null
+          updated_at: string
+          went_live_at: string | null
+          workflow_status: string
+        }
+        Insert: {
+          audience?: string | null
+          author_id?: string | null
+          canonical_path?: string | null
+          cited_claims?: Json
+          content?: string
+          content_type?: string
+          content_updated_at?: string | null
+          created_at?: string
+          cta_title?: string | null
+          cta_variant?: string | null
+          hero_image_url?: string | null
+          hero_kicker?: string | null
+          id?: string
+          is_published?: boolean
+          key_takeaways?: Json
+          primary_keyword?: string | null
+          published_at?: string | null
+          region_scope?: string
+          related_resource_slugs?: Json
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          secondary_keywords?: Json
+          sections?: Json
+          seo_description?: string | null
+          seo_title?: string | null
+          slug: string
+          solution_slugs?: Json
+          source_ids?: Json
+          submitted_by?: string | null
+          summary: string
+          title: string
+          topic_cluster?: string | null
+          updated_at?: string
+          went_live_at?: string | null
+          workflow_status?: string
+        }
+        Update: {
+          audience?: string | null
+          author_id?: string | null
+          canonical_path?: string | null
+          cited_claims?: Json
+          content?: string
+          content_type?: string
+          content_updated_at?: string | null
+          created_at?: string
+          cta_title?: string | null
+          cta_variant?: string | null
+          hero_image_url?: string | null
+          hero_kicker?: string | null
+          id?: string
+          is_published?: boolean
+          key_takeaways?: Json
+          primary_keyword?: string | null
+          published_at?: string | null
+          region_scope?: string
+          related_resource_slugs?: Json
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          secondary_keywords?: Json
+          sections?: Json
+          seo_description?: string | null
+          seo_title?: string | null
+          slug?: string
+          solution_slugs?: Json
+          source_ids?: Json
+          submitted_by?: string | null
+          summary?: string
+          title?: string
+          topic_cluster?: string | null
+          updated_at?: string
+          went_live_at?: string | null
+          workflow_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resources_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "contributors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resources_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "contributors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       site_content: {
         Row: {
           content_type: string
@@ -385,6 +1143,42 @@ export type Database = {
         }
         Relationships: []
       }
+      user_role_changes: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_role: Database["public"]["Enums"]["app_role"] | null
+          previous_role: Database["public"]["Enums"]["app_role"] | null
+          target_email: string | null
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          previous_role?: Database["public"]["Enums"]["app_role"] | null
+          target_email?: string | null
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          previous_role?: Database["public"]["Enums"]["app_role"] | null
+          target_email?: string | null
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -408,9 +1202,57 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      newsletter_send_stats: {
+        Row: {
+          bounced_count: number | null
+          failed_count: number | null
+          pending_count: number | null
+          send_id: string | null
+          sent_count: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      claim_newsletter_deliveries: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          email: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          provider_message_id: string | null
+          send_id: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      contact_assignees: {
+        Args: never
+        Returns: {
+          email: string
+          full_name: string
+          user_id: string
+        }[]
+      }
+      contact_response_window: {
+        Args: {
+          _priority: string
+        }
+        Returns: unknown
+      }
+      has_admin_access: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -418,6 +1260,109 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_allowed_origin: {
+        Args: never
+        Returns: boolean
+      }
+      is_newsletter_recipient: {
+        Args: {
+          _email: string
+          _send_id: string
+        }
+        Returns: boolean
+      }
+      link_contributor_account: {
+        Args: {
+          _contributor_id: string
+          _email: string
+        }
+        Returns: string
+      }
+      newsletter_subscriber_growth: {
+        Args: {
+          _days?: number
+        }
+        Returns: {
+          day: string
+          subscribed: number
+          total: number
+          unsubscribed: number
+        }[]
+      }
+      rate_limit_hit: {
+        Args: {
+          _actor_hash: string
+          _actor_label: string
+          _actor_type: string
+          _lockout_seconds: number
+          _max_hits: number
+          _record?: boolean
+          _route: string
+          _window_seconds: number
+        }
+        Returns: number
+      }
+      rate_limit_unblock: {
+        Args: {
+          _block_id: string
+        }
+        Returns: undefined
+      }
+      refresh_newsletter_send: {
+        Args: {
+          _send_id: string
+        }
+        Returns: undefined
+      }
+      replace_allowed_origins: {
+        Args: {
+          _origins: Json
+        }
+        Returns: undefined
+      }
+      restore_content_revision: {
+        Args: {
+          _revision_id: string
+        }
+        Returns: undefined
+      }
+      retry_newsletter_deliveries: {
+        Args: {
+          _delivery_ids?: string[]
+          _send_id: string
+        }
+        Returns: number
+      }
+      set_staff_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["app_role"][]
+      }
+      staff_mfa_satisfied: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      staff_mfa_status: {
+        Args: never
+        Returns: {
+          mfa_enrolled: boolean
+          recovery_codes_left: number
+          user_id: string
+        }[]
+      }
+      transition_content_workflow: {
+        Args: {
+          _action: string
+          _note?: string
+          _record_id: string
+          _table: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "editor" | "viewer"
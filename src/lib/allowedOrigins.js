@@ -0,0 +1,14 @@
+/**
+ * Origin allowlist rules
+ * Re-exports the rules the Edge Functions use (supabase/functions/_shared/allowedOrigins.js),
+ * so the website, the Node scripts and CORS checks share one implementation.
+ */
+
+export {
+  DEFAULT_ALLOWED_ORIGINS,
+  isOriginAllowed,
+  originPatternToRegex,
+  parseAllowedOrigins,
+  splitAllowedOrigins,
+  validateOriginPattern,
+} from "../../supabase/functions/_shared/allowedOrigins.js";
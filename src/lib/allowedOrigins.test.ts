@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_ALLOWED_ORIGINS,
+  isOriginAllowed,
+  originPatternToRegex,
+  parseAllowedOrigins,
+  splitAllowedOrigins,
+  validateOriginPattern,
+} from "./allowedOrigins";
+
+describe("validateOriginPattern", () => {
+  it("accepts exact origins, local http and site-anchored wildcards", () => {
+    expect(validateOriginPattern("https://horalix.com")).toBeNull();
+    expect(validateOriginPattern("http://localhost:8080")).toBeNull();
+    expect(validateOriginPattern("https://*.horalix.com")).toBeNull();
+    expect(validateOriginPattern("https://deploy-preview-*--horalix.netlify.app")).toBeNull();
+  });
+
+  it("rejects malformed origins", () => {
+    expect(validateOriginPattern("horalix.com")).not.toBeNull();
+    expect(validateOriginPattern("https://Horalix.com")).not.toBeNull();
+    expect(validateOriginPattern("https://horalix.com/path")).not.toBeNull();
+    expect(validateOriginPattern("https://horalix..com")).not.toBeNull();
+    expect(validateOriginPattern("http://horalix.com")).not.toBeNull();
+  });
+
+  it("rejects wildcards outside the leftmost label or directly under a TLD", () => {
+    expect(validateOriginPattern("https://*.*.horalix.com")).not.toBeNull();
+    expect(validateOriginPattern("https://www.*.com")).not.toBeNull();
+    expect(validateOriginPattern("https://*.com")).not.toBeNull();
+  });
+
+  it("rejects wildcards that could match other sites on shared hosts", () => {
+    expect(validateOriginPattern("https://*.netlify.app")).toMatch(/other netlify\.app sites/);
+    expect(validateOriginPattern("https://deploy-*.netlify.app")).toMatch(/other netlify\.app sites/);
+    expect(validateOriginPattern("https://a*.netlify.app")).toMatch(/other netlify\.app sites/);
+    expect(validateOriginPattern("https://*--.vercel.app")).toMatch(/other vercel\.app sites/);
+  });
+});
+
+describe("splitAllowedOrigins", () => {
+  it("trims, lowercases and drops trailing slashes and empty entries", () => {
+    expect(splitAllowedOrigins(" https://Horalix.com/ ,,https://www.horalix.com")).toEqual([
+      "https://horalix.com",
+      "https://www.horalix.com",
+    ]);
+    expect(splitAllowedOrigins(undefined)).toEqual([]);
+  });
+});
+
+describe("parseAllowedOrigins", () => {
+  it("falls back to the defaults when unset", () => {
+    expect(parseAllowedOrigins(undefined)).toBe(DEFAULT_ALLOWED_ORIGINS);
+    expect(parseAllowedOrigins(" , ")).toBe(DEFAULT_ALLOWED_ORIGINS);
+  });
+
+  it("keeps valid patterns and warns about the rest", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(parseAllowedOrigins("https://horalix.com,https://*.netlify.app")).toEqual(["https://horalix.com"]);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+});
+
+describe("originPatternToRegex", () => {
+  it("escapes dots and limits the wildcard to one label", () => {
+    expect(originPatternToRegex("https://horalix.com")).toBe("^https://horalix\\.com$");
+    expect(originPatternToRegex("https://deploy-preview-*--horalix.netlify.app")).toBe(
+      "^https://deploy-preview-[a-z0-9-]+--horalix\\.netlify\\.app$",
+    );
+  });
+});
+
+describe("isOriginAllowed", () => {
+  it("matches origins against the default patterns", () => {
+    expect(isOriginAllowed("https://horalix.com", DEFAULT_ALLOWED_ORIGINS)).toBe(true);
+    expect(isOriginAllowed("https://WWW.horalix.com", DEFAULT_ALLOWED_ORIGINS)).toBe(true);
+    expect(isOriginAllowed("https://deploy-preview-42--horalix.netlify.app", DEFAULT_ALLOWED_ORIGINS)).toBe(true);
+  });
+
+  it("rejects look-alikes, other sites and missing origins", () => {
+    expect(isOriginAllowed("https://horalix.com.evil.com", DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+    expect(isOriginAllowed("https://deploy-preview-1.evil--horalix.netlify.app", DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+    expect(isOriginAllowed("https://deploy-preview-42--other.netlify.app", DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+    expect(isOriginAllowed("http://horalix.com", DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+    expect(isOriginAllowed(null, DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Audit log helpers
+ * Labels shared by the audit log page and the per-record history drawer
+ */
+
+import type { RevisionTableName } from "@/lib/contentDiff";
+
+/** Tables covered by the capture_audit_log trigger */
+export type AuditTableName = RevisionTableName | "contact_messages" | "contact_submissions" | "newsletter_campaigns";
+
+export const AUDIT_TABLE_LABELS: Record<AuditTableName, string> = {
+  contact_messages: "Contact messages",
+  contact_submissions: "Contact submissions",
+  contributors: "Contributors",
+  email_templates: "Email templates",
+  evidence_sources: "Evidence",
+  faq_items: "FAQ",
+  linkedin_posts: "LinkedIn posts",
+  news_articles: "News",
+  newsletter_campaigns: "Newsletter campaigns",
+  resources: "Resources",
+  site_content: "Site content",
+  solutions: "Solutions",
+  team_members: "Team",
+};
+
+/** Entries for these hold contact details, so RLS only shows them to admins */
+export const CONTACT_AUDIT_TABLES: AuditTableName[] = ["contact_messages", "contact_submissions"];
+
+export const AUDIT_ACTION_STYLES: Record<string, { label: string; className: string }> = {
+  insert: { label: "Created", className: "bg-green-500/20 text-green-500" },
+  update: { label: "Updated", className: "bg-blue-500/20 text-blue-500" },
+  delete: { label: "Deleted", className: "bg-red-500/20 text-red-500" },
+};
+
+/** Who made the change, falling back to "System" for edge functions and scheduled jobs. */
+export function formatAuditActor(entry: { actor_email: string | null; actor_role: string | null }): string {
+  if (entry.actor_email) return entry.actor_email;
+  return entry.actor_role === "service_role" ? "System" : "Unknown";
+}
@@ -0,0 +1,41 @@
+/**
+ * Auth proxy helpers
+ * Callers for the origin-checked auth-* edge functions and the password rules they enforce
+ * (kept in sync with supabase/functions/_shared/authProxy.ts)
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export class AuthFunctionError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
+/** Invokes an auth-* function and surfaces its own error message. */
+export async function invokeAuthFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json().catch(() => null) : null;
+    throw new AuthFunctionError(errorBody?.error || "Something went wrong. Please try again later.", errorBody?.code);
+  }
+  if (data?.error) throw new AuthFunctionError(data.error, data.code);
+  return data as T;
+}
+
+export const validatePassword = (password: string) => {
+  return {
+    minLength: password.length >= 8,
+    hasLetter: /[a-zA-Z]/.test(password),
+    hasNumber: /[0-9]/.test(password),
+  };
+};
+
+export const meetsPasswordRules = (password: string) => {
+  const rules = validatePassword(password);
+  return rules.minLength && rules.hasLetter && rules.hasNumber;
+};
+
+export const PASSWORD_RULES_MESSAGE =
+  "Password must be at least 8 characters with at least one letter and one number.";
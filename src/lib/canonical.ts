@@ -1,42 +1,43 @@
 /**
  * Canonical host enforcement and auth redirect helpers
- * Ensures users always interact with https://horalix.com, never preview domains
+ * Ensures users always interact with https://horalix.com or another allowed origin
  */
 
+import { isOriginAllowed, parseAllowedOrigins } from "./allowedOrigins";
+
 // Step 1: Define canonical production URL
 export const CANONICAL_SITE_URL = "https://horalix.com";
 
-// Step 2: Define the ONLY hosts allowed to serve this app.
-// Any host not in this list will be redirected to the canonical URL.
-const ALLOWED_HOSTS = [
-  "horalix.com",
-  "www.horalix.com",
-  "localhost",
-  "127.0.0.1",
-];
+// Step 2: Origins allowed to serve this app, from the same ALLOWED_ORIGINS setting the edge
+// functions and is_allowed_origin() use (see lib/allowedOrigins). Any other origin, apart
+// from local and preview hosts, is redirected to the canonical URL.
+const ALLOWED_ORIGINS = parseAllowedOrigins(import.meta.env.ALLOWED_ORIGINS);
 
-// Suffixes for development/preview environments (e.g. Lovable, Netlify deploy previews)
-const ALLOWED_HOST_SUFFIXES = [
+// Local development servers are always fine; the edge functions still need them listed
+const LOCAL_HOSTS = ["localhost", "127.0.0.1"];
+
+// Suffixes for development/preview environments (e.g. Lovable, Netlify deploy previews).
+// Only spares them the redirect: their API calls still need an ALLOWED_ORIGINS entry.
+const PREVIEW_HOST_SUFFIXES = [
   ".lovable.app",
   ".netlify.app",
 ];
 
-function isAllowedHost(hostname: string): boolean {
-  if (ALLOWED_HOSTS.includes(hostname)) return true;
-  return ALLOWED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix));
+function isAllowedHost(location: Location): boolean {
+  if (LOCAL_HOSTS.includes(location.hostname)) return true;
+  if (PREVIEW_HOST_SUFFIXES.some((suffix) => location.hostname.endsWith(suffix))) return true;
+  return isOriginAllowed(location.origin, ALLOWED_ORIGINS);
 }
 
 /**
  * enforceCanonicalHost
- * If the current hostname is in the blocked list, redirect to the canonical URL
+ * If the current origin is not allowed, redirect to the canonical URL
  * Must be called before React renders to prevent flash of content
  */
 export function enforceCanonicalHost(): void {
   if (typeof window === "undefined") return;
 
-  const currentHost = window.location.hostname;
-
-  if (!isAllowedHost(currentHost)) {
+  if (!isAllowedHost(window.location)) {
     // Preserve the path and search params on redirect
     const targetUrl = `${CANONICAL_SITE_URL}${window.location.pathname}${window.location.search}${window.location.hash}`;
     window.location.replace(targetUrl);
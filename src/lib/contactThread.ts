@@ -0,0 +1,58 @@
+/**
+ * Contact thread helpers
+ * Shared by the contacts admin and the user's submissions page
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ContactMessage = Tables<"contact_messages">;
+
+/** Mirrors MAX_MESSAGE_LENGTH in supabase/functions/_shared/contactThread.ts */
+export const MAX_CONTACT_MESSAGE_LENGTH = 10000;
+
+export const CONTACT_CHANNEL_LABELS: Record<string, string> = {
+  admin: "Sent by email",
+  portal: "Via submissions page",
+  email: "By email",
+};
+
+export const contactThreadQueryKey = (submissionId: string) => ["contact-thread", submissionId];
+
+export async function fetchContactThread(submissionId: string): Promise<ContactMessage[]> {
+  const { data, error } = await supabase
+    .from("contact_messages")
+    .select("*")
+    .eq("submission_id", submissionId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data;
+}
+
+export interface ContactReplyResult {
+  ok: true;
+  message_id: string;
+  /** Staff replies: whether the email reached the mail provider */
+  email_sent?: boolean;
+  /** Sender replies: whether the team notification went out */
+  team_notified?: boolean;
+  error?: string;
+}
+
+/** Staff reply ("reply") or the sender's own answer ("sender_reply") through contact-thread. */
+export async function sendContactReply(
+  action: "reply" | "sender_reply",
+  submissionId: string,
+  body: string,
+): Promise<ContactReplyResult> {
+  const { data, error } = await supabase.functions.invoke("contact-thread", {
+    body: { action, submission_id: submissionId, body },
+  });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json().catch(() => null) : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+  if (data?.error && !data?.ok) throw new Error(data.error);
+  return data as ContactReplyResult;
+}
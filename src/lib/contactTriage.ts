@@ -0,0 +1,89 @@
+/**
+ * Contact triage helpers
+ * Tags, priorities and first-response SLA display for the contacts admin.
+ * The SLA windows themselves live in contact_response_window() (contact_triage migration).
+ */
+
+import { formatDistanceStrict } from "date-fns";
+
+export type ContactStatus = "new" | "in_progress" | "responded" | "archived";
+export type ContactPriority = "low" | "normal" | "high" | "urgent";
+export type ContactTag = "demo_request" | "partnership" | "press" | "investor";
+
+export const CONTACT_STATUS_OPTIONS: { value: ContactStatus; label: string; color: string }[] = [
+  { value: "new", label: "New", color: "bg-blue-500/20 text-blue-500" },
+  { value: "in_progress", label: "In Progress", color: "bg-yellow-500/20 text-yellow-500" },
+  { value: "responded", label: "Responded", color: "bg-green-500/20 text-green-500" },
+  { value: "archived", label: "Archived", color: "bg-gray-500/20 text-gray-500" },
+];
+
+export const CONTACT_PRIORITY_OPTIONS: { value: ContactPriority; label: string; color: string }[] = [
+  { value: "urgent", label: "Urgent", color: "bg-red-500/20 text-red-500" },
+  { value: "high", label: "High", color: "bg-orange-500/20 text-orange-500" },
+  { value: "normal", label: "Normal", color: "bg-secondary text-muted-foreground" },
+  { value: "low", label: "Low", color: "bg-gray-500/10 text-gray-500" },
+];
+
+export const CONTACT_TAG_OPTIONS: { value: ContactTag; label: string }[] = [
+  { value: "demo_request", label: "Demo request" },
+  { value: "partnership", label: "Partnership" },
+  { value: "press", label: "Press" },
+  { value: "investor", label: "Investor" },
+];
+
+export const CONTACT_TAG_LABELS = Object.fromEntries(
+  CONTACT_TAG_OPTIONS.map((tag) => [tag.value, tag.label])
+) as Record<ContactTag, string>;
+
+// Highlight submissions this close to their deadline
+const DUE_SOON_MS = 2 * 60 * 60 * 1000;
+
+export interface ContactSla {
+  state: "met" | "overdue" | "due_soon" | "open" | "none";
+  label: string;
+  className: string;
+}
+
+/** First-response SLA for a submission, relative to `now`. */
+export function getContactSla(
+  submission: {
+    status: string;
+    created_at: string;
+    response_due_at: string | null;
+    first_response_at: string | null;
+  },
+  now: Date = new Date()
+): ContactSla {
+  if (submission.first_response_at) {
+    const took = formatDistanceStrict(new Date(submission.first_response_at), new Date(submission.created_at));
+    const late =
+      !!submission.response_due_at &&
+      new Date(submission.first_response_at) > new Date(submission.response_due_at);
+    return {
+      state: "met",
+      label: `Answered in ${took}`,
+      className: late ? "text-orange-500" : "text-muted-foreground",
+    };
+  }
+
+  if (submission.status === "archived" || !submission.response_due_at) {
+    return { state: "none", label: "—", className: "text-muted-foreground" };
+  }
+
+  const due = new Date(submission.response_due_at);
+  const remaining = due.getTime() - now.getTime();
+
+  if (remaining <= 0) {
+    return {
+      state: "overdue",
+      label: `Overdue by ${formatDistanceStrict(now, due)}`,
+      className: "text-destructive font-medium",
+    };
+  }
+
+  return {
+    state: remaining <= DUE_SOON_MS ? "due_soon" : "open",
+    label: `Due in ${formatDistanceStrict(due, now)}`,
+    className: remaining <= DUE_SOON_MS ? "text-orange-500 font-medium" : "text-muted-foreground",
+  };
+}
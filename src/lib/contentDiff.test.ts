@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { diffLines, diffSnapshots, formatFieldValue } from "./contentDiff";
+
+describe("formatFieldValue", () => {
+  it("renders scalars as text and JSON over several lines", () => {
+    expect(formatFieldValue(null)).toBe("");
+    expect(formatFieldValue(undefined)).toBe("");
+    expect(formatFieldValue("text")).toBe("text");
+    expect(formatFieldValue(3)).toBe("3");
+    expect(formatFieldValue(false)).toBe("false");
+    expect(formatFieldValue(["a", "b"])).toBe('[\n  "a",\n  "b"\n]');
+  });
+});
+
+describe("diffLines", () => {
+  it("marks unchanged, removed and added lines", () => {
+    expect(diffLines("one\ntwo\nthree", "one\n2\nthree")).toEqual([
+      { type: "same", text: "one" },
+      { type: "removed", text: "two" },
+      { type: "added", text: "2" },
+      { type: "same", text: "three" },
+    ]);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffLines("", "new")).toEqual([{ type: "added", text: "new" }]);
+    expect(diffLines("old", "")).toEqual([{ type: "removed", text: "old" }]);
+    expect(diffLines("", "")).toEqual([]);
+  });
+
+  it("keeps the longest common run of lines", () => {
+    const lines = diffLines("a\nb\nc\nd", "x\nb\nc\ny");
+
+    expect(lines.filter((line) => line.type === "same").map((line) => line.text)).toEqual(["b", "c"]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("lists changed fields in order and skips system fields", () => {
+    const before = { id: "1", updated_at: "2026-01-01", title: "Old", summary: "Same", content: "a\nb" };
+    const after = { id: "1", updated_at: "2026-02-01", title: "New", summary: "Same", content: "a\nc" };
+
+    expect(diffSnapshots(before, after)).toEqual([
+      {
+        field: "content",
+        lines: [
+          { type: "same", text: "a" },
+          { type: "removed", text: "b" },
+          { type: "added", text: "c" },
+        ],
+      },
+      {
+        field: "title",
+        lines: [
+          { type: "removed", text: "Old" },
+          { type: "added", text: "New" },
+        ],
+      },
+    ]);
+  });
+
+  it("treats a missing snapshot as empty", () => {
+    expect(diffSnapshots(null, { title: "First" })).toEqual([
+      { field: "title", lines: [{ type: "added", text: "First" }] },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Content diff helpers
+ * Line-level diffs between content revision snapshots for the admin history view
+ */
+
+import type { Json } from "@/integrations/supabase/types";
+
+/** CMS tables whose rows are snapshotted into content_revisions */
+export type RevisionTableName =
+  | "contributors"
+  | "email_templates"
+  | "evidence_sources"
+  | "faq_items"
+  | "linkedin_posts"
+  | "news_articles"
+  | "resources"
+  | "site_content"
+  | "solutions"
+  | "team_members";
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface FieldDiff {
+  field: string;
+  lines: DiffLine[];
+}
+
+// Fields that change on every save or only matter to the database
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at", "went_live_at"]);
+
+/** Renders a snapshot value as text so JSON columns diff line by line. */
+export function formatFieldValue(value: Json | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value, null, 2);
+}
+
+/** LCS line diff; revisions are small enough that the O(n*m) table is fine. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+const asRecord = (snapshot: Json | null | undefined): Record<string, Json | undefined> =>
+  snapshot && typeof snapshot === "object" && !Array.isArray(snapshot) ? snapshot : {};
+
+/** Field-by-field diff between two snapshots, skipping unchanged and system fields. */
+export function diffSnapshots(before: Json | null | undefined, after: Json | null | undefined): FieldDiff[] {
+  const previous = asRecord(before);
+  const next = asRecord(after);
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .map((field) => ({ field, before: formatFieldValue(previous[field]), after: formatFieldValue(next[field]) }))
+    .filter(({ before: a, after: b }) => a !== b)
+    .map(({ field, before: a, after: b }) => ({ field, lines: diffLines(a, b) }));
+}
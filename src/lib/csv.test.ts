@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes only cells that need it", () => {
+    expect(toCsv(["email", "note"], [["a@example.com", 'says "hi", twice'], ["b@example.com", "two\nlines"]])).toBe(
+      'email,note\r\na@example.com,"says ""hi"", twice"\r\nb@example.com,"two\nlines"',
+    );
+  });
+
+  it("writes empty cells for null and undefined", () => {
+    expect(toCsv(["a", "b", "c"], [[null, undefined, 0], [true, false, ""]])).toBe("a,b,c\r\n,,0\r\ntrue,false,");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted commas, quotes and newlines", () => {
+    expect(parseCsv('email,note\r\na@example.com,"says ""hi"", twice"\nb@example.com,"two\nlines"')).toEqual([
+      ["email", "note"],
+      ["a@example.com", 'says "hi", twice'],
+      ["b@example.com", "two\nlines"],
+    ]);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseCsv("a,b\n\n1,2\n ,\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("round-trips what toCsv writes", () => {
+    const rows = [
+      ["plain", "with, comma"],
+      ['"quoted"', "multi\r\nline"],
+    ];
+
+    expect(parseCsv(toCsv(["x", "y"], rows))).toEqual([["x", "y"], ...rows]);
+  });
+});
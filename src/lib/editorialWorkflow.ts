@@ -0,0 +1,55 @@
+/**
+ * Editorial workflow rules
+ * Mirrors transition_content_workflow() so the admin only offers actions the database will accept.
+ * draft -> in_review -> approved -> published; the database remains the authority.
+ */
+
+export type WorkflowTable = "news_articles" | "resources";
+
+export type WorkflowAction = "submit" | "request_changes" | "approve" | "publish" | "unpublish";
+
+interface WorkflowActionDefinition {
+  label: string;
+  /** Toast title after the transition succeeds */
+  doneLabel: string;
+  from: string;
+  /** "editor" = admin or editor; "reviewer" = designated reviewer (or admin, except resource approval) */
+  requires: "editor" | "reviewer";
+  /** Offer a note field (shown to the editor on the item) */
+  withNote?: boolean;
+}
+
+export const WORKFLOW_ACTIONS: Record<WorkflowAction, WorkflowActionDefinition> = {
+  submit: { label: "Submit for review", doneLabel: "Submitted for review", from: "draft", requires: "editor" },
+  request_changes: { label: "Request changes", doneLabel: "Changes requested", from: "in_review", requires: "reviewer", withNote: true },
+  approve: { label: "Approve", doneLabel: "Approved", from: "in_review", requires: "reviewer", withNote: true },
+  publish: { label: "Publish", doneLabel: "Published", from: "approved", requires: "editor" },
+  unpublish: { label: "Unpublish", doneLabel: "Unpublished", from: "published", requires: "editor" },
+};
+
+export interface WorkflowPermissions {
+  isAdmin: boolean;
+  isEditor: boolean;
+  /** The current user is linked to the contributor set as reviewer_id */
+  isDesignatedReviewer: boolean;
+  /** The current user submitted the item for review, so someone else has to approve and publish it */
+  isSubmitter: boolean;
+}
+
+/** Actions the current user can take on an item in the given status. */
+export function getAvailableActions(
+  table: WorkflowTable,
+  status: string,
+  { isAdmin, isEditor, isDesignatedReviewer, isSubmitter }: WorkflowPermissions,
+): WorkflowAction[] {
+  return (Object.keys(WORKFLOW_ACTIONS) as WorkflowAction[]).filter((action) => {
+    const definition = WORKFLOW_ACTIONS[action];
+    if (definition.from !== status) return false;
+    if (isSubmitter && (action === "approve" || action === "publish")) return false;
+    if (definition.requires === "editor") return isEditor;
+
+    // Resources must be approved by their designated reviewer; news approval is an admin call
+    if (action === "approve") return table === "resources" ? isDesignatedReviewer : isAdmin;
+    return isDesignatedReviewer || isAdmin;
+  });
+}
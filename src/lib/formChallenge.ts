@@ -0,0 +1,42 @@
+/**
+ * Public form challenges
+ * Client side of supabase/functions/_shared/formChallenge.ts: fetches a signed challenge
+ * from a form's edge function and solves its proof of work, if any, in the background.
+ */
+
+import { supabase } from "@/lib/supabase";
+
+export interface SolvedFormChallenge {
+  token: string;
+  nonce: string;
+}
+
+async function leadingZeroBits(value: string): Promise<number> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/** Finds a nonce where SHA-256("<token>:<nonce>") starts with `difficulty` zero bits. */
+export async function solveProofOfWork(token: string, difficulty: number): Promise<string> {
+  if (difficulty <= 0) return "";
+  for (let nonce = 0; ; nonce++) {
+    const candidate = nonce.toString(36);
+    if ((await leadingZeroBits(`${token}:${candidate}`)) >= difficulty) return candidate;
+  }
+}
+
+/** Fetches a challenge from the form's edge function and solves it. */
+export async function fetchFormChallenge(functionName: string): Promise<SolvedFormChallenge> {
+  const { data, error } = await supabase.functions.invoke(functionName, { body: { action: "challenge" } });
+  if (error || !data?.token) throw error || new Error("No challenge returned");
+  return { token: data.token, nonce: await solveProofOfWork(data.token, data.difficulty ?? 0) };
+}
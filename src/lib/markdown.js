@@ -0,0 +1,7 @@
+/**
+ * Safe Markdown renderer for CMS content
+ * Re-exports the renderer the Edge Functions use (supabase/functions/_shared/markdown.js),
+ * so the website, the Node build scripts and newsletter emails share one implementation.
+ */
+
+export { escapeHtml, markdownToPlainText, renderMarkdown } from "../../supabase/functions/_shared/markdown.js";
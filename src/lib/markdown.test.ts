@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeHtml, markdownToPlainText, renderMarkdown } from "./markdown";
+
+const SITE_URL = "https://horalix.com";
+
+describe("renderMarkdown", () => {
+  it("renders headings, paragraphs, lists and quotes", () => {
+    const html = renderMarkdown("# Title\n\nFirst line\nsecond line\n\n- one\n- two\n\n1. first\n\n> quoted");
+
+    expect(html).toBe(
+      [
+        "<h2>Title</h2>",
+        "<p>First line<br />second line</p>",
+        "<ul><li>one</li><li>two</li></ul>",
+        "<ol><li>first</li></ol>",
+        "<blockquote><p>quoted</p></blockquote>",
+      ].join("\n"),
+    );
+  });
+
+  it("escapes raw HTML instead of rendering it", () => {
+    const html = renderMarkdown('<script>alert("x")</script> <img src=x onerror=alert(1)>');
+
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).toContain("&lt;script&gt;");
+  });
+
+  it("drops links and images with unsafe URLs", () => {
+    const html = renderMarkdown(
+      "[js](javascript:alert(1)) [data](data:text/html,x) ![img](http://example.com/a.png) [proto](//evil.com) [slash](/\\evil.com)",
+    );
+
+    expect(html).not.toContain("<a");
+    expect(html).not.toContain("<img");
+    expect(html).toContain("js");
+    expect(html).toContain("img");
+  });
+
+  it("keeps safe links and images", () => {
+    const html = renderMarkdown("[docs](/resources/a) [mail](mailto:hi@horalix.com) ![chart](https://cdn.example.com/c.png)");
+
+    expect(html).toContain('<a href="/resources/a">docs</a>');
+    expect(html).toContain('<a href="mailto:hi@horalix.com">mail</a>');
+    expect(html).toContain('<img src="https://cdn.example.com/c.png" alt="chart" loading="lazy" />');
+  });
+
+  it("can't break out of attributes through link text or URLs", () => {
+    const html = renderMarkdown('[x" onclick="alert(1)](https://example.com/"onmouseover="alert(1))');
+
+    // Quotes stay escaped, so both payloads end up inside the href value and the link text
+    expect(html).toBe(
+      '<p><a href="https://example.com/&quot;onmouseover=&quot;alert(1" target="_blank" rel="noopener noreferrer">' +
+        "x&quot; onclick=&quot;alert(1)</a>)</p>",
+    );
+  });
+
+  it("opens external links in a new tab and keeps same-origin links in place", () => {
+    const html = renderMarkdown(`[out](https://example.com) [in](${SITE_URL}/news/a)`, { siteUrl: SITE_URL });
+
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer">out</a>');
+    expect(html).toContain(`<a href="${SITE_URL}/news/a">in</a>`);
+  });
+
+  it("treats look-alike hosts that start with the site URL as external", () => {
+    const html = renderMarkdown("[phish](https://horalix.com.evil.com/login)", { siteUrl: SITE_URL });
+
+    expect(html).toContain('target="_blank" rel="noopener noreferrer"');
+  });
+
+  it("leaves URLs alone when applying emphasis", () => {
+    const html = renderMarkdown("**bold** and *italic* [a_b](https://example.com/a_b_c)");
+
+    expect(html).toContain("<strong>bold</strong>");
+    expect(html).toContain("<em>italic</em>");
+    expect(html).toContain('href="https://example.com/a_b_c"');
+  });
+
+  it("caps blockquote nesting on deeply nested input", () => {
+    const html = renderMarkdown(`${">".repeat(10000)} deep`);
+
+    expect(html.match(/<blockquote>/g)).toHaveLength(8);
+    expect(html).toContain("&gt;");
+  });
+});
+
+describe("markdownToPlainText", () => {
+  it("strips Markdown syntax", () => {
+    expect(markdownToPlainText("## Heading\n\n**Bold** [link](https://example.com) `code`\n\n- item")).toBe(
+      "Heading\n\nBold link code\n\n• item",
+    );
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes every HTML-significant character", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;");
+  });
+});
@@ -0,0 +1,41 @@
+import { NEWSLETTER_TOPICS } from "@/lib/newsletterPreferences";
+
+/**
+ * Newsletter campaign helpers
+ * Labels for the campaigns admin; sending itself happens in the newsletter-campaign edge function
+ */
+
+export type CampaignStatus = "draft" | "scheduled" | "sent";
+
+export type CampaignSegment = "all" | "registered" | "guests";
+
+export const CAMPAIGN_STATUS_STYLES: Record<CampaignStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-yellow-500/20 text-yellow-500" },
+  scheduled: { label: "Scheduled", className: "bg-blue-500/20 text-blue-500" },
+  sent: { label: "Sent", className: "bg-green-500/20 text-green-500" },
+};
+
+export const CAMPAIGN_TYPE_LABELS: Record<string, string> = {
+  article: "Article",
+  digest: "Digest",
+};
+
+export const CAMPAIGN_SEGMENT_LABELS: Record<CampaignSegment, string> = {
+  all: "All subscribers",
+  registered: "Subscribers with an account",
+  guests: "Subscribers without an account",
+};
+
+/** Short audience description: topic, segment and the optional "joined since" filter. */
+export function describeCampaignAudience(campaign: {
+  topic: string;
+  segment: string;
+  segment_subscribed_since: string | null;
+}): string {
+  const topic = NEWSLETTER_TOPICS.find((option) => option.value === campaign.topic)?.label ?? campaign.topic;
+  const segment = CAMPAIGN_SEGMENT_LABELS[campaign.segment as CampaignSegment] ?? campaign.segment;
+  const label = `${segment} opted in to ${topic}`;
+  return campaign.segment_subscribed_since
+    ? `${label}, joined since ${new Date(campaign.segment_subscribed_since).toLocaleDateString()}`
+    : label;
+}
@@ -0,0 +1,29 @@
+/**
+ * Newsletter subscription helpers
+ * Topics subscribers can choose, shared by the public subscribe form, the preference
+ * center and the campaign composer, plus a caller for the public newsletter edge functions
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type NewsletterTopic = "news" | "resources" | "product_updates";
+
+export const NEWSLETTER_TOPICS: { value: NewsletterTopic; label: string; description: string }[] = [
+  { value: "news", label: "News", description: "Announcements and new articles from Horalix." },
+  { value: "resources", label: "Resources", description: "Guides, evidence and clinical workflow resources." },
+  { value: "product_updates", label: "Product updates", description: "New features and release notes." },
+];
+
+export const ALL_NEWSLETTER_TOPICS = NEWSLETTER_TOPICS.map((topic) => topic.value);
+
+/** Invokes a public newsletter function and surfaces its own error message. */
+export async function invokeNewsletterFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json().catch(() => null) : null;
+    throw new Error(errorBody?.error || "Something went wrong. Please try again later.");
+  }
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+}
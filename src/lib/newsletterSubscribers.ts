@@ -0,0 +1,83 @@
+/**
+ * Newsletter subscriber helpers
+ * Status and history labels for the subscribers admin, plus CSV import parsing
+ */
+
+import { parseCsv } from "@/lib/csv";
+import { ALL_NEWSLETTER_TOPICS, type NewsletterTopic } from "@/lib/newsletterPreferences";
+
+export type SubscriberStatus = "subscribed" | "pending" | "unsubscribed";
+
+export const SUBSCRIBER_STATUS_STYLES: Record<SubscriberStatus, { label: string; className: string }> = {
+  subscribed: { label: "Subscribed", className: "bg-green-500/20 text-green-500" },
+  pending: { label: "Pending", className: "bg-yellow-500/20 text-yellow-500" },
+  unsubscribed: { label: "Unsubscribed", className: "bg-secondary text-muted-foreground" },
+};
+
+export const SUBSCRIBER_SOURCE_LABELS: Record<string, string> = {
+  signup: "Account signup",
+  form: "Subscribe form",
+  admin: "Added by admin",
+  import: "CSV import",
+};
+
+export const SUBSCRIPTION_EVENT_LABELS: Record<string, string> = {
+  pending: "Signed up, awaiting confirmation",
+  subscribed: "Subscribed",
+  unsubscribed: "Unsubscribed",
+  topics_changed: "Changed topics",
+  removed: "Removed from the list",
+};
+
+/**
+ * Pending rows have never been active; unsubscribed rows were active and left.
+ * The filter in SubscribersManager mirrors this on the query.
+ */
+export function getSubscriberStatus(subscriber: {
+  is_subscribed: boolean;
+  unsubscribed_at: string | null;
+}): SubscriberStatus {
+  if (subscriber.is_subscribed) return "subscribed";
+  return subscriber.unsubscribed_at ? "unsubscribed" : "pending";
+}
+
+export interface SubscriberImport {
+  rows: { email: string; topics: NewsletterTopic[] }[];
+  invalid: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Reads an import file: an "email" column (or the first column without a header) and an
+ * optional "topics" column separated by ";" or "|". Addresses are lowercased and deduplicated.
+ */
+export function parseSubscriberCsv(text: string): SubscriberImport {
+  const table = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (table.length === 0) return { rows: [], invalid: [] };
+
+  const header = table[0].map((cell) => cell.trim().toLowerCase());
+  const hasHeader = header.includes("email");
+  const emailIndex = hasHeader ? header.indexOf("email") : 0;
+  const topicsIndex = hasHeader ? header.indexOf("topics") : -1;
+
+  const seen = new Set<string>();
+  const rows: SubscriberImport["rows"] = [];
+  const invalid: string[] = [];
+
+  for (const cells of hasHeader ? table.slice(1) : table) {
+    const email = (cells[emailIndex] ?? "").trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      if (email) invalid.push(email);
+      continue;
+    }
+    if (seen.has(email)) continue;
+    seen.add(email);
+
+    const requested = topicsIndex >= 0 ? (cells[topicsIndex] ?? "").split(/[;|]/).map((topic) => topic.trim()) : [];
+    const topics = ALL_NEWSLETTER_TOPICS.filter((topic) => requested.includes(topic));
+    rows.push({ email, topics: topics.length > 0 ? topics : ALL_NEWSLETTER_TOPICS });
+  }
+
+  return { rows, invalid };
+}
@@ -0,0 +1,92 @@
+/**
+ * Admin permissions
+ * Staff roles as carried in the access token, and which roles may view or edit each admin
+ * section. Drives the admin navigation (AdminLayout) and route guards (ProtectedRoute); the
+ * database enforces its own checks through has_role()/has_admin_access(). RLS and the Edge
+ * Functions keep ADMIN_ONLY sections admin-only as well, so change both together.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type SectionPermission = "view" | "edit";
+
+export type AdminSection =
+  | "dashboard"
+  | "news"
+  | "linkedin"
+  | "team"
+  | "solutions"
+  | "resources"
+  | "contributors"
+  | "evidence"
+  | "content"
+  | "faq"
+  | "contacts"
+  | "emails"
+  | "campaigns"
+  | "newsletter"
+  | "subscribers"
+  | "audit"
+  | "users"
+  | "rateLimits";
+
+// Highest role first; a user's displayed role is the first one they hold
+export const ROLE_ORDER: AppRole[] = ["admin", "editor", "viewer"];
+
+const CONTENT_ACCESS: Partial<Record<AppRole, SectionPermission>> = {
+  admin: "edit",
+  editor: "edit",
+  viewer: "view",
+};
+
+const ADMIN_ONLY: Partial<Record<AppRole, SectionPermission>> = { admin: "edit" };
+
+/**
+ * Roles from the user_roles claim the custom access token hook adds (see the
+ * user_roles_jwt_claim migration), highest first; null for tokens issued without the hook.
+ */
+export const readRoleClaim = (accessToken: string): AppRole[] | null => {
+  try {
+    const payload = JSON.parse(atob(accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    if (!Array.isArray(payload.user_roles)) return null;
+    return ROLE_ORDER.filter((role) => payload.user_roles.includes(role));
+  } catch {
+    return null;
+  }
+};
+
+/** Roles without an entry have no access to the section. */
+export const SECTION_PERMISSIONS: Record<AdminSection, Partial<Record<AppRole, SectionPermission>>> = {
+  dashboard: CONTENT_ACCESS,
+  news: CONTENT_ACCESS,
+  linkedin: CONTENT_ACCESS,
+  team: CONTENT_ACCESS,
+  solutions: CONTENT_ACCESS,
+  resources: CONTENT_ACCESS,
+  contributors: CONTENT_ACCESS,
+  evidence: CONTENT_ACCESS,
+  content: CONTENT_ACCESS,
+  faq: CONTENT_ACCESS,
+  contacts: ADMIN_ONLY,
+  emails: CONTENT_ACCESS,
+  campaigns: CONTENT_ACCESS,
+  newsletter: CONTENT_ACCESS,
+  subscribers: ADMIN_ONLY,
+  // Contact entries in the log stay admin-only through RLS
+  audit: CONTENT_ACCESS,
+  users: ADMIN_ONLY,
+  rateLimits: ADMIN_ONLY,
+};
+
+/** Whether any of the roles grants the permission ("edit" includes "view"). */
+export const hasSectionPermission = (
+  roles: AppRole[],
+  section: AdminSection,
+  permission: SectionPermission = "view",
+): boolean =>
+  roles.some((role) => {
+    const granted = SECTION_PERMISSIONS[section][role];
+    return granted === "edit" || granted === permission;
+  });
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getPublishStatus, hasGoneLive, isFutureTimestamp, resolvePublishedAt, toDateTimeLocalValue } from "./publishSchedule";
+
+const NOW = "2026-06-15T12:00:00.000Z";
+const PAST = "2026-06-01T09:00:00.000Z";
+const FUTURE = "2026-07-01T09:00:00.000Z";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(NOW));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("toDateTimeLocalValue", () => {
+  it("formats to minute precision in local time", () => {
+    const value = toDateTimeLocalValue(PAST);
+
+    expect(value).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+    expect(new Date(value).toISOString()).toBe(PAST);
+  });
+
+  it("returns an empty string for missing or invalid input", () => {
+    expect(toDateTimeLocalValue(null)).toBe("");
+    expect(toDateTimeLocalValue("not a date")).toBe("");
+  });
+});
+
+describe("isFutureTimestamp and hasGoneLive", () => {
+  it("compare against the current time", () => {
+    expect(isFutureTimestamp(FUTURE)).toBe(true);
+    expect(isFutureTimestamp(PAST)).toBe(false);
+    expect(isFutureTimestamp(null)).toBe(false);
+
+    expect(hasGoneLive(PAST)).toBe(true);
+    expect(hasGoneLive(FUTURE)).toBe(false);
+    expect(hasGoneLive(null)).toBe(false);
+  });
+});
+
+describe("resolvePublishedAt", () => {
+  it("keeps the first-publish date once live", () => {
+    expect(resolvePublishedAt(FUTURE, PAST)).toBe(PAST);
+    expect(resolvePublishedAt("", PAST)).toBe(PAST);
+  });
+
+  it("uses the planned time until then", () => {
+    expect(resolvePublishedAt(FUTURE)).toBe(FUTURE);
+    expect(resolvePublishedAt(PAST, FUTURE)).toBe(PAST);
+    expect(resolvePublishedAt("", FUTURE)).toBeNull();
+  });
+});
+
+describe("getPublishStatus", () => {
+  it("derives the status from the workflow and go-live time", () => {
+    expect(getPublishStatus({ workflow_status: "published", published_at: PAST })).toBe("published");
+    expect(getPublishStatus({ workflow_status: "published", published_at: FUTURE })).toBe("scheduled");
+    expect(getPublishStatus({ workflow_status: "published", published_at: null })).toBe("published");
+    expect(getPublishStatus({ workflow_status: "in_review", published_at: null })).toBe("in_review");
+    expect(getPublishStatus({ workflow_status: "approved", published_at: FUTURE })).toBe("approved");
+    expect(getPublishStatus({ workflow_status: "draft", published_at: PAST })).toBe("draft");
+    expect(getPublishStatus({ workflow_status: "unknown", published_at: null })).toBe("draft");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Publish schedule helpers
+ * published_at is the go-live time and may be in the future; is_published follows the
+ * editorial workflow (see editorialWorkflow.ts) and is set when an approved item is published
+ */
+
+export type PublishStatus = "draft" | "in_review" | "approved" | "scheduled" | "published";
+
+/** Formats an ISO timestamp for a datetime-local input (local time, minute precision). */
+export function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export function isFutureTimestamp(iso: string | null | undefined): boolean {
+  return !!iso && new Date(iso).getTime() > Date.now();
+}
+
+/** True once published_at has passed; from then on it is the fixed first-publish date. */
+export function hasGoneLive(publishedAt: string | null | undefined): boolean {
+  return !!publishedAt && !isFutureTimestamp(publishedAt);
+}
+
+/**
+ * Resolves the published_at to store: the existing first-publish date once live,
+ * otherwise the planned go-live time (null means "when published").
+ * The database enforces the same rule in preserve_first_published_at().
+ */
+export function resolvePublishedAt(publishAt: string, currentPublishedAt: string | null = null): string | null {
+  if (hasGoneLive(currentPublishedAt)) return currentPublishedAt;
+  return publishAt ? new Date(publishAt).toISOString() : null;
+}
+
+export function getPublishStatus(row: { workflow_status: string; published_at: string | null }): PublishStatus {
+  if (row.workflow_status === "published") {
+    return isFutureTimestamp(row.published_at) ? "scheduled" : "published";
+  }
+  return row.workflow_status === "in_review" || row.workflow_status === "approved" ? row.workflow_status : "draft";
+}
+
+export const publishStatusStyles: Record<PublishStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-yellow-500/20 text-yellow-500" },
+  in_review: { label: "In review", className: "bg-orange-500/20 text-orange-500" },
+  approved: { label: "Approved", className: "bg-purple-500/20 text-purple-500" },
+  scheduled: { label: "Scheduled", className: "bg-blue-500/20 text-blue-500" },
+  published: { label: "Published", className: "bg-green-500/20 text-green-500" },
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  citedClaimsFromJson,
+  citedClaimsToJson,
+  keyTakeawaysFromJson,
+  keyTakeawaysToJson,
+  sectionsFromJson,
+  sectionsToJson,
+  stringArrayFromJson,
+} from "./resourceStructure";
+
+describe("from JSON", () => {
+  it("turns stored sections into editor drafts", () => {
+    expect(sectionsFromJson([{ title: "Intro", paragraphs: ["One.", "Two."], bullets: ["a", "b"] }])).toEqual([
+      { title: "Intro", paragraphs: "One.\n\nTwo.", bullets: "a\nb" },
+    ]);
+  });
+
+  it("ignores malformed items and values", () => {
+    expect(keyTakeawaysFromJson([null, "text", ["x"], { text: "Kept" }])).toEqual([{ label: "", text: "Kept" }]);
+    expect(citedClaimsFromJson({ text: "not an array" })).toEqual([]);
+    expect(citedClaimsFromJson([{ text: "Claim", sourceIds: ["s1", 2, "s2"] }])).toEqual([
+      { text: "Claim", sourceIds: ["s1", "s2"] },
+    ]);
+    expect(stringArrayFromJson(["a", 1, null, "b"])).toEqual(["a", "b"]);
+    expect(stringArrayFromJson(undefined)).toEqual([]);
+  });
+});
+
+describe("to JSON", () => {
+  it("splits paragraphs on blank lines and bullets on lines", () => {
+    expect(
+      sectionsToJson([{ title: " Intro ", paragraphs: "First\nline.\n\n  \nSecond.", bullets: " a \n\nb\n" }]),
+    ).toEqual([{ title: "Intro", paragraphs: ["First line.", "Second."], bullets: ["a", "b"] }]);
+  });
+
+  it("drops empty drafts", () => {
+    expect(sectionsToJson([{ title: "No body", paragraphs: " ", bullets: "" }, { title: "", paragraphs: "Text", bullets: "" }])).toEqual([]);
+    expect(keyTakeawaysToJson([{ label: "Label only", text: " " }, { label: "", text: " Kept " }])).toEqual([
+      { label: "", text: "Kept" },
+    ]);
+    expect(citedClaimsToJson([{ text: "", sourceIds: ["s1"] }, { text: " Claim ", sourceIds: [] }])).toEqual([
+      { text: "Claim", sourceIds: [] },
+    ]);
+  });
+
+  it("round-trips stored sections", () => {
+    const sections = [{ title: "Intro", paragraphs: ["One.", "Two."], bullets: ["a"] }];
+
+    expect(sectionsToJson(sectionsFromJson(sections))).toEqual(sections);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Resource structure helpers
+ * Converts structured resource JSON columns to and from the admin editor drafts
+ */
+
+export interface KeyTakeawayDraft {
+  label: string;
+  text: string;
+}
+
+export interface SectionDraft {
+  title: string;
+  paragraphs: string; // blank-line separated
+  bullets: string; // one per line
+}
+
+export interface CitedClaimDraft {
+  text: string;
+  sourceIds: string[];
+}
+
+const asRecordArray = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object" && !Array.isArray(item))
+    : [];
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+const splitLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const splitParagraphs = (value: string) =>
+  value
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, " ").trim())
+    .filter(Boolean);
+
+export const keyTakeawaysFromJson = (value: unknown): KeyTakeawayDraft[] =>
+  asRecordArray(value).map((item) => ({ label: String(item.label ?? ""), text: String(item.text ?? "") }));
+
+export const sectionsFromJson = (value: unknown): SectionDraft[] =>
+  asRecordArray(value).map((item) => ({
+    title: String(item.title ?? ""),
+    paragraphs: asStringArray(item.paragraphs).join("\n\n"),
+    bullets: asStringArray(item.bullets).join("\n"),
+  }));
+
+export const citedClaimsFromJson = (value: unknown): CitedClaimDraft[] =>
+  asRecordArray(value).map((item) => ({ text: String(item.text ?? ""), sourceIds: asStringArray(item.sourceIds) }));
+
+export const keyTakeawaysToJson = (drafts: KeyTakeawayDraft[]) =>
+  drafts
+    .map((draft) => ({ label: draft.label.trim(), text: draft.text.trim() }))
+    .filter((draft) => draft.text);
+
+export const sectionsToJson = (drafts: SectionDraft[]) =>
+  drafts
+    .map((draft) => ({
+      title: draft.title.trim(),
+      paragraphs: splitParagraphs(draft.paragraphs),
+      bullets: splitLines(draft.bullets),
+    }))
+    .filter((draft) => draft.title && (draft.paragraphs.length > 0 || draft.bullets.length > 0));
+
+export const citedClaimsToJson = (drafts: CitedClaimDraft[]) =>
+  drafts
+    .map((draft) => ({ text: draft.text.trim(), sourceIds: draft.sourceIds }))
+    .filter((draft) => draft.text);
+
+export const stringArrayFromJson = asStringArray;
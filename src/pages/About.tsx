@@ -5,7 +5,8 @@ import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { contributors, organizationProfile } from "@/content/authorityData";
+import { organizationProfile } from "@/content/authorityData";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
 import {
   buildBreadcrumbJsonLd,
   buildOrganizationJsonLd,
@@ -13,6 +14,8 @@ import {
 } from "@/lib/structuredData";
 
 const About = () => {
+  const { contributors } = useAuthorityContent();
+
   const jsonLd = [
     {
       "@context": "https://schema.org",
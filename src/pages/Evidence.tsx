@@ -5,14 +5,14 @@ import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { benchmarkDisclosures, evidenceSourceOrder, evidenceSources } from "@/content/authorityData";
+import { benchmarkDisclosures, evidenceDisclosureTypes } from "@/content/authorityData";
+import { useEvidenceSources } from "@/hooks/useEvidenceSources";
 import { buildBreadcrumbJsonLd } from "@/lib/structuredData";
 
-type SourceId = "S1" | "S2" | "S3";
+const disclosureLabels = evidenceDisclosureTypes as Record<string, { label: string; description: string }>;
 
 const Evidence = () => {
-  const sourceMap = evidenceSources as Record<SourceId, { id: SourceId; shortLabel: string; fullLabel: string; url: string }>;
-  const sourceOrder = evidenceSourceOrder as SourceId[];
+  const { sources } = useEvidenceSources();
 
   const jsonLd = [
     {
@@ -91,28 +91,38 @@ const Evidence = () => {
           </section>
 
           <section className="mt-10 space-y-4">
-            {sourceOrder.map((sourceId) => {
-              const source = sourceMap[sourceId];
-
-              return (
-                <article key={source.id} className="border border-border bg-card p-6 shadow-sm">
-                  <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
-                    <div>
-                      <p className="font-mono text-[10px] uppercase tracking-[0.18em] text-accent">{source.id}</p>
-                      <h2 className="mt-2 font-space text-2xl font-bold text-primary">{source.shortLabel}</h2>
-                      <p className="mt-3 text-sm leading-relaxed text-muted-foreground">{source.fullLabel}</p>
-                    </div>
+            {sources.map((source) => (
+              <article key={source.id} className="border border-border bg-card p-6 shadow-sm">
+                <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+                  <div>
+                    <p className="font-mono text-[10px] uppercase tracking-[0.18em] text-accent">
+                      {source.id}
+                      {disclosureLabels[source.disclosureType] && (
+                        <span className="ml-3 text-muted-foreground">{disclosureLabels[source.disclosureType].label}</span>
+                      )}
+                    </p>
+                    <h2 className="mt-2 font-space text-2xl font-bold text-primary">{source.shortLabel}</h2>
+                    <p className="mt-3 text-sm leading-relaxed text-muted-foreground">{source.fullLabel}</p>
+                    {(source.doi || source.accessedOn) && (
+                      <p className="mt-2 font-mono text-xs text-muted-foreground">
+                        {source.doi && <span>DOI: {source.doi}</span>}
+                        {source.doi && source.accessedOn && <span> · </span>}
+                        {source.accessedOn && <span>Accessed {source.accessedOn}</span>}
+                      </p>
+                    )}
+                  </div>
 
+                  {source.url && (
                     <Button asChild variant="outline">
                       <a href={source.url} target="_blank" rel="noreferrer">
                         Open Source
                         <ArrowRight className="ml-2 h-4 w-4" />
                       </a>
                     </Button>
-                  </div>
-                </article>
-              );
-            })}
+                  )}
+                </div>
+              </article>
+            ))}
           </section>
 
           <section className="mt-10 border border-primary/15 bg-primary p-6 text-primary-foreground shadow-sm">
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { KeyRound, Loader2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { invokeAuthFunction } from "@/lib/authProxy";
+import horalixLogo from "@/assets/horalix-logo.png";
+import SEO from "@/components/SEO";
+
+/**
+ * ForgotPassword - Request a password reset email
+ * Sent through the auth-reset-request edge function; the link leads to /reset-password
+ */
+
+export default function ForgotPassword() {
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const [email, setEmail] = useState(searchParams.get("email") ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // Handle reset request
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await invokeAuthFunction("auth-reset-request", { email: email.trim() });
+      setSentTo(email.trim());
+    } catch (error) {
+      toast({
+        title: "Request Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {/* SEO meta for forgot password page */}
+      <SEO
+        title="Forgot Password | Horalix"
+        description="Reset the password for your Horalix account."
+        canonical="/forgot-password"
+        noindex
+      />
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          {/* Logo and header */}
+          <div className="text-center mb-8">
+            <Link to="/" className="inline-block mb-6">
+              <img src={horalixLogo} alt="Horalix" className="h-12 mx-auto" />
+            </Link>
+            <h1 className="text-2xl font-bold font-space text-foreground">
+              Forgot Your Password?
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              We'll email you a link to choose a new one
+            </p>
+          </div>
+
+          <div className="bg-card border border-border shadow-lg p-8">
+            {sentTo ? (
+              <div className="text-center">
+                <div className="w-16 h-16 bg-accent/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <Mail className="w-8 h-8 text-accent" />
+                </div>
+                <p className="text-muted-foreground mb-2">
+                  If an account exists for
+                </p>
+                <p className="text-foreground font-medium mb-6">{sentTo}</p>
+                <p className="text-sm text-muted-foreground mb-8">
+                  you'll receive a reset link shortly. If you don't see it, check your
+                  spam folder.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+                  Use a Different Email
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Email field */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="email"
+                    className="text-xs font-bold uppercase tracking-widest text-muted-foreground"
+                  >
+                    Email Address
+                  </label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                    disabled={isLoading}
+                    className="bg-secondary border-border"
+                  />
+                </div>
+
+                {/* Submit button */}
+                <Button
+                  type="submit"
+                  className="w-full text-xs font-bold uppercase tracking-widest"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      <KeyRound className="w-4 h-4 mr-2" />
+                      Send Reset Link
+                    </>
+                  )}
+                </Button>
+              </form>
+            )}
+
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              Remembered it?{" "}
+              <Link to="/login" className="text-accent hover:text-accent/80 font-medium">
+                Sign in
+              </Link>
+            </p>
+          </div>
+
+          {/* Back to home link */}
+          <p className="text-center text-sm text-muted-foreground mt-6">
+            <Link to="/" className="hover:text-foreground transition-colors">
+              ← Back to Home
+            </Link>
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
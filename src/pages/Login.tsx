@@ -1,17 +1,21 @@
 import { useState, useEffect } from "react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
-import { Eye, EyeOff, Loader2, Mail } from "lucide-react";
+import { Eye, EyeOff, Loader2, Mail, Wand2 } from "lucide-react";
+import type { Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { AuthFunctionError, invokeAuthFunction } from "@/lib/authProxy";
+import { authRedirectUrl } from "@/lib/canonical";
 import horalixLogo from "@/assets/horalix-logo.png";
 import SEO from "@/components/SEO";
 
 /**
  * Login - User login page
- * Supports email/password authentication
+ * Supports email/password and emailed magic-link sign-in, with a link to reset a
+ * forgotten password
  * Redirects authenticated users to returnTo or home
  */
 
@@ -25,6 +29,7 @@ export default function Login() {
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
 
   // Redirect authenticated users immediately
   useEffect(() => {
@@ -59,28 +64,10 @@ export default function Login() {
     try {
       // Route login through origin-checked edge function to prevent
       // cloned frontends on unauthorized domains from authenticating.
-      const { data: fnData, error: fnError } = await supabase.functions.invoke(
-        "auth-login",
-        { body: { email: email.trim(), password } },
-      );
-
-      if (fnError || fnData?.error) {
-        const msg = fnData?.error ?? fnError?.message ?? "Login failed";
-        if (msg.includes("Email not confirmed")) {
-          toast({
-            title: "Email Not Verified",
-            description: "Please check your email and verify your account before logging in.",
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Login Failed",
-            description: msg,
-            variant: "destructive",
-          });
-        }
-        return;
-      }
+      const fnData = await invokeAuthFunction<{ session: Session | null }>("auth-login", {
+        email: email.trim(),
+        password,
+      });
 
       // Set the session returned by the edge function into the local client
       if (fnData?.session) {
@@ -96,10 +83,22 @@ export default function Login() {
         navigate(returnTo || "/");
       }
     } catch (error) {
+      if (error instanceof AuthFunctionError && error.message.includes("Email not confirmed")) {
+        toast({
+          title: "Email Not Verified",
+          description: "Please check your email and verify your account before logging in.",
+          variant: "destructive",
+        });
+        // The verification page can send a new link
+        navigate("/verify-email", { state: { email: email.trim() } });
+        return;
+      }
       console.error("Login error:", error);
       toast({
         title: "Login Failed",
-        description: "An unexpected error occurred. Please try again.",
+        // Includes the lockout message after too many failed attempts
+        description:
+          error instanceof AuthFunctionError ? error.message : "An unexpected error occurred. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -107,6 +106,41 @@ export default function Login() {
     }
   };
 
+  // Handle magic link request - the link signs in and comes back here
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      toast({
+        title: "Email Required",
+        description: "Enter your email address to receive a sign-in link.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSendingLink(true);
+
+    try {
+      await invokeAuthFunction("auth-magic-link", {
+        email: email.trim(),
+        emailRedirectTo: authRedirectUrl(
+          returnTo ? `/login?returnTo=${encodeURIComponent(returnTo)}` : "/login"
+        ),
+      });
+      toast({
+        title: "Check Your Email",
+        description: "If an account exists for that address, a sign-in link is on its way.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't Send Link",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
   return (
     <>
       {/* SEO meta for login page */}
@@ -156,12 +190,20 @@ export default function Login() {
   
               {/* Password field */}
               <div className="space-y-2">
-                <label
-                  htmlFor="password"
-                  className="text-xs font-bold uppercase tracking-widest text-muted-foreground"
-                >
-                  Password
-                </label>
+                <div className="flex items-center justify-between">
+                  <label
+                    htmlFor="password"
+                    className="text-xs font-bold uppercase tracking-widest text-muted-foreground"
+                  >
+                    Password
+                  </label>
+                  <Link
+                    to={email.trim() ? `/forgot-password?email=${encodeURIComponent(email.trim())}` : "/forgot-password"}
+                    className="text-xs text-accent hover:text-accent/80"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <div className="relative">
                   <Input
                     id="password"
@@ -192,7 +234,7 @@ export default function Login() {
               <Button
                 type="submit"
                 className="w-full text-xs font-bold uppercase tracking-widest"
-                disabled={isLoading}
+                disabled={isLoading || isSendingLink}
               >
                 {isLoading ? (
                   <>
@@ -207,6 +249,27 @@ export default function Login() {
                 )}
               </Button>
             </form>
+
+            {/* Magic link sign-in */}
+            <div className="flex items-center gap-3 my-6">
+              <div className="h-px flex-1 bg-border" />
+              <span className="text-xs uppercase tracking-widest text-muted-foreground">or</span>
+              <div className="h-px flex-1 bg-border" />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full text-xs font-bold uppercase tracking-widest"
+              onClick={handleMagicLink}
+              disabled={isLoading || isSendingLink}
+            >
+              {isSendingLink ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <Wand2 className="w-4 h-4 mr-2" />
+              )}
+              Email Me a Sign-In Link
+            </Button>
   
             {/* Sign up link */}
             <p className="text-center text-sm text-muted-foreground mt-6">
@@ -22,6 +22,7 @@ const News = () => {
         .from("news_articles")
         .select("*")
         .eq("is_published", true)
+        .lte("published_at", new Date().toISOString())
         .order("display_date", { ascending: false, nullsFirst: false });
 
       if (error) throw error;
@@ -1,21 +1,26 @@
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { ArrowLeft, Calendar, MapPin } from "lucide-react";
+import { ArrowLeft, Calendar, MapPin, RefreshCw } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
 
+import MarkdownContent from "@/components/MarkdownContent";
+import PreviewBanner from "@/components/PreviewBanner";
 import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { ImageSlider } from "@/components/ui/image-slider";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { useContentPreview } from "@/hooks/useContentPreview";
 import { supabase } from "@/integrations/supabase/client";
+import { markdownToPlainText } from "@/lib/markdown";
 import { buildBreadcrumbJsonLd, buildNewsArticleJsonLd } from "@/lib/structuredData";
 
 const NewsArticle = () => {
   const { slug } = useParams<{ slug: string }>();
+  const preview = useContentPreview("news_articles");
 
-  const { data: article, isLoading, error } = useQuery({
+  const { data: publishedArticle, isLoading: isPublishedLoading, error } = useQuery({
     queryKey: ["news-article", slug],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -23,6 +28,7 @@ const NewsArticle = () => {
         .select("*")
         .eq("slug", slug)
         .eq("is_published", true)
+        .lte("published_at", new Date().toISOString())
         .maybeSingle();
 
       if (error) {
@@ -31,9 +37,13 @@ const NewsArticle = () => {
 
       return data;
     },
-    enabled: !!slug,
+    enabled: !!slug && !preview.isPreview,
   });
 
+  // Preview links render the record behind the token instead of the published row
+  const article = preview.isPreview ? preview.record : publishedArticle;
+  const isLoading = preview.isPreview ? preview.isLoading : isPublishedLoading;
+
   if (isLoading) {
     return (
       <MainLayout>
@@ -90,7 +100,7 @@ const NewsArticle = () => {
 
   const description =
     article.summary ||
-    (typeof article.content === "string" ? article.content.split("\n\n")[0] : "") ||
+    (typeof article.content === "string" ? markdownToPlainText(article.content).split("\n\n")[0] : "") ||
     "Read this update from Horalix.";
 
   const jsonLd = [
@@ -100,7 +110,7 @@ const NewsArticle = () => {
       summary: description,
       display_date: article.display_date,
       published_at: article.published_at,
-      updated_at: article.updated_at,
+      updated_at: article.content_updated_at ?? undefined,
       image_urls: image ? [image] : undefined,
     }),
     buildBreadcrumbJsonLd([
@@ -128,8 +138,16 @@ const NewsArticle = () => {
         canonical={`/news/${article.slug}`}
         image={image}
         type="article"
-        jsonLd={jsonLd}
+        jsonLd={preview.isPreview ? undefined : jsonLd}
+        noindex={preview.isPreview}
       />
+      {preview.isPreview && (
+        <PreviewBanner
+          isPublished={article.is_published}
+          publishedAt={article.published_at}
+          expiresAt={preview.expiresAt}
+        />
+      )}
 
       <article className="px-6 pb-24 pt-24 lg:px-12">
         <div className="mx-auto max-w-4xl">
@@ -177,6 +195,12 @@ const NewsArticle = () => {
                   {format(new Date(article.display_date || article.published_at), "MMMM d, yyyy")}
                 </span>
               )}
+              {article.content_updated_at && (
+                <span className="flex items-center gap-2">
+                  <RefreshCw className="h-4 w-4" />
+                  Updated {format(new Date(article.content_updated_at), "MMMM d, yyyy")}
+                </span>
+              )}
               {article.location && (
                 <span className="flex items-center gap-2">
                   <MapPin className="h-4 w-4" />
@@ -194,13 +218,7 @@ const NewsArticle = () => {
             {article.summary}
           </p>
 
-          <div className="mt-8 space-y-4">
-            {article.content.split("\n\n").map((paragraph: string) => (
-              <p key={paragraph} className="text-base leading-relaxed text-muted-foreground">
-                {paragraph}
-              </p>
-            ))}
-          </div>
+          <MarkdownContent content={article.content} className="mt-8" />
 
           <footer className="mt-12 border-t border-border pt-8">
             <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import horalixLogo from "@/assets/horalix-logo.png";
+import SEO from "@/components/SEO";
+import { invokeNewsletterFunction } from "@/lib/newsletterPreferences";
+
+/**
+ * NewsletterConfirm - Double opt-in landing page
+ * Confirms the subscription from the link in the confirmation email
+ */
+
+interface ConfirmResult {
+  email: string;
+  preferences_token: string;
+}
+
+export default function NewsletterConfirm() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<"loading" | "success" | "error">(token ? "loading" : "error");
+  const [result, setResult] = useState<ConfirmResult | null>(null);
+  const [message, setMessage] = useState(token ? "" : "This confirmation link is invalid.");
+
+  useEffect(() => {
+    if (!token) return;
+
+    invokeNewsletterFunction<ConfirmResult>("newsletter-preferences", { action: "confirm", token })
+      .then((data) => {
+        setResult(data);
+        setStatus("success");
+      })
+      .catch((error: Error) => {
+        setMessage(error.message);
+        setStatus("error");
+      });
+  }, [token]);
+
+  return (
+    <>
+      <SEO
+        title="Confirm Subscription | Horalix"
+        description="Confirm your Horalix newsletter subscription."
+        canonical="/newsletter/confirm"
+        noindex
+      />
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md text-center">
+          {/* Logo */}
+          <Link to="/" className="inline-block mb-8">
+            <img src={horalixLogo} alt="Horalix" className="h-12 mx-auto" />
+          </Link>
+
+          {/* Content card */}
+          <div className="bg-card border border-border shadow-lg p-8">
+            {status === "loading" && (
+              <>
+                <Loader2 className="w-12 h-12 animate-spin text-accent mx-auto mb-4" />
+                <h1 className="text-xl font-bold font-space text-foreground mb-2">Confirming...</h1>
+                <p className="text-muted-foreground">Please wait while we confirm your subscription.</p>
+              </>
+            )}
+
+            {status === "success" && result && (
+              <>
+                <div className="w-16 h-16 bg-green-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <CheckCircle className="w-8 h-8 text-green-500" />
+                </div>
+                <h1 className="text-xl font-bold font-space text-foreground mb-2">You're subscribed</h1>
+                <p className="text-muted-foreground mb-6">
+                  {result.email} will now receive the Horalix newsletter.
+                </p>
+                <div className="space-y-2">
+                  <Link to={`/newsletter/preferences?token=${encodeURIComponent(result.preferences_token)}`}>
+                    <Button className="w-full">Choose topics</Button>
+                  </Link>
+                  <Link to="/">
+                    <Button variant="outline" className="w-full">
+                      Back to Home
+                    </Button>
+                  </Link>
+                </div>
+              </>
+            )}
+
+            {status === "error" && (
+              <>
+                <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <XCircle className="w-8 h-8 text-destructive" />
+                </div>
+                <h1 className="text-xl font-bold font-space text-foreground mb-2">Couldn't confirm</h1>
+                <p className="text-muted-foreground mb-6">
+                  {message} You can sign up again from the form at the bottom of any page.
+                </p>
+                <Link to="/">
+                  <Button variant="outline" className="w-full">
+                    Back to Home
+                  </Button>
+                </Link>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
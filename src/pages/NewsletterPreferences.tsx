@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import horalixLogo from "@/assets/horalix-logo.png";
+import SEO from "@/components/SEO";
+import {
+  NEWSLETTER_TOPICS,
+  invokeNewsletterFunction,
+  type NewsletterTopic,
+} from "@/lib/newsletterPreferences";
+
+/**
+ * NewsletterPreferences - Preference center linked from every newsletter email
+ * Choose topics, unsubscribe from everything or resubscribe, using the signed link token
+ */
+
+interface Preferences {
+  email: string;
+  is_subscribed: boolean;
+  topics: NewsletterTopic[];
+}
+
+export default function NewsletterPreferences() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<"loading" | "ready" | "error">(token ? "loading" : "error");
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [topics, setTopics] = useState<NewsletterTopic[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+  const [errorMessage, setErrorMessage] = useState(
+    token ? "" : "This link appears to be invalid. Please use the link from your newsletter email."
+  );
+
+  useEffect(() => {
+    if (!token) return;
+
+    invokeNewsletterFunction<Preferences>("newsletter-preferences", { action: "get", token })
+      .then((data) => {
+        setPreferences(data);
+        setTopics(data.topics);
+        setStatus("ready");
+      })
+      .catch((error: Error) => {
+        setErrorMessage(error.message);
+        setStatus("error");
+      });
+  }, [token]);
+
+  const save = async (isSubscribed: boolean, nextTopics: NewsletterTopic[]) => {
+    setIsSaving(true);
+    setNotice(null);
+
+    try {
+      const data = await invokeNewsletterFunction<Preferences>("newsletter-preferences", {
+        action: "update",
+        token,
+        is_subscribed: isSubscribed,
+        topics: nextTopics,
+      });
+      setPreferences(data);
+      setTopics(data.topics);
+      setNotice({
+        kind: "success",
+        text: data.is_subscribed ? "Your preferences have been saved." : "You have been unsubscribed from all emails.",
+      });
+    } catch (error) {
+      setNotice({ kind: "error", text: error instanceof Error ? error.message : "Failed to save preferences." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <SEO
+        title="Newsletter Preferences | Horalix"
+        description="Manage your Horalix newsletter preferences."
+        canonical="/newsletter/preferences"
+        noindex
+      />
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          {/* Logo */}
+          <Link to="/" className="block mb-8 text-center">
+            <img src={horalixLogo} alt="Horalix" className="h-12 mx-auto" />
+          </Link>
+
+          {/* Content card */}
+          <div className="bg-card border border-border shadow-lg p-8">
+            {status === "loading" && (
+              <div className="text-center">
+                <Loader2 className="w-12 h-12 animate-spin text-accent mx-auto mb-4" />
+                <p className="text-muted-foreground">Loading your preferences...</p>
+              </div>
+            )}
+
+            {status === "error" && (
+              <div className="text-center">
+                <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <XCircle className="w-8 h-8 text-destructive" />
+                </div>
+                <h1 className="text-xl font-bold font-space text-foreground mb-2">Newsletter preferences</h1>
+                <p className="text-muted-foreground mb-6">{errorMessage}</p>
+                <Link to="/">
+                  <Button variant="outline" className="w-full">
+                    Back to Home
+                  </Button>
+                </Link>
+              </div>
+            )}
+
+            {status === "ready" && preferences && (
+              <div className="space-y-6">
+                <div>
+                  <h1 className="text-xl font-bold font-space text-foreground mb-1">Newsletter preferences</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {preferences.email} ·{" "}
+                    {preferences.is_subscribed ? "subscribed" : "not subscribed"}
+                  </p>
+                </div>
+
+                <div className="space-y-4">
+                  {NEWSLETTER_TOPICS.map((topic) => (
+                    <label key={topic.value} className="flex items-start gap-3">
+                      <Checkbox
+                        checked={topics.includes(topic.value)}
+                        onCheckedChange={(checked) =>
+                          setTopics((current) =>
+                            checked === true
+                              ? [...current, topic.value]
+                              : current.filter((value) => value !== topic.value)
+                          )
+                        }
+                        className="mt-0.5"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-foreground">{topic.label}</span>
+                        <span className="block text-xs text-muted-foreground">{topic.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+
+                {notice && (
+                  <p
+                    className={`flex items-center gap-2 text-sm ${
+                      notice.kind === "success" ? "text-green-600" : "text-destructive"
+                    }`}
+                  >
+                    {notice.kind === "success" && <CheckCircle className="w-4 h-4" />}
+                    {notice.text}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Button
+                    className="w-full"
+                    disabled={isSaving || topics.length === 0}
+                    onClick={() => save(true, topics)}
+                  >
+                    {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {preferences.is_subscribed ? "Save preferences" : "Resubscribe"}
+                  </Button>
+                  {preferences.is_subscribed && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={isSaving}
+                      onClick={() => save(false, topics)}
+                    >
+                      Unsubscribe from everything
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,12 +1,24 @@
 import { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
-import { Trash2, Loader2, MessageSquare, Clock, CheckCircle, AlertCircle, ArrowLeft } from "lucide-react";
+import {
+  Trash2,
+  Loader2,
+  MessageSquare,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  ArrowLeft,
+  Archive,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Navbar } from "@/components/layout/Navbar";
 import { Footer } from "@/components/layout/Footer";
+import { ContactThread } from "@/components/ContactThread";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,7 +35,7 @@ import SEO from "@/components/SEO";
 
 /**
  * ProfileSubmissions - User's contact form submissions
- * Allows users to view and delete their submissions
+ * Allows users to view and delete their submissions and follow up on the team's replies
  */
 
 interface Submission {
@@ -34,6 +46,7 @@ interface Submission {
   status: string;
   created_at: string;
   responded_at: string | null;
+  last_message_at: string | null;
 }
 
 // Status badge component
@@ -54,6 +67,11 @@ const StatusBadge = ({ status }: { status: string }) => {
       icon: <CheckCircle className="w-3 h-3" />,
       className: "bg-green-100 text-green-800 border-green-200",
     },
+    archived: {
+      label: "Closed",
+      icon: <Archive className="w-3 h-3" />,
+      className: "bg-gray-100 text-gray-800 border-gray-200",
+    },
   };
 
   const config = statusConfig[status] || statusConfig.new;
@@ -74,6 +92,7 @@ export default function ProfileSubmissions() {
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
 
   // Fetch user's submissions
   useEffect(() => {
@@ -86,7 +105,7 @@ export default function ProfileSubmissions() {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const query = supabase.from("contact_submissions") as any;
         const { data, error } = await query
-          .select("id, name, email, message, status, created_at, responded_at")
+          .select("id, name, email, message, status, created_at, responded_at, last_message_at")
           .eq("user_id", userId)
           .order("created_at", { ascending: false });
 
@@ -263,12 +282,46 @@ export default function ProfileSubmissions() {
                     </AlertDialog>
                   </div>
 
-                  {/* Message content */}
-                  <div className="space-y-2">
-                    <p className="text-sm text-foreground whitespace-pre-wrap">
-                      {submission.message}
-                    </p>
-                  </div>
+                  {/* Message content, or the whole conversation when opened */}
+                  {openThreadId === submission.id ? (
+                    <ContactThread
+                      submission={submission}
+                      viewer="sender"
+                      onReplied={() =>
+                        setSubmissions((prev) =>
+                          prev.map((s) =>
+                            s.id === submission.id && (s.status === "responded" || s.status === "archived")
+                              ? { ...s, status: "in_progress" }
+                              : s
+                          )
+                        )
+                      }
+                    />
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-sm text-foreground whitespace-pre-wrap">
+                        {submission.message}
+                      </p>
+                    </div>
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-4 -ml-2 text-accent"
+                    onClick={() => setOpenThreadId(openThreadId === submission.id ? null : submission.id)}
+                  >
+                    {openThreadId === submission.id ? (
+                      <ChevronUp className="w-4 h-4 mr-1" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4 mr-1" />
+                    )}
+                    {openThreadId === submission.id
+                      ? "Hide conversation"
+                      : submission.last_message_at
+                        ? `View conversation · last reply ${format(new Date(submission.last_message_at), "MMM d")}`
+                        : "View conversation"}
+                  </Button>
                 </div>
               ))}
             </div>
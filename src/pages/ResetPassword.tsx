@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { AlertTriangle, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  AuthFunctionError,
+  invokeAuthFunction,
+  meetsPasswordRules,
+  PASSWORD_RULES_MESSAGE,
+} from "@/lib/authProxy";
+import { PasswordRequirements } from "@/components/PasswordRequirements";
+import horalixLogo from "@/assets/horalix-logo.png";
+import SEO from "@/components/SEO";
+
+/**
+ * ResetPassword - Choose a new password from a reset email
+ * Works with both reset link styles: a token_hash in the query (verified by the
+ * auth-reset-confirm edge function) or the recovery session the default link signs in with
+ */
+
+interface ResetResult {
+  success: boolean;
+  session: { access_token: string; refresh_token: string } | null;
+}
+
+// The auth server reports expired or used links in the URL fragment
+const readLinkError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get("error_description") || params.get("error");
+};
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const tokenHash = searchParams.get("token_hash");
+  const { toast } = useToast();
+  const { user, isLoading: authLoading } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(readLinkError);
+
+  const isPasswordValid = meetsPasswordRules(password);
+  const passwordsMatch = password === confirmPassword && confirmPassword !== "";
+
+  // Handle new password submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isPasswordValid) {
+      toast({ title: "Invalid Password", description: PASSWORD_RULES_MESSAGE, variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await invokeAuthFunction<ResetResult>("auth-reset-confirm", {
+        password,
+        token_hash: tokenHash,
+      });
+
+      // A token_hash link signs in here; the default link already did
+      if (result.session) {
+        await supabase.auth.setSession({
+          access_token: result.session.access_token,
+          refresh_token: result.session.refresh_token,
+        });
+      }
+
+      toast({
+        title: "Password Updated",
+        description: "Your new password is set and you're signed in.",
+      });
+      navigate("/", { replace: true });
+    } catch (error) {
+      if (error instanceof AuthFunctionError && error.code === "expired") {
+        setLinkError(error.message);
+        return;
+      }
+      toast({
+        title: "Reset Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Show loading while the reset link's session is picked up
+  if (authLoading && !tokenHash) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const hasResetLink = !linkError && (!!tokenHash || !!user);
+
+  return (
+    <>
+      {/* SEO meta for reset password page */}
+      <SEO
+        title="Reset Password | Horalix"
+        description="Choose a new password for your Horalix account."
+        canonical="/reset-password"
+        noindex
+      />
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          {/* Logo and header */}
+          <div className="text-center mb-8">
+            <Link to="/" className="inline-block mb-6">
+              <img src={horalixLogo} alt="Horalix" className="h-12 mx-auto" />
+            </Link>
+            <h1 className="text-2xl font-bold font-space text-foreground">
+              Choose a New Password
+            </h1>
+          </div>
+
+          <div className="bg-card border border-border shadow-lg p-8">
+            {hasResetLink ? (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                {/* New password field */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="password"
+                    className="text-xs font-bold uppercase tracking-widest text-muted-foreground"
+                  >
+                    New Password
+                  </label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="••••••••"
+                      autoComplete="new-password"
+                      required
+                      disabled={isLoading}
+                      className="bg-secondary border-border pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                      tabIndex={-1}
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  {password && <PasswordRequirements password={password} />}
+                </div>
+
+                {/* Confirm password field */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="confirmPassword"
+                    className="text-xs font-bold uppercase tracking-widest text-muted-foreground"
+                  >
+                    Confirm Password
+                  </label>
+                  <Input
+                    id="confirmPassword"
+                    type={showPassword ? "text" : "password"}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="••••••••"
+                    autoComplete="new-password"
+                    required
+                    disabled={isLoading}
+                    className={`bg-secondary border-border ${
+                      confirmPassword && !passwordsMatch ? "border-destructive" : ""
+                    }`}
+                  />
+                  {confirmPassword && !passwordsMatch && (
+                    <p className="text-xs text-destructive">Passwords don't match</p>
+                  )}
+                </div>
+
+                {/* Submit button */}
+                <Button
+                  type="submit"
+                  className="w-full text-xs font-bold uppercase tracking-widest"
+                  disabled={isLoading || !isPasswordValid || !passwordsMatch}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Set New Password"
+                  )}
+                </Button>
+              </form>
+            ) : (
+              <div className="text-center">
+                <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <AlertTriangle className="w-8 h-8 text-destructive" />
+                </div>
+                <p className="text-muted-foreground mb-8">
+                  {linkError || "Open the link from your reset email to choose a new password."}
+                </p>
+                <Link to="/forgot-password" className="block">
+                  <Button className="w-full text-xs font-bold uppercase tracking-widest">
+                    Request a New Link
+                  </Button>
+                </Link>
+              </div>
+            )}
+          </div>
+
+          {/* Back to home link */}
+          <p className="text-center text-sm text-muted-foreground mt-6">
+            <Link to="/" className="hover:text-foreground transition-colors">
+              ← Back to Home
+            </Link>
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,23 +1,54 @@
 import { Link, useParams } from "react-router-dom";
 import { ArrowLeft, ArrowRight, BookOpenText } from "lucide-react";
+import { format, parseISO } from "date-fns";
 
+import PreviewBanner from "@/components/PreviewBanner";
 import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import {
-  evidenceSources,
-  getContributorBySlug,
-  getRelatedResources,
-  getResourceBySlug,
-} from "@/content/authorityData";
+import { findBySlug, getRelatedResourcesFrom, mapResourceRow } from "@/content/authorityContent";
+import { type AuthorityResource, useAuthorityContent } from "@/hooks/useAuthorityContent";
+import { useContentPreview } from "@/hooks/useContentPreview";
+import { useEvidenceSources } from "@/hooks/useEvidenceSources";
 import { buildArticleJsonLd, buildBreadcrumbJsonLd } from "@/lib/structuredData";
 
-type SourceId = "S1" | "S2" | "S3";
-
 const ResourceDetail = () => {
   const { slug } = useParams<{ slug: string }>();
-  const resource = getResourceBySlug(slug || "");
+  const { resources, contributors, isLoading } = useAuthorityContent();
+  const { sourceMap } = useEvidenceSources();
+  const preview = useContentPreview("resources");
+
+  // Preview links render the record behind the token instead of the published list entry
+  const previewResource = preview.record
+    ? (mapResourceRow(
+        preview.record,
+        new Map(contributors.map((contributor) => [contributor.id, contributor])),
+      ) as AuthorityResource)
+    : null;
+  const resource = preview.isPreview ? previewResource : findBySlug(resources, slug || "");
+
+  if (!resource && (isLoading || preview.isLoading)) {
+    return (
+      <MainLayout>
+        {/* [SEO] Prevent stale meta from previous route leaking during loading */}
+        <SEO
+          title={`${slug ? slug.split("-").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ") : "Loading"} | Horalix`}
+          description="Loading resource from Horalix."
+          canonical={`/resources/${slug ?? ""}`}
+        />
+        <div className="px-6 pb-24 pt-24 lg:px-12">
+          <div className="mx-auto max-w-6xl">
+            <Skeleton className="mb-8 h-6 w-32" />
+            <Skeleton className="mb-4 h-12 w-2/3" />
+            <Skeleton className="mb-8 h-6 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
 
   if (!resource) {
     return (
@@ -43,9 +74,8 @@ const ResourceDetail = () => {
     );
   }
 
-  const author = getContributorBySlug(resource.authorSlug);
-  const relatedResources = getRelatedResources(resource);
-  const sourceMap = evidenceSources as Record<SourceId, { id: SourceId; shortLabel: string; fullLabel: string; url: string }>;
+  const author = findBySlug(contributors, resource.authorSlug);
+  const relatedResources = getRelatedResourcesFrom(resources, resource);
 
   const breadcrumbItems = [
     { name: "Home", path: "/" },
@@ -65,8 +95,16 @@ const ResourceDetail = () => {
         description={resource.seoDescription}
         canonical={`/resources/${resource.slug}`}
         type="article"
-        jsonLd={jsonLd}
+        jsonLd={preview.isPreview ? undefined : jsonLd}
+        noindex={preview.isPreview}
       />
+      {preview.isPreview && preview.record && (
+        <PreviewBanner
+          isPublished={preview.record.is_published}
+          publishedAt={preview.record.published_at}
+          expiresAt={preview.expiresAt}
+        />
+      )}
 
       <article className="px-6 pb-24 pt-24 lg:px-12">
         <div className="mx-auto max-w-6xl">
@@ -104,9 +142,11 @@ const ResourceDetail = () => {
                 <span className="inline-flex items-center rounded border border-accent/30 bg-accent/10 px-2 py-1 font-mono text-[10px] uppercase tracking-[0.18em] text-accent">
                   {resource.heroKicker}
                 </span>
-                <span className="inline-flex items-center rounded border border-border bg-background px-2 py-1 font-mono text-[10px] uppercase tracking-[0.18em] text-muted-foreground">
-                  {resource.audience}
-                </span>
+                {resource.audience && (
+                  <span className="inline-flex items-center rounded border border-border bg-background px-2 py-1 font-mono text-[10px] uppercase tracking-[0.18em] text-muted-foreground">
+                    {resource.audience}
+                  </span>
+                )}
               </div>
               <h1 className="font-space text-4xl font-bold tracking-tight text-primary md:text-5xl">
                 {resource.title}
@@ -125,6 +165,14 @@ const ResourceDetail = () => {
                   <span>{author.role}</span>
                 </div>
               )}
+              {resource.publishedAt && (
+                <p className="mt-2 font-mono text-[10px] uppercase tracking-[0.18em] text-muted-foreground">
+                  Published {format(parseISO(resource.publishedAt), "MMMM d, yyyy")}
+                  {resource.updatedAt && resource.updatedAt !== resource.publishedAt && (
+                    <> · Last updated {format(parseISO(resource.updatedAt), "MMMM d, yyyy")}</>
+                  )}
+                </p>
+              )}
             </div>
 
             <aside className="border border-border bg-card p-5 shadow-sm">
@@ -141,16 +189,18 @@ const ResourceDetail = () => {
 
           <div className="mt-10 grid gap-8 xl:grid-cols-[1fr_320px]">
             <div className="space-y-8">
-              <section className="grid gap-4 md:grid-cols-3">
-                {resource.keyTakeaways.map((takeaway) => (
-                  <article key={takeaway.label} className="border border-border bg-card p-5 shadow-sm">
-                    <p className="font-mono text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
-                      {takeaway.label}
-                    </p>
-                    <p className="mt-3 text-sm leading-relaxed text-muted-foreground">{takeaway.text}</p>
-                  </article>
-                ))}
-              </section>
+              {resource.keyTakeaways.length > 0 && (
+                <section className="grid gap-4 md:grid-cols-3">
+                  {resource.keyTakeaways.map((takeaway) => (
+                    <article key={takeaway.label} className="border border-border bg-card p-5 shadow-sm">
+                      <p className="font-mono text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+                        {takeaway.label}
+                      </p>
+                      <p className="mt-3 text-sm leading-relaxed text-muted-foreground">{takeaway.text}</p>
+                    </article>
+                  ))}
+                </section>
+              )}
 
               {resource.sections.map((section) => (
                 <section key={section.title} className="border border-border bg-card p-8 shadow-sm">
@@ -175,58 +225,63 @@ const ResourceDetail = () => {
                 </section>
               ))}
 
-              <section className="border border-border bg-card p-8 shadow-sm">
-                <div className="flex items-center gap-2">
-                  <BookOpenText className="h-5 w-5 text-accent" />
-                  <h2 className="font-space text-2xl font-bold text-primary">Evidence context</h2>
-                </div>
-                <div className="mt-5 space-y-4">
-                  {resource.citedClaims.map((claim) => (
-                    <div key={claim.text} className="border border-border bg-background px-4 py-4">
-                      <p className="text-sm leading-relaxed text-muted-foreground">{claim.text}</p>
-                      <div className="mt-3 flex flex-wrap gap-2">
-                        {claim.sourceIds.map((sourceId) => {
-                          const source = sourceMap[sourceId as SourceId];
-                          return (
-                            <a
-                              key={source.id}
-                              href={source.url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="inline-flex items-center gap-2 rounded border border-border px-2 py-1 text-xs text-muted-foreground transition-colors hover:border-accent hover:text-foreground"
-                            >
-                              <span className="font-mono text-[10px] uppercase tracking-[0.16em] text-accent">
-                                {source.id}
-                              </span>
-                              <span>{source.shortLabel}</span>
-                            </a>
-                          );
-                        })}
+              {resource.citedClaims.length > 0 && (
+                <section className="border border-border bg-card p-8 shadow-sm">
+                  <div className="flex items-center gap-2">
+                    <BookOpenText className="h-5 w-5 text-accent" />
+                    <h2 className="font-space text-2xl font-bold text-primary">Evidence context</h2>
+                  </div>
+                  <div className="mt-5 space-y-4">
+                    {resource.citedClaims.map((claim) => (
+                      <div key={claim.text} className="border border-border bg-background px-4 py-4">
+                        <p className="text-sm leading-relaxed text-muted-foreground">{claim.text}</p>
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {claim.sourceIds.map((sourceId) => {
+                            const source = sourceMap[sourceId];
+                            if (!source) return null;
+                            return (
+                              <a
+                                key={source.id}
+                                href={source.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex items-center gap-2 rounded border border-border px-2 py-1 text-xs text-muted-foreground transition-colors hover:border-accent hover:text-foreground"
+                              >
+                                <span className="font-mono text-[10px] uppercase tracking-[0.16em] text-accent">
+                                  {source.id}
+                                </span>
+                                <span>{source.shortLabel}</span>
+                              </a>
+                            );
+                          })}
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              </section>
+                    ))}
+                  </div>
+                </section>
+              )}
             </div>
 
             <aside className="space-y-6">
-              <section className="border border-border bg-card p-6 shadow-sm">
-                <p className="font-mono text-[10px] uppercase tracking-[0.24em] text-muted-foreground">
-                  Related reading
-                </p>
-                <div className="mt-5 space-y-4">
-                  {relatedResources.map((item) => (
-                    <Link
-                      key={item.slug}
-                      to={`/resources/${item.slug}`}
-                      className="block border border-border bg-background px-4 py-4 transition-colors hover:border-accent"
-                    >
-                      <p className="font-space text-lg font-bold text-primary">{item.title}</p>
-                      <p className="mt-2 text-sm leading-relaxed text-muted-foreground">{item.summary}</p>
-                    </Link>
-                  ))}
-                </div>
-              </section>
+              {relatedResources.length > 0 && (
+                <section className="border border-border bg-card p-6 shadow-sm">
+                  <p className="font-mono text-[10px] uppercase tracking-[0.24em] text-muted-foreground">
+                    Related reading
+                  </p>
+                  <div className="mt-5 space-y-4">
+                    {relatedResources.map((item) => (
+                      <Link
+                        key={item.slug}
+                        to={`/resources/${item.slug}`}
+                        className="block border border-border bg-background px-4 py-4 transition-colors hover:border-accent"
+                      >
+                        <p className="font-space text-lg font-bold text-primary">{item.title}</p>
+                        <p className="mt-2 text-sm leading-relaxed text-muted-foreground">{item.summary}</p>
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
 
               <section className="border border-primary/15 bg-primary p-6 text-primary-foreground shadow-sm">
                 <p className="font-mono text-[10px] uppercase tracking-[0.24em] text-primary-foreground/70">
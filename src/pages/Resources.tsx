@@ -5,10 +5,13 @@ import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { contributors, getContributorBySlug, resources } from "@/content/authorityData";
+import { findBySlug } from "@/content/authorityContent";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
 import { buildBreadcrumbJsonLd, buildCollectionWithItemsJsonLd } from "@/lib/structuredData";
 
 const Resources = () => {
+  const { resources, contributors } = useAuthorityContent();
+
   const jsonLd = [
     buildCollectionWithItemsJsonLd(
       "Horalix Resources",
@@ -76,7 +79,7 @@ const Resources = () => {
           <section className="mt-10 grid gap-6 xl:grid-cols-[1fr_320px]">
             <div className="grid gap-6 lg:grid-cols-2">
               {resources.map((resource) => {
-                const author = getContributorBySlug(resource.authorSlug);
+                const author = findBySlug(contributors, resource.authorSlug);
 
                 return (
                   <article key={resource.slug} className="group border border-border bg-card p-8 shadow-sm transition-all hover:border-accent">
@@ -1,30 +1,22 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useEffect } from "react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
-import { Eye, EyeOff, Loader2, Check, X } from "lucide-react";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import horalixLogo from "@/assets/horalix-logo.png";
 import SEO from "@/components/SEO";
 import { authRedirectUrl } from "@/lib/canonical";
+import { AuthFunctionError, invokeAuthFunction, meetsPasswordRules, PASSWORD_RULES_MESSAGE } from "@/lib/authProxy";
+import { PasswordRequirements } from "@/components/PasswordRequirements";
 
 /**
  * Signup - User registration page
  * Includes password validation, terms agreement, and newsletter opt-in
  */
 
-// Password validation rules
-const validatePassword = (password: string) => {
-  return {
-    minLength: password.length >= 8,
-    hasLetter: /[a-zA-Z]/.test(password),
-    hasNumber: /[0-9]/.test(password),
-  };
-};
-
 export default function Signup() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -41,16 +33,7 @@ export default function Signup() {
   const [agreedToTerms, setAgreedToTerms] = useState(false);
   const [subscribeNewsletter, setSubscribeNewsletter] = useState(false);
 
-  // Password validation state - MUST be before any early returns
-  const passwordValidation = useMemo(
-    () => validatePassword(password),
-    [password]
-  );
-
-  const isPasswordValid =
-    passwordValidation.minLength &&
-    passwordValidation.hasLetter &&
-    passwordValidation.hasNumber;
+  const isPasswordValid = meetsPasswordRules(password);
 
   const passwordsMatch = password === confirmPassword && confirmPassword !== "";
 
@@ -105,8 +88,7 @@ export default function Signup() {
     if (!isPasswordValid) {
       toast({
         title: "Invalid Password",
-        description:
-          "Password must be at least 8 characters with at least one letter and one number.",
+        description: PASSWORD_RULES_MESSAGE,
         variant: "destructive",
       });
       return;
@@ -126,27 +108,13 @@ export default function Signup() {
     try {
       // Route signup through origin-checked edge function to prevent
       // cloned frontends on unauthorized domains from registering users.
-      const { data: fnData, error: fnError } = await supabase.functions.invoke(
-        "auth-signup",
-        {
-          body: {
-            email: email.trim(),
-            password,
-            fullName: fullName.trim(),
-            newsletterOptIn: subscribeNewsletter,
-            emailRedirectTo: authRedirectUrl("/verify-email"),
-          },
-        },
-      );
-
-      if (fnError || fnData?.error) {
-        toast({
-          title: "Signup Failed",
-          description: fnData?.error ?? fnError?.message ?? "Signup failed",
-          variant: "destructive",
-        });
-        return;
-      }
+      await invokeAuthFunction("auth-signup", {
+        email: email.trim(),
+        password,
+        fullName: fullName.trim(),
+        newsletterOptIn: subscribeNewsletter,
+        emailRedirectTo: authRedirectUrl("/verify-email"),
+      });
 
       // Navigate to verification page
       navigate("/verify-email", { state: { email: email.trim() } });
@@ -154,7 +122,8 @@ export default function Signup() {
       console.error("Signup error:", error);
       toast({
         title: "Signup Failed",
-        description: "An unexpected error occurred. Please try again.",
+        description:
+          error instanceof AuthFunctionError ? error.message : "An unexpected error occurred. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -162,24 +131,6 @@ export default function Signup() {
     }
   };
 
-  // Render password requirement indicator
-  const RequirementIndicator = ({
-    met,
-    label,
-  }: {
-    met: boolean;
-    label: string;
-  }) => (
-    <div
-      className={`flex items-center gap-2 text-xs ${
-        met ? "text-green-600" : "text-muted-foreground"
-      }`}
-    >
-      {met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
-      {label}
-    </div>
-  );
-
   return (
     <>
       {/* SEO meta for signup page */}
@@ -281,20 +232,7 @@ export default function Signup() {
                 </div>
                 {/* Password requirements */}
                 {password && (
-                  <div className="space-y-1 mt-2">
-                    <RequirementIndicator
-                      met={passwordValidation.minLength}
-                      label="At least 8 characters"
-                    />
-                    <RequirementIndicator
-                      met={passwordValidation.hasLetter}
-                      label="At least one letter"
-                    />
-                    <RequirementIndicator
-                      met={passwordValidation.hasNumber}
-                      label="At least one number"
-                    />
-                  </div>
+                  <PasswordRequirements password={password} />
                 )}
               </div>
   
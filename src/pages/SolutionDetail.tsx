@@ -7,13 +7,15 @@ import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { getResourcesForSolution } from "@/content/authorityData";
+import { getResourcesForSolutionFrom } from "@/content/authorityContent";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
 import { supabase } from "@/integrations/supabase/client";
 import { getSolutionIcon } from "@/lib/solutionIcons";
 import { buildBreadcrumbJsonLd } from "@/lib/structuredData";
 
 const SolutionDetail = () => {
   const { slug } = useParams<{ slug: string }>();
+  const { resources } = useAuthorityContent();
 
   const { data: solution, isLoading, error } = useQuery({
     queryKey: ["solution", slug],
@@ -82,7 +84,7 @@ const SolutionDetail = () => {
   const IconComponent = getSolutionIcon(solution.icon_name);
   const specs = (solution.specs as Record<string, string>) || {};
   const features = (solution.features as string[]) || [];
-  const relatedResources = getResourcesForSolution(solution.slug).slice(0, 3);
+  const relatedResources = getResourcesForSolutionFrom(resources, solution.slug).slice(0, 3);
   const image =
     Array.isArray((solution as { image_urls?: string[] }).image_urls) &&
     (solution as { image_urls?: string[] }).image_urls &&
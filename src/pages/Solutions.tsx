@@ -7,12 +7,16 @@ import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { defaultSolutions, getResourcesForSolution } from "@/content/authorityData";
+import { getResourcesForSolutionFrom } from "@/content/authorityContent";
+import { defaultSolutions } from "@/content/authorityData";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
 import { supabase } from "@/integrations/supabase/client";
 import { getSolutionIcon } from "@/lib/solutionIcons";
 import { buildBreadcrumbJsonLd, buildCollectionWithItemsJsonLd } from "@/lib/structuredData";
 
 const Solutions = () => {
+  const { resources } = useAuthorityContent();
+
   const { data: solutions, isLoading } = useQuery({
     queryKey: ["solutions-hub"],
     queryFn: async () => {
@@ -110,7 +114,7 @@ const Solutions = () => {
             {!isLoading &&
               cards.map((solution) => {
                 const Icon = getSolutionIcon("icon_name" in solution ? solution.icon_name : "Activity");
-                const relatedResources = getResourcesForSolution(solution.slug).slice(0, 2);
+                const relatedResources = getResourcesForSolutionFrom(resources, solution.slug).slice(0, 2);
 
                 return (
                   <article key={solution.slug} className="group border border-border bg-card p-8 shadow-sm transition-all hover:border-accent">
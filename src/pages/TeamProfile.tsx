@@ -4,13 +4,36 @@ import { ArrowLeft, ArrowRight, UserRound } from "lucide-react";
 import SEO from "@/components/SEO";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
-import { contributors, getContributorBySlug } from "@/content/authorityData";
+import { findBySlug } from "@/content/authorityContent";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
 import { buildBreadcrumbJsonLd, buildProfilePageJsonLd } from "@/lib/structuredData";
 
 const TeamProfile = () => {
   const { slug } = useParams<{ slug: string }>();
-  const contributor = getContributorBySlug(slug || "");
+  const { contributors, resources, isLoading } = useAuthorityContent();
+  const contributor = findBySlug(contributors, slug || "");
+
+  if (!contributor && isLoading) {
+    return (
+      <MainLayout>
+        {/* [SEO] Prevent stale meta from previous route leaking during loading */}
+        <SEO
+          title={`${slug ? slug.split("-").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ") : "Loading"} | Horalix`}
+          description="Loading team profile from Horalix."
+          canonical={`/team/${slug ?? ""}`}
+        />
+        <div className="px-6 pb-24 pt-24 lg:px-12">
+          <div className="mx-auto max-w-6xl">
+            <Skeleton className="mb-8 h-6 w-32" />
+            <Skeleton className="mb-4 h-12 w-1/2" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
 
   if (!contributor) {
     return (
@@ -35,6 +58,7 @@ const TeamProfile = () => {
   }
 
   const relatedPeople = contributors.filter((item) => item.slug !== contributor.slug).slice(0, 3);
+  const authoredResources = resources.filter((resource) => resource.authorSlug === contributor.slug);
   const breadcrumbItems = [
     { name: "Home", path: "/" },
     { name: "About", path: "/about" },
@@ -115,19 +139,39 @@ const TeamProfile = () => {
                 </div>
               </div>
 
-              <section className="mt-8">
-                <h2 className="font-space text-2xl font-bold text-primary">Focus areas</h2>
-                <div className="mt-4 flex flex-wrap gap-2">
-                  {contributor.focusAreas.map((focusArea) => (
-                    <span
-                      key={focusArea}
-                      className="inline-flex items-center rounded border border-border bg-background px-3 py-1 text-sm text-muted-foreground"
-                    >
-                      {focusArea}
-                    </span>
-                  ))}
-                </div>
-              </section>
+              {contributor.focusAreas.length > 0 && (
+                <section className="mt-8">
+                  <h2 className="font-space text-2xl font-bold text-primary">Focus areas</h2>
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {contributor.focusAreas.map((focusArea) => (
+                      <span
+                        key={focusArea}
+                        className="inline-flex items-center rounded border border-border bg-background px-3 py-1 text-sm text-muted-foreground"
+                      >
+                        {focusArea}
+                      </span>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {authoredResources.length > 0 && (
+                <section className="mt-8">
+                  <h2 className="font-space text-2xl font-bold text-primary">Published resources</h2>
+                  <div className="mt-4 space-y-3">
+                    {authoredResources.map((resource) => (
+                      <Link
+                        key={resource.slug}
+                        to={`/resources/${resource.slug}`}
+                        className="block border border-border bg-background px-4 py-3 transition-colors hover:border-accent"
+                      >
+                        <p className="font-space text-lg font-bold text-primary">{resource.title}</p>
+                        <p className="mt-1 text-sm leading-relaxed text-muted-foreground">{resource.summary}</p>
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
             </article>
 
             <aside className="space-y-6">
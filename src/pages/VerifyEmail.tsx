@@ -2,14 +2,17 @@ import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { Mail, Loader2, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { invokeAuthFunction } from "@/lib/authProxy";
 import horalixLogo from "@/assets/horalix-logo.png";
 import SEO from "@/components/SEO";
 
 /**
  * VerifyEmail - Email verification pending page
  * Shown after successful signup, with option to resend verification email
+ * (through the auth-resend-verification edge function). Visitors who arrive without
+ * an address, e.g. from the login page or a bookmark, can enter it here.
  */
 
 export default function VerifyEmail() {
@@ -19,14 +22,15 @@ export default function VerifyEmail() {
   const [resendSuccess, setResendSuccess] = useState(false);
 
   // Get email from navigation state
-  const email = location.state?.email || "";
+  const stateEmail: string = location.state?.email || "";
+  const [email, setEmail] = useState(stateEmail);
 
   // Handle resend verification email
   const handleResendEmail = async () => {
     if (!email) {
       toast({
         title: "Email Required",
-        description: "Please go back to signup and enter your email again.",
+        description: "Please enter the email address you signed up with.",
         variant: "destructive",
       });
       return;
@@ -36,25 +40,7 @@ export default function VerifyEmail() {
     setResendSuccess(false);
 
     try {
-      // Use canonical URL helper for email redirect
-      const { authRedirectUrl } = await import("@/lib/canonical");
-      
-      const { error } = await supabase.auth.resend({
-        type: "signup",
-        email,
-        options: {
-          emailRedirectTo: authRedirectUrl("/verify-email"),
-        },
-      });
-
-      if (error) {
-        toast({
-          title: "Failed to Resend",
-          description: error.message,
-          variant: "destructive",
-        });
-        return;
-      }
+      await invokeAuthFunction("auth-resend-verification", { email: email.trim() });
 
       setResendSuccess(true);
       toast({
@@ -65,7 +51,7 @@ export default function VerifyEmail() {
       console.error("Resend email error:", error);
       toast({
         title: "Failed to Resend",
-        description: "An unexpected error occurred. Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -105,8 +91,10 @@ export default function VerifyEmail() {
             <p className="text-muted-foreground mb-2">
               We've sent a verification link to:
             </p>
-            {email && (
-              <p className="text-foreground font-medium mb-6">{email}</p>
+            {stateEmail ? (
+              <p className="text-foreground font-medium mb-6">{stateEmail}</p>
+            ) : (
+              <p className="text-foreground font-medium mb-6">your email address</p>
             )}
   
             <p className="text-sm text-muted-foreground mb-8">
@@ -116,6 +104,17 @@ export default function VerifyEmail() {
   
             {/* Resend section */}
             <div className="space-y-4">
+              {!stateEmail && !resendSuccess && (
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  aria-label="Email address"
+                  disabled={isResending}
+                  className="bg-secondary border-border"
+                />
+              )}
               {resendSuccess ? (
                 <div className="flex items-center justify-center gap-2 text-green-600">
                   <CheckCircle className="w-4 h-4" />
@@ -125,7 +124,7 @@ export default function VerifyEmail() {
                 <Button
                   variant="outline"
                   onClick={handleResendEmail}
-                  disabled={isResending || !email}
+                  disabled={isResending || !email.trim()}
                   className="w-full"
                 >
                   {isResending ? (
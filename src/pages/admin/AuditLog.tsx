@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  AUDIT_ACTION_STYLES,
+  AUDIT_TABLE_LABELS,
+  CONTACT_AUDIT_TABLES,
+  formatAuditActor,
+  type AuditTableName,
+} from "@/lib/auditLog";
+
+/**
+ * AuditLog - Admin page listing every CMS mutation recorded by the audit_log trigger
+ * Filter by actor, table and date; selecting a row opens that record's full history
+ */
+
+const PAGE_SIZE = 50;
+
+const LABEL_FIELDS = ["title", "name", "question", "key", "email"];
+
+// Best-effort human label for a record from whichever snapshot is available
+const describeRecord = (data: Json | null): string | null => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const field = LABEL_FIELDS.find((key) => typeof data[key] === "string" && data[key]);
+  return field ? String(data[field]) : null;
+};
+
+const AuditLog = () => {
+  const [actor, setActor] = useState("");
+  const [tableFilter, setTableFilter] = useState<string>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<{ table: AuditTableName; id: string; label?: string } | null>(null);
+  const { can } = useAuth();
+
+  // Contact entries are admin-only in RLS, so only offer them to those who can see them
+  const tableOptions = (Object.keys(AUDIT_TABLE_LABELS) as AuditTableName[]).filter(
+    (table) => can("contacts") || !CONTACT_AUDIT_TABLES.includes(table),
+  );
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-audit-log", actor, tableFilter, fromDate, toDate, page],
+    queryFn: async () => {
+      let query = supabase
+        .from("audit_log")
+        .select("*", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (actor.trim()) {
+        query = query.ilike("actor_email", `%${actor.trim()}%`);
+      }
+      if (tableFilter !== "all") {
+        query = query.eq("table_name", tableFilter);
+      }
+      if (fromDate) {
+        query = query.gte("created_at", new Date(`${fromDate}T00:00:00`).toISOString());
+      }
+      if (toDate) {
+        query = query.lte("created_at", new Date(`${toDate}T23:59:59.999`).toISOString());
+      }
+
+      const { data: entries, error, count } = await query;
+      if (error) throw error;
+      return { entries, count: count ?? 0 };
+    },
+  });
+
+  const entries = data?.entries ?? [];
+  const total = data?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <ProtectedRoute section="audit">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold font-space">Audit Log</h1>
+            <p className="text-muted-foreground mt-1">Who created, changed or deleted what across the CMS.</p>
+          </div>
+
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Actor</Label>
+              <Input
+                id="audit-actor"
+                value={actor}
+                onChange={(event) => updateFilter(setActor)(event.target.value)}
+                placeholder="Email contains…"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-table">Table</Label>
+              <select
+                id="audit-table"
+                value={tableFilter}
+                onChange={(event) => updateFilter(setTableFilter)(event.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="all">All tables</option>
+                {tableOptions.map((table) => (
+                  <option key={table} value={table}>
+                    {AUDIT_TABLE_LABELS[table]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={fromDate}
+                onChange={(event) => updateFilter(setFromDate)(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={toDate}
+                onChange={(event) => updateFilter(setToDate)(event.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Entries table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length > 0 ? (
+                  entries.map((entry) => {
+                    const label = describeRecord(entry.new_data) ?? describeRecord(entry.old_data);
+                    return (
+                      <TableRow
+                        key={entry.id}
+                        className="cursor-pointer"
+                        onClick={() =>
+                          setSelected({
+                            table: entry.table_name as AuditTableName,
+                            id: entry.record_id,
+                            label: label ?? undefined,
+                          })
+                        }
+                      >
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell>{formatAuditActor(entry)}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded ${AUDIT_ACTION_STYLES[entry.action]?.className ?? "bg-secondary"}`}
+                          >
+                            {AUDIT_ACTION_STYLES[entry.action]?.label ?? entry.action}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {AUDIT_TABLE_LABELS[entry.table_name as AuditTableName] ?? entry.table_name}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {label ?? <span className="font-mono text-xs">{entry.record_id.slice(0, 8)}</span>}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate font-mono text-xs text-muted-foreground">
+                          {entry.changed_fields.join(", ") || "-"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No changes match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {total} {total === 1 ? "entry" : "entries"}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {selected && (
+          <AuditHistorySheet
+            tableName={selected.table}
+            recordId={selected.id}
+            recordLabel={selected.label}
+            open={!!selected}
+            onOpenChange={(open) => !open && setSelected(null)}
+          />
+        )}
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default AuditLog;
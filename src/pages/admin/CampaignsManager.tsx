@@ -0,0 +1,630 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarX, Eye, Loader2, Pencil, Plus, Send, SendHorizontal, Trash2 } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  CAMPAIGN_SEGMENT_LABELS,
+  CAMPAIGN_STATUS_STYLES,
+  CAMPAIGN_TYPE_LABELS,
+  describeCampaignAudience,
+  type CampaignSegment,
+  type CampaignStatus,
+} from "@/lib/newsletterCampaigns";
+import { NEWSLETTER_TOPICS, type NewsletterTopic } from "@/lib/newsletterPreferences";
+import { hasGoneLive, isFutureTimestamp, toDateTimeLocalValue } from "@/lib/publishSchedule";
+
+/**
+ * CampaignsManager - Admin page for newsletter campaigns
+ * Compose digests of articles and resources, preview, send a test, schedule and target a topic and segment.
+ * Article announcements appear here too as the automatic "article" campaign type.
+ */
+
+type Campaign = Tables<"newsletter_campaigns">;
+
+interface CampaignForm {
+  id?: string;
+  subject: string;
+  intro: string;
+  article_ids: string[];
+  resource_ids: string[];
+  topic: NewsletterTopic;
+  segment: CampaignSegment;
+  segment_subscribed_since: string;
+  scheduled_at: string;
+}
+
+interface CampaignPreview {
+  subject: string;
+  html: string;
+  recipients: number;
+  excluded: number;
+}
+
+const emptyForm: CampaignForm = {
+  subject: "",
+  intro: "",
+  article_ids: [],
+  resource_ids: [],
+  topic: "news",
+  segment: "all",
+  segment_subscribed_since: "",
+  scheduled_at: "",
+};
+
+// Surface the function's own message (e.g. "Add an intro or at least one live article")
+const invokeCampaignAction = async (action: "preview" | "test" | "send", campaignId: string) => {
+  const { data, error } = await supabase.functions.invoke("newsletter-campaign", {
+    body: { action, campaign_id: campaignId },
+  });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const body = context ? await context.json().catch(() => null) : null;
+    throw new Error(body?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+};
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+const CampaignsManager = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<CampaignForm>(emptyForm);
+  const [preview, setPreview] = useState<CampaignPreview | null>(null);
+  const [confirmSend, setConfirmSend] = useState<Campaign | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isEditor } = useAuth();
+
+  // Fetch campaigns with their send progress
+  const { data: campaigns, isLoading } = useQuery({
+    queryKey: ["admin-newsletter-campaigns"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("newsletter_campaigns")
+        .select("*, newsletter_sends(total_count, recipients_count, completed_at)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Content that can go into a digest
+  const { data: articles } = useQuery({
+    queryKey: ["admin-campaign-articles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("news_articles")
+        .select("id, title, is_published, published_at")
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: isDialogOpen,
+  });
+
+  const { data: resources } = useQuery({
+    queryKey: ["admin-campaign-resources"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("resources")
+        .select("id, title, is_published, published_at")
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: isDialogOpen,
+  });
+
+  // Save draft, or schedule when a send time is set
+  const saveMutation = useMutation({
+    mutationFn: async (campaign: CampaignForm) => {
+      const scheduledAt = campaign.scheduled_at ? new Date(campaign.scheduled_at).toISOString() : null;
+      if (scheduledAt && !isFutureTimestamp(scheduledAt)) {
+        throw new Error("Pick a send time in the future, or leave it empty to save a draft.");
+      }
+
+      const payload = {
+        subject: campaign.subject,
+        intro: campaign.intro,
+        article_ids: campaign.article_ids,
+        resource_ids: campaign.resource_ids,
+        topic: campaign.topic,
+        segment: campaign.segment,
+        segment_subscribed_since: campaign.segment_subscribed_since
+          ? new Date(`${campaign.segment_subscribed_since}T00:00:00`).toISOString()
+          : null,
+        scheduled_at: scheduledAt,
+        status: scheduledAt ? "scheduled" : "draft",
+      };
+
+      if (campaign.id) {
+        const { error } = await supabase.from("newsletter_campaigns").update(payload).eq("id", campaign.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from("newsletter_campaigns")
+          .insert({ ...payload, created_by: user?.id ?? null });
+        if (error) throw error;
+      }
+      return payload.status;
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-campaigns"] });
+      setIsDialogOpen(false);
+      setForm(emptyForm);
+      toast({ title: status === "scheduled" ? "Campaign scheduled" : "Draft saved" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const unscheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("newsletter_campaigns")
+        .update({ status: "draft", scheduled_at: null })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-campaigns"] });
+      toast({ title: "Campaign moved back to drafts" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("newsletter_campaigns").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-campaigns"] });
+      toast({ title: "Campaign deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (id: string) => invokeCampaignAction("preview", id) as Promise<CampaignPreview>,
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Preview failed", description: error.message });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => invokeCampaignAction("test", id),
+    onSuccess: (result) => {
+      toast({ title: "Test email sent", description: `Check ${result.email}.` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Test send failed", description: error.message });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (id: string) => invokeCampaignAction("send", id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-sends"] });
+      setConfirmSend(null);
+      toast({
+        title: result.skipped ? "Campaign already sent" : "Campaign queued",
+        description: result.skipped ? undefined : `Sending to ${result.recipients} subscribers.`,
+      });
+    },
+    onError: (error: Error) => {
+      setConfirmSend(null);
+      toast({ variant: "destructive", title: "Send failed", description: error.message });
+    },
+  });
+
+  const handleEdit = (campaign: Campaign) => {
+    setForm({
+      id: campaign.id,
+      subject: campaign.subject,
+      intro: campaign.intro,
+      article_ids: campaign.article_ids,
+      resource_ids: campaign.resource_ids,
+      topic: campaign.topic as NewsletterTopic,
+      segment: campaign.segment as CampaignSegment,
+      segment_subscribed_since: campaign.segment_subscribed_since
+        ? toDateTimeLocalValue(campaign.segment_subscribed_since).slice(0, 10)
+        : "",
+      scheduled_at: toDateTimeLocalValue(campaign.scheduled_at),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const isActionPending = previewMutation.isPending || testMutation.isPending || sendMutation.isPending;
+
+  const renderPicker = (
+    label: string,
+    items: { id: string; title: string; is_published: boolean; published_at: string | null }[] | undefined,
+    selected: string[],
+    onChange: (ids: string[]) => void
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="max-h-56 space-y-2 overflow-y-auto rounded-md border border-border p-3">
+        {!items ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to pick yet.</p>
+        ) : (
+          items.map((item) => {
+            const isLive = item.is_published && hasGoneLive(item.published_at);
+            return (
+              <label key={item.id} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(item.id)}
+                  onCheckedChange={(checked) => onChange(toggleId(selected, item.id, checked === true))}
+                  className="mt-0.5"
+                />
+                <span className="flex-1">
+                  {item.title}
+                  {!isLive && <span className="ml-2 text-xs text-muted-foreground">(not live yet)</span>}
+                </span>
+              </label>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <ProtectedRoute section="campaigns">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold font-space">Campaigns</h1>
+              <p className="text-muted-foreground mt-1">
+                Compose newsletter digests. Article announcements are sent automatically when an article goes live.
+              </p>
+            </div>
+            {isEditor && (
+              <Button
+                onClick={() => {
+                  setForm(emptyForm);
+                  setIsDialogOpen(true);
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Campaign
+              </Button>
+            )}
+          </div>
+
+          {/* Campaigns table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Audience</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="w-56">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : campaigns && campaigns.length > 0 ? (
+                  campaigns.map((campaign) => {
+                    const status = CAMPAIGN_STATUS_STYLES[campaign.status as CampaignStatus];
+                    const send = campaign.newsletter_sends;
+                    const isDigest = campaign.campaign_type === "digest";
+                    const isUnsent = campaign.status !== "sent";
+                    return (
+                      <TableRow key={campaign.id}>
+                        <TableCell className="max-w-xs truncate font-medium">{campaign.subject}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {CAMPAIGN_TYPE_LABELS[campaign.campaign_type] ?? campaign.campaign_type}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {describeCampaignAudience(campaign)}
+                        </TableCell>
+                        <TableCell>
+                          <span className={`text-xs px-2 py-0.5 rounded ${status?.className ?? "bg-secondary"}`}>
+                            {status?.label ?? campaign.status}
+                          </span>
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            {campaign.status === "scheduled" && campaign.scheduled_at
+                              ? format(new Date(campaign.scheduled_at), "MMM d, yyyy HH:mm")
+                              : campaign.sent_at
+                                ? format(new Date(campaign.sent_at), "MMM d, yyyy HH:mm")
+                                : null}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {send ? `${send.recipients_count} / ${send.total_count}` : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {isDigest && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Preview"
+                                disabled={isActionPending}
+                                onClick={() => previewMutation.mutate(campaign.id)}
+                              >
+                                <Eye className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {isEditor && isDigest && isUnsent && (
+                              <>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title="Send test to yourself"
+                                  disabled={isActionPending}
+                                  onClick={() => testMutation.mutate(campaign.id)}
+                                >
+                                  <SendHorizontal className="w-4 h-4" />
+                                </Button>
+                                <Button size="icon" variant="ghost" title="Edit" onClick={() => handleEdit(campaign)}>
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                                {campaign.status === "scheduled" && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    title="Unschedule"
+                                    onClick={() => unscheduleMutation.mutate(campaign.id)}
+                                  >
+                                    <CalendarX className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title="Send now"
+                                  disabled={isActionPending}
+                                  onClick={() => setConfirmSend(campaign)}
+                                >
+                                  <Send className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title="Delete"
+                                  onClick={() => {
+                                    if (confirm("Delete this campaign?")) {
+                                      deleteMutation.mutate(campaign.id);
+                                    }
+                                  }}
+                                >
+                                  <Trash2 className="w-4 h-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No campaigns yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Compose dialog */}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{form.id ? "Edit Campaign" : "New Campaign"}</DialogTitle>
+                <DialogDescription>
+                  Only items that are live when the campaign is sent are included.
+                </DialogDescription>
+              </DialogHeader>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveMutation.mutate(form);
+                }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-subject">Subject</Label>
+                  <Input
+                    id="campaign-subject"
+                    value={form.subject}
+                    onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                    placeholder="This month at Horalix"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-intro">Intro</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Markdown: ## Heading, **bold**, *italic*, [link](https://...), - list item
+                  </p>
+                  <Textarea
+                    id="campaign-intro"
+                    value={form.intro}
+                    onChange={(e) => setForm({ ...form, intro: e.target.value })}
+                    rows={5}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {renderPicker("News articles", articles, form.article_ids, (ids) =>
+                    setForm({ ...form, article_ids: ids })
+                  )}
+                  {renderPicker("Resources", resources, form.resource_ids, (ids) =>
+                    setForm({ ...form, resource_ids: ids })
+                  )}
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="campaign-topic">Topic</Label>
+                    <select
+                      id="campaign-topic"
+                      value={form.topic}
+                      onChange={(e) => setForm({ ...form, topic: e.target.value as NewsletterTopic })}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {NEWSLETTER_TOPICS.map((topic) => (
+                        <option key={topic.value} value={topic.value}>
+                          {topic.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="campaign-segment">Audience</Label>
+                    <select
+                      id="campaign-segment"
+                      value={form.segment}
+                      onChange={(e) => setForm({ ...form, segment: e.target.value as CampaignSegment })}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {(Object.keys(CAMPAIGN_SEGMENT_LABELS) as CampaignSegment[]).map((segment) => (
+                        <option key={segment} value={segment}>
+                          {CAMPAIGN_SEGMENT_LABELS[segment]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="campaign-since">Joined since (optional)</Label>
+                    <Input
+                      id="campaign-since"
+                      type="date"
+                      value={form.segment_subscribed_since}
+                      onChange={(e) => setForm({ ...form, segment_subscribed_since: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="campaign-schedule">Send at (optional)</Label>
+                    <Input
+                      id="campaign-schedule"
+                      type="datetime-local"
+                      value={form.scheduled_at}
+                      onChange={(e) => setForm({ ...form, scheduled_at: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave "Send at" empty to save a draft. Scheduled campaigns go out within five minutes of their time.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveMutation.isPending}>
+                    {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {form.scheduled_at ? "Schedule" : "Save Draft"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          {/* Preview dialog */}
+          <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>{preview?.subject}</DialogTitle>
+                <DialogDescription>
+                  Would go to {preview?.recipients ?? 0} subscribers right now.
+                  {preview?.excluded
+                    ? ` ${preview.excluded} selected item${preview.excluded === 1 ? " is" : "s are"} not live and will be left out.`
+                    : ""}
+                </DialogDescription>
+              </DialogHeader>
+              {preview && (
+                <iframe
+                  title="Campaign preview"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="h-[65vh] w-full rounded-md border border-border bg-white"
+                />
+              )}
+            </DialogContent>
+          </Dialog>
+
+          {/* Send confirmation */}
+          <AlertDialog open={!!confirmSend} onOpenChange={(open) => !open && setConfirmSend(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Send this campaign now?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  &ldquo;{confirmSend?.subject}&rdquo; goes to{" "}
+                  {confirmSend ? describeCampaignAudience(confirmSend).toLowerCase() : ""}.
+                  This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  disabled={sendMutation.isPending}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (confirmSend) sendMutation.mutate(confirmSend.id);
+                  }}
+                >
+                  {sendMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Send
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default CampaignsManager;
@@ -1,9 +1,14 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { ContactThread } from "@/components/ContactThread";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import {
@@ -28,7 +33,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Eye, Loader2, Mail, Check, Archive, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  Eye,
+  Loader2,
+  Mail,
+  Check,
+  Archive,
+  Trash2,
+  ScrollText,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 import { format } from "date-fns";
 import {
   AlertDialog,
@@ -40,48 +57,143 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  CONTACT_PRIORITY_OPTIONS,
+  CONTACT_STATUS_OPTIONS,
+  CONTACT_TAG_LABELS,
+  CONTACT_TAG_OPTIONS,
+  getContactSla,
+  type ContactPriority,
+  type ContactStatus,
+  type ContactTag,
+} from "@/lib/contactTriage";
 
 /**
  * ContactsManager - Admin page for managing contact form submissions
- * View, respond, and track status of inquiries
+ * Triage (assignment, tags, priority, first-response SLA), search and bulk status changes;
+ * replies are threaded and emailed to the sender
  */
 
-type ContactStatus = "new" | "in_progress" | "responded" | "archived";
+const PAGE_SIZE = 50;
+
+type Contact = Tables<"contact_submissions">;
+
+interface TriageForm {
+  notes: string;
+  assigned_to: string | null;
+  priority: ContactPriority;
+  tags: ContactTag[];
+}
 
-const STATUS_OPTIONS: { value: ContactStatus; label: string; color: string }[] = [
-  { value: "new", label: "New", color: "bg-blue-500/20 text-blue-500" },
-  { value: "in_progress", label: "In Progress", color: "bg-yellow-500/20 text-yellow-500" },
-  { value: "responded", label: "Responded", color: "bg-green-500/20 text-green-500" },
-  { value: "archived", label: "Archived", color: "bg-gray-500/20 text-gray-500" },
-];
+const UNASSIGNED = "unassigned";
 
 const ContactsManager = () => {
-  const [selectedContact, setSelectedContact] = useState<any | null>(null);
-  const [contactToDelete, setContactToDelete] = useState<any | null>(null);
-  const [notes, setNotes] = useState("");
+  const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
+  const [contactToDelete, setContactToDelete] = useState<Contact | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
+  const [triage, setTriage] = useState<TriageForm | null>(null);
+  const [search, setSearch] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [filterAssignee, setFilterAssignee] = useState<string>("all");
+  const [filterTag, setFilterTag] = useState<string>("all");
+  const [filterPriority, setFilterPriority] = useState<string>("all");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [sort, setSort] = useState<"newest" | "oldest" | "due">("newest");
+  const [page, setPage] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<ContactStatus | null>(null);
+  const [bulkNotify, setBulkNotify] = useState(true);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user, isEditor } = useAuth();
 
-  // Fetch all contacts
-  const { data: contacts, isLoading } = useQuery({
-    queryKey: ["admin-contacts", filterStatus],
+  // Fetch one page of contacts matching the filters
+  const { data, isLoading } = useQuery({
+    queryKey: [
+      "admin-contacts",
+      search,
+      filterStatus,
+      filterAssignee,
+      filterTag,
+      filterPriority,
+      overdueOnly,
+      sort,
+      page,
+    ],
     queryFn: async () => {
-      let query = supabase
-        .from("contact_submissions")
-        .select("*")
-        .order("created_at", { ascending: false });
+      let query = supabase.from("contact_submissions").select("*", { count: "exact" });
+
+      if (sort === "due") {
+        query = query
+          .order("first_response_at", { ascending: false, nullsFirst: true })
+          .order("response_due_at", { ascending: true });
+      } else {
+        query = query.order("created_at", { ascending: sort === "oldest" });
+      }
 
+      if (search.trim()) {
+        query = query.textSearch("search", search.trim(), { type: "websearch", config: "simple" });
+      }
       if (filterStatus !== "all") {
         query = query.eq("status", filterStatus);
       }
+      if (filterAssignee === "me" && user) {
+        query = query.eq("assigned_to", user.id);
+      } else if (filterAssignee === UNASSIGNED) {
+        query = query.is("assigned_to", null);
+      } else if (filterAssignee !== "all") {
+        query = query.eq("assigned_to", filterAssignee);
+      }
+      if (filterTag !== "all") {
+        query = query.contains("tags", [filterTag]);
+      }
+      if (filterPriority !== "all") {
+        query = query.eq("priority", filterPriority);
+      }
+      if (overdueOnly) {
+        query = query
+          .is("first_response_at", null)
+          .neq("status", "archived")
+          .lt("response_due_at", new Date().toISOString());
+      }
+
+      const { data: contacts, error, count } = await query.range(
+        page * PAGE_SIZE,
+        page * PAGE_SIZE + PAGE_SIZE - 1
+      );
+      if (error) throw error;
+      return { contacts, count: count ?? 0 };
+    },
+  });
 
-      const { data, error } = await query;
+  // Admins a submission can be assigned to
+  const { data: assignees } = useQuery({
+    queryKey: ["admin-contact-assignees"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("contact_assignees");
       if (error) throw error;
       return data;
     },
   });
 
+  const contacts = data?.contacts ?? [];
+  const total = data?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allOnPageSelected = contacts.length > 0 && contacts.every((contact) => selectedIds.includes(contact.id));
+
+  // Any filter change starts again from the first page with nothing selected
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+    setSelectedIds([]);
+  };
+
+  const assigneeName = (userId: string | null) => {
+    if (!userId) return null;
+    const assignee = assignees?.find((a) => a.user_id === userId);
+    return assignee?.full_name || assignee?.email || "Former staff";
+  };
+
   // Step 1: Send status notification to user via edge function
   const sendStatusNotification = async (
     submissionId: string,
@@ -154,7 +266,7 @@ const ContactsManager = () => {
         });
       }
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         variant: "destructive",
         title: "Error",
@@ -163,6 +275,72 @@ const ContactsManager = () => {
     },
   });
 
+  // Step 3: Save notes and triage fields without changing the status
+  const triageMutation = useMutation({
+    mutationFn: async ({ id, form }: { id: string; form: TriageForm }) => {
+      const { error } = await supabase
+        .from("contact_submissions")
+        .update({
+          notes: form.notes,
+          assigned_to: form.assigned_to,
+          priority: form.priority,
+          tags: form.tags,
+        })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-contacts"] });
+      setSelectedContact(null);
+      toast({ title: "Contact updated" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  // Step 4: Bulk status change, optionally notifying each sender
+  const bulkMutation = useMutation({
+    mutationFn: async ({ ids, status, notify }: { ids: string[]; status: ContactStatus; notify: boolean }) => {
+      const { error } = await supabase
+        .from("contact_submissions")
+        .update({
+          status,
+          responded_at: status === "responded" ? new Date().toISOString() : null,
+        })
+        .in("id", ids);
+      if (error) throw error;
+
+      let failed = 0;
+      if (notify) {
+        for (const id of ids) {
+          const result = await sendStatusNotification(id, status);
+          if (!result.ok) failed++;
+        }
+      }
+      return { count: ids.length, failed };
+    },
+    onSuccess: ({ count, failed }, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-contacts"] });
+      setSelectedIds([]);
+      setBulkStatus(null);
+
+      const label = CONTACT_STATUS_OPTIONS.find((s) => s.value === status)?.label;
+      if (failed > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some notifications failed",
+          description: `${count} submissions moved to ${label}, but ${failed} email notification${failed === 1 ? "" : "s"} failed.`,
+        });
+      } else {
+        toast({ title: "Contacts updated", description: `${count} submissions moved to ${label}.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
   // Delete contact mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -177,117 +355,271 @@ const ContactsManager = () => {
       setContactToDelete(null);
       toast({ title: "Contact deleted" });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({ variant: "destructive", title: "Error", description: error.message });
     },
   });
 
   // Open view dialog
-  const handleView = (contact: any) => {
+  const handleView = (contact: Contact) => {
     setSelectedContact(contact);
-    setNotes(contact.notes || "");
+    setTriage({
+      notes: contact.notes || "",
+      assigned_to: contact.assigned_to,
+      priority: contact.priority as ContactPriority,
+      tags: contact.tags as ContactTag[],
+    });
   };
 
   // Get status color
   const getStatusColor = (status: string) => {
-    return STATUS_OPTIONS.find((s) => s.value === status)?.color || "bg-secondary";
+    return CONTACT_STATUS_OPTIONS.find((s) => s.value === status)?.color || "bg-secondary";
   };
 
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((existing) => existing !== id)));
+
+  const now = new Date();
+
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="contacts">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-3xl font-bold font-space">Contact Submissions</h1>
-              <p className="text-muted-foreground mt-1">
-                View and manage contact form inquiries.
-              </p>
-            </div>
+          <div>
+            <h1 className="text-3xl font-bold font-space">Contact Submissions</h1>
+            <p className="text-muted-foreground mt-1">
+              Triage, answer and track contact form inquiries.
+            </p>
+          </div>
 
-            {/* Status filter */}
-            <Select value={filterStatus} onValueChange={setFilterStatus}>
-              <SelectTrigger className="w-40">
-                <SelectValue placeholder="Filter by status" />
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                placeholder="Search name, email, message..."
+                className="pl-9"
+              />
+            </div>
+            <Select value={filterStatus} onValueChange={updateFilter(setFilterStatus)}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Status" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All</SelectItem>
-                {STATUS_OPTIONS.map((status) => (
+                <SelectItem value="all">All statuses</SelectItem>
+                {CONTACT_STATUS_OPTIONS.map((status) => (
                   <SelectItem key={status.value} value={status.value}>
                     {status.label}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <Select value={filterAssignee} onValueChange={updateFilter(setFilterAssignee)}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees?.map((assignee) => (
+                  <SelectItem key={assignee.user_id} value={assignee.user_id}>
+                    {assignee.full_name || assignee.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterTag} onValueChange={updateFilter(setFilterTag)}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tags</SelectItem>
+                {CONTACT_TAG_OPTIONS.map((tag) => (
+                  <SelectItem key={tag.value} value={tag.value}>
+                    {tag.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterPriority} onValueChange={updateFilter(setFilterPriority)}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Priority" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All priorities</SelectItem>
+                {CONTACT_PRIORITY_OPTIONS.map((priority) => (
+                  <SelectItem key={priority.value} value={priority.value}>
+                    {priority.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => updateFilter(setSort)(value as typeof sort)}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest first</SelectItem>
+                <SelectItem value="oldest">Oldest first</SelectItem>
+                <SelectItem value="due">Due soonest</SelectItem>
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={overdueOnly}
+                onCheckedChange={(checked) => updateFilter(setOverdueOnly)(checked === true)}
+              />
+              Overdue only
+            </label>
           </div>
 
+          {/* Bulk actions */}
+          {isEditor && selectedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-secondary/50 px-4 py-2 text-sm">
+              <span className="font-medium">{selectedIds.length} selected</span>
+              <span className="text-muted-foreground">Move to:</span>
+              {CONTACT_STATUS_OPTIONS.map((status) => (
+                <Button
+                  key={status.value}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setBulkNotify(status.value !== "new");
+                    setBulkStatus(status.value);
+                  }}
+                >
+                  {status.label}
+                </Button>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </div>
+          )}
+
           {/* Contacts table */}
           <div className="border border-border rounded-lg overflow-hidden">
             <Table>
               <TableHeader>
                 <TableRow>
+                  {isEditor && (
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allOnPageSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked === true ? contacts.map((contact) => contact.id) : [])
+                        }
+                        aria-label="Select all on this page"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead>Date</TableHead>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Email</TableHead>
+                  <TableHead>From</TableHead>
                   <TableHead>Message</TableHead>
+                  <TableHead>Triage</TableHead>
+                  <TableHead>First response</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead className="w-16">View</TableHead>
+                  <TableHead className="w-24">View</TableHead>
                   <TableHead className="w-16">Delete</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={isEditor ? 9 : 8} className="text-center py-8">
                       <Loader2 className="w-6 h-6 animate-spin mx-auto" />
                     </TableCell>
                   </TableRow>
-                ) : contacts && contacts.length > 0 ? (
-                  contacts.map((contact) => (
-                    <TableRow key={contact.id}>
-                      <TableCell className="text-muted-foreground text-sm">
-                        {format(new Date(contact.created_at), "MMM d, yyyy")}
-                      </TableCell>
-                      <TableCell className="font-medium">{contact.name}</TableCell>
-                      <TableCell>
-                        <a
-                          href={`mailto:${contact.email}`}
-                          className="text-accent hover:underline flex items-center gap-1"
-                        >
-                          <Mail className="w-3 h-3" />
-                          {contact.email}
-                        </a>
-                      </TableCell>
-                      <TableCell className="max-w-xs truncate text-muted-foreground">
-                        {contact.message}
-                      </TableCell>
-                      <TableCell>
-                        <span className={`text-xs px-2 py-0.5 rounded ${getStatusColor(contact.status)}`}>
-                          {STATUS_OPTIONS.find((s) => s.value === contact.status)?.label || contact.status}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <Button size="icon" variant="ghost" onClick={() => handleView(contact)}>
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                      </TableCell>
-                      <TableCell>
-                        <Button 
-                          size="icon" 
-                          variant="ghost" 
-                          onClick={() => setContactToDelete(contact)}
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                ) : contacts.length > 0 ? (
+                  contacts.map((contact) => {
+                    const sla = getContactSla(contact, now);
+                    const priority = CONTACT_PRIORITY_OPTIONS.find((p) => p.value === contact.priority);
+                    return (
+                      <TableRow key={contact.id} className={sla.state === "overdue" ? "bg-destructive/5" : undefined}>
+                        {isEditor && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(contact.id)}
+                              onCheckedChange={(checked) => toggleSelected(contact.id, checked === true)}
+                              aria-label={`Select ${contact.name}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                          {format(new Date(contact.created_at), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{contact.name}</p>
+                          <a
+                            href={`mailto:${contact.email}`}
+                            className="text-sm text-accent hover:underline flex items-center gap-1"
+                          >
+                            <Mail className="w-3 h-3" />
+                            {contact.email}
+                          </a>
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-muted-foreground">
+                          {contact.message}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {contact.priority !== "normal" && priority && (
+                              <span className={`text-xs px-2 py-0.5 rounded ${priority.color}`}>{priority.label}</span>
+                            )}
+                            {contact.tags.map((tag) => (
+                              <span key={tag} className="text-xs bg-secondary px-2 py-0.5 rounded">
+                                {CONTACT_TAG_LABELS[tag as ContactTag] ?? tag}
+                              </span>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {assigneeName(contact.assigned_to) ?? "Unassigned"}
+                          </p>
+                        </TableCell>
+                        <TableCell className={`text-sm whitespace-nowrap ${sla.className}`}>{sla.label}</TableCell>
+                        <TableCell>
+                          <span className={`text-xs px-2 py-0.5 rounded ${getStatusColor(contact.status)}`}>
+                            {CONTACT_STATUS_OPTIONS.find((s) => s.value === contact.status)?.label || contact.status}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button size="icon" variant="ghost" onClick={() => handleView(contact)}>
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Audit trail"
+                              onClick={() => setAuditRecord({ id: contact.id, label: contact.name })}
+                            >
+                              <ScrollText className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {isEditor && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setContactToDelete(contact)}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                      No contact submissions yet.
+                    <TableCell colSpan={isEditor ? 9 : 8} className="text-center py-8 text-muted-foreground">
+                      No contact submissions match these filters.
                     </TableCell>
                   </TableRow>
                 )}
@@ -295,13 +627,47 @@ const ContactsManager = () => {
             </Table>
           </div>
 
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {total} {total === 1 ? "submission" : "submissions"}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page === 0}
+                onClick={() => {
+                  setPage(page - 1);
+                  setSelectedIds([]);
+                }}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page + 1 >= pageCount}
+                onClick={() => {
+                  setPage(page + 1);
+                  setSelectedIds([]);
+                }}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
           {/* View/Edit dialog */}
           <Dialog open={!!selectedContact} onOpenChange={(open) => !open && setSelectedContact(null)}>
-            <DialogContent className="max-w-lg">
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Contact Details</DialogTitle>
               </DialogHeader>
-              {selectedContact && (
+              {selectedContact && triage && (
                 <div className="space-y-4">
                   {/* Contact info */}
                   <div className="space-y-2">
@@ -319,13 +685,79 @@ const ContactsManager = () => {
                       <span className="text-muted-foreground">Date:</span>
                       <span>{format(new Date(selectedContact.created_at), "MMM d, yyyy 'at' h:mm a")}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">First response:</span>
+                      <span className={getContactSla(selectedContact, now).className}>
+                        {getContactSla(selectedContact, now).label}
+                      </span>
+                    </div>
                   </div>
 
-                  {/* Message */}
+                  {/* Triage */}
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Assigned to</Label>
+                      <Select
+                        value={triage.assigned_to ?? UNASSIGNED}
+                        onValueChange={(value) =>
+                          setTriage({ ...triage, assigned_to: value === UNASSIGNED ? null : value })
+                        }
+                        disabled={!isEditor}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {assignees?.map((assignee) => (
+                            <SelectItem key={assignee.user_id} value={assignee.user_id}>
+                              {assignee.full_name || assignee.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Priority</Label>
+                      <Select
+                        value={triage.priority}
+                        onValueChange={(value) => setTriage({ ...triage, priority: value as ContactPriority })}
+                        disabled={!isEditor}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONTACT_PRIORITY_OPTIONS.map((priority) => (
+                            <SelectItem key={priority.value} value={priority.value}>
+                              {priority.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                   <div className="space-y-2">
-                    <Label>Message</Label>
-                    <div className="bg-secondary p-4 rounded text-sm whitespace-pre-wrap">
-                      {selectedContact.message}
+                    <Label>Tags</Label>
+                    <div className="flex flex-wrap gap-4">
+                      {CONTACT_TAG_OPTIONS.map((tag) => (
+                        <label key={tag.value} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={triage.tags.includes(tag.value)}
+                            disabled={!isEditor}
+                            onCheckedChange={(checked) =>
+                              setTriage({
+                                ...triage,
+                                tags:
+                                  checked === true
+                                    ? [...triage.tags, tag.value]
+                                    : triage.tags.filter((value) => value !== tag.value),
+                              })
+                            }
+                          />
+                          {tag.label}
+                        </label>
+                      ))}
                     </div>
                   </div>
 
@@ -333,66 +765,127 @@ const ContactsManager = () => {
                   <div className="space-y-2">
                     <Label>Internal Notes</Label>
                     <Textarea
-                      value={notes}
-                      onChange={(e) => setNotes(e.target.value)}
+                      value={triage.notes}
+                      onChange={(e) => setTriage({ ...triage, notes: e.target.value })}
                       placeholder="Add notes about this inquiry..."
                       rows={3}
+                      readOnly={!isEditor}
                     />
                   </div>
 
                   {/* Actions */}
-                  <div className="flex flex-wrap gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() =>
-                        updateMutation.mutate({
-                          id: selectedContact.id,
-                          status: "in_progress",
-                          notes,
-                        })
-                      }
-                      disabled={updateMutation.isPending}
-                    >
-                      <Loader2 className={`w-4 h-4 mr-1 ${updateMutation.isPending ? "animate-spin" : "hidden"}`} />
-                      In Progress
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() =>
-                        updateMutation.mutate({
-                          id: selectedContact.id,
-                          status: "responded",
-                          notes,
-                        })
-                      }
-                      disabled={updateMutation.isPending}
-                    >
-                      <Check className="w-4 h-4 mr-1" />
-                      Mark Responded
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() =>
-                        updateMutation.mutate({
-                          id: selectedContact.id,
-                          status: "archived",
-                          notes,
-                        })
-                      }
-                      disabled={updateMutation.isPending}
-                    >
-                      <Archive className="w-4 h-4 mr-1" />
-                      Archive
-                    </Button>
+                  {isEditor && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => triageMutation.mutate({ id: selectedContact.id, form: triage })}
+                        disabled={triageMutation.isPending}
+                      >
+                        {triageMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                        Save
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateMutation.mutate({
+                            id: selectedContact.id,
+                            status: "in_progress",
+                            notes: triage.notes,
+                          })
+                        }
+                        disabled={updateMutation.isPending}
+                      >
+                        <Loader2 className={`w-4 h-4 mr-1 ${updateMutation.isPending ? "animate-spin" : "hidden"}`} />
+                        In Progress
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateMutation.mutate({
+                            id: selectedContact.id,
+                            status: "responded",
+                            notes: triage.notes,
+                          })
+                        }
+                        disabled={updateMutation.isPending}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Mark Responded
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateMutation.mutate({
+                            id: selectedContact.id,
+                            status: "archived",
+                            notes: triage.notes,
+                          })
+                        }
+                        disabled={updateMutation.isPending}
+                      >
+                        <Archive className="w-4 h-4 mr-1" />
+                        Archive
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Conversation */}
+                  <div className="space-y-2">
+                    <Label>Conversation</Label>
+                    <ContactThread
+                      submission={selectedContact}
+                      viewer="staff"
+                      canReply={isEditor}
+                      onReplied={() => {
+                        queryClient.invalidateQueries({ queryKey: ["admin-contacts"] });
+                        setSelectedContact({ ...selectedContact, status: "responded" });
+                      }}
+                    />
                   </div>
                 </div>
               )}
             </DialogContent>
           </Dialog>
 
+          {/* Bulk status confirmation */}
+          <AlertDialog open={!!bulkStatus} onOpenChange={(open) => !open && setBulkStatus(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  Move {selectedIds.length} submission{selectedIds.length === 1 ? "" : "s"} to{" "}
+                  {CONTACT_STATUS_OPTIONS.find((s) => s.value === bulkStatus)?.label}?
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  Notes, assignment and replies are kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              {bulkStatus !== "new" && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={bulkNotify} onCheckedChange={(checked) => setBulkNotify(checked === true)} />
+                  Email each sender about the status change
+                </label>
+              )}
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (bulkStatus) {
+                      bulkMutation.mutate({ ids: selectedIds, status: bulkStatus, notify: bulkNotify });
+                    }
+                  }}
+                  disabled={bulkMutation.isPending}
+                >
+                  {bulkMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                  Update
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
           {/* Delete confirmation dialog */}
           <AlertDialog open={!!contactToDelete} onOpenChange={(open) => !open && setContactToDelete(null)}>
             <AlertDialogContent>
@@ -420,6 +913,13 @@ const ContactsManager = () => {
             </AlertDialogContent>
           </AlertDialog>
         </div>
+        <AuditHistorySheet
+          tableName="contact_submissions"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -22,7 +24,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Pencil, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Pencil, Loader2, History, ScrollText } from "lucide-react";
 
 /**
  * ContentManager - Admin page for managing site content
@@ -39,9 +42,12 @@ interface ContentForm {
 
 const ContentManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<ContentForm | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isEditor } = useAuth();
 
   // Fetch all site content
   const { data: content, isLoading } = useQuery({
@@ -89,7 +95,7 @@ const ContentManager = () => {
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="content">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -108,7 +114,7 @@ const ContentManager = () => {
                   <TableHead>Key</TableHead>
                   <TableHead>Value</TableHead>
                   <TableHead>Type</TableHead>
-                  <TableHead className="w-16">Edit</TableHead>
+                  <TableHead className="w-32">Edit</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -131,9 +137,29 @@ const ContentManager = () => {
                         </span>
                       </TableCell>
                       <TableCell>
-                        <Button size="icon" variant="ghost" onClick={() => handleEdit(item)}>
-                          <Pencil className="w-4 h-4" />
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Revision history"
+                          onClick={() => setHistoryRecord({ id: item.id, label: item.key })}
+                        >
+                          <History className="w-4 h-4" />
                         </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Audit trail"
+                          onClick={() => setAuditRecord({ id: item.id, label: item.key })}
+                        >
+                          <ScrollText className="w-4 h-4" />
+                        </Button>
+                        {isEditor && (
+                          <>
+                            <Button size="icon" variant="ghost" onClick={() => handleEdit(item)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -203,6 +229,21 @@ const ContentManager = () => {
             </DialogContent>
           </Dialog>
         </div>
+        <RevisionHistoryDialog
+          tableName="site_content"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-content"]]}
+        />
+        <AuditHistorySheet
+          tableName="site_content"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
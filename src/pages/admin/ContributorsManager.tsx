@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { History, ScrollText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
 
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -25,6 +27,7 @@ import {
 } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
 
@@ -40,9 +43,12 @@ interface ContributorForm {
   photo_url: string;
   linkedin_url: string;
   same_as: string;
+  focus_areas: string;
   contributor_type: string;
   display_order: number;
   is_public: boolean;
+  /** Linked login, lets this contributor approve resources they review */
+  user_id: string | null;
 }
 
 const defaultForm: ContributorForm = {
@@ -56,19 +62,25 @@ const defaultForm: ContributorForm = {
   photo_url: "",
   linkedin_url: "",
   same_as: "",
+  focus_areas: "",
   contributor_type: "author",
   display_order: 0,
   is_public: true,
+  user_id: null,
 };
 
 type ContributorRow = Tables<"contributors">;
 
 const ContributorsManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<ContributorForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
+  const [linkEmail, setLinkEmail] = useState("");
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isAdmin, isEditor } = useAuth();
 
   const { data: contributors, isLoading } = useQuery({
     queryKey: ["admin-contributors"],
@@ -94,6 +106,9 @@ const ContributorsManager = () => {
         same_as: contributor.same_as
           ? contributor.same_as.split(",").map((item) => item.trim()).filter(Boolean)
           : [],
+        focus_areas: contributor.focus_areas
+          ? contributor.focus_areas.split(",").map((item) => item.trim()).filter(Boolean)
+          : [],
         contributor_type: contributor.contributor_type,
         display_order: contributor.display_order,
         is_public: contributor.is_public,
@@ -109,6 +124,7 @@ const ContributorsManager = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-contributors"] });
+      queryClient.invalidateQueries({ queryKey: ["authority-content"] });
       setIsDialogOpen(false);
       setForm(defaultForm);
       setIsEditing(false);
@@ -126,6 +142,7 @@ const ContributorsManager = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-contributors"] });
+      queryClient.invalidateQueries({ queryKey: ["authority-content"] });
       toast({ title: "Contributor deleted" });
     },
     onError: (error: Error) => {
@@ -133,6 +150,28 @@ const ContributorsManager = () => {
     },
   });
 
+  // Admin only: link (or with an empty email, unlink) the contributor's login account
+  const linkMutation = useMutation({
+    mutationFn: async ({ contributorId, email }: { contributorId: string; email: string }) => {
+      const { data, error } = await supabase.rpc("link_contributor_account", {
+        _contributor_id: contributorId,
+        _email: email,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (userId) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-contributors"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-resource-contributors"] });
+      setForm((prev) => ({ ...prev, user_id: userId ?? null }));
+      setLinkEmail("");
+      toast({ title: userId ? "Account linked" : "Account unlinked" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
   const generateSlug = (name: string) =>
     name
       .toLowerCase()
@@ -152,16 +191,19 @@ const ContributorsManager = () => {
       photo_url: contributor.photo_url || "",
       linkedin_url: contributor.linkedin_url || "",
       same_as: Array.isArray(contributor.same_as) ? contributor.same_as.join(", ") : "",
+      focus_areas: Array.isArray(contributor.focus_areas) ? contributor.focus_areas.join(", ") : "",
       contributor_type: contributor.contributor_type,
       display_order: contributor.display_order,
       is_public: contributor.is_public,
+      user_id: contributor.user_id,
     });
+    setLinkEmail("");
     setIsEditing(true);
     setIsDialogOpen(true);
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="contributors">
       <AdminLayout>
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -180,12 +222,14 @@ const ContributorsManager = () => {
                 }
               }}
             >
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  New Contributor
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Contributor
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Contributor" : "New Contributor"}</DialogTitle>
@@ -259,6 +303,14 @@ const ContributorsManager = () => {
                         placeholder="https://example.com, https://example.org"
                       />
                     </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Focus Areas</Label>
+                      <Input
+                        value={form.focus_areas}
+                        onChange={(event) => setForm({ ...form, focus_areas: event.target.value })}
+                        placeholder="Clinical workflow automation, Deployment economics"
+                      />
+                    </div>
                     <div className="space-y-2">
                       <Label>Display Order</Label>
                       <Input
@@ -271,6 +323,42 @@ const ContributorsManager = () => {
                       <Switch checked={form.is_public} onCheckedChange={(checked) => setForm({ ...form, is_public: checked })} />
                       <Label>Public</Label>
                     </div>
+                    {isAdmin && isEditing && form.id && (
+                      <div className="col-span-2 space-y-2">
+                        <Label htmlFor="contributor-link-email">Linked account</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="contributor-link-email"
+                            type="email"
+                            value={linkEmail}
+                            onChange={(event) => setLinkEmail(event.target.value)}
+                            placeholder={form.user_id ? "Linked - enter an email to change" : "reviewer@horalix.com"}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={!linkEmail.trim() || linkMutation.isPending}
+                            onClick={() => linkMutation.mutate({ contributorId: form.id!, email: linkEmail })}
+                          >
+                            {linkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Link
+                          </Button>
+                          {form.user_id && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              disabled={linkMutation.isPending}
+                              onClick={() => linkMutation.mutate({ contributorId: form.id!, email: "" })}
+                            >
+                              Unlink
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          The login that may approve resources where this contributor is the reviewer.
+                        </p>
+                      </div>
+                    )}
                   </div>
                   <div className="flex justify-end gap-2">
                     <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -294,7 +382,7 @@ const ContributorsManager = () => {
                   <TableHead>Role</TableHead>
                   <TableHead>Type</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-40">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -318,23 +406,46 @@ const ContributorsManager = () => {
                         >
                           {contributor.is_public ? "Public" : "Hidden"}
                         </span>
+                        {contributor.user_id && (
+                          <span className="ml-1 rounded bg-blue-500/20 px-2 py-0.5 text-xs text-blue-500">Linked</span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(contributor)}>
-                            <Pencil className="h-4 w-4" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: contributor.id, label: contributor.name })}
+                          >
+                            <History className="h-4 w-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Delete this contributor?")) {
-                                deleteMutation.mutate(contributor.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: contributor.id, label: contributor.name })}
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <ScrollText className="h-4 w-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(contributor)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Delete this contributor?")) {
+                                    deleteMutation.mutate(contributor.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -350,6 +461,21 @@ const ContributorsManager = () => {
             </Table>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="contributors"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-contributors"], ["authority-content"]]}
+        />
+        <AuditHistorySheet
+          tableName="contributors"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
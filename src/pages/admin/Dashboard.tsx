@@ -3,9 +3,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Newspaper, Users, Layers, Mail, ArrowRight } from "lucide-react";
+import { Newspaper, Users, Layers, Mail, ArrowRight, UserCheck, type LucideIcon } from "lucide-react";
 import { Link } from "react-router-dom";
 import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import type { AdminSection } from "@/lib/permissions";
 
 /**
  * AdminDashboard - Main admin overview page
@@ -13,15 +15,20 @@ import { format } from "date-fns";
  */
 
 const AdminDashboard = () => {
+  const { can } = useAuth();
+  const canViewContacts = can("contacts");
+
   // Fetch counts for dashboard stats
   const { data: stats } = useQuery({
     queryKey: ["admin-stats"],
     queryFn: async () => {
-      const [articles, team, solutions, contacts] = await Promise.all([
+      const [articles, team, solutions, contacts, subscribers] = await Promise.all([
         supabase.from("news_articles").select("id", { count: "exact", head: true }),
         supabase.from("team_members").select("id", { count: "exact", head: true }),
         supabase.from("solutions").select("id", { count: "exact", head: true }),
         supabase.from("contact_submissions").select("id", { count: "exact", head: true }).eq("status", "new"),
+        // Only admins can read subscriptions; for editors this counts zero and the card is hidden
+        supabase.from("newsletter_subscriptions").select("id", { count: "exact", head: true }).eq("is_subscribed", true),
       ]);
 
       return {
@@ -29,6 +36,7 @@ const AdminDashboard = () => {
         team: team.count || 0,
         solutions: solutions.count || 0,
         newContacts: contacts.count || 0,
+        subscribers: subscribers.count || 0,
       };
     },
   });
@@ -36,6 +44,7 @@ const AdminDashboard = () => {
   // Fetch recent contact submissions
   const { data: recentContacts } = useQuery({
     queryKey: ["recent-contacts"],
+    enabled: canViewContacts,
     queryFn: async () => {
       const { data } = await supabase
         .from("contact_submissions")
@@ -46,15 +55,22 @@ const AdminDashboard = () => {
     },
   });
 
-  const statCards = [
-    { label: "News Articles", value: stats?.articles || 0, icon: Newspaper, href: "/admin/news" },
-    { label: "Team Members", value: stats?.team || 0, icon: Users, href: "/admin/team" },
-    { label: "Solutions", value: stats?.solutions || 0, icon: Layers, href: "/admin/solutions" },
-    { label: "New Messages", value: stats?.newContacts || 0, icon: Mail, href: "/admin/contacts" },
+  const statCards: { label: string; value: number; icon: LucideIcon; href: string; section: AdminSection }[] = [
+    { label: "News Articles", value: stats?.articles || 0, icon: Newspaper, href: "/admin/news", section: "news" },
+    { label: "Team Members", value: stats?.team || 0, icon: Users, href: "/admin/team", section: "team" },
+    { label: "Solutions", value: stats?.solutions || 0, icon: Layers, href: "/admin/solutions", section: "solutions" },
+    { label: "New Messages", value: stats?.newContacts || 0, icon: Mail, href: "/admin/contacts", section: "contacts" },
+    {
+      label: "Subscribers",
+      value: stats?.subscribers || 0,
+      icon: UserCheck,
+      href: "/admin/subscribers",
+      section: "subscribers",
+    },
   ];
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="dashboard">
       <AdminLayout>
         <div className="space-y-8">
           {/* Page header */}
@@ -66,8 +82,8 @@ const AdminDashboard = () => {
           </div>
 
           {/* Stats grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {statCards.map((stat) => {
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+            {statCards.filter((stat) => can(stat.section)).map((stat) => {
               const Icon = stat.icon;
               return (
                 <Link key={stat.label} to={stat.href}>
@@ -88,44 +104,46 @@ const AdminDashboard = () => {
           </div>
 
           {/* Recent contacts */}
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>Recent Contact Submissions</CardTitle>
-              <Link
-                to="/admin/contacts"
-                className="text-xs font-bold uppercase tracking-widest text-accent flex items-center gap-1 hover:underline"
-              >
-                View All <ArrowRight className="w-3 h-3" />
-              </Link>
-            </CardHeader>
-            <CardContent>
-              {recentContacts && recentContacts.length > 0 ? (
-                <div className="space-y-4">
-                  {recentContacts.map((contact) => (
-                    <div
-                      key={contact.id}
-                      className="flex items-start justify-between border-b border-border pb-4 last:border-0"
-                    >
-                      <div>
-                        <div className="font-medium">{contact.name}</div>
-                        <div className="text-sm text-muted-foreground">{contact.email}</div>
-                        <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
-                          {contact.message}
-                        </p>
-                      </div>
-                      <div className="text-xs text-muted-foreground shrink-0">
-                        {format(new Date(contact.created_at), "MMM d")}
+          {canViewContacts && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Recent Contact Submissions</CardTitle>
+                <Link
+                  to="/admin/contacts"
+                  className="text-xs font-bold uppercase tracking-widest text-accent flex items-center gap-1 hover:underline"
+                >
+                  View All <ArrowRight className="w-3 h-3" />
+                </Link>
+              </CardHeader>
+              <CardContent>
+                {recentContacts && recentContacts.length > 0 ? (
+                  <div className="space-y-4">
+                    {recentContacts.map((contact) => (
+                      <div
+                        key={contact.id}
+                        className="flex items-start justify-between border-b border-border pb-4 last:border-0"
+                      >
+                        <div>
+                          <div className="font-medium">{contact.name}</div>
+                          <div className="text-sm text-muted-foreground">{contact.email}</div>
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
+                            {contact.message}
+                          </p>
+                        </div>
+                        <div className="text-xs text-muted-foreground shrink-0">
+                          {format(new Date(contact.created_at), "MMM d")}
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-muted-foreground text-center py-8">
-                  No contact submissions yet.
-                </p>
-              )}
-            </CardContent>
-          </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground text-center py-8">
+                    No contact submissions yet.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </AdminLayout>
     </ProtectedRoute>
@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Pencil, Loader2, History, ScrollText, Eye, RotateCcw } from "lucide-react";
+
+/**
+ * EmailTemplatesManager - Admin page for transactional email copy
+ * Layout, partials and variables live in the email-templates function; editors change the
+ * subject, heading and body copy here. Blank fields use the built-in default.
+ */
+
+interface EmailCopy {
+  subject: string;
+  heading: string;
+  body: string;
+}
+
+interface EmailTemplateDefinition {
+  key: string;
+  name: string;
+  description: string;
+  variables: Record<string, string>;
+  defaults: EmailCopy;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface TemplateForm extends EmailCopy {
+  id: string;
+  key: string;
+}
+
+// Surface the function's own message (e.g. "Forbidden - Editor access required")
+const invokeTemplatesAction = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("email-templates", { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json().catch(() => null) : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+};
+
+const EmailTemplatesManager = () => {
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewMode, setPreviewMode] = useState<"html" | "text">("html");
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isEditor } = useAuth();
+
+  // Saved copy overrides, one row per template
+  const { data: rows, isLoading: rowsLoading } = useQuery({
+    queryKey: ["admin-email-templates"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("email_templates")
+        .select("*")
+        .order("key", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Names, variables and default copy come from the code that renders the emails
+  const { data: definitions, isLoading: definitionsLoading, error: definitionsError } = useQuery({
+    queryKey: ["admin-email-template-definitions"],
+    queryFn: async () => {
+      const data = await invokeTemplatesAction({ action: "definitions" });
+      return data.templates as EmailTemplateDefinition[];
+    },
+    staleTime: Infinity,
+  });
+
+  const isLoading = rowsLoading || definitionsLoading;
+  const definitionFor = (key: string) => definitions?.find((definition) => definition.key === key);
+  const templates = (rows ?? [])
+    .map((row) => ({ row, definition: definitionFor(row.key) }))
+    .filter((template) => template.definition);
+  const editingDefinition = form ? definitionFor(form.key) : undefined;
+
+  const closeEditor = () => {
+    setForm(null);
+    setPreview(null);
+  };
+
+  // Update mutation - blank fields are stored as NULL so the default applies
+  const updateMutation = useMutation({
+    mutationFn: async (item: TemplateForm) => {
+      const { error } = await supabase
+        .from("email_templates")
+        .update({
+          subject: item.subject.trim() || null,
+          heading: item.heading.trim() || null,
+          body: item.body.trim() || null,
+        })
+        .eq("id", item.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-email-templates"] });
+      closeEditor();
+      toast({ title: "Email template updated" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  // Renders the unsaved copy with the template's sample data
+  const previewMutation = useMutation({
+    mutationFn: (item: TemplateForm) =>
+      invokeTemplatesAction({
+        action: "preview",
+        key: item.key,
+        copy: { subject: item.subject, heading: item.heading, body: item.body },
+      }) as Promise<EmailPreview>,
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Preview failed", description: error.message });
+    },
+  });
+
+  const handleEdit = (row: NonNullable<typeof rows>[number]) => {
+    setForm({
+      id: row.id,
+      key: row.key,
+      subject: row.subject ?? "",
+      heading: row.heading ?? "",
+      body: row.body ?? "",
+    });
+    setPreview(null);
+    setPreviewMode("html");
+  };
+
+  const isCustomized = (row: { subject: string | null; heading: string | null; body: string | null }) =>
+    !!(row.subject || row.heading || row.body);
+
+  return (
+    <ProtectedRoute section="emails">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold font-space">Emails</h1>
+            <p className="text-muted-foreground mt-1">
+              Edit the copy of emails sent to contacts and newsletter subscribers.
+            </p>
+          </div>
+
+          {definitionsError && (
+            <p className="text-sm text-destructive">
+              Couldn't load template definitions: {(definitionsError as Error).message}
+            </p>
+          )}
+
+          {/* Templates table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Copy</TableHead>
+                  <TableHead className="w-32">Edit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : templates.length > 0 ? (
+                  templates.map(({ row, definition }) => (
+                    <TableRow key={row.id}>
+                      <TableCell>
+                        <p className="font-medium">{definition!.name}</p>
+                        <p className="text-sm text-muted-foreground">{definition!.description}</p>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate text-muted-foreground">
+                        {row.subject || definition!.defaults.subject}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-xs bg-secondary px-2 py-0.5 rounded">
+                          {isCustomized(row) ? "Customized" : "Default"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Revision history"
+                          onClick={() => setHistoryRecord({ id: row.id, label: definition!.name })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Audit trail"
+                          onClick={() => setAuditRecord({ id: row.id, label: definition!.name })}
+                        >
+                          <ScrollText className="w-4 h-4" />
+                        </Button>
+                        {isEditor && (
+                          <Button size="icon" variant="ghost" onClick={() => handleEdit(row)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      No email templates found.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Edit dialog */}
+          <Dialog open={!!form} onOpenChange={(open) => !open && closeEditor()}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingDefinition?.name ?? "Edit Email"}</DialogTitle>
+                <DialogDescription>{editingDefinition?.description}</DialogDescription>
+              </DialogHeader>
+              {form && editingDefinition && (
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateMutation.mutate(form);
+                    }}
+                    className="space-y-4"
+                  >
+                    <div className="space-y-2">
+                      <Label>Subject</Label>
+                      <Input
+                        value={form.subject}
+                        onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                        placeholder={editingDefinition.defaults.subject}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Heading</Label>
+                      <Input
+                        value={form.heading}
+                        onChange={(e) => setForm({ ...form, heading: e.target.value })}
+                        placeholder={editingDefinition.defaults.heading}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Body</Label>
+                      <Textarea
+                        value={form.body}
+                        onChange={(e) => setForm({ ...form, body: e.target.value })}
+                        placeholder={editingDefinition.defaults.body}
+                        rows={8}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Plain text. Leave a blank line between paragraphs. Empty fields use the default shown.
+                      </p>
+                    </div>
+                    <div className="space-y-1 rounded-md bg-secondary/50 p-3 text-sm">
+                      <p className="font-medium">Variables</p>
+                      {Object.entries(editingDefinition.variables).map(([name, hint]) => (
+                        <p key={name} className="text-muted-foreground">
+                          <code className="text-foreground">{`{{${name}}}`}</code> {hint}
+                        </p>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => setForm({ ...form, subject: "", heading: "", body: "" })}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reset to default
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => previewMutation.mutate(form)}
+                        disabled={previewMutation.isPending}
+                      >
+                        {previewMutation.isPending ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Eye className="w-4 h-4 mr-2" />
+                        )}
+                        Preview
+                      </Button>
+                      <Button type="submit" disabled={updateMutation.isPending}>
+                        {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                    </div>
+                  </form>
+
+                  {/* Preview with sample data */}
+                  <div className="space-y-2">
+                    {preview ? (
+                      <>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium truncate">{preview.subject}</p>
+                          <div className="flex gap-1">
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant={previewMode === "html" ? "secondary" : "ghost"}
+                              onClick={() => setPreviewMode("html")}
+                            >
+                              HTML
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant={previewMode === "text" ? "secondary" : "ghost"}
+                              onClick={() => setPreviewMode("text")}
+                            >
+                              Plain text
+                            </Button>
+                          </div>
+                        </div>
+                        {previewMode === "html" ? (
+                          <iframe
+                            title="Email preview"
+                            srcDoc={preview.html}
+                            sandbox=""
+                            className="h-[60vh] w-full rounded-md border border-border bg-white"
+                          />
+                        ) : (
+                          <pre className="h-[60vh] overflow-auto whitespace-pre-wrap rounded-md border border-border p-4 text-sm">
+                            {preview.text}
+                          </pre>
+                        )}
+                      </>
+                    ) : (
+                      <div className="flex h-full min-h-48 items-center justify-center rounded-md border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                        Preview renders the current copy with sample data, before you save.
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+        <RevisionHistoryDialog
+          tableName="email_templates"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-email-templates"]]}
+        />
+        <AuditHistorySheet
+          tableName="email_templates"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default EmailTemplatesManager;
@@ -0,0 +1,442 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ExternalLink, History, ScrollText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { evidenceDisclosureTypes } from "@/content/authorityData";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * EvidenceManager - Admin page for the evidence source registry
+ * Source keys (S1, S2, ...) are what resources and the homepage cite
+ */
+
+interface EvidenceSourceForm {
+  id?: string;
+  source_key: string;
+  short_label: string;
+  full_citation: string;
+  url: string;
+  doi: string;
+  accessed_on: string;
+  disclosure_type: string;
+  display_order: number;
+  is_public: boolean;
+}
+
+const defaultForm: EvidenceSourceForm = {
+  source_key: "",
+  short_label: "",
+  full_citation: "",
+  url: "",
+  doi: "",
+  accessed_on: "",
+  disclosure_type: "external_evidence",
+  display_order: 0,
+  is_public: true,
+};
+
+type EvidenceSourceRow = Tables<"evidence_sources">;
+
+const disclosureTypes = evidenceDisclosureTypes as Record<string, { label: string; description: string }>;
+
+const EvidenceManager = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
+  const [form, setForm] = useState<EvidenceSourceForm>(defaultForm);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isEditor } = useAuth();
+  const { resources } = useAuthorityContent();
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ["admin-evidence-sources"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("evidence_sources")
+        .select("*")
+        .order("display_order", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Count public resources citing each key so editors see the impact of a change
+  const citationCounts = resources.reduce<Record<string, number>>((counts, resource) => {
+    const keys = new Set([...resource.sourceIds, ...resource.citedClaims.flatMap((claim) => claim.sourceIds)]);
+    keys.forEach((key) => {
+      counts[key] = (counts[key] || 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  const saveMutation = useMutation({
+    mutationFn: async (source: EvidenceSourceForm) => {
+      const payload = {
+        source_key: source.source_key.trim().toUpperCase(),
+        short_label: source.short_label,
+        full_citation: source.full_citation,
+        url: source.url || null,
+        doi: source.doi ? source.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, "").trim() : null,
+        accessed_on: source.accessed_on || null,
+        disclosure_type: source.disclosure_type,
+        display_order: source.display_order,
+        is_public: source.is_public,
+      };
+
+      if (isEditing && source.id) {
+        const { error } = await supabase.from("evidence_sources").update(payload).eq("id", source.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("evidence_sources").insert(payload);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-evidence-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["evidence-sources"] });
+      setIsDialogOpen(false);
+      setForm(defaultForm);
+      setIsEditing(false);
+      toast({ title: isEditing ? "Source updated" : "Source created" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("evidence_sources").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-evidence-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["evidence-sources"] });
+      toast({ title: "Source deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const nextSourceKey = () => {
+    const numbers = (sources || [])
+      .map((source) => /^S(\d+)$/.exec(source.source_key)?.[1])
+      .filter(Boolean)
+      .map(Number);
+    return `S${numbers.length > 0 ? Math.max(...numbers) + 1 : 1}`;
+  };
+
+  const handleEdit = (source: EvidenceSourceRow) => {
+    setForm({
+      id: source.id,
+      source_key: source.source_key,
+      short_label: source.short_label,
+      full_citation: source.full_citation,
+      url: source.url || "",
+      doi: source.doi || "",
+      accessed_on: source.accessed_on || "",
+      disclosure_type: source.disclosure_type,
+      display_order: source.display_order,
+      is_public: source.is_public,
+    });
+    setIsEditing(true);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <ProtectedRoute section="evidence">
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold font-space">Evidence</h1>
+              <p className="mt-1 text-muted-foreground">Manage the sources cited across resources and the homepage.</p>
+            </div>
+
+            <Dialog
+              open={isDialogOpen}
+              onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) {
+                  setForm(defaultForm);
+                  setIsEditing(false);
+                }
+              }}
+            >
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button
+                    onClick={() =>
+                      setForm({ ...defaultForm, source_key: nextSourceKey(), display_order: (sources?.length || 0) + 1 })
+                    }
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Source
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{isEditing ? "Edit Source" : "New Source"}</DialogTitle>
+                </DialogHeader>
+                <form
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    saveMutation.mutate(form);
+                  }}
+                  className="space-y-4"
+                >
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Source Key</Label>
+                      <Input
+                        value={form.source_key}
+                        onChange={(event) => setForm({ ...form, source_key: event.target.value })}
+                        placeholder="S4"
+                        pattern="[A-Za-z][A-Za-z0-9-]*"
+                        required
+                      />
+                      {isEditing && (citationCounts[form.source_key] || 0) > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Cited by {citationCounts[form.source_key]} resource(s). Changing the key breaks those citations.
+                        </p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Disclosure Type</Label>
+                      <select
+                        value={form.disclosure_type}
+                        onChange={(event) => setForm({ ...form, disclosure_type: event.target.value })}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        {Object.entries(disclosureTypes).map(([value, type]) => (
+                          <option key={value} value={value}>
+                            {type.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Label</Label>
+                      <Input
+                        value={form.short_label}
+                        onChange={(event) => setForm({ ...form, short_label: event.target.value })}
+                        placeholder="IAC Adult Echo Standards (2025)"
+                        required
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Full Citation</Label>
+                      <Textarea
+                        value={form.full_citation}
+                        onChange={(event) => setForm({ ...form, full_citation: event.target.value })}
+                        rows={3}
+                        required
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>URL</Label>
+                      <Input
+                        type="url"
+                        value={form.url}
+                        onChange={(event) => setForm({ ...form, url: event.target.value })}
+                        placeholder="https://..."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>DOI</Label>
+                      <Input
+                        value={form.doi}
+                        onChange={(event) => setForm({ ...form, doi: event.target.value })}
+                        placeholder="10.1000/example"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Accessed On</Label>
+                      <Input
+                        type="date"
+                        value={form.accessed_on}
+                        onChange={(event) => setForm({ ...form, accessed_on: event.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Display Order</Label>
+                      <Input
+                        type="number"
+                        value={form.display_order}
+                        onChange={(event) => setForm({ ...form, display_order: parseInt(event.target.value, 10) || 0 })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 pt-6">
+                      <Switch checked={form.is_public} onCheckedChange={(checked) => setForm({ ...form, is_public: checked })} />
+                      <Label>Public</Label>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={saveMutation.isPending}>
+                      {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {isEditing ? "Update" : "Create"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          <div className="overflow-hidden rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Key</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Disclosure</TableHead>
+                  <TableHead>Cited By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-40">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="py-8 text-center">
+                      <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+                    </TableCell>
+                  </TableRow>
+                ) : sources && sources.length > 0 ? (
+                  sources.map((source) => (
+                    <TableRow key={source.id}>
+                      <TableCell className="font-mono text-sm">{source.source_key}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{source.short_label}</div>
+                        {source.doi && <div className="font-mono text-xs text-muted-foreground">doi:{source.doi}</div>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {disclosureTypes[source.disclosure_type]?.label || source.disclosure_type}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{citationCounts[source.source_key] || 0}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`rounded px-2 py-0.5 text-xs ${
+                            source.is_public ? "bg-green-500/20 text-green-500" : "bg-yellow-500/20 text-yellow-500"
+                          }`}
+                        >
+                          {source.is_public ? "Public" : "Hidden"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          {source.url && (
+                            <Button size="icon" variant="ghost" asChild>
+                              <a href={source.url} target="_blank" rel="noreferrer">
+                                <ExternalLink className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: source.id, label: source.short_label })}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: source.id, label: source.short_label })}
+                          >
+                            <ScrollText className="h-4 w-4" />
+                          </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(source)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  const cited = citationCounts[source.source_key] || 0;
+                                  const message = cited
+                                    ? `${source.source_key} is cited by ${cited} resource(s). Delete it anyway?`
+                                    : "Delete this source?";
+                                  if (confirm(message)) {
+                                    deleteMutation.mutate(source.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                      No evidence sources yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+        <RevisionHistoryDialog
+          tableName="evidence_sources"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-evidence-sources"], ["evidence-sources"]]}
+        />
+        <AuditHistorySheet
+          tableName="evidence_sources"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default EvidenceManager;
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -33,8 +35,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Plus, Pencil, Trash2, Loader2, History, ScrollText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 
 /**
  * FAQManager - Admin page for managing FAQ items
@@ -69,11 +72,14 @@ const DEFAULT_FORM_DATA: FAQFormData = {
 
 const FAQManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [editingItem, setEditingItem] = useState<FAQItem | null>(null);
   const [deleteItem, setDeleteItem] = useState<FAQItem | null>(null);
   const [formData, setFormData] = useState<FAQFormData>(DEFAULT_FORM_DATA);
 
   const { toast } = useToast();
+  const { isEditor } = useAuth();
   const queryClient = useQueryClient();
 
   // Step 1: Fetch all FAQ items
@@ -179,7 +185,7 @@ const FAQManager = () => {
   const isSaving = createMutation.isPending || updateMutation.isPending;
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="faq">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -214,7 +220,7 @@ const FAQManager = () => {
                     <TableHead className="w-24">Page</TableHead>
                     <TableHead>Question</TableHead>
                     <TableHead className="w-24">Status</TableHead>
-                    <TableHead className="w-24 text-right">Actions</TableHead>
+                    <TableHead className="w-40 text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -245,19 +251,39 @@ const FAQManager = () => {
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
                           <Button
-                            variant="ghost"
                             size="icon"
-                            onClick={() => handleOpenEdit(item)}
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: item.id, label: item.question })}
                           >
-                            <Pencil className="w-4 h-4" />
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
-                            variant="ghost"
                             size="icon"
-                            onClick={() => setDeleteItem(item)}
+                            variant="ghost"
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: item.id, label: item.question })}
                           >
-                            <Trash2 className="w-4 h-4 text-destructive" />
+                            <ScrollText className="w-4 h-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleOpenEdit(item)}
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setDeleteItem(item)}
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -386,6 +412,21 @@ const FAQManager = () => {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+        <RevisionHistoryDialog
+          tableName="faq_items"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-faq-items"], ["faq-items"]]}
+        />
+        <AuditHistorySheet
+          tableName="faq_items"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
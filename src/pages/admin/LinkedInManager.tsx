@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -23,7 +25,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Loader2, ExternalLink } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus, Pencil, Trash2, Loader2, ExternalLink, History, ScrollText } from "lucide-react";
 import { format } from "date-fns";
 
 /**
@@ -70,11 +73,14 @@ const isValidLinkedInUrl = (url: string): boolean => {
 
 const LinkedInManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<PostForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
   const [urlError, setUrlError] = useState<string | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isEditor } = useAuth();
 
   // Step 3: Fetch all posts, sorted by creation date (most recent first)
   const { data: posts, isLoading } = useQuery({
@@ -180,7 +186,7 @@ const LinkedInManager = () => {
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="linkedin">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -203,12 +209,14 @@ const LinkedInManager = () => {
                 }
               }}
             >
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Post
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Post
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-w-lg">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Post" : "Add LinkedIn Post"}</DialogTitle>
@@ -286,7 +294,7 @@ const LinkedInManager = () => {
                   <TableHead>Post ID</TableHead>
                   <TableHead>Post Date</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead className="w-32">Actions</TableHead>
+                  <TableHead className="w-40">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -329,20 +337,40 @@ const LinkedInManager = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(post)}>
-                            <Pencil className="w-4 h-4" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: post.id, label: post.post_id })}
+                          >
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Remove this post?")) {
-                                deleteMutation.mutate(post.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: post.id, label: post.post_id })}
                           >
-                            <Trash2 className="w-4 h-4" />
+                            <ScrollText className="w-4 h-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(post)}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Remove this post?")) {
+                                    deleteMutation.mutate(post.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -369,6 +397,21 @@ const LinkedInManager = () => {
             </ol>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="linkedin_posts"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-linkedin-posts"]]}
+        />
+        <AuditHistorySheet
+          tableName="linkedin_posts"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -1,6 +1,9 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeAuthFunction } from "@/lib/authProxy";
+import { readRoleClaim } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -28,14 +31,10 @@ const AdminLogin = () => {
 
     try {
       // Step 2: Authenticate via origin-checked edge function
-      const { data: fnData, error: fnError } = await supabase.functions.invoke(
-        "auth-login",
-        { body: { email, password } },
-      );
-
-      if (fnError || fnData?.error) {
-        throw new Error(fnData?.error ?? fnError?.message ?? "Login failed");
-      }
+      const fnData = await invokeAuthFunction<{ session: Session | null }>("auth-login", {
+        email,
+        password,
+      });
       if (!fnData?.session) throw new Error("No session returned");
 
       await supabase.auth.setSession({
@@ -43,19 +42,10 @@ const AdminLogin = () => {
         refresh_token: fnData.session.refresh_token,
       });
 
-      const data = { user: fnData.user ?? (await supabase.auth.getUser()).data.user! };
-
-      // Step 3: Check if user has admin/editor role
-      const { data: roleData, error: roleError } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", data.user.id)
-        .maybeSingle();
-
-      if (roleError) throw roleError;
-
-      if (!roleData || !["admin", "editor"].includes(roleData.role)) {
-        // Sign out if no admin/editor role
+      // Step 3: Check if user has a staff role (viewers get read-only access)
+      const roles = readRoleClaim(fnData.session.access_token) ?? [];
+      if (roles.length === 0) {
+        // Sign out if no staff role
         await supabase.auth.signOut();
         throw new Error("You do not have permission to access the admin portal.");
       }
@@ -123,9 +113,14 @@ const AdminLogin = () => {
   
               {/* Password field */}
               <div className="space-y-2">
-                <Label htmlFor="password" className="text-xs font-bold uppercase tracking-widest">
-                  Password
-                </Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password" className="text-xs font-bold uppercase tracking-widest">
+                    Password
+                  </Label>
+                  <Link to="/forgot-password" className="text-xs text-accent hover:text-accent/80">
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
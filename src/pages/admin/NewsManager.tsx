@@ -2,8 +2,13 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
 import { MultiImageUpload } from "@/components/admin/MultiImageUpload";
+import { PreviewLinkButton } from "@/components/admin/PreviewLinkButton";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
+import { WorkflowActions } from "@/components/admin/WorkflowActions";
+import MarkdownContent from "@/components/MarkdownContent";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -26,13 +31,21 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus, Pencil, Trash2, Loader2, History, ScrollText } from "lucide-react";
 import { format } from "date-fns";
+import {
+  getPublishStatus,
+  hasGoneLive,
+  publishStatusStyles,
+  resolvePublishedAt,
+  toDateTimeLocalValue,
+} from "@/lib/publishSchedule";
 import type { Tables } from "@/integrations/supabase/types";
 
 /**
  * NewsManager - Admin page for managing news articles
- * Supports CRUD operations on news_articles table
+ * Supports CRUD operations on news_articles table; publishing goes through the editorial workflow
  */
 
 interface ArticleForm {
@@ -47,7 +60,10 @@ interface ArticleForm {
   image_focus: Array<{ x: number; y: number }>;
   display_date: string;
   author_id: string;
-  is_published: boolean;
+  publish_at: string;
+  published_at: string | null;
+  is_substantive: boolean;
+  review_notes: string | null;
 }
 
 const defaultForm: ArticleForm = {
@@ -61,7 +77,10 @@ const defaultForm: ArticleForm = {
   image_focus: [],
   display_date: "",
   author_id: "",
-  is_published: false,
+  publish_at: "",
+  published_at: null,
+  is_substantive: false,
+  review_notes: null,
 };
 
 type NewsArticleRow = Tables<"news_articles">;
@@ -69,10 +88,13 @@ type ImageFocusPoint = { x?: number; y?: number };
 
 const NewsManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<ArticleForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user, isAdmin, isEditor } = useAuth();
 
   // Fetch all articles, sorted by display_date (admin-chosen date)
   const { data: articles, isLoading } = useQuery({
@@ -111,77 +133,42 @@ const NewsManager = () => {
         image_urls: article.image_urls,
         image_focus: article.image_focus,
         display_date: article.display_date ? new Date(article.display_date).toISOString() : null,
-        published_at: article.is_published ? new Date().toISOString() : null,
-        is_published: article.is_published,
+        published_at: resolvePublishedAt(article.publish_at, article.published_at),
+        // Only substantive edits to live articles move the public "Updated" date
+        ...(hasGoneLive(article.published_at) && article.is_substantive
+          ? { content_updated_at: new Date().toISOString() }
+          : {}),
       };
 
-      let articleId = article.id;
-
       if (isEditing && article.id) {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("news_articles")
           .update(payload)
-          .eq("id", article.id);
+          .eq("id", article.id)
+          .select("workflow_status")
+          .single();
         if (error) throw error;
+        return data.workflow_status;
       } else {
-        const { data, error } = await supabase
-          .from("news_articles")
-          .insert(payload)
-          .select("id")
-          .single();
+        const { error } = await supabase.from("news_articles").insert(payload);
         if (error) throw error;
-        articleId = data.id;
-      }
-
-      let newsletterWarning: string | null = null;
-
-      // If article is published, trigger newsletter send
-      if (article.is_published && articleId) {
-        try {
-          const { data: result, error: fnError } = await supabase.functions.invoke(
-            "send-newsletter",
-            { body: { article_id: articleId } }
-          );
-
-          if (fnError) {
-            console.error("Newsletter function error:", fnError);
-            newsletterWarning = `Newsletter send failed: ${fnError.message}`;
-          } else if (result?.error) {
-            console.error("Newsletter error:", result.error);
-            newsletterWarning = `Newsletter failed: ${result.error}`;
-          } else if (typeof result?.failed === "number" && result.failed > 0) {
-            newsletterWarning = `Newsletter partially sent, ${result.failed} deliveries failed`;
-          } else if (result?.skipped) {
-            console.log("Newsletter already sent for this article");
-          } else if (result?.success) {
-            console.log(`Newsletter sent to ${result.recipients} subscribers`);
-          }
-        } catch (newsletterError: unknown) {
-          const message =
-            newsletterError instanceof Error ? newsletterError.message : "Unknown newsletter error";
-          console.error("Failed to send newsletter:", newsletterError);
-          newsletterWarning = `Newsletter failed: ${message}`;
-        }
+        return "draft";
       }
-
-      return { newsletterWarning };
     },
-    onSuccess: ({ newsletterWarning }) => {
+    onSuccess: (status, article) => {
       queryClient.invalidateQueries({ queryKey: ["admin-news"] });
       setIsDialogOpen(false);
       setForm(defaultForm);
       setIsEditing(false);
-
-      if (newsletterWarning) {
-        toast({
-          variant: "destructive",
-          title: isEditing ? "Article updated with warnings" : "Article created with warnings",
-          description: newsletterWarning,
-        });
-        return;
-      }
-
-      toast({ title: isEditing ? "Article updated" : "Article created" });
+      // Edits to approved or published copy go back to review (enforce_editorial_workflow)
+      const previousStatus = articles?.find((item) => item.id === article.id)?.workflow_status;
+      toast({
+        title: isEditing ? "Article updated" : "Article created",
+        description:
+          status === "in_review" && previousStatus !== "in_review"
+            ? "The changes need a fresh review before the article can go live."
+            : undefined,
+      });
     },
     onError: (error: Error) => {
       toast({ variant: "destructive", title: "Error", description: error.message });
@@ -244,7 +231,10 @@ const NewsManager = () => {
       image_focus: focus,
       display_date: article.display_date ? article.display_date.split("T")[0] : "",
       author_id: article.author_id || "",
-      is_published: article.is_published,
+      publish_at: toDateTimeLocalValue(article.published_at),
+      published_at: article.published_at,
+      is_substantive: false,
+      review_notes: article.review_notes,
     });
     setIsEditing(true);
     setIsDialogOpen(true);
@@ -259,7 +249,7 @@ const NewsManager = () => {
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="news">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -278,16 +268,18 @@ const NewsManager = () => {
                 setIsEditing(false);
               }
             }}>
-              <DialogTrigger asChild>
-                <Button onClick={() => {
-                  // Reset form for new article before dialog opens
-                  setForm(defaultForm);
-                  setIsEditing(false);
-                }}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  New Article
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button onClick={() => {
+                    // Reset form for new article before dialog opens
+                    setForm(defaultForm);
+                    setIsEditing(false);
+                  }}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Article
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="article-dialog-description">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Article" : "New Article"}</DialogTitle>
@@ -302,6 +294,12 @@ const NewsManager = () => {
                   }}
                   className="space-y-4"
                 >
+                  {form.review_notes && (
+                    <div className="rounded-md border border-border bg-muted/40 p-3 text-sm">
+                      <p className="mb-1 font-medium">Review notes</p>
+                      <p className="whitespace-pre-wrap text-muted-foreground">{form.review_notes}</p>
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-4">
                     <div className="col-span-2 space-y-2">
                       <Label>Title</Label>
@@ -389,20 +387,56 @@ const NewsManager = () => {
                     </div>
                     <div className="col-span-2 space-y-2">
                       <Label>Content</Label>
-                      <Textarea
-                        value={form.content}
-                        onChange={(e) => setForm({ ...form, content: e.target.value })}
-                        rows={10}
-                        required
-                      />
+                      <p className="text-xs text-muted-foreground">
+                        Markdown: ## Heading, **bold**, *italic*, [link](https://...), - list item, &gt; quote, ![alt](https://image-url)
+                      </p>
+                      <div className="grid gap-4 lg:grid-cols-2">
+                        <Textarea
+                          value={form.content}
+                          onChange={(e) => setForm({ ...form, content: e.target.value })}
+                          rows={16}
+                          className="font-mono text-sm"
+                          required
+                        />
+                        <div className="max-h-[26rem] overflow-y-auto rounded-md border border-border bg-background p-4">
+                          <p className="mb-3 font-mono text-[10px] uppercase tracking-[0.2em] text-muted-foreground">Preview</p>
+                          {form.content.trim() ? (
+                            <MarkdownContent content={form.content} className="text-sm" />
+                          ) : (
+                            <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+                          )}
+                        </div>
+                      </div>
                     </div>
-                    <div className="col-span-2 flex items-center gap-2">
-                      <Switch
-                        checked={form.is_published}
-                        onCheckedChange={(checked) => setForm({ ...form, is_published: checked })}
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="news-publish-at">Publish at</Label>
+                      <Input
+                        id="news-publish-at"
+                        type="datetime-local"
+                        value={form.publish_at}
+                        onChange={(e) => setForm({ ...form, publish_at: e.target.value })}
+                        disabled={hasGoneLive(form.published_at)}
                       />
-                      <Label>Published</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {hasGoneLive(form.published_at)
+                          ? "First published date is fixed once the article has gone live."
+                          : "Leave empty to go live when published. A future time keeps an approved article hidden and sends the newsletter when it goes live."}
+                      </p>
                     </div>
+                    {hasGoneLive(form.published_at) && (
+                      <div className="col-span-2 flex items-start gap-2">
+                        <Switch
+                          checked={form.is_substantive}
+                          onCheckedChange={(checked) => setForm({ ...form, is_substantive: checked })}
+                        />
+                        <div>
+                          <Label>Substantive update</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Shows a new "Updated" date on the article. Leave off for typo and formatting fixes.
+                          </p>
+                        </div>
+                      </div>
+                    )}
                   </div>
                   <div className="flex justify-end gap-2">
                     <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -427,7 +461,7 @@ const NewsManager = () => {
                   <TableHead>Category</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-64">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -448,13 +482,14 @@ const NewsManager = () => {
                       </TableCell>
                       <TableCell>
                         <span
-                          className={`text-xs px-2 py-0.5 rounded ${
-                            article.is_published
-                              ? "bg-green-500/20 text-green-500"
-                              : "bg-yellow-500/20 text-yellow-500"
-                          }`}
+                          className={`text-xs px-2 py-0.5 rounded ${publishStatusStyles[getPublishStatus(article)].className}`}
+                          title={
+                            getPublishStatus(article) === "scheduled"
+                              ? `Goes live ${format(new Date(article.published_at), "MMM d, yyyy HH:mm")}`
+                              : undefined
+                          }
                         >
-                          {article.is_published ? "Published" : "Draft"}
+                          {publishStatusStyles[getPublishStatus(article)].label}
                         </span>
                       </TableCell>
                       <TableCell className="text-muted-foreground">
@@ -466,20 +501,52 @@ const NewsManager = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(article)}>
-                            <Pencil className="w-4 h-4" />
+                          <WorkflowActions
+                            table="news_articles"
+                            recordId={article.id}
+                            status={article.workflow_status}
+                            publishedAt={article.published_at}
+                            isAdmin={isAdmin}
+                            isEditor={isEditor}
+                            isDesignatedReviewer={false}
+                            isSubmitter={!!user && article.submitted_by === user.id}
+                            invalidateKeys={[["admin-news"]]}
+                          />
+                          <PreviewLinkButton table="news_articles" recordId={article.id} basePath="/news" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: article.id, label: article.title })}
+                          >
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Delete this article?")) {
-                                deleteMutation.mutate(article.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: article.id, label: article.title })}
                           >
-                            <Trash2 className="w-4 h-4" />
+                            <ScrollText className="w-4 h-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(article)}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Delete this article?")) {
+                                    deleteMutation.mutate(article.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -495,6 +562,21 @@ const NewsManager = () => {
             </Table>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="news_articles"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-news"]]}
+        />
+        <AuditHistorySheet
+          tableName="news_articles"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RotateCw } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * NewsletterManager - Admin page for newsletter delivery status
+ * Lists each campaign send with per-recipient counts; failed deliveries can be requeued
+ */
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  failed: "bg-red-500/20 text-red-500",
+  bounced: "bg-orange-500/20 text-orange-500",
+  cancelled: "bg-secondary text-muted-foreground",
+};
+
+const describeSend = (send: {
+  news_articles: { title: string } | null;
+  newsletter_campaigns: { subject: string } | null;
+}) => send.newsletter_campaigns?.subject ?? send.news_articles?.title ?? "Deleted campaign";
+
+const NewsletterManager = () => {
+  const [selectedSendId, setSelectedSendId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isEditor } = useAuth();
+
+  // Fetch sends with their article and delivery counts
+  const { data: sends, isLoading } = useQuery({
+    queryKey: ["admin-newsletter-sends"],
+    queryFn: async () => {
+      const [sendsResult, statsResult] = await Promise.all([
+        supabase
+          .from("newsletter_sends")
+          .select("id, sent_at, completed_at, total_count, recipients_count, news_articles(title), newsletter_campaigns(subject)")
+          .order("sent_at", { ascending: false })
+          .limit(50),
+        supabase.from("newsletter_send_stats").select("*"),
+      ]);
+      if (sendsResult.error) throw sendsResult.error;
+      if (statsResult.error) throw statsResult.error;
+
+      const stats = new Map(statsResult.data.map((row) => [row.send_id, row]));
+      return sendsResult.data.map((send) => ({ ...send, stats: stats.get(send.id) }));
+    },
+    // Keep counts moving while a send is still draining
+    refetchInterval: (query) => (query.state.data?.some((send) => !send.completed_at) ? 10_000 : false),
+  });
+
+  // Fetch the problem deliveries for the selected send
+  const { data: deliveries, isLoading: isLoadingDeliveries } = useQuery({
+    queryKey: ["admin-newsletter-deliveries", selectedSendId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("newsletter_deliveries")
+        .select("id, email, status, attempts, last_error, updated_at")
+        .eq("send_id", selectedSendId)
+        .in("status", ["failed", "bounced", "cancelled"])
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    // Recipient addresses are for admins and editors only (RLS); viewers just see the counts
+    enabled: !!selectedSendId && isEditor,
+  });
+
+  // Retry mutation: whole send when no ids are given
+  const retryMutation = useMutation({
+    mutationFn: async ({ sendId, deliveryIds }: { sendId: string; deliveryIds?: string[] }) => {
+      const { data, error } = await supabase.rpc("retry_newsletter_deliveries", {
+        _send_id: sendId,
+        _delivery_ids: deliveryIds,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-sends"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-newsletter-deliveries"] });
+      toast({
+        title: count === 1 ? "1 delivery requeued" : `${count} deliveries requeued`,
+        description: "The newsletter worker picks them up within a minute.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const selectedSend = sends?.find((send) => send.id === selectedSendId);
+
+  return (
+    <ProtectedRoute section="newsletter">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold font-space">Newsletter</h1>
+            <p className="text-muted-foreground mt-1">
+              Delivery status for each newsletter sent. Select a send to see failed recipients.
+            </p>
+          </div>
+
+          {/* Sends table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Bounced</TableHead>
+                  <TableHead className="w-32">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : sends && sends.length > 0 ? (
+                  sends.map((send) => {
+                    const failedCount = send.stats?.failed_count ?? 0;
+                    return (
+                      <TableRow
+                        key={send.id}
+                        className={`cursor-pointer ${send.id === selectedSendId ? "bg-secondary/50" : ""}`}
+                        onClick={() => setSelectedSendId(send.id)}
+                      >
+                        <TableCell className="max-w-xs truncate font-medium">
+                          {describeSend(send)}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {format(new Date(send.sent_at), "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded ${
+                              send.completed_at ? "bg-green-500/20 text-green-500" : "bg-blue-500/20 text-blue-500"
+                            }`}
+                          >
+                            {send.completed_at ? "Complete" : "Sending"}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {send.stats?.sent_count ?? send.recipients_count} / {send.total_count}
+                        </TableCell>
+                        <TableCell className="text-right">{send.stats?.pending_count ?? 0}</TableCell>
+                        <TableCell className="text-right">{failedCount}</TableCell>
+                        <TableCell className="text-right">{send.stats?.bounced_count ?? 0}</TableCell>
+                        <TableCell>
+                          {isEditor && failedCount > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={retryMutation.isPending}
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                retryMutation.mutate({ sendId: send.id });
+                              }}
+                            >
+                              <RotateCw className="w-4 h-4 mr-2" />
+                              Retry failed
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      No newsletters sent yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Failed, bounced and cancelled (unsubscribed) deliveries for the selected send */}
+          {selectedSend && isEditor && (
+            <div className="space-y-3">
+              <h2 className="text-xl font-semibold font-space">
+                Problem deliveries: {describeSend(selectedSend)}
+              </h2>
+              <div className="border border-border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Attempts</TableHead>
+                      <TableHead>Last error</TableHead>
+                      <TableHead className="w-24">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoadingDeliveries ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8">
+                          <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : deliveries && deliveries.length > 0 ? (
+                      deliveries.map((delivery) => (
+                        <TableRow key={delivery.id}>
+                          <TableCell>{delivery.email}</TableCell>
+                          <TableCell>
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded ${DELIVERY_STATUS_STYLES[delivery.status] ?? "bg-secondary"}`}
+                            >
+                              {delivery.status}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{delivery.attempts}</TableCell>
+                          <TableCell className="max-w-md truncate font-mono text-xs text-muted-foreground">
+                            {delivery.last_error || "-"}
+                          </TableCell>
+                          <TableCell>
+                            {isEditor && delivery.status === "failed" && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Retry delivery"
+                                disabled={retryMutation.isPending}
+                                onClick={() =>
+                                  retryMutation.mutate({ sendId: selectedSend.id, deliveryIds: [delivery.id] })
+                                }
+                              >
+                                <RotateCw className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          No failed, bounced or cancelled deliveries.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default NewsletterManager;
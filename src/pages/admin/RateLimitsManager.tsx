@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * RateLimitsManager - Admin view of actors locked out by the edge function rate limiter
+ * (supabase/functions/_shared/rateLimit.ts). Blocks can be lifted early; expired ones stay
+ * listed so repeat offenders are visible.
+ */
+
+const PAGE_SIZE = 50;
+
+const ROUTE_LABELS: Record<string, string> = {
+  "auth-login": "Sign-in",
+  "auth-signup": "Sign-up",
+  "auth-reset-request": "Password reset",
+  "auth-magic-link": "Sign-in link",
+  "auth-resend-verification": "Verification email",
+  "contact-submit": "Contact form",
+  "newsletter-unsubscribe": "Newsletter unsubscribe",
+  "mfa-recovery-redeem": "2FA recovery code",
+};
+
+const ACTOR_LABELS: Record<string, string> = {
+  ip: "IP address",
+  email: "Email",
+  user: "User",
+};
+
+type RateLimitBlock = Tables<"rate_limit_blocks">;
+
+const RateLimitsManager = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [activeOnly, setActiveOnly] = useState(true);
+  const [page, setPage] = useState(0);
+  const [unblockTarget, setUnblockTarget] = useState<RateLimitBlock | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-rate-limit-blocks", activeOnly, page],
+    queryFn: async () => {
+      let query = supabase
+        .from("rate_limit_blocks")
+        .select("*", { count: "exact" })
+        .order("last_blocked_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (activeOnly) {
+        query = query.gt("blocked_until", new Date().toISOString());
+      }
+
+      const { data: blocks, error, count } = await query;
+      if (error) throw error;
+      return { blocks, count: count ?? 0 };
+    },
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async (blockId: string) => {
+      const { error } = await supabase.rpc("rate_limit_unblock", { _block_id: blockId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-rate-limit-blocks"] });
+      setUnblockTarget(null);
+      toast({ title: "Block lifted" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const blocks = data?.blocks ?? [];
+  const total = data?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <ProtectedRoute section="rateLimits">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold font-space">Rate Limits</h1>
+            <p className="text-muted-foreground mt-1">
+              Visitors locked out after too many sign-in attempts, emails or form submissions. Lockouts double for
+              repeat offences within a day.
+            </p>
+          </div>
+
+          {/* Filter */}
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="rate-limit-filter">Show</Label>
+            <select
+              id="rate-limit-filter"
+              value={activeOnly ? "active" : "all"}
+              onChange={(event) => {
+                setActiveOnly(event.target.value === "active");
+                setPage(0);
+              }}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="active">Currently blocked</option>
+              <option value="all">All blocks</option>
+            </select>
+          </div>
+
+          {/* Blocks table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Strikes</TableHead>
+                  <TableHead>Blocked until</TableHead>
+                  <TableHead>Last blocked</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : blocks.length > 0 ? (
+                  blocks.map((block) => {
+                    const isActive = new Date(block.blocked_until) > new Date();
+                    return (
+                      <TableRow key={block.id}>
+                        <TableCell>{ROUTE_LABELS[block.route] ?? block.route}</TableCell>
+                        <TableCell>
+                          <div className="text-xs text-muted-foreground">
+                            {ACTOR_LABELS[block.actor_type] ?? block.actor_type}
+                          </div>
+                          <div className="font-mono text-xs">{block.actor_label ?? block.actor_hash.slice(0, 12)}</div>
+                        </TableCell>
+                        <TableCell>{block.strikes}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded ${
+                              isActive ? "bg-destructive/10 text-destructive" : "bg-secondary text-muted-foreground"
+                            }`}
+                          >
+                            {isActive
+                              ? `Blocked for ${formatDistanceToNow(new Date(block.blocked_until))}`
+                              : "Expired"}
+                          </span>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {format(new Date(block.last_blocked_at), "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell>
+                          {isActive && (
+                            <Button variant="outline" size="sm" onClick={() => setUnblockTarget(block)}>
+                              Unblock
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      {activeOnly ? "Nobody is blocked right now." : "No blocks recorded yet."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {total} {total === 1 ? "block" : "blocks"}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <AlertDialog open={!!unblockTarget} onOpenChange={(open) => !open && setUnblockTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Lift this block?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {unblockTarget?.actor_label ?? "This visitor"} can use{" "}
+                {(unblockTarget && ROUTE_LABELS[unblockTarget.route]) ?? "this action"} again straight away, and their
+                recent attempts are forgotten.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(event) => {
+                  event.preventDefault();
+                  if (unblockTarget) unblockMutation.mutate(unblockTarget.id);
+                }}
+                disabled={unblockMutation.isPending}
+              >
+                {unblockMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Unblock
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default RateLimitsManager;
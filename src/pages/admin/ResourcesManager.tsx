@@ -1,9 +1,15 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { History, ScrollText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
 
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
+import { PreviewLinkButton } from "@/components/admin/PreviewLinkButton";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RelationPicker } from "@/components/admin/RelationPicker";
+import { CitedClaimsEditor, KeyTakeawaysEditor, SectionsEditor } from "@/components/admin/ResourceStructureEditors";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
+import { WorkflowActions } from "@/components/admin/WorkflowActions";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -24,9 +30,32 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { defaultSolutions } from "@/content/authorityData";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useAuthorityContent } from "@/hooks/useAuthorityContent";
+import { useEvidenceSources } from "@/hooks/useEvidenceSources";
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import {
+  getPublishStatus,
+  hasGoneLive,
+  publishStatusStyles,
+  resolvePublishedAt,
+  toDateTimeLocalValue,
+} from "@/lib/publishSchedule";
+import {
+  citedClaimsFromJson,
+  citedClaimsToJson,
+  keyTakeawaysFromJson,
+  keyTakeawaysToJson,
+  sectionsFromJson,
+  sectionsToJson,
+  stringArrayFromJson,
+  type CitedClaimDraft,
+  type KeyTakeawayDraft,
+  type SectionDraft,
+} from "@/lib/resourceStructure";
 
 interface ResourceForm {
   id?: string;
@@ -34,6 +63,15 @@ interface ResourceForm {
   title: string;
   summary: string;
   content: string;
+  hero_kicker: string;
+  audience: string;
+  key_takeaways: KeyTakeawayDraft[];
+  sections: SectionDraft[];
+  cited_claims: CitedClaimDraft[];
+  source_ids: string[];
+  related_resource_slugs: string[];
+  solution_slugs: string[];
+  cta_title: string;
   content_type: string;
   topic_cluster: string;
   primary_keyword: string;
@@ -45,7 +83,11 @@ interface ResourceForm {
   cta_variant: string;
   author_id: string;
   reviewer_id: string;
-  is_published: boolean;
+  publish_at: string;
+  published_at: string | null;
+  is_substantive: boolean;
+  review_notes: string | null;
+  workflow_status: string;
 }
 
 const defaultForm: ResourceForm = {
@@ -53,6 +95,15 @@ const defaultForm: ResourceForm = {
   title: "",
   summary: "",
   content: "",
+  hero_kicker: "",
+  audience: "",
+  key_takeaways: [],
+  sections: [],
+  cited_claims: [],
+  source_ids: [],
+  related_resource_slugs: [],
+  solution_slugs: [],
+  cta_title: "",
   content_type: "guide",
   topic_cluster: "",
   primary_keyword: "",
@@ -64,17 +115,24 @@ const defaultForm: ResourceForm = {
   cta_variant: "demo",
   author_id: "",
   reviewer_id: "",
-  is_published: false,
+  publish_at: "",
+  published_at: null,
+  is_substantive: false,
+  review_notes: null,
+  workflow_status: "draft",
 };
 
 type ResourceRow = Tables<"resources">;
 
 const ResourcesManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<ResourceForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user, isAdmin, isEditor } = useAuth();
 
   const { data: resources, isLoading } = useQuery({
     queryKey: ["admin-resources"],
@@ -88,12 +146,47 @@ const ResourcesManager = () => {
   const { data: contributors } = useQuery({
     queryKey: ["admin-resource-contributors"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("contributors").select("id, name").order("display_order", { ascending: true });
+      const { data, error } = await supabase.from("contributors").select("id, name, user_id").order("display_order", { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Contributor id -> linked login, used to find the designated reviewer
+  const reviewerUserIds = new Map((contributors ?? []).map((contributor) => [contributor.id, contributor.user_id]));
+
+  const { data: solutions } = useQuery({
+    queryKey: ["admin-resource-solutions"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("solutions").select("slug, name").order("display_order", { ascending: true });
       if (error) throw error;
       return data || [];
     },
   });
 
+  const { resources: publicResources } = useAuthorityContent();
+  const { sources: evidenceSources } = useEvidenceSources();
+
+  const sourceOptions = evidenceSources.map((source) => ({
+    value: source.id,
+    label: `${source.id} · ${source.shortLabel}`,
+    description: source.fullLabel,
+  }));
+
+  const solutionOptions = (solutions && solutions.length > 0 ? solutions : defaultSolutions).map((solution) => ({
+    value: solution.slug,
+    label: solution.name,
+  }));
+
+  // Related resources may point at DB rows or not-yet-migrated static entries
+  const relatedResourceOptions = [
+    ...(resources || []).map((resource) => ({ slug: resource.slug, title: resource.title })),
+    ...publicResources,
+  ]
+    .filter((resource, index, all) => all.findIndex((item) => item.slug === resource.slug) === index)
+    .filter((resource) => resource.slug !== form.slug)
+    .map((resource) => ({ value: resource.slug, label: resource.title, description: `/resources/${resource.slug}` }));
+
   const saveMutation = useMutation({
     mutationFn: async (resource: ResourceForm) => {
       const payload = {
@@ -101,6 +194,15 @@ const ResourcesManager = () => {
         title: resource.title,
         summary: resource.summary,
         content: resource.content,
+        hero_kicker: resource.hero_kicker || null,
+        audience: resource.audience || null,
+        key_takeaways: keyTakeawaysToJson(resource.key_takeaways),
+        sections: sectionsToJson(resource.sections),
+        cited_claims: citedClaimsToJson(resource.cited_claims),
+        source_ids: resource.source_ids,
+        related_resource_slugs: resource.related_resource_slugs,
+        solution_slugs: resource.solution_slugs,
+        cta_title: resource.cta_title || null,
         content_type: resource.content_type,
         topic_cluster: resource.topic_cluster || null,
         primary_keyword: resource.primary_keyword || null,
@@ -114,24 +216,43 @@ const ResourcesManager = () => {
         cta_variant: resource.cta_variant || null,
         author_id: resource.author_id || null,
         reviewer_id: resource.reviewer_id || null,
-        is_published: resource.is_published,
-        published_at: resource.is_published ? new Date().toISOString() : null,
+        published_at: resolvePublishedAt(resource.publish_at, resource.published_at),
+        // Only substantive edits to live resources move "Last updated" and JSON-LD dateModified
+        ...(hasGoneLive(resource.published_at) && resource.is_substantive
+          ? { content_updated_at: new Date().toISOString() }
+          : {}),
       };
 
       if (isEditing && resource.id) {
-        const { error } = await supabase.from("resources").update(payload).eq("id", resource.id);
+        const { data, error } = await supabase
+          .from("resources")
+          .update(payload)
+          .eq("id", resource.id)
+          .select("workflow_status")
+          .single();
         if (error) throw error;
+        return data.workflow_status;
       } else {
         const { error } = await supabase.from("resources").insert(payload);
         if (error) throw error;
+        return "draft";
       }
     },
-    onSuccess: () => {
+    onSuccess: (status, resource) => {
       queryClient.invalidateQueries({ queryKey: ["admin-resources"] });
+      queryClient.invalidateQueries({ queryKey: ["authority-content"] });
       setIsDialogOpen(false);
       setForm(defaultForm);
       setIsEditing(false);
-      toast({ title: isEditing ? "Resource updated" : "Resource created" });
+      // Edits to approved or published copy go back to review (enforce_editorial_workflow)
+      const previousStatus = resources?.find((item) => item.id === resource.id)?.workflow_status;
+      toast({
+        title: isEditing ? "Resource updated" : "Resource created",
+        description:
+          status === "in_review" && previousStatus !== "in_review"
+            ? "The changes need a fresh review before the resource can go live."
+            : undefined,
+      });
     },
     onError: (error: Error) => {
       toast({ variant: "destructive", title: "Error", description: error.message });
@@ -145,6 +266,7 @@ const ResourcesManager = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-resources"] });
+      queryClient.invalidateQueries({ queryKey: ["authority-content"] });
       toast({ title: "Resource deleted" });
     },
     onError: (error: Error) => {
@@ -152,6 +274,9 @@ const ResourcesManager = () => {
     },
   });
 
+  // Mirrors enforce_editorial_workflow(): the reviewer is fixed once a resource leaves draft
+  const isReviewerLocked = isEditing && form.workflow_status !== "draft" && !isAdmin;
+
   const generateSlug = (title: string) =>
     title
       .toLowerCase()
@@ -165,6 +290,15 @@ const ResourcesManager = () => {
       title: resource.title,
       summary: resource.summary,
       content: resource.content,
+      hero_kicker: resource.hero_kicker || "",
+      audience: resource.audience || "",
+      key_takeaways: keyTakeawaysFromJson(resource.key_takeaways),
+      sections: sectionsFromJson(resource.sections),
+      cited_claims: citedClaimsFromJson(resource.cited_claims),
+      source_ids: stringArrayFromJson(resource.source_ids),
+      related_resource_slugs: stringArrayFromJson(resource.related_resource_slugs),
+      solution_slugs: stringArrayFromJson(resource.solution_slugs),
+      cta_title: resource.cta_title || "",
       content_type: resource.content_type,
       topic_cluster: resource.topic_cluster || "",
       primary_keyword: resource.primary_keyword || "",
@@ -176,14 +310,18 @@ const ResourcesManager = () => {
       cta_variant: resource.cta_variant || "demo",
       author_id: resource.author_id || "",
       reviewer_id: resource.reviewer_id || "",
-      is_published: resource.is_published,
+      publish_at: toDateTimeLocalValue(resource.published_at),
+      published_at: resource.published_at,
+      is_substantive: false,
+      review_notes: resource.review_notes,
+      workflow_status: resource.workflow_status,
     });
     setIsEditing(true);
     setIsDialogOpen(true);
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="resources">
       <AdminLayout>
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -202,12 +340,14 @@ const ResourcesManager = () => {
                 }
               }}
             >
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  New Resource
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Resource
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Resource" : "New Resource"}</DialogTitle>
@@ -219,6 +359,12 @@ const ResourcesManager = () => {
                   }}
                   className="space-y-4"
                 >
+                  {form.review_notes && (
+                    <div className="rounded-md border border-border bg-muted/40 p-3 text-sm">
+                      <p className="mb-1 font-medium">Review notes</p>
+                      <p className="whitespace-pre-wrap text-muted-foreground">{form.review_notes}</p>
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-4">
                     <div className="col-span-2 space-y-2">
                       <Label>Title</Label>
@@ -262,9 +408,75 @@ const ResourcesManager = () => {
                       <Label>Summary</Label>
                       <Textarea value={form.summary} onChange={(event) => setForm({ ...form, summary: event.target.value })} rows={3} required />
                     </div>
+                    <div className="space-y-2">
+                      <Label>Hero Kicker</Label>
+                      <Input
+                        value={form.hero_kicker}
+                        onChange={(event) => setForm({ ...form, hero_kicker: event.target.value })}
+                        placeholder="Defaults to the content type"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Audience</Label>
+                      <Input value={form.audience} onChange={(event) => setForm({ ...form, audience: event.target.value })} />
+                    </div>
+                    <div className="col-span-2 border-t border-border pt-4">
+                      <KeyTakeawaysEditor value={form.key_takeaways} onChange={(key_takeaways) => setForm({ ...form, key_takeaways })} />
+                    </div>
+                    <div className="col-span-2">
+                      <SectionsEditor value={form.sections} onChange={(sections) => setForm({ ...form, sections })} />
+                    </div>
                     <div className="col-span-2 space-y-2">
                       <Label>Content</Label>
-                      <Textarea value={form.content} onChange={(event) => setForm({ ...form, content: event.target.value })} rows={12} required />
+                      <p className="text-xs text-muted-foreground">
+                        Used only when no sections are set. Separate paragraphs with a blank line, start a section with "## ".
+                      </p>
+                      <Textarea
+                        value={form.content}
+                        onChange={(event) => setForm({ ...form, content: event.target.value })}
+                        rows={form.sections.length > 0 ? 4 : 12}
+                        required={form.sections.length === 0}
+                      />
+                    </div>
+                    <div className="col-span-2 border-t border-border pt-4">
+                      <CitedClaimsEditor
+                        value={form.cited_claims}
+                        onChange={(cited_claims) => setForm({ ...form, cited_claims })}
+                        sourceOptions={sourceOptions}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <RelationPicker
+                        label="Evidence Sources"
+                        options={sourceOptions}
+                        value={form.source_ids}
+                        onChange={(source_ids) => setForm({ ...form, source_ids })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <RelationPicker
+                        label="Related Resources"
+                        options={relatedResourceOptions}
+                        value={form.related_resource_slugs}
+                        onChange={(related_resource_slugs) => setForm({ ...form, related_resource_slugs })}
+                        emptyMessage="No other resources yet."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <RelationPicker
+                        label="Solutions"
+                        options={solutionOptions}
+                        value={form.solution_slugs}
+                        onChange={(solution_slugs) => setForm({ ...form, solution_slugs })}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>CTA Title</Label>
+                      <Input
+                        value={form.cta_title}
+                        onChange={(event) => setForm({ ...form, cta_title: event.target.value })}
+                        placeholder="See how Horalix fits into your clinical workflow in a live demo."
+                      />
                     </div>
                     <div className="col-span-2 space-y-2">
                       <Label>Secondary Keywords</Label>
@@ -306,6 +518,7 @@ const ResourcesManager = () => {
                       <select
                         value={form.reviewer_id}
                         onChange={(event) => setForm({ ...form, reviewer_id: event.target.value })}
+                        disabled={isReviewerLocked}
                         className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                       >
                         <option value="">None</option>
@@ -315,11 +528,36 @@ const ResourcesManager = () => {
                           </option>
                         ))}
                       </select>
+                      {isReviewerLocked && (
+                        <p className="text-xs text-muted-foreground">Only admins can reassign the reviewer after submission.</p>
+                      )}
                     </div>
-                    <div className="col-span-2 flex items-center gap-2">
-                      <Switch checked={form.is_published} onCheckedChange={(checked) => setForm({ ...form, is_published: checked })} />
-                      <Label>Published</Label>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="resource-publish-at">Publish at</Label>
+                      <Input
+                        id="resource-publish-at"
+                        type="datetime-local"
+                        value={form.publish_at}
+                        onChange={(event) => setForm({ ...form, publish_at: event.target.value })}
+                        disabled={hasGoneLive(form.published_at)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {hasGoneLive(form.published_at)
+                          ? "First published date is fixed once the resource has gone live."
+                          : "Leave empty to go live when published. A future time keeps an approved resource hidden until then."}
+                      </p>
                     </div>
+                    {hasGoneLive(form.published_at) && (
+                      <div className="col-span-2 flex items-start gap-2">
+                        <Switch checked={form.is_substantive} onCheckedChange={(checked) => setForm({ ...form, is_substantive: checked })} />
+                        <div>
+                          <Label>Substantive update</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Shows a new "Last updated" date on the resource. Leave off for typo and formatting fixes.
+                          </p>
+                        </div>
+                      </div>
+                    )}
                   </div>
                   <div className="flex justify-end gap-2">
                     <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -343,7 +581,7 @@ const ResourcesManager = () => {
                   <TableHead>Slug</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Updated</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-64">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -359,12 +597,8 @@ const ResourcesManager = () => {
                       <TableCell className="font-medium">{resource.title}</TableCell>
                       <TableCell className="font-mono text-sm text-muted-foreground">/resources/{resource.slug}</TableCell>
                       <TableCell>
-                        <span
-                          className={`rounded px-2 py-0.5 text-xs ${
-                            resource.is_published ? "bg-green-500/20 text-green-500" : "bg-yellow-500/20 text-yellow-500"
-                          }`}
-                        >
-                          {resource.is_published ? "Published" : "Draft"}
+                        <span className={`rounded px-2 py-0.5 text-xs ${publishStatusStyles[getPublishStatus(resource)].className}`}>
+                          {publishStatusStyles[getPublishStatus(resource)].label}
                         </span>
                       </TableCell>
                       <TableCell className="text-muted-foreground">
@@ -372,20 +606,52 @@ const ResourcesManager = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(resource)}>
-                            <Pencil className="h-4 w-4" />
+                          <WorkflowActions
+                            table="resources"
+                            recordId={resource.id}
+                            status={resource.workflow_status}
+                            publishedAt={resource.published_at}
+                            isAdmin={isAdmin}
+                            isEditor={isEditor}
+                            isDesignatedReviewer={!!user && !!resource.reviewer_id && reviewerUserIds.get(resource.reviewer_id) === user.id}
+                            isSubmitter={!!user && resource.submitted_by === user.id}
+                            invalidateKeys={[["admin-resources"], ["authority-content"]]}
+                          />
+                          <PreviewLinkButton table="resources" recordId={resource.id} basePath="/resources" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: resource.id, label: resource.title })}
+                          >
+                            <History className="h-4 w-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Delete this resource?")) {
-                                deleteMutation.mutate(resource.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: resource.id, label: resource.title })}
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <ScrollText className="h-4 w-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(resource)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Delete this resource?")) {
+                                    deleteMutation.mutate(resource.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -401,6 +667,21 @@ const ResourcesManager = () => {
             </Table>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="resources"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-resources"], ["authority-content"]]}
+        />
+        <AuditHistorySheet
+          tableName="resources"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -24,7 +26,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus, Pencil, Trash2, Loader2, History, ScrollText } from "lucide-react";
 
 /**
  * SolutionsManager - Admin page for managing solutions/products
@@ -60,10 +63,13 @@ const defaultForm: SolutionForm = {
 
 const SolutionsManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<SolutionForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isEditor } = useAuth();
 
   // Fetch all solutions
   const { data: solutions, isLoading } = useQuery({
@@ -168,7 +174,7 @@ const SolutionsManager = () => {
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="solutions">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -187,12 +193,14 @@ const SolutionsManager = () => {
                 setIsEditing(false);
               }
             }}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  New Solution
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Solution
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Solution" : "New Solution"}</DialogTitle>
@@ -321,7 +329,7 @@ const SolutionsManager = () => {
                   <TableHead>Slug</TableHead>
                   <TableHead>Order</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-40">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -352,20 +360,40 @@ const SolutionsManager = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(solution)}>
-                            <Pencil className="w-4 h-4" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: solution.id, label: solution.name })}
+                          >
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Delete this solution?")) {
-                                deleteMutation.mutate(solution.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: solution.id, label: solution.name })}
                           >
-                            <Trash2 className="w-4 h-4" />
+                            <ScrollText className="w-4 h-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(solution)}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Delete this solution?")) {
+                                    deleteMutation.mutate(solution.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -381,6 +409,21 @@ const SolutionsManager = () => {
             </Table>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="solutions"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-solutions"]]}
+        />
+        <AuditHistorySheet
+          tableName="solutions"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -0,0 +1,523 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight, Download, History, Loader2, MailX, Plus, Trash2, Upload } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import { SubscriberGrowthChart } from "@/components/admin/SubscriberGrowthChart";
+import { SubscriberHistorySheet } from "@/components/admin/SubscriberHistorySheet";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { ALL_NEWSLETTER_TOPICS, NEWSLETTER_TOPICS, type NewsletterTopic } from "@/lib/newsletterPreferences";
+import {
+  SUBSCRIBER_SOURCE_LABELS,
+  SUBSCRIBER_STATUS_STYLES,
+  getSubscriberStatus,
+  parseSubscriberCsv,
+  type SubscriberStatus,
+} from "@/lib/newsletterSubscribers";
+
+/**
+ * SubscribersManager - Admin page for the newsletter list
+ * Search and filter subscribers, view each address's history, add or remove them by hand,
+ * import and export CSV, and follow list growth
+ */
+
+type Subscriber = Tables<"newsletter_subscriptions">;
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 1000;
+const IMPORT_CHUNK_SIZE = 500;
+
+const topicLabel = (topic: string) => NEWSLETTER_TOPICS.find((option) => option.value === topic)?.label ?? topic;
+
+const SubscribersManager = () => {
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<SubscriberStatus | "all">("all");
+  const [page, setPage] = useState(0);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [newTopics, setNewTopics] = useState<NewsletterTopic[]>(ALL_NEWSLETTER_TOPICS);
+  const [historyEmail, setHistoryEmail] = useState<string | null>(null);
+  const [confirmRemove, setConfirmRemove] = useState<Subscriber | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Same filters for the table page and the CSV export
+  const buildQuery = (options?: { count: "exact" }) => {
+    let query = supabase.from("newsletter_subscriptions").select("*", options).order("created_at", { ascending: false });
+
+    if (search.trim()) {
+      query = query.ilike("email", `%${search.trim()}%`);
+    }
+    if (statusFilter === "subscribed") {
+      query = query.eq("is_subscribed", true);
+    } else if (statusFilter === "pending") {
+      query = query.eq("is_subscribed", false).is("unsubscribed_at", null);
+    } else if (statusFilter === "unsubscribed") {
+      query = query.eq("is_subscribed", false).not("unsubscribed_at", "is", null);
+    }
+    return query;
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-subscribers", search, statusFilter, page],
+    queryFn: async () => {
+      const { data: subscribers, error, count } = await buildQuery({ count: "exact" }).range(
+        page * PAGE_SIZE,
+        page * PAGE_SIZE + PAGE_SIZE - 1
+      );
+      if (error) throw error;
+      return { subscribers, count: count ?? 0 };
+    },
+  });
+
+  const subscribers = data?.subscribers ?? [];
+  const total = data?.count ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-subscribers"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-subscriber-growth"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-subscriber-history"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Error", description: error.message });
+  };
+
+  // Manual add: the admin vouches for consent, so the address is active straight away
+  const addMutation = useMutation({
+    mutationFn: async ({ email, topics }: { email: string; topics: NewsletterTopic[] }) => {
+      const { error } = await supabase.from("newsletter_subscriptions").insert({
+        email,
+        topics,
+        is_subscribed: true,
+        confirmed_at: new Date().toISOString(),
+        source: "admin",
+      });
+      if (error?.code === "23505") {
+        // Never silently resubscribe someone who opted out
+        throw new Error(`${email} is already on the list. Unsubscribed addresses can rejoin from the preference center.`);
+      }
+      if (error) throw error;
+    },
+    onSuccess: (_, { email }) => {
+      invalidate();
+      setIsAddOpen(false);
+      setNewEmail("");
+      setNewTopics(ALL_NEWSLETTER_TOPICS);
+      toast({ title: "Subscriber added", description: email });
+    },
+    onError,
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("newsletter_subscriptions")
+        .update({ is_subscribed: false, unsubscribed_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Subscriber unsubscribed" });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("newsletter_subscriptions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setConfirmRemove(null);
+      toast({ title: "Subscriber removed" });
+    },
+    onError,
+  });
+
+  // Import: existing addresses are left alone, including ones that unsubscribed
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const { rows, invalid } = parseSubscriberCsv(await file.text());
+      if (rows.length === 0) {
+        throw new Error("No valid email addresses found. Use an \"email\" column, or one address per line.");
+      }
+
+      const confirmedAt = new Date().toISOString();
+      let added = 0;
+      for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+        const { data: inserted, error } = await supabase
+          .from("newsletter_subscriptions")
+          .upsert(
+            rows.slice(i, i + IMPORT_CHUNK_SIZE).map((row) => ({
+              ...row,
+              is_subscribed: true,
+              confirmed_at: confirmedAt,
+              source: "import",
+            })),
+            { onConflict: "email", ignoreDuplicates: true }
+          )
+          .select("id");
+        if (error) throw error;
+        added += inserted?.length ?? 0;
+      }
+
+      return { added, existing: rows.length - added, invalid: invalid.length };
+    },
+    onSuccess: ({ added, existing, invalid }) => {
+      invalidate();
+      toast({
+        title: `${added} ${added === 1 ? "subscriber" : "subscribers"} imported`,
+        description: [
+          existing > 0 && `${existing} already on the list`,
+          invalid > 0 && `${invalid} invalid ${invalid === 1 ? "address" : "addresses"} skipped`,
+        ]
+          .filter(Boolean)
+          .join(", ") || undefined,
+      });
+    },
+    onError,
+  });
+
+  // Export everything matching the current filters, not just the visible page
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const rows: Subscriber[] = [];
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        const { data: batch, error } = await buildQuery().range(from, from + EXPORT_PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...batch);
+        if (batch.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      const csv = toCsv(
+        ["email", "status", "topics", "source", "subscribed_at", "unsubscribed_at", "confirmed_at", "created_at"],
+        rows.map((row) => [
+          row.email,
+          getSubscriberStatus(row),
+          row.topics.join(";"),
+          row.source,
+          row.subscribed_at,
+          row.unsubscribed_at,
+          row.confirmed_at,
+          row.created_at,
+        ])
+      );
+      downloadCsv(`newsletter-subscribers-${format(new Date(), "yyyy-MM-dd")}.csv`, csv);
+      return rows.length;
+    },
+    onSuccess: (count) => {
+      toast({ title: `${count} ${count === 1 ? "subscriber" : "subscribers"} exported` });
+    },
+    onError,
+  });
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    event.target.value = "";
+  };
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    addMutation.mutate({ email: newEmail.trim().toLowerCase(), topics: newTopics });
+  };
+
+  return (
+    <ProtectedRoute section="subscribers">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold font-space">Subscribers</h1>
+              <p className="text-muted-foreground mt-1">Everyone on the newsletter list, and how it is growing.</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+              <Button
+                variant="outline"
+                disabled={importMutation.isPending}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Import CSV
+              </Button>
+              <Button variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate()}>
+                {exportMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                Export CSV
+              </Button>
+              <Button onClick={() => setIsAddOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Subscriber
+              </Button>
+            </div>
+          </div>
+
+          <SubscriberGrowthChart />
+
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="subscriber-search">Search</Label>
+              <Input
+                id="subscriber-search"
+                value={search}
+                onChange={(event) => updateFilter(setSearch)(event.target.value)}
+                placeholder="Email contains…"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="subscriber-status">Status</Label>
+              <select
+                id="subscriber-status"
+                value={statusFilter}
+                onChange={(event) => updateFilter(setStatusFilter)(event.target.value as SubscriberStatus | "all")}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="all">All statuses</option>
+                {(Object.keys(SUBSCRIBER_STATUS_STYLES) as SubscriberStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {SUBSCRIBER_STATUS_STYLES[status].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Subscribers table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Topics</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : subscribers.length > 0 ? (
+                  subscribers.map((subscriber) => {
+                    const status = SUBSCRIBER_STATUS_STYLES[getSubscriberStatus(subscriber)];
+                    return (
+                      <TableRow key={subscriber.id}>
+                        <TableCell className="font-medium">{subscriber.email}</TableCell>
+                        <TableCell>
+                          <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {subscriber.topics.map(topicLabel).join(", ")}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {SUBSCRIBER_SOURCE_LABELS[subscriber.source] ?? subscriber.source}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {format(new Date(subscriber.confirmed_at ?? subscriber.created_at), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="History"
+                              onClick={() => setHistoryEmail(subscriber.email)}
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
+                            {subscriber.is_subscribed && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Unsubscribe"
+                                disabled={unsubscribeMutation.isPending}
+                                onClick={() => unsubscribeMutation.mutate(subscriber.id)}
+                              >
+                                <MailX className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Remove"
+                              onClick={() => setConfirmRemove(subscriber)}
+                            >
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No subscribers match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {total} {total === 1 ? "subscriber" : "subscribers"}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Add dialog */}
+          <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add Subscriber</DialogTitle>
+                <DialogDescription>
+                  Only add people who agreed to receive the newsletter. No confirmation email is sent.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAdd} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="subscriber-email">Email</Label>
+                  <Input
+                    id="subscriber-email"
+                    type="email"
+                    value={newEmail}
+                    onChange={(event) => setNewEmail(event.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Topics</Label>
+                  {NEWSLETTER_TOPICS.map((topic) => (
+                    <label key={topic.value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={newTopics.includes(topic.value)}
+                        onCheckedChange={(checked) =>
+                          setNewTopics((current) =>
+                            checked === true
+                              ? [...current, topic.value]
+                              : current.filter((value) => value !== topic.value)
+                          )
+                        }
+                      />
+                      {topic.label}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsAddOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={addMutation.isPending || newTopics.length === 0}>
+                    {addMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Add
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          {/* Remove confirmation */}
+          <AlertDialog open={!!confirmRemove} onOpenChange={(open) => !open && setConfirmRemove(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Remove this subscriber?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {confirmRemove?.email} is deleted from the list. Their history is kept. To stop emails but keep
+                  the record, unsubscribe them instead.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  disabled={removeMutation.isPending}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (confirmRemove) removeMutation.mutate(confirmRemove.id);
+                  }}
+                >
+                  {removeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Remove
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        <SubscriberHistorySheet
+          email={historyEmail}
+          open={!!historyEmail}
+          onOpenChange={(open) => !open && setHistoryEmail(null)}
+        />
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default SubscribersManager;
@@ -2,8 +2,10 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditHistorySheet } from "@/components/admin/AuditHistorySheet";
 import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
 import { ImageUpload } from "@/components/admin/ImageUpload";
+import { RevisionHistoryDialog } from "@/components/admin/RevisionHistoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -25,7 +27,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Loader2, ExternalLink } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus, Pencil, Trash2, Loader2, ExternalLink, History, ScrollText } from "lucide-react";
 
 /**
  * TeamManager - Admin page for managing team members
@@ -55,10 +58,13 @@ const defaultForm: TeamForm = {
 
 const TeamManager = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; label: string } | null>(null);
+  const [auditRecord, setAuditRecord] = useState<{ id: string; label: string } | null>(null);
   const [form, setForm] = useState<TeamForm>(defaultForm);
   const [isEditing, setIsEditing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { isEditor } = useAuth();
 
   // Fetch all team members
   const { data: members, isLoading } = useQuery({
@@ -131,7 +137,7 @@ const TeamManager = () => {
   };
 
   return (
-    <ProtectedRoute>
+    <ProtectedRoute section="team">
       <AdminLayout>
         <div className="space-y-6">
           {/* Header */}
@@ -150,12 +156,14 @@ const TeamManager = () => {
                 setIsEditing(false);
               }
             }}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Member
-                </Button>
-              </DialogTrigger>
+              {isEditor && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Member
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent className="max-w-lg">
                 <DialogHeader>
                   <DialogTitle>{isEditing ? "Edit Member" : "Add Member"}</DialogTitle>
@@ -246,7 +254,7 @@ const TeamManager = () => {
                   <TableHead>LinkedIn</TableHead>
                   <TableHead>Order</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead className="w-40">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -298,20 +306,40 @@ const TeamManager = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(member)}>
-                            <Pencil className="w-4 h-4" />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revision history"
+                            onClick={() => setHistoryRecord({ id: member.id, label: member.name })}
+                          >
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
                             size="icon"
                             variant="ghost"
-                            onClick={() => {
-                              if (confirm("Delete this team member?")) {
-                                deleteMutation.mutate(member.id);
-                              }
-                            }}
+                            title="Audit trail"
+                            onClick={() => setAuditRecord({ id: member.id, label: member.name })}
                           >
-                            <Trash2 className="w-4 h-4" />
+                            <ScrollText className="w-4 h-4" />
                           </Button>
+                          {isEditor && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(member)}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (confirm("Delete this team member?")) {
+                                    deleteMutation.mutate(member.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -327,6 +355,21 @@ const TeamManager = () => {
             </Table>
           </div>
         </div>
+        <RevisionHistoryDialog
+          tableName="team_members"
+          recordId={historyRecord?.id ?? null}
+          recordLabel={historyRecord?.label}
+          open={!!historyRecord}
+          onOpenChange={(open) => !open && setHistoryRecord(null)}
+          invalidateKeys={[["admin-team"]]}
+        />
+        <AuditHistorySheet
+          tableName="team_members"
+          recordId={auditRecord?.id ?? null}
+          recordLabel={auditRecord?.label}
+          open={!!auditRecord}
+          onOpenChange={(open) => !open && setAuditRecord(null)}
+        />
       </AdminLayout>
     </ProtectedRoute>
   );
@@ -0,0 +1,455 @@
+import { useEffect, useState } from "react";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { Copy, Download, KeyRound, Loader2, LogOut, ShieldCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useMfaStatus } from "@/hooks/useMfaStatus";
+import horalixLogo from "@/assets/horalix-logo.png";
+import SEO from "@/components/SEO";
+
+/**
+ * AdminTwoFactor - Authenticator (TOTP) sign-in step for admins and editors
+ * Enrols an authenticator app from a QR code, asks for the code on each sign-in, shows
+ * one-time recovery codes, and lets someone who lost their device start over with one.
+ * ProtectedRoute sends admins and editors here until their session is aal2.
+ */
+
+type Step = "challenge" | "enroll" | "codes" | "recover" | "manage";
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+// Only return to pages inside the admin area
+const safeReturnTo = (value: string | null) =>
+  value && value.startsWith("/admin") && !value.startsWith("/admin/mfa") ? value : "/admin";
+
+/** Calls the mfa-recovery-codes function and surfaces its own error message. */
+const callRecoveryCodes = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("mfa-recovery-codes", { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const errorBody = context ? await context.json().catch(() => null) : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+};
+
+const CodeInput = ({
+  value,
+  onChange,
+  onComplete,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete: (value: string) => void;
+  disabled: boolean;
+}) => (
+  <InputOTP
+    maxLength={6}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      <InputOTPSlot index={0} />
+      <InputOTPSlot index={1} />
+      <InputOTPSlot index={2} />
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      <InputOTPSlot index={3} />
+      <InputOTPSlot index={4} />
+      <InputOTPSlot index={5} />
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const AdminTwoFactor = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get("returnTo"));
+  const { toast } = useToast();
+  const { user, isLoading: authLoading, isEditor } = useAuth();
+  const { status, isLoading: mfaLoading } = useMfaStatus(user);
+
+  const [step, setStep] = useState<Step | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [codesSaved, setCodesSaved] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Step 1: Pick the first step once the session's 2FA state is known
+  useEffect(() => {
+    if (status && step === null) {
+      setStep(status.verified ? "manage" : status.enrolled ? "challenge" : "enroll");
+    }
+  }, [status, step]);
+
+  // Step 2: Start enrolment - clear abandoned attempts, then create a new factor
+  useEffect(() => {
+    if (step !== "enroll" || enrollment) return;
+
+    let cancelled = false;
+    const enroll = async () => {
+      const { data: factors } = await supabase.auth.mfa.listFactors();
+      for (const factor of factors?.all ?? []) {
+        if (factor.factor_type === "totp" && factor.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: `Horalix CMS ${new Date().toISOString().slice(0, 16)}`,
+      });
+      if (cancelled) return;
+      if (error) {
+        toast({ variant: "destructive", title: "Couldn't start setup", description: error.message });
+        return;
+      }
+      const qrCode = data.totp.qr_code;
+      setEnrollment({
+        factorId: data.id,
+        qrCode: qrCode.startsWith("data:") ? qrCode : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`,
+        secret: data.totp.secret,
+      });
+    };
+
+    enroll();
+    return () => {
+      cancelled = true;
+    };
+  }, [step, enrollment, toast]);
+
+  // Step 3: Remaining recovery codes for the settings view
+  useEffect(() => {
+    if (step !== "manage") return;
+    callRecoveryCodes<{ remaining: number }>({ action: "status" })
+      .then((data) => setRemainingCodes(data.remaining))
+      .catch(() => setRemainingCodes(null));
+  }, [step]);
+
+  if (authLoading || (user && mfaLoading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/admin/login" replace />;
+  // Viewers are read-only and sign in with their password alone
+  if (!isEditor) return <Navigate to="/admin" replace />;
+
+  const generateRecoveryCodes = async () => {
+    const data = await callRecoveryCodes<{ codes: string[] }>({ action: "generate" });
+    setRecoveryCodes(data.codes);
+    setCodesSaved(false);
+    setStep("codes");
+  };
+
+  // Verify the code from the app: completes enrolment or this sign-in
+  const verifyCode = async (value: string) => {
+    if (value.length !== 6 || isWorking) return;
+    setIsWorking(true);
+
+    try {
+      let factorId = enrollment?.factorId;
+      if (step === "challenge") {
+        const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+        if (factorsError) throw factorsError;
+        factorId = factors.totp[0]?.id;
+      }
+      if (!factorId) throw new Error("No authenticator found. Set one up again.");
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: value });
+      if (error) throw error;
+
+      if (step === "enroll") {
+        setEnrollment(null);
+        await generateRecoveryCodes();
+        return;
+      }
+      navigate(returnTo, { replace: true });
+    } catch (error) {
+      setCode("");
+      toast({
+        variant: "destructive",
+        title: "Code not accepted",
+        description: error instanceof Error ? error.message : "Check the code in your app and try again.",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // A recovery code removes the lost authenticator so a new one can be enrolled
+  const redeemRecoveryCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+
+    try {
+      await callRecoveryCodes({ action: "redeem", code: recoveryCode });
+      await supabase.auth.refreshSession();
+      setRecoveryCode("");
+      setEnrollment(null);
+      setStep("enroll");
+      toast({ title: "Recovery code accepted", description: "Set up your authenticator app again." });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Recovery failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleGenerateCodes = async () => {
+    setIsWorking(true);
+    try {
+      await generateRecoveryCodes();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't create codes",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const downloadCodes = () => {
+    const text = `Horalix CMS recovery codes for ${user.email}\nEach code can be used once.\n\n${recoveryCodes.join("\n")}\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "horalix-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    navigate("/admin/login");
+  };
+
+  const titles: Record<Step, string> = {
+    challenge: "Enter Your Code",
+    enroll: "Set Up Two-Factor Authentication",
+    codes: "Save Your Recovery Codes",
+    recover: "Use a Recovery Code",
+    manage: "Two-Factor Authentication",
+  };
+
+  return (
+    <>
+      <SEO
+        title="Two-Factor Authentication | Horalix"
+        description="Verify your identity for the Horalix admin portal."
+        canonical="/admin/mfa"
+        noindex
+      />
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md">
+          {/* Logo and header */}
+          <div className="text-center mb-8">
+            <img src={horalixLogo} alt="Horalix" className="h-12 mx-auto mb-6" />
+            <div className="flex items-center justify-center gap-2 text-accent font-mono text-xs uppercase tracking-widest mb-2">
+              <ShieldCheck className="w-4 h-4" />
+              <span>Admin Portal</span>
+            </div>
+            <h1 className="text-2xl font-bold font-space">{step ? titles[step] : ""}</h1>
+          </div>
+
+          <div className="bg-card border border-border p-8 space-y-6">
+            {step === "challenge" && (
+              <>
+                <p className="text-sm text-muted-foreground text-center">
+                  Open your authenticator app and enter the 6-digit code for Horalix.
+                </p>
+                <CodeInput value={code} onChange={setCode} onComplete={verifyCode} disabled={isWorking} />
+                <Button
+                  className="w-full font-bold uppercase tracking-widest"
+                  disabled={code.length !== 6 || isWorking}
+                  onClick={() => verifyCode(code)}
+                >
+                  {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Verify
+                </Button>
+                <button
+                  type="button"
+                  className="block w-full text-center text-xs text-accent hover:text-accent/80"
+                  onClick={() => setStep("recover")}
+                >
+                  Lost your device? Use a recovery code
+                </button>
+              </>
+            )}
+
+            {step === "enroll" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Admins and editors sign in with a code from an authenticator app (e.g. 1Password,
+                  Google Authenticator or Authy). Scan the QR code, then enter the 6-digit code it shows.
+                </p>
+                {enrollment ? (
+                  <>
+                    <div className="flex justify-center">
+                      <img
+                        src={enrollment.qrCode}
+                        alt="QR code for your authenticator app"
+                        className="h-48 w-48 rounded bg-white p-2"
+                      />
+                    </div>
+                    <div className="space-y-1 text-center">
+                      <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+                      <code className="block break-all rounded bg-secondary px-2 py-1 font-mono text-xs">
+                        {enrollment.secret}
+                      </code>
+                    </div>
+                    <CodeInput value={code} onChange={setCode} onComplete={verifyCode} disabled={isWorking} />
+                    <Button
+                      className="w-full font-bold uppercase tracking-widest"
+                      disabled={code.length !== 6 || isWorking}
+                      onClick={() => verifyCode(code)}
+                    >
+                      {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Turn On
+                    </Button>
+                  </>
+                ) : (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-accent" />
+                  </div>
+                )}
+              </>
+            )}
+
+            {step === "codes" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  If you lose your authenticator, one of these codes lets you set it up again. Each code
+                  works once. Store them somewhere safe - they won't be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 rounded bg-secondary p-4 font-mono text-sm">
+                  {recoveryCodes.map((recovery) => (
+                    <li key={recovery} className="text-center">
+                      {recovery}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={copyCodes}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                  <Button variant="outline" className="flex-1" onClick={downloadCodes}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download
+                  </Button>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={codesSaved} onCheckedChange={(checked) => setCodesSaved(checked === true)} />
+                  I've stored these codes somewhere safe
+                </label>
+                <Button
+                  className="w-full font-bold uppercase tracking-widest"
+                  disabled={!codesSaved}
+                  onClick={() => navigate(returnTo, { replace: true })}
+                >
+                  Continue
+                </Button>
+              </>
+            )}
+
+            {step === "recover" && (
+              <form onSubmit={redeemRecoveryCode} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Enter one of the recovery codes you saved when you set up two-factor authentication.
+                  Your old authenticator will be removed and you'll set up a new one.
+                </p>
+                <Input
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="off"
+                  className="font-mono"
+                  required
+                  disabled={isWorking}
+                />
+                <Button type="submit" className="w-full font-bold uppercase tracking-widest" disabled={isWorking}>
+                  {isWorking ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <KeyRound className="w-4 h-4 mr-2" />
+                  )}
+                  Use Recovery Code
+                </Button>
+                <button
+                  type="button"
+                  className="block w-full text-center text-xs text-accent hover:text-accent/80"
+                  onClick={() => setStep("challenge")}
+                >
+                  Back to authenticator code
+                </button>
+                <p className="text-xs text-muted-foreground text-center">
+                  No codes left? Ask another admin to reset your two-factor authentication.
+                </p>
+              </form>
+            )}
+
+            {step === "manage" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Two-factor authentication is on for {user.email}.
+                  {remainingCodes !== null &&
+                    ` You have ${remainingCodes} unused recovery code${remainingCodes === 1 ? "" : "s"}.`}
+                </p>
+                <Button variant="outline" className="w-full" onClick={handleGenerateCodes} disabled={isWorking}>
+                  {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Generate New Recovery Codes
+                </Button>
+                <Button className="w-full font-bold uppercase tracking-widest" onClick={() => navigate(returnTo)}>
+                  Back to Admin
+                </Button>
+              </>
+            )}
+          </div>
+
+          <p className="text-center text-sm text-muted-foreground mt-6">
+            <button type="button" onClick={handleLogout} className="inline-flex items-center gap-1 hover:text-accent">
+              <LogOut className="w-3 h-3" />
+              Sign out
+            </button>
+          </p>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminTwoFactor;
@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Mail, Search, ShieldOff, UserX } from "lucide-react";
+
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ProtectedRoute } from "@/components/admin/ProtectedRoute";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * UsersManager - Admin-only page for staff accounts and roles
+ * Lists profiles with their roles; invites, role changes and revokes go through the
+ * manage-user-roles edge function, which keeps at least one admin and logs each change.
+ * Also shows who has set up two-factor authentication and resets it for lost devices.
+ */
+
+type AppRole = Database["public"]["Enums"]["app_role"];
+
+const ROLE_OPTIONS: { value: AppRole; label: string; description: string }[] = [
+  { value: "admin", label: "Admin", description: "Full access, including users and approvals" },
+  { value: "editor", label: "Editor", description: "Creates and edits content, submits for review" },
+  { value: "viewer", label: "Viewer", description: "Read-only access to the admin area" },
+];
+
+const ROLE_STYLES: Record<AppRole, string> = {
+  admin: "bg-red-500/20 text-red-500",
+  editor: "bg-blue-500/20 text-blue-500",
+  viewer: "bg-gray-500/20 text-gray-500",
+};
+
+const CHANGE_LABELS: Record<string, string> = {
+  invite: "Invited",
+  grant: "Granted",
+  change: "Changed",
+  revoke: "Revoked",
+  reset_mfa: "Reset 2FA for",
+};
+
+interface ManagedUser {
+  userId: string;
+  email: string | null;
+  fullName: string | null;
+  createdAt: string;
+  role: AppRole | null;
+}
+
+type RoleRequest =
+  | { action: "invite"; email: string; role: AppRole }
+  | { action: "set_role"; user_id: string; role: AppRole }
+  | { action: "revoke"; user_id: string }
+  | { action: "reset_mfa"; user_id: string };
+
+// Highest role wins when a user holds several
+const primaryRole = (roles: AppRole[]): AppRole | null =>
+  ROLE_OPTIONS.find((option) => roles.includes(option.value))?.value ?? null;
+
+const UsersManager = () => {
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AppRole>("editor");
+  const [search, setSearch] = useState("");
+  const [showAllUsers, setShowAllUsers] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<ManagedUser | null>(null);
+  const [resetMfaTarget, setResetMfaTarget] = useState<ManagedUser | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  // Step 1: Profiles joined with their roles
+  const { data: users, isLoading } = useQuery({
+    queryKey: ["admin-users"],
+    queryFn: async (): Promise<ManagedUser[]> => {
+      const [profilesResult, rolesResult] = await Promise.all([
+        supabase.from("profiles").select("user_id, email, full_name, created_at").order("created_at", { ascending: true }),
+        supabase.from("user_roles").select("user_id, role"),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+
+      const rolesByUser = new Map<string, AppRole[]>();
+      rolesResult.data.forEach((row) => {
+        rolesByUser.set(row.user_id, [...(rolesByUser.get(row.user_id) ?? []), row.role]);
+      });
+
+      return profilesResult.data.map((profile) => ({
+        userId: profile.user_id,
+        email: profile.email,
+        fullName: profile.full_name,
+        createdAt: profile.created_at,
+        role: primaryRole(rolesByUser.get(profile.user_id) ?? []),
+      }));
+    },
+  });
+
+  const { data: mfaStatus } = useQuery({
+    queryKey: ["admin-staff-mfa"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("staff_mfa_status");
+      if (error) throw error;
+      return new Map(data.map((row) => [row.user_id, row]));
+    },
+  });
+
+  const { data: changes } = useQuery({
+    queryKey: ["admin-user-role-changes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_role_changes")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(25);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Step 2: Every change goes through the edge function
+  const roleMutation = useMutation({
+    mutationFn: async (request: RoleRequest) => {
+      const { data, error } = await supabase.functions.invoke("manage-user-roles", { body: request });
+      if (error) {
+        // Surface the function's own message (e.g. "At least one admin must remain")
+        const context = (error as { context?: Response }).context;
+        const body = context ? await context.json().catch(() => null) : null;
+        throw new Error(body?.error || error.message);
+      }
+      if (data?.error) throw new Error(data.error);
+      return { request, unchanged: !!data?.unchanged };
+    },
+    onSuccess: ({ request, unchanged }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-users"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-user-role-changes"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-staff-mfa"] });
+
+      if (request.action === "invite") {
+        setIsInviteOpen(false);
+        setInviteEmail("");
+        setInviteRole("editor");
+      }
+      setRevokeTarget(null);
+      setResetMfaTarget(null);
+
+      if (unchanged) {
+        toast({ title: "No change", description: "The user already has that role." });
+        return;
+      }
+      const titles: Record<RoleRequest["action"], string> = {
+        invite: "Invitation sent",
+        set_role: "Role updated",
+        revoke: "Access revoked",
+        reset_mfa: "Two-factor authentication reset",
+      };
+      toast({ title: titles[request.action] });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const query = search.trim().toLowerCase();
+  const visibleUsers = (users ?? []).filter((user) => {
+    if (!showAllUsers && !user.role) return false;
+    if (!query) return true;
+    return [user.email, user.fullName].some((value) => value?.toLowerCase().includes(query));
+  });
+
+  return (
+    <ProtectedRoute section="users">
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold font-space">Users & Roles</h1>
+              <p className="text-muted-foreground mt-1">Invite staff and manage who can edit, review and publish.</p>
+            </div>
+
+            <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Mail className="w-4 h-4 mr-2" />
+                  Invite User
+                </Button>
+              </DialogTrigger>
+              <DialogContent aria-describedby="invite-dialog-description">
+                <DialogHeader>
+                  <DialogTitle>Invite User</DialogTitle>
+                  <DialogDescription id="invite-dialog-description">
+                    New addresses receive an email invitation. Existing accounts are granted the role straight away.
+                  </DialogDescription>
+                </DialogHeader>
+                <form
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    roleMutation.mutate({ action: "invite", email: inviteEmail, role: inviteRole });
+                  }}
+                  className="space-y-4"
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(event) => setInviteEmail(event.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-role">Role</Label>
+                    <select
+                      id="invite-role"
+                      value={inviteRole}
+                      onChange={(event) => setInviteRole(event.target.value as AppRole)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label} - {option.description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsInviteOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={roleMutation.isPending}>
+                      {roleMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Send Invite
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="relative w-full max-w-sm">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Search by name or email"
+                className="pl-9"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showAllUsers}
+                onChange={(event) => setShowAllUsers(event.target.checked)}
+              />
+              Include users without a staff role
+            </label>
+          </div>
+
+          {/* Users table */}
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="w-48">Role</TableHead>
+                  <TableHead className="w-40">2FA</TableHead>
+                  <TableHead className="w-16">Revoke</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : visibleUsers.length > 0 ? (
+                  visibleUsers.map((user) => (
+                    <TableRow key={user.userId}>
+                      <TableCell className="font-medium">
+                        {user.fullName || "-"}
+                        {user.userId === currentUser?.id && (
+                          <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{user.email || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(user.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <select
+                          aria-label={`Role for ${user.email ?? user.userId}`}
+                          value={user.role ?? ""}
+                          disabled={roleMutation.isPending}
+                          onChange={(event) => {
+                            const role = event.target.value as AppRole | "";
+                            if (!role) {
+                              setRevokeTarget(user);
+                              return;
+                            }
+                            roleMutation.mutate({ action: "set_role", user_id: user.userId, role });
+                          }}
+                          className={`flex h-9 w-full rounded-md border border-input px-3 py-1 text-sm ${
+                            user.role ? ROLE_STYLES[user.role] : "bg-background"
+                          }`}
+                        >
+                          <option value="">No access</option>
+                          {ROLE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      <TableCell>
+                        {user.role === "admin" || user.role === "editor" ? (
+                          <div className="flex items-center gap-1">
+                            {mfaStatus?.get(user.userId)?.mfa_enrolled ? (
+                              <span
+                                className="text-xs text-green-600"
+                                title={`${mfaStatus.get(user.userId)?.recovery_codes_left ?? 0} recovery codes left`}
+                              >
+                                On
+                              </span>
+                            ) : (
+                              <span className="text-xs text-orange-500">Not set up</span>
+                            )}
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Reset two-factor authentication"
+                              disabled={
+                                !mfaStatus?.get(user.userId)?.mfa_enrolled ||
+                                user.userId === currentUser?.id ||
+                                roleMutation.isPending
+                              }
+                              onClick={() => setResetMfaTarget(user)}
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Not required</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Revoke access"
+                          disabled={!user.role || roleMutation.isPending}
+                          onClick={() => setRevokeTarget(user)}
+                        >
+                          <UserX className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      {query ? "No users match your search." : "No staff users yet."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Change log */}
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold font-space">Recent changes</h2>
+            {changes && changes.length > 0 ? (
+              <ul className="divide-y divide-border rounded-lg border border-border text-sm">
+                {changes.map((change) => (
+                  <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+                    <span>
+                      <span className="font-medium">{CHANGE_LABELS[change.action] ?? change.action}</span>{" "}
+                      {change.target_email ?? "unknown user"}
+                      {change.previous_role && ` from ${change.previous_role}`}
+                      {change.new_role && ` to ${change.new_role}`}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {change.actor_email ?? "unknown"} · {format(new Date(change.created_at), "MMM d, yyyy HH:mm")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No role changes recorded yet.</p>
+            )}
+          </div>
+        </div>
+
+        <AlertDialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Revoke staff access?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {revokeTarget?.email ?? "This user"} will lose all staff roles. Their account is kept and can be
+                re-invited later.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(event) => {
+                  event.preventDefault();
+                  if (revokeTarget) roleMutation.mutate({ action: "revoke", user_id: revokeTarget.userId });
+                }}
+                disabled={roleMutation.isPending}
+              >
+                {roleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Revoke
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog open={!!resetMfaTarget} onOpenChange={(open) => !open && setResetMfaTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {resetMfaTarget?.email ?? "This user"}'s authenticator and recovery codes will be removed. They set up
+                a new authenticator the next time they sign in. Only do this after confirming who is asking.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(event) => {
+                  event.preventDefault();
+                  if (resetMfaTarget) roleMutation.mutate({ action: "reset_mfa", user_id: resetMfaTarget.userId });
+                }}
+                disabled={roleMutation.isPending}
+              >
+                {roleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset 2FA
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default UsersManager;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated origin allowlist, see src/lib/allowedOrigins.js */
+  readonly ALLOWED_ORIGINS?: string;
+}
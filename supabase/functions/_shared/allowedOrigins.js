@@ -0,0 +1,109 @@
+/**
+ * Origin allowlist rules
+ *
+ * The one implementation for the Edge Functions (cors.ts), the React app (canonical.ts,
+ * through src/lib/allowedOrigins.js) and the Node scripts. The allowed_origins table behind
+ * is_allowed_origin() stores the regex built here next to each pattern, so the database
+ * matches origins exactly like this module does. Plain JavaScript with no runtime-specific
+ * imports so Deno, Vite and Node can all load it.
+ *
+ * ALLOWED_ORIGINS is a comma-separated list of origins, e.g.
+ *   https://horalix.com,https://www.horalix.com,https://deploy-preview-*--horalix.netlify.app
+ * A "*" matches part of one host label (letters, digits and hyphens, never a dot) and may
+ * only appear in the leftmost label.
+ */
+
+/** Used when ALLOWED_ORIGINS is unset: production plus Netlify deploy previews. */
+export const DEFAULT_ALLOWED_ORIGINS = [
+  "https://horalix.com",
+  "https://www.horalix.com",
+  "https://deploy-preview-*--horalix.netlify.app",
+];
+
+// Platforms that hand every customer a subdomain: a wildcard there has to be followed by
+// "--" and this site's name (deploy-preview-*--horalix.netlify.app). Anything looser, like
+// *.netlify.app or deploy-*.netlify.app, would admit other customers' sites.
+const SHARED_HOST_SUFFIXES = ["netlify.app", "lovable.app", "vercel.app", "pages.dev", "github.io", "supabase.co"];
+
+const SITE_ANCHORED_LABEL = /^[a-z0-9-]*\*--[a-z0-9][a-z0-9-]*$/;
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1"];
+
+const ORIGIN_PATTERN = /^(https?):\/\/([a-z0-9*.-]+)(:\d{1,5})?$/;
+
+/**
+ * Why a pattern can't be used, or null when it's fine.
+ * @param {string} pattern
+ * @returns {string | null}
+ */
+export function validateOriginPattern(pattern) {
+  const match = ORIGIN_PATTERN.exec(pattern);
+  if (!match) return "must look like https://host or https://host:port, in lowercase";
+
+  const [, scheme, host] = match;
+  const labels = host.split(".");
+  if (labels.some((label) => !label)) return "has an empty host label";
+  if (scheme === "http" && !LOCAL_HOSTS.includes(host)) return "may only use http for localhost";
+
+  const wildcards = host.split("*").length - 1;
+  if (wildcards === 0) return null;
+  if (wildcards > 1 || labels[0].split("*").length !== 2) return "may only have one * in the leftmost label";
+
+  const suffix = labels.slice(1).join(".");
+  if (labels.length < 3) return "needs a wildcard under a domain, e.g. https://*.example.com";
+  if (SHARED_HOST_SUFFIXES.includes(suffix) && !SITE_ANCHORED_LABEL.test(labels[0])) {
+    return `can't match other ${suffix} sites; end the label with this site's name, e.g. https://deploy-preview-*--horalix.${suffix}`;
+  }
+  return null;
+}
+
+/**
+ * Splits an ALLOWED_ORIGINS value into normalized entries, valid or not.
+ * @param {string | null | undefined} value
+ * @returns {string[]}
+ */
+export function splitAllowedOrigins(value) {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Valid patterns from an ALLOWED_ORIGINS value; DEFAULT_ALLOWED_ORIGINS when it's unset.
+ * @param {string | null | undefined} value
+ * @returns {string[]}
+ */
+export function parseAllowedOrigins(value) {
+  const entries = splitAllowedOrigins(value);
+  if (entries.length === 0) return DEFAULT_ALLOWED_ORIGINS;
+
+  return entries.filter((pattern) => {
+    const problem = validateOriginPattern(pattern);
+    if (problem) console.warn(`Ignoring allowed origin "${pattern}": ${problem}`);
+    return !problem;
+  });
+}
+
+/**
+ * Anchored regex source for a valid pattern, in the subset JavaScript and Postgres share.
+ * @param {string} pattern
+ * @returns {string}
+ */
+export function originPatternToRegex(pattern) {
+  const [prefix, rest] = pattern.split("*").map((part) => part.replace(/\./g, "\\."));
+  return rest === undefined ? `^${prefix}$` : `^${prefix}[a-z0-9-]+${rest}$`;
+}
+
+/**
+ * Whether an origin (scheme://host[:port]) matches one of the patterns.
+ * @param {string | null | undefined} origin
+ * @param {string[]} patterns
+ * @returns {boolean}
+ */
+export function isOriginAllowed(origin, patterns) {
+  const normalized = (origin ?? "").toLowerCase();
+  if (!normalized) return false;
+
+  return patterns.some((pattern) => new RegExp(originPatternToRegex(pattern)).test(normalized));
+}
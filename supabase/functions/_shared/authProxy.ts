@@ -0,0 +1,45 @@
+/**
+ * Helpers for the origin-checked auth proxy functions (auth-*)
+ * Email links always point at the canonical SITE_URL: a redirect the client asks for is only
+ * used when it is on that origin, so a cloned frontend can't send users' links elsewhere.
+ */
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function getSiteUrl(): string {
+  return (Deno.env.get("SITE_URL") || "https://horalix.com").replace(/\/+$/, "");
+}
+
+/**
+ * The requested redirect (a path or an absolute URL) resolved against SITE_URL, or
+ * `fallbackPath` on SITE_URL when it points at any other origin.
+ */
+export function safeRedirectUrl(requested: unknown, fallbackPath: string): string {
+  const siteUrl = getSiteUrl();
+  if (typeof requested === "string" && requested) {
+    try {
+      const url = new URL(requested, siteUrl);
+      if (url.origin === new URL(siteUrl).origin) return url.toString();
+    } catch {
+      // Fall through to the default
+    }
+  }
+  return `${siteUrl}${fallbackPath}`;
+}
+
+/** Same rules as the signup form: 8+ characters with a letter and a number. */
+export function meetsPasswordPolicy(password: unknown): password is string {
+  return (
+    typeof password === "string" &&
+    password.length >= 8 &&
+    password.length <= 72 &&
+    /[a-zA-Z]/.test(password) &&
+    /[0-9]/.test(password)
+  );
+}
+
+/** Normalized email from a request body, or null when it isn't a plausible address. */
+export function parseEmail(value: unknown): string | null {
+  const email = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return email && email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Contact submission emails and threads
+ * Shared by contact-submit (new submissions), contact-thread (replies written in the admin or
+ * on the submissions page) and contact-inbound (replies that arrive by email).
+ *
+ * Reply emails carry a Reply-To of CONTACT_REPLY_ADDRESS plus-addressed with the submission's
+ * reply_token (replies+<token>@inbound.example.com), so answers route back to the right thread.
+ * Without CONTACT_REPLY_ADDRESS, replies go to the sender address and are only matched when
+ * they quote one of our Message-IDs.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { renderTransactionalEmail } from "./emailTemplates.ts";
+import type { MailTransport } from "./mail.ts";
+
+export const MAX_MESSAGE_LENGTH = 10000;
+
+export interface ContactSubmission {
+  id: string;
+  name: string;
+  email: string;
+  message: string;
+  status: string;
+  user_id: string | null;
+  reply_token: string;
+}
+
+const REPLY_TOKEN_PATTERN = /\+([a-f0-9]{32})@/i;
+
+/** Plus-addressed Reply-To for a submission, or null when inbound replies aren't set up. */
+export function getReplyAddress(replyToken: string): string | null {
+  const address = Deno.env.get("CONTACT_REPLY_ADDRESS");
+  if (!address || !address.includes("@")) return null;
+  const [local, domain] = address.split("@");
+  return `${local}+${replyToken}@${domain}`;
+}
+
+/** The reply token from the first recipient address that carries one. */
+export function extractReplyToken(addresses: string[]): string | null {
+  for (const address of addresses) {
+    const match = address.match(REPLY_TOKEN_PATTERN);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+}
+
+/** A fresh RFC 5322 Message-ID on the sender's domain. */
+export function createMessageId(from: string): string {
+  const domain = from.match(/@([^>\s]+)/)?.[1] || "horalix.com";
+  return `<contact.${crypto.randomUUID()}@${domain}>`;
+}
+
+/**
+ * Records a reply from the person who sent the submission and reopens it for the team:
+ * a responded or archived inquiry goes back to in progress.
+ */
+export async function recordSenderReply(
+  supabase: SupabaseClient,
+  submission: ContactSubmission,
+  reply: {
+    body: string;
+    channel: "portal" | "email";
+    authorId?: string | null;
+    fromAddress?: string | null;
+    emailMessageId?: string | null;
+  },
+) {
+  const { data: message, error } = await supabase
+    .from("contact_messages")
+    .insert({
+      submission_id: submission.id,
+      sender: "user",
+      channel: reply.channel,
+      body: reply.body,
+      author_id: reply.authorId ?? null,
+      author_name: submission.name,
+      from_address: reply.fromAddress ?? submission.email,
+      email_message_id: reply.emailMessageId ?? null,
+    })
+    .select("id, created_at")
+    .single();
+
+  if (error) throw error;
+
+  if (submission.status === "responded" || submission.status === "archived") {
+    const { error: statusError } = await supabase
+      .from("contact_submissions")
+      .update({ status: "in_progress" })
+      .eq("id", submission.id);
+    if (statusError) console.error("Error reopening submission:", statusError);
+  }
+
+  return message;
+}
+
+/** Comma-separated TEAM_NOTIFICATION_EMAILS as a list. */
+export function getTeamEmails(): string[] {
+  return (Deno.env.get("TEAM_NOTIFICATION_EMAILS") || "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter((email) => email.length > 0);
+}
+
+/**
+ * Emails the team about a new submission and sends the sender a confirmation.
+ * Failures are logged and reported, not thrown: the submission is already saved.
+ */
+export async function sendSubmissionNotifications(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  from: string,
+  submission: ContactSubmission & { created_at: string },
+  siteUrl: string,
+): Promise<{ teamNotified: boolean; userNotified: boolean }> {
+  const teamEmails = getTeamEmails();
+  let teamNotified = false;
+
+  if (teamEmails.length === 0) {
+    console.error("No team emails configured");
+  } else {
+    const receivedAt = new Date(submission.created_at).toLocaleString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+    const teamEmail = await renderTransactionalEmail(
+      supabase,
+      "contact_team_notification",
+      {
+        name: submission.name,
+        email: submission.email,
+        message: submission.message,
+        receivedAt,
+        adminUrl: `${siteUrl}/admin/contacts`,
+      },
+      siteUrl,
+    );
+
+    const teamResult = await transport.send({ from, to: teamEmails, ...teamEmail });
+    teamNotified = teamResult.ok;
+    if (!teamResult.ok) console.error("Team notification error:", teamResult.error);
+  }
+
+  const userEmail = await renderTransactionalEmail(
+    supabase,
+    "contact_confirmation",
+    { name: submission.name },
+    siteUrl,
+  );
+
+  // Answering the confirmation goes to the thread like any other reply
+  const userResult = await transport.send({
+    from,
+    to: [submission.email],
+    replyTo: getReplyAddress(submission.reply_token) ?? undefined,
+    ...userEmail,
+  });
+  if (!userResult.ok) console.error("User confirmation error:", userResult.error);
+
+  return { teamNotified, userNotified: userResult.ok };
+}
+
+/** Emails TEAM_NOTIFICATION_EMAILS about a sender's reply. Failures are logged, not thrown. */
+export async function notifyTeamOfSenderReply(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  from: string,
+  submission: ContactSubmission,
+  body: string,
+  siteUrl: string,
+): Promise<boolean> {
+  const teamEmails = getTeamEmails();
+
+  if (teamEmails.length === 0) {
+    console.error("No team emails configured");
+    return false;
+  }
+
+  const email = await renderTransactionalEmail(
+    supabase,
+    "contact_sender_reply",
+    {
+      name: submission.name,
+      email: submission.email,
+      reply: body,
+      adminUrl: `${siteUrl}/admin/contacts`,
+    },
+    siteUrl,
+  );
+
+  const result = await transport.send({
+    from,
+    to: teamEmails,
+    ...email,
+  });
+
+  if (!result.ok) console.error("Team reply notification error:", result.error);
+  return result.ok;
+}
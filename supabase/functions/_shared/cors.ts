@@ -1,19 +1,33 @@
-/** Shared CORS and origin-validation helpers for Supabase Edge Functions */
+/**
+ * Shared CORS and origin-validation helpers for Supabase Edge Functions
+ *
+ * Allowed origins come from ALLOWED_ORIGINS, a comma-separated list that may use safe
+ * wildcards such as https://deploy-preview-*--horalix.netlify.app. The rules live in
+ * ./allowedOrigins.js, shared with the frontend and with the allowed_origins table behind
+ * is_allowed_origin(), which scripts/sync-allowed-origins.mjs fills from the same value.
+ */
+
+import { DEFAULT_ALLOWED_ORIGINS, isOriginAllowed, parseAllowedOrigins } from "./allowedOrigins.js";
 
-const ALLOWED_ORIGINS = [
-  "https://horalix.com",
-  "https://www.horalix.com",
-];
+const ALLOWED_ORIGINS = parseAllowedOrigins(Deno.env.get("ALLOWED_ORIGINS"));
+
+// Sent back to unknown origins; the browser then refuses the response
+const FALLBACK_ORIGIN = ALLOWED_ORIGINS.find((pattern) => !pattern.includes("*")) ?? DEFAULT_ALLOWED_ORIGINS[0];
+
+/** Whether the origin matches ALLOWED_ORIGINS. */
+export function isAllowedOrigin(origin: string): boolean {
+  return isOriginAllowed(origin, ALLOWED_ORIGINS);
+}
 
 /** Build CORS response headers scoped to allowed origins. */
 export function getCorsHeaders(request: Request): Record<string, string> {
   const origin = request.headers.get("origin") ?? "";
-  const allowedOrigin = ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+  const allowedOrigin = isAllowedOrigin(origin) ? origin : FALLBACK_ORIGIN;
 
   return {
     "Access-Control-Allow-Origin": allowedOrigin,
     "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type, x-admin-setup-key",
+      "authorization, x-client-info, apikey, content-type, x-admin-setup-key, x-scheduler-secret",
     "Vary": "Origin",
   };
 }
@@ -25,7 +39,7 @@ export function getCorsHeaders(request: Request): Record<string, string> {
  */
 export function rejectUnknownOrigin(request: Request): Response | null {
   const origin = request.headers.get("origin") ?? "";
-  if (ALLOWED_ORIGINS.includes(origin)) return null;
+  if (isAllowedOrigin(origin)) return null;
 
   return new Response(
     JSON.stringify({ error: "Forbidden: origin not allowed" }),
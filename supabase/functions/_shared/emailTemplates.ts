@@ -0,0 +1,375 @@
+/**
+ * Transactional email templates
+ * Each template pairs editable copy (subject, heading, body) with a fixed set of partials,
+ * rendered into one shared layout with a plain-text alternative. Copy comes from the
+ * email_templates table where an editor has changed it, otherwise from the defaults here.
+ *
+ * Copy uses {{variable}} placeholders. Values are HTML-escaped in the HTML part and have
+ * line breaks removed in the subject. Body copy is plain text; blank lines separate paragraphs.
+ * Adding a template means adding a definition below and its key row in email_templates.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { escapeHtml } from "./markdown.js";
+
+export type EmailTemplateKey =
+  | "contact_team_notification"
+  | "contact_confirmation"
+  | "contact_status_in_progress"
+  | "contact_status_responded"
+  | "contact_status_archived"
+  | "contact_reply"
+  | "contact_sender_reply"
+  | "newsletter_confirmation";
+
+export type EmailVariables = Record<string, string>;
+
+export interface EmailCopy {
+  subject: string;
+  heading: string;
+  body: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** A fixed block after the body copy, rendered for both parts of the email */
+interface EmailPart {
+  html: string;
+  text: string;
+}
+
+interface EmailTemplateDefinition {
+  name: string;
+  description: string;
+  /** Placeholders the copy may use, with a hint for editors */
+  variables: Record<string, string>;
+  /** Values used by the CMS preview */
+  sample: (siteUrl: string) => EmailVariables;
+  defaults: EmailCopy;
+  parts?: (vars: EmailVariables) => EmailPart[];
+}
+
+// ============================================================================
+// Partials
+// ============================================================================
+
+const button = (label: string, url: string): EmailPart => ({
+  html: `<p class="actions"><a href="${escapeHtml(url)}" class="btn">${escapeHtml(label)}</a></p>`,
+  text: `${label}: ${url}`,
+});
+
+const quote = (label: string, body: string): EmailPart => ({
+  html: `<div class="quote"><p class="quote-label">${escapeHtml(label)}</p><p class="quote-body">${escapeHtml(body)}</p></div>`,
+  text: `${label}:\n${body.split("\n").map((line) => `> ${line}`).join("\n")}`,
+});
+
+const details = (rows: [string, string][]): EmailPart => ({
+  html: `<table class="details">${rows
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("")}</table>`,
+  text: rows.map(([label, value]) => `${label}: ${value}`).join("\n"),
+});
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+const statusTemplate = (name: string, defaults: EmailCopy): EmailTemplateDefinition => ({
+  name,
+  description: "Sent to the sender when an admin moves their contact submission to this status.",
+  variables: {
+    name: "Sender's name",
+    excerpt: "First 200 characters of their message",
+    submissionsUrl: "Link to their submissions page",
+  },
+  sample: (siteUrl) => ({
+    name: "Jordan Lee",
+    excerpt: "We are evaluating AI-assisted triage for our radiology department and would like a demo...",
+    submissionsUrl: `${siteUrl}/profile/submissions`,
+  }),
+  defaults,
+  parts: (vars) => [
+    ...(vars.excerpt ? [quote("Your original inquiry", vars.excerpt)] : []),
+    button("View Your Submissions", vars.submissionsUrl),
+  ],
+});
+
+const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  contact_team_notification: {
+    name: "Contact: team notification",
+    description: "Sent to TEAM_NOTIFICATION_EMAILS for every contact form submission.",
+    variables: {
+      name: "Sender's name",
+      email: "Sender's email",
+      message: "Full message",
+      receivedAt: "When the message arrived",
+      adminUrl: "Link to the contacts admin",
+    },
+    sample: (siteUrl) => ({
+      name: "Jordan Lee",
+      email: "jordan.lee@example-hospital.org",
+      message: "We are evaluating AI-assisted triage for our radiology department and would like a demo.",
+      receivedAt: "Monday, October 19, 2026 at 10:30 AM",
+      adminUrl: `${siteUrl}/admin/contacts`,
+    }),
+    defaults: {
+      subject: "New Contact Inquiry from {{name}}",
+      heading: "New Contact Inquiry",
+      body: "A new message arrived through the Horalix contact form.",
+    },
+    parts: (vars) => [
+      details([
+        ["From", vars.name],
+        ["Email", vars.email],
+        ["Received", vars.receivedAt],
+      ]),
+      quote("Message", vars.message),
+      button("View in Admin Panel", vars.adminUrl),
+    ],
+  },
+  contact_confirmation: {
+    name: "Contact: confirmation to sender",
+    description: "Sent to the sender right after they submit the contact form.",
+    variables: { name: "Sender's name" },
+    sample: () => ({ name: "Jordan Lee" }),
+    defaults: {
+      subject: "Horalix: We Received Your Message",
+      heading: "We Received Your Message",
+      body: [
+        "Hi {{name}},",
+        "Thank you for reaching out to Horalix. We received your inquiry and our team will review it shortly.",
+        "You will receive an update once we review your message. You can also track your inquiry status by logging in.",
+      ].join("\n\n"),
+    },
+  },
+  contact_status_in_progress: statusTemplate("Contact status: in progress", {
+    subject: "Horalix: We're Reviewing Your Inquiry",
+    heading: "Your Message is Being Reviewed",
+    body: [
+      "Hi {{name}},",
+      "Our team has received your message and is currently reviewing it. We'll get back to you as soon as possible with a response.",
+    ].join("\n\n"),
+  }),
+  contact_status_responded: statusTemplate("Contact status: responded", {
+    subject: "Horalix: We've Responded to Your Inquiry",
+    heading: "Response Ready",
+    body: [
+      "Hi {{name}},",
+      "Great news! Our team has reviewed your inquiry and replied. Log in to read the full conversation and answer it from your submissions page.",
+    ].join("\n\n"),
+  }),
+  contact_status_archived: statusTemplate("Contact status: archived", {
+    subject: "Horalix: Your Inquiry Has Been Closed",
+    heading: "Inquiry Closed",
+    body: [
+      "Hi {{name}},",
+      "Your inquiry has been marked as complete and archived. If you have any further questions, feel free to submit a new inquiry through our contact form.",
+    ].join("\n\n"),
+  }),
+  contact_reply: {
+    name: "Contact: reply to sender",
+    description: "Carries a reply written in the contacts admin. Answering the email adds to the conversation.",
+    variables: {
+      name: "Sender's name",
+      reply: "The reply written in the admin",
+      excerpt: "First 200 characters of their original message",
+      submissionsUrl: "Link to their submissions page",
+    },
+    sample: (siteUrl) => ({
+      name: "Jordan Lee",
+      reply: "Thanks for getting in touch. We'd be glad to show you the triage workflow.\n\nDoes Thursday at 2 PM work for a call?",
+      excerpt: "We are evaluating AI-assisted triage for our radiology department and would like a demo...",
+      submissionsUrl: `${siteUrl}/profile/submissions`,
+    }),
+    defaults: {
+      subject: "Re: Your inquiry to Horalix",
+      heading: "A Reply From Horalix",
+      body: [
+        "Hi {{name}},",
+        "Our team replied to your inquiry. You can answer by replying to this email or from your submissions page.",
+      ].join("\n\n"),
+    },
+    parts: (vars) => [
+      quote("Our reply", vars.reply),
+      ...(vars.excerpt ? [quote("Your original inquiry", vars.excerpt)] : []),
+      button("View Conversation", vars.submissionsUrl),
+    ],
+  },
+  contact_sender_reply: {
+    name: "Contact: sender replied",
+    description: "Sent to TEAM_NOTIFICATION_EMAILS when a sender answers a conversation, by email or from their submissions page.",
+    variables: {
+      name: "Sender's name",
+      email: "Sender's email",
+      reply: "Their reply",
+      adminUrl: "Link to the contacts admin",
+    },
+    sample: (siteUrl) => ({
+      name: "Jordan Lee",
+      email: "jordan.lee@example-hospital.org",
+      reply: "Thursday at 2 PM works for us. I'll bring our PACS administrator.",
+      adminUrl: `${siteUrl}/admin/contacts`,
+    }),
+    defaults: {
+      subject: "New reply from {{name}}",
+      heading: "New Reply on a Contact Inquiry",
+      body: "{{name}} ({{email}}) replied to their contact inquiry.",
+    },
+    parts: (vars) => [quote("Reply", vars.reply), button("View in Admin Panel", vars.adminUrl)],
+  },
+  newsletter_confirmation: {
+    name: "Newsletter: confirm subscription",
+    description: "Double opt-in email sent by the public newsletter sign-up form.",
+    variables: {
+      email: "Address being subscribed",
+      confirmUrl: "Confirmation link (expires in 3 days)",
+    },
+    sample: (siteUrl) => ({
+      email: "jordan.lee@example-hospital.org",
+      confirmUrl: `${siteUrl}/newsletter/confirm?token=preview`,
+    }),
+    defaults: {
+      subject: "Confirm your Horalix newsletter subscription",
+      heading: "Confirm your subscription",
+      body: [
+        "Hi there,",
+        "Someone (hopefully you) asked to receive the Horalix newsletter at {{email}}.",
+        "This link expires in 3 days. If you didn't ask for this, ignore this email and you won't hear from us.",
+      ].join("\n\n"),
+    },
+    parts: (vars) => [button("Confirm subscription", vars.confirmUrl)],
+  },
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const STYLES = `
+  body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+  .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+  .header { background: linear-gradient(135deg, #1a1a2e, #16213e); color: #fff; padding: 30px 20px; border-radius: 8px 8px 0 0; text-align: center; }
+  .header .logo { color: #00D4FF; font-weight: bold; font-size: 28px; margin-bottom: 10px; }
+  .header h1 { margin: 0; font-size: 20px; }
+  .content { background: #f9f9f9; padding: 30px 20px; }
+  .details { border-collapse: collapse; margin: 16px 0; }
+  .details th { text-align: left; font-weight: 600; color: #555; padding: 4px 16px 4px 0; vertical-align: top; }
+  .details td { padding: 4px 0; }
+  .quote { background: #fff; border-left: 3px solid #00D4FF; padding: 12px 15px; margin: 20px 0; color: #555; }
+  .quote-label { font-weight: 600; color: #333; margin: 0 0 5px 0; }
+  .quote-body { white-space: pre-wrap; margin: 0; }
+  .actions { margin: 24px 0 0 0; }
+  .btn { display: inline-block; background: #00D4FF; color: #1a1a2e !important; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; }
+  .footer { background: #1a1a2e; color: #888; padding: 20px; text-align: center; border-radius: 0 0 8px 8px; font-size: 12px; }
+  .footer a { color: #00D4FF; text-decoration: none; }
+`;
+
+const PLACEHOLDER_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+const interpolate = (template: string, vars: EmailVariables, encode: (value: string) => string) =>
+  template.replace(PLACEHOLDER_PATTERN, (_, name: string) => encode(vars[name] ?? ""));
+
+// Copy is escaped before substitution, so neither editors nor variable values can inject markup
+const toHtml = (template: string, vars: EmailVariables) =>
+  interpolate(escapeHtml(template), vars, escapeHtml).replace(/\r?\n/g, "<br>");
+
+const toText = (template: string, vars: EmailVariables) => interpolate(template, vars, (value) => value);
+
+/** Renders a template with the given copy; used for real sends and the CMS preview alike. */
+export function renderEmailTemplate(
+  key: EmailTemplateKey,
+  copy: EmailCopy,
+  vars: EmailVariables,
+  siteUrl: string,
+): RenderedEmail {
+  const parts = EMAIL_TEMPLATES[key].parts?.(vars) ?? [];
+  const paragraphs = copy.body.split(/\r?\n\s*\r?\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+  const heading = toText(copy.heading, vars);
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><style>${STYLES}</style></head>
+<body>
+  <div class="container">
+    <div class="header"><div class="logo">HORALIX</div><h1>${escapeHtml(heading)}</h1></div>
+    <div class="content">
+      ${paragraphs.map((paragraph) => `<p>${toHtml(paragraph, vars)}</p>`).join("\n      ")}
+      ${parts.map((part) => part.html).join("\n      ")}
+    </div>
+    <div class="footer"><p>Horalix</p><p><a href="${escapeHtml(siteUrl)}">horalix.com</a></p></div>
+  </div>
+</body>
+</html>`;
+
+  const text = [
+    heading,
+    ...paragraphs.map((paragraph) => toText(paragraph, vars)),
+    ...parts.map((part) => part.text),
+    `--\nHoralix\n${siteUrl}`,
+  ].join("\n\n");
+
+  return {
+    subject: toText(copy.subject, vars).replace(/[\r\n]+/g, " ").trim(),
+    html,
+    text,
+  };
+}
+
+/** Editor overrides on top of the defaults; empty fields fall back field by field. */
+export function resolveEmailCopy(
+  key: EmailTemplateKey,
+  overrides: { subject?: string | null; heading?: string | null; body?: string | null } | null,
+): EmailCopy {
+  const defaults = EMAIL_TEMPLATES[key].defaults;
+  return {
+    subject: overrides?.subject?.trim() || defaults.subject,
+    heading: overrides?.heading?.trim() || defaults.heading,
+    body: overrides?.body?.trim() || defaults.body,
+  };
+}
+
+/** Current copy from email_templates; the defaults are used if the read fails. */
+export async function loadEmailCopy(supabase: SupabaseClient, key: EmailTemplateKey): Promise<EmailCopy> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("subject, heading, body")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) console.error(`Error loading email template ${key}:`, error);
+  return resolveEmailCopy(key, data);
+}
+
+/** Loads the current copy and renders it; pass a service-role client. */
+export async function renderTransactionalEmail(
+  supabase: SupabaseClient,
+  key: EmailTemplateKey,
+  vars: EmailVariables,
+  siteUrl: string,
+): Promise<RenderedEmail> {
+  return renderEmailTemplate(key, await loadEmailCopy(supabase, key), vars, siteUrl);
+}
+
+export function isEmailTemplateKey(key: unknown): key is EmailTemplateKey {
+  return typeof key === "string" && Object.hasOwn(EMAIL_TEMPLATES, key);
+}
+
+/** Template metadata for the CMS: names, variables and default copy. */
+export function listEmailTemplates() {
+  return (Object.keys(EMAIL_TEMPLATES) as EmailTemplateKey[]).map((key) => ({
+    key,
+    name: EMAIL_TEMPLATES[key].name,
+    description: EMAIL_TEMPLATES[key].description,
+    variables: EMAIL_TEMPLATES[key].variables,
+    defaults: EMAIL_TEMPLATES[key].defaults,
+  }));
+}
+
+/** Renders with the template's sample data, for previews of unsaved copy. */
+export function renderEmailPreview(key: EmailTemplateKey, copy: EmailCopy, siteUrl: string): RenderedEmail {
+  return renderEmailTemplate(key, copy, EMAIL_TEMPLATES[key].sample(siteUrl), siteUrl);
+}
@@ -0,0 +1,86 @@
+/**
+ * Signed form challenges for public forms
+ * A challenge is a signed token (see signedToken.ts) issued when the form is shown. It proves
+ * how long the visitor spent on the form and, when `difficulty` is above zero, carries a
+ * proof of work: the client must find a nonce where SHA-256("<token>:<nonce>") starts with
+ * `difficulty` zero bits. Everything is self-hosted, no third-party captcha.
+ *
+ * The token id (`jti`) lets callers refuse a second submission with the same challenge.
+ */
+
+import { signToken, verifyToken, type SignedTokenPayload } from "./signedToken.ts";
+
+interface FormChallengePayload extends SignedTokenPayload {
+  purpose: "form";
+  form: string;
+  jti: string;
+  iat: number;
+  difficulty: number;
+}
+
+// Long enough for someone to write a careful message
+const CHALLENGE_TTL_SECONDS = 2 * 60 * 60;
+const MAX_DIFFICULTY = 24;
+
+export type FormChallengeResult =
+  | { ok: true; id: string }
+  | { ok: false; reason: "invalid" | "too_fast" | "proof_of_work" };
+
+async function leadingZeroBits(value: string): Promise<number> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/** Proof-of-work difficulty from the given env variable, clamped to 0 (off) .. 24 bits. */
+export function getChallengeDifficulty(envName: string): number {
+  const difficulty = Number(Deno.env.get(envName) || 0);
+  if (!Number.isFinite(difficulty) || difficulty <= 0) return 0;
+  return Math.min(Math.floor(difficulty), MAX_DIFFICULTY);
+}
+
+export async function issueFormChallenge(
+  form: string,
+  difficulty: number,
+  secret: string,
+): Promise<{ token: string; difficulty: number }> {
+  const now = Math.floor(Date.now() / 1000);
+  const token = await signToken<FormChallengePayload>(
+    { purpose: "form", form, jti: crypto.randomUUID(), iat: now, exp: now + CHALLENGE_TTL_SECONDS, difficulty },
+    secret,
+  );
+  return { token, difficulty };
+}
+
+/** Checks the signature, that at least `minSeconds` passed since issue, and the proof of work. */
+export async function verifyFormChallenge(
+  form: string,
+  token: unknown,
+  nonce: unknown,
+  secret: string,
+  minSeconds: number,
+): Promise<FormChallengeResult> {
+  if (typeof token !== "string") return { ok: false, reason: "invalid" };
+
+  const payload = await verifyToken<FormChallengePayload>(token, secret);
+  if (!payload || payload.purpose !== "form" || payload.form !== form) return { ok: false, reason: "invalid" };
+
+  if (Date.now() / 1000 - payload.iat < minSeconds) return { ok: false, reason: "too_fast" };
+
+  if (payload.difficulty > 0) {
+    if (typeof nonce !== "string" || nonce.length > 32) return { ok: false, reason: "proof_of_work" };
+    if ((await leadingZeroBits(`${token}:${nonce}`)) < payload.difficulty) {
+      return { ok: false, reason: "proof_of_work" };
+    }
+  }
+
+  return { ok: true, id: payload.jti };
+}
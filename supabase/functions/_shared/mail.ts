@@ -0,0 +1,212 @@
+/**
+ * Outgoing email for Edge Functions
+ * One interface over interchangeable drivers, picked with MAIL_TRANSPORT:
+ * - resend (default): Resend HTTP API, needs RESEND_API_KEY
+ * - smtp:    any SMTP server, needs SMTP_HOST plus SMTP_PORT / SMTP_USER / SMTP_PASSWORD as required.
+ *            Hosted Edge Functions block ports 25 and 587, so use 465 there; locally the
+ *            Supabase CLI's Inbucket (port 54325) works too
+ * - capture: sends nothing; stores each message in the captured_emails table, or as files
+ *            under MAIL_CAPTURE_DIR when set, for local development and tests
+ *
+ * The sender is MAIL_FROM, falling back to the older RESEND_FROM, then to the caller's default.
+ * Supabase Auth emails (signup confirmation, recovery) are sent by Auth itself, not through here.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export type MailResult =
+  | { ok: true; messageId: string | null }
+  | { ok: false; retryable: boolean; error: string };
+
+export interface MailTransport {
+  readonly name: "resend" | "smtp" | "capture";
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Resend HTTP API. Rate limits (429) and 5xx responses are retryable. */
+export function createResendTransport(apiKey: string): MailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      try {
+        const response = await fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+            reply_to: message.replyTo,
+            headers: message.headers,
+          }),
+        });
+
+        if (response.ok) {
+          const body = await response.json().catch(() => ({}));
+          return { ok: true, messageId: body?.id ?? null };
+        }
+
+        const errorText = (await response.text()).slice(0, 500);
+        return {
+          ok: false,
+          retryable: response.status === 429 || response.status >= 500,
+          error: `${response.status}: ${errorText}`,
+        };
+      } catch (error) {
+        return { ok: false, retryable: true, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/** SMTP via nodemailer. 4xx replies and connection errors are retryable, 5xx replies are not. */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      try {
+        // Loaded on demand so functions using the other drivers don't pay for it on cold start
+        const { default: nodemailer } = await import("npm:nodemailer@6.9.16");
+        const transporter = nodemailer.createTransport({
+          host: config.host,
+          port: config.port,
+          secure: config.secure,
+          auth: config.user ? { user: config.user, pass: config.password } : undefined,
+        });
+
+        const info = await transporter.sendMail({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          replyTo: message.replyTo,
+          headers: message.headers,
+        });
+        return { ok: true, messageId: info.messageId ?? null };
+      } catch (error) {
+        const responseCode = (error as { responseCode?: number }).responseCode;
+        return {
+          ok: false,
+          retryable: responseCode === undefined || responseCode < 500,
+          error: (responseCode ? `${responseCode}: ` : "") + errorMessage(error).slice(0, 500),
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Records messages instead of sending them. With a directory, each message is written as
+ * <timestamp>-<id>.json plus a matching .html for opening in a browser; otherwise it is
+ * inserted into captured_emails with the service role.
+ */
+export function createCaptureTransport(directory?: string): MailTransport {
+  return {
+    name: "capture",
+    async send(message) {
+      const id = crypto.randomUUID();
+
+      try {
+        if (directory) {
+          const basePath = `${directory.replace(/\/$/, "")}/${new Date().toISOString().replace(/[:.]/g, "-")}-${id}`;
+          await Deno.mkdir(directory, { recursive: true });
+          await Deno.writeTextFile(`${basePath}.json`, JSON.stringify({ id, ...message }, null, 2));
+          await Deno.writeTextFile(`${basePath}.html`, message.html);
+        } else {
+          const supabase = createClient(
+            Deno.env.get("SUPABASE_URL")!,
+            Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+          );
+          const { error } = await supabase.from("captured_emails").insert({
+            id,
+            from_address: message.from,
+            to_addresses: message.to,
+            subject: message.subject,
+            html: message.html,
+            text: message.text ?? null,
+            reply_to: message.replyTo ?? null,
+            headers: message.headers ?? {},
+          });
+          if (error) return { ok: false, retryable: true, error: error.message };
+        }
+
+        console.log(`Captured email "${message.subject}" to ${message.to.join(", ")}`);
+        return { ok: true, messageId: id };
+      } catch (error) {
+        return { ok: false, retryable: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+/**
+ * The transport selected by MAIL_TRANSPORT, or null (with the reason logged) when its
+ * settings are missing. Callers answer null with a 500, as they did for a missing API key.
+ */
+export function getMailTransport(): MailTransport | null {
+  const driver = Deno.env.get("MAIL_TRANSPORT") || "resend";
+
+  if (driver === "resend") {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    if (!apiKey) {
+      console.error("RESEND_API_KEY not configured");
+      return null;
+    }
+    return createResendTransport(apiKey);
+  }
+
+  if (driver === "smtp") {
+    const host = Deno.env.get("SMTP_HOST");
+    if (!host) {
+      console.error("SMTP_HOST not configured");
+      return null;
+    }
+    const port = Number(Deno.env.get("SMTP_PORT") || 465);
+    return createSmtpTransport({
+      host,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+      secure: (Deno.env.get("SMTP_SECURE") ?? String(port === 465)) === "true",
+      user: Deno.env.get("SMTP_USER") || undefined,
+      password: Deno.env.get("SMTP_PASSWORD") || undefined,
+    });
+  }
+
+  if (driver === "capture") {
+    return createCaptureTransport(Deno.env.get("MAIL_CAPTURE_DIR") || undefined);
+  }
+
+  console.error(`Unknown MAIL_TRANSPORT "${driver}"`);
+  return null;
+}
+
+/** Sender address: MAIL_FROM, then the legacy RESEND_FROM, then the caller's default. */
+export function getMailFrom(fallback: string): string {
+  return Deno.env.get("MAIL_FROM") || Deno.env.get("RESEND_FROM") || fallback;
+}
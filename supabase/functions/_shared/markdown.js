@@ -0,0 +1,215 @@
+/**
+ * Safe Markdown renderer for CMS content
+ * Escapes all input first, so raw HTML in content is shown as text rather than executed.
+ * Supports headings, paragraphs, lists, quotes, rules, bold, italic, code, links and images.
+ *
+ * The one implementation for the Edge Functions, the React app and the Node build scripts
+ * (the latter two through src/lib/markdown.js), so emails render article content exactly
+ * like the website does. Plain JavaScript with no runtime-specific imports so Deno, Vite
+ * and Node can all load it.
+ */
+
+/**
+ * @typedef {object} MarkdownOptions
+ * @property {string} [siteUrl] Links to this URL's origin are treated as internal (no target="_blank").
+ */
+
+// Site-relative paths only: browsers treat "//host" and "/\host" as links to another site
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:|\/(?![/\\])|#)/i;
+const SAFE_IMAGE_PATTERN = /^(https:\/\/|\/(?![/\\]))/i;
+
+/** @param {unknown} value */
+export function escapeHtml(value) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// URLs arrive already HTML-escaped, so only the protocol needs checking here
+function safeUrl(url, pattern) {
+  const trimmed = url.trim();
+  return pattern.test(trimmed) ? trimmed : null;
+}
+
+// Compares origins so look-alikes such as https://horalix.com.example.net stay external
+function isInternalUrl(href, siteUrl) {
+  if (!siteUrl) return false;
+  try {
+    return new URL(href.replace(/&amp;/g, "&")).origin === new URL(siteUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+function renderEmphasis(html) {
+  return html
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/__([^_]+)__/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>")
+    .replace(/(^|[^\w_])_([^_\s][^_]*)_(?!\w)/g, "$1<em>$2</em>");
+}
+
+// Code spans, images and links are swapped for placeholders so emphasis rules
+// never touch their contents (URLs often contain "_" or "*")
+function renderInline(text, options) {
+  const tokens = [];
+  const hold = (html) => {
+    tokens.push(html);
+    return `\uE000${tokens.length - 1}\uE000`;
+  };
+
+  let html = escapeHtml(String(text).replace(/\uE000/g, ""))
+    .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${code}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, url) => {
+      const src = safeUrl(url, SAFE_IMAGE_PATTERN);
+      return src ? hold(`<img src="${src}" alt="${alt}" loading="lazy" />`) : alt;
+    })
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => {
+      const href = safeUrl(url, SAFE_LINK_PATTERN);
+      if (!href) return label;
+      const external = /^https?:\/\//i.test(href) && !isInternalUrl(href, options.siteUrl);
+      return hold(
+        external
+          ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${renderEmphasis(label)}</a>`
+          : `<a href="${href}">${renderEmphasis(label)}</a>`,
+      );
+    });
+
+  html = renderEmphasis(html);
+  return html.replace(/\uE000(\d+)\uE000/g, (_, index) => tokens[Number(index)]);
+}
+
+const HEADING_PATTERN = /^(#{1,4})\s+(.+)$/;
+const UNORDERED_PATTERN = /^[-*+]\s+(.+)$/;
+const ORDERED_PATTERN = /^\d+[.)]\s+(.+)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const RULE_PATTERN = /^(-{3,}|\*{3,}|_{3,})$/;
+const IMAGE_LINE_PATTERN = /^!\[[^\]]*\]\([^)\s]+\)$/;
+
+// Quotes nest by recursion; deeper ">" markers are kept as text so hostile input can't
+// exhaust the stack
+const MAX_QUOTE_DEPTH = 8;
+
+/**
+ * Renders Markdown to HTML. "#" headings are demoted to h2 because the page title
+ * already owns the h1.
+ *
+ * @param {string | null | undefined} markdown
+ * @param {MarkdownOptions} [options]
+ * @returns {string}
+ */
+export function renderMarkdown(markdown, options = {}) {
+  return renderBlocks(markdown, options, 0);
+}
+
+function renderBlocks(markdown, options, depth) {
+  const lines = String(markdown ?? "").replace(/\r\n?/g, "\n").split("\n");
+  const blocks = [];
+  let paragraph = [];
+  let list = null;
+  let quote = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map((line) => renderInline(line, options)).join("<br />")}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item, options)}</li>`).join("")}</${list.tag}>`);
+      list = null;
+    }
+  };
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      blocks.push(`<blockquote>${renderBlocks(quote.join("\n"), options, depth + 1)}</blockquote>`);
+      quote = [];
+    }
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushQuote();
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushAll();
+      continue;
+    }
+
+    const quoteMatch = depth < MAX_QUOTE_DEPTH ? QUOTE_PATTERN.exec(line) : null;
+    if (quoteMatch) {
+      flushParagraph();
+      flushList();
+      quote.push(quoteMatch[1]);
+      continue;
+    }
+    flushQuote();
+
+    const headingMatch = HEADING_PATTERN.exec(line);
+    if (headingMatch) {
+      flushAll();
+      const level = Math.min(Math.max(headingMatch[1].length, 2), 4);
+      blocks.push(`<h${level}>${renderInline(headingMatch[2], options)}</h${level}>`);
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flushAll();
+      blocks.push("<hr />");
+      continue;
+    }
+
+    const unorderedMatch = UNORDERED_PATTERN.exec(line);
+    const orderedMatch = unorderedMatch ? null : ORDERED_PATTERN.exec(line);
+    if (unorderedMatch || orderedMatch) {
+      flushParagraph();
+      const tag = unorderedMatch ? "ul" : "ol";
+      if (list && list.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push((unorderedMatch || orderedMatch)[1]);
+      continue;
+    }
+
+    if (IMAGE_LINE_PATTERN.test(line)) {
+      flushAll();
+      blocks.push(`<figure>${renderInline(line, options)}</figure>`);
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line);
+  }
+
+  flushAll();
+  return blocks.join("\n");
+}
+
+/**
+ * Plain-text version for meta descriptions, excerpts and text-only email parts.
+ *
+ * @param {string | null | undefined} markdown
+ * @returns {string}
+ */
+export function markdownToPlainText(markdown) {
+  return String(markdown ?? "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]*)\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^[-*+]\s+/gm, "• ")
+    .replace(/^(-{3,}|\*{3,}|_{3,})$/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*)[*_](?!\w)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,28 @@
+/**
+ * Two-factor checks for staff Edge Functions
+ * Admins and editors must call with an AAL2 session (signed in with a TOTP code); see the
+ * staff_mfa migration for the matching database checks. Call after auth.getUser() has
+ * verified the token - these helpers only read its claims.
+ */
+
+export const MFA_REQUIRED_RESPONSE = {
+  error: "Two-factor authentication required. Verify your authenticator code and try again.",
+  code: "mfa_required",
+};
+
+/** Claims of the bearer token in an Authorization header, or null when there is none. */
+function readClaims(authHeader: string | null): Record<string, unknown> | null {
+  const token = authHeader?.replace(/^Bearer\s+/i, "") ?? "";
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the caller signed in with a second factor (assurance level aal2). */
+export function hasMfaSession(authHeader: string | null): boolean {
+  return readClaims(authHeader)?.aal === "aal2";
+}
@@ -0,0 +1,150 @@
+/**
+ * Newsletter email templates
+ * One layout shared by article announcements and digest campaigns. The footer links to the
+ * preference center with the {{UNSUBSCRIBE_TOKEN}} placeholder that newsletter-worker fills
+ * in per recipient.
+ */
+
+import { escapeHtml, renderMarkdown } from "./markdown.js";
+
+export interface NewsletterArticle {
+  title: string;
+  slug: string;
+  summary: string;
+  content: string;
+  image_urls?: unknown;
+}
+
+export interface NewsletterResource {
+  title: string;
+  slug: string;
+  summary: string;
+  hero_image_url?: string | null;
+}
+
+export const UNSUBSCRIBE_PLACEHOLDER = "{{UNSUBSCRIBE_TOKEN}}";
+
+const STYLES = `
+  body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f5f5f5; }
+  .container { max-width: 600px; margin: 0 auto; }
+  .header { background: linear-gradient(135deg, #1a1a2e, #16213e); color: white; padding: 30px 20px; text-align: center; }
+  .header .logo { color: #00D4FF; font-weight: bold; font-size: 28px; margin-bottom: 10px; }
+  .content { background: white; padding: 30px 20px; }
+  .intro { margin: 0 0 24px 0; }
+  .intro a { color: #0088aa; }
+  .section-title { font-size: 13px; letter-spacing: 0.08em; text-transform: uppercase; color: #888; margin: 24px 0 12px 0; }
+  .article-card { border: 1px solid #eee; border-radius: 8px; overflow: hidden; margin-bottom: 16px; }
+  .article-image { width: 100%; height: 200px; object-fit: cover; }
+  .article-body { padding: 20px; }
+  .article-title { font-size: 22px; font-weight: 600; color: #1a1a2e; margin: 0 0 10px 0; }
+  .digest-title { font-size: 18px; }
+  .article-summary { color: #666; margin: 0 0 20px 0; }
+  .article-content { color: #333; margin: 0 0 20px 0; }
+  .article-content h2, .article-content h3, .article-content h4 { color: #1a1a2e; margin: 20px 0 8px 0; }
+  .article-content a { color: #0088aa; }
+  .article-content blockquote { border-left: 3px solid #00D4FF; margin: 16px 0; padding-left: 12px; color: #555; }
+  .article-content img { max-width: 100%; height: auto; border-radius: 6px; }
+  .article-content figure { margin: 16px 0; }
+  .article-content code { background: #f0f0f0; padding: 1px 4px; border-radius: 3px; font-size: 13px; }
+  .btn { display: inline-block; background: #00D4FF; color: #1a1a2e !important; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; }
+  .link { color: #0088aa; font-weight: 600; text-decoration: none; }
+  .footer { background: #1a1a2e; color: #888; padding: 20px; text-align: center; font-size: 12px; }
+  .footer a { color: #00D4FF; text-decoration: none; }
+  .unsubscribe { margin-top: 15px; }
+`;
+
+const firstImageUrl = (imageUrls: unknown): string =>
+  Array.isArray(imageUrls) && typeof imageUrls[0] === "string" ? imageUrls[0] : "";
+
+function renderLayout(headline: string, body: string, siteUrl: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>${STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">HORALIX</div>
+          <p style="margin: 0; opacity: 0.9;">${escapeHtml(headline)}</p>
+        </div>
+        <div class="content">
+          ${body}
+        </div>
+        <div class="footer">
+          <p>Thank you for being part of the Horalix community.</p>
+          <p><a href="${siteUrl}">horalix.com</a></p>
+          <p class="unsubscribe">
+            <a href="${siteUrl}/newsletter/preferences?token=${UNSUBSCRIBE_PLACEHOLDER}">Manage preferences or unsubscribe</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/** Full-article announcement sent when a news article goes live. */
+export function renderArticleEmail(article: NewsletterArticle, siteUrl: string): string {
+  const articleUrl = `${siteUrl}/news/${article.slug}`;
+  const imageUrl = firstImageUrl(article.image_urls);
+  const articleBodyHtml = renderMarkdown(article.content, { siteUrl });
+
+  return renderLayout(
+    "New Article Published",
+    `
+      <p>Hi there,</p>
+      <p>We've just published a new article that we think you'll find interesting:</p>
+
+      <div class="article-card">
+        ${imageUrl ? `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(article.title)}" class="article-image" />` : ""}
+        <div class="article-body">
+          <h2 class="article-title">${escapeHtml(article.title)}</h2>
+          <p class="article-summary">${escapeHtml(article.summary)}</p>
+          <div class="article-content">${articleBodyHtml}</div>
+          <a href="${articleUrl}" class="btn">Read Full Article</a>
+        </div>
+      </div>
+    `,
+    siteUrl,
+  );
+}
+
+/** Digest of several articles and resources under a markdown intro; items keep the given order. */
+export function renderDigestEmail(
+  input: { intro: string; articles: NewsletterArticle[]; resources: NewsletterResource[] },
+  siteUrl: string,
+): string {
+  const card = (title: string, summary: string, url: string, imageUrl: string, cta: string) => `
+    <div class="article-card">
+      ${imageUrl ? `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(title)}" class="article-image" />` : ""}
+      <div class="article-body">
+        <h2 class="article-title digest-title">${escapeHtml(title)}</h2>
+        <p class="article-summary">${escapeHtml(summary)}</p>
+        <a href="${url}" class="link">${cta} &rarr;</a>
+      </div>
+    </div>
+  `;
+
+  const articleCards = input.articles
+    .map((article) =>
+      card(article.title, article.summary, `${siteUrl}/news/${article.slug}`, firstImageUrl(article.image_urls), "Read article")
+    )
+    .join("");
+  const resourceCards = input.resources
+    .map((resource) =>
+      card(resource.title, resource.summary, `${siteUrl}/resources/${resource.slug}`, resource.hero_image_url ?? "", "Read resource")
+    )
+    .join("");
+
+  return renderLayout(
+    "Horalix Digest",
+    `
+      ${input.intro.trim() ? `<div class="intro">${renderMarkdown(input.intro, { siteUrl })}</div>` : "<p>Hi there,</p>"}
+      ${articleCards ? `<p class="section-title">News</p>${articleCards}` : ""}
+      ${resourceCards ? `<p class="section-title">Resources</p>${resourceCards}` : ""}
+    `,
+    siteUrl,
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Newsletter queue helpers
+ * Resolves a campaign's recipients and enqueues one newsletter_deliveries row per
+ * address for newsletter-worker. Enqueueing is idempotent per campaign, so a request
+ * that timed out midway can simply be repeated.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type NewsletterSegment = "all" | "registered" | "guests";
+
+export type NewsletterTopic = "news" | "resources" | "product_updates";
+
+export interface NewsletterAudience {
+  topic: NewsletterTopic;
+  segment: NewsletterSegment;
+  /** Only subscribers who joined on or after this time */
+  subscribedSince?: string | null;
+}
+
+const PAGE_SIZE = 1000;
+const ENQUEUE_CHUNK_SIZE = 500;
+
+// Supabase edge runtime: keeps the worker kick alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+/** Confirmed subscriber emails that kept the audience's topic and fall in its segment. */
+export async function fetchSegmentEmails(
+  supabase: SupabaseClient,
+  { topic, segment, subscribedSince = null }: NewsletterAudience,
+): Promise<string[]> {
+  const emails = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("newsletter_subscriptions")
+      .select("email")
+      .eq("is_subscribed", true)
+      .contains("topics", [topic])
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (segment === "registered") query = query.not("user_id", "is", null);
+    if (segment === "guests") query = query.is("user_id", null);
+    if (subscribedSince) query = query.gte("subscribed_at", subscribedSince);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const row of data ?? []) emails.add(row.email);
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return [...emails];
+}
+
+/**
+ * Records the campaign's send with its rendered email and queues every recipient.
+ * Recipients already queued by an earlier attempt are left untouched.
+ */
+export async function enqueueNewsletterSend(
+  supabase: SupabaseClient,
+  send: { campaignId: string; articleId?: string | null; subject: string; html: string },
+  emails: string[],
+): Promise<{ sendId: string; queued: number }> {
+  const { data: sendRow, error: sendError } = await supabase
+    .from("newsletter_sends")
+    .upsert(
+      {
+        campaign_id: send.campaignId,
+        article_id: send.articleId ?? null,
+        subject: send.subject,
+        html: send.html,
+        ...(emails.length === 0 ? { completed_at: new Date().toISOString() } : {}),
+      },
+      { onConflict: "campaign_id" },
+    )
+    .select("id")
+    .single();
+
+  if (sendError || !sendRow) throw sendError ?? new Error("Failed to record newsletter send");
+
+  for (let i = 0; i < emails.length; i += ENQUEUE_CHUNK_SIZE) {
+    const chunk = emails.slice(i, i + ENQUEUE_CHUNK_SIZE);
+    const { error: enqueueError } = await supabase
+      .from("newsletter_deliveries")
+      .upsert(
+        chunk.map((email) => ({ send_id: sendRow.id, email })),
+        { onConflict: "send_id,email", ignoreDuplicates: true },
+      );
+    if (enqueueError) throw enqueueError;
+  }
+
+  const { error: totalError } = await supabase
+    .from("newsletter_sends")
+    .update({ total_count: emails.length })
+    .eq("id", sendRow.id);
+  if (totalError) throw totalError;
+
+  return { sendId: sendRow.id, queued: emails.length };
+}
+
+/** Starts newsletter-worker straight away rather than waiting for its next cron tick. */
+export function kickNewsletterWorker(): void {
+  const schedulerSecret = Deno.env.get("SCHEDULER_SECRET");
+  if (!schedulerSecret) return;
+
+  const kick = fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/newsletter-worker`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      "x-scheduler-secret": schedulerSecret,
+    },
+  }).catch((kickError) => console.error("Failed to start newsletter worker:", kickError));
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(kick);
+  }
+}
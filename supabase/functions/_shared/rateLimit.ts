@@ -0,0 +1,125 @@
+/**
+ * Shared rate limiter for public Edge Functions
+ * Sliding windows per route and actor (client IP, email address or user), kept in Postgres
+ * (rate_limits migration) so every function instance sees the same counts. Going over a
+ * limit locks the actor out of the route for `lockoutSeconds` (default: the window),
+ * doubling with each repeat within a day.
+ *
+ * - hitRateLimit counts the request; call it up front to limit every request
+ * - checkRateLimit only checks; pair it with hitRateLimit on failure to limit failed
+ *   attempts (wrong passwords, invalid tokens) without counting successful ones
+ *
+ * Both return 0 when the request may go ahead, otherwise the seconds until it may be
+ * retried. If the database can't be reached the request is let through and logged.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type RateLimitActorType = "ip" | "email" | "user";
+
+export interface RateLimitRule {
+  actor: RateLimitActorType;
+  max: number;
+  windowSeconds: number;
+  lockoutSeconds?: number;
+}
+
+export type RateLimitActors = Partial<Record<RateLimitActorType, string | null | undefined>>;
+
+// Clients can send any forwarding header they like, so only the entries added by our own
+// proxies count. Each proxy appends the address it saw, so the client is the entry
+// TRUSTED_PROXY_COUNT from the end of CLIENT_IP_HEADER (default: the last x-forwarded-for
+// entry, appended by the Supabase edge gateway).
+const CLIENT_IP_HEADER = Deno.env.get("CLIENT_IP_HEADER") || "x-forwarded-for";
+const TRUSTED_PROXY_COUNT = Math.max(1, Number(Deno.env.get("TRUSTED_PROXY_COUNT")) || 1);
+
+/** The client address as seen by the nearest trusted proxy, or null when it's missing. */
+export const getClientIp = (req: Request): string | null => {
+  const entries = (req.headers.get(CLIENT_IP_HEADER) ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries[entries.length - TRUSTED_PROXY_COUNT] ?? null;
+};
+
+const sha256Hex = async (value: string) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+// Enough for an admin to recognise an actor without storing the address itself
+function maskActor(type: RateLimitActorType, value: string): string {
+  if (type === "email") {
+    const [local, domain] = value.split("@");
+    return `${local.slice(0, 1)}•••@${domain ?? ""}`;
+  }
+  if (type === "ip") {
+    if (value.includes(".")) return value.split(".").slice(0, 3).concat("x").join(".");
+    return `${value.split(":").slice(0, 3).join(":")}:…`;
+  }
+  return value;
+}
+
+async function applyRules(
+  supabase: SupabaseClient,
+  route: string,
+  actors: RateLimitActors,
+  rules: RateLimitRule[],
+  record: boolean,
+): Promise<number> {
+  for (const rule of rules) {
+    const value = actors[rule.actor]?.trim().toLowerCase();
+    if (!value) continue;
+
+    const { data, error } = await supabase.rpc("rate_limit_hit", {
+      _route: route,
+      _actor_type: rule.actor,
+      _actor_hash: await sha256Hex(`${rule.actor}:${value}`),
+      _actor_label: maskActor(rule.actor, value),
+      _max_hits: rule.max,
+      _window_seconds: rule.windowSeconds,
+      _lockout_seconds: rule.lockoutSeconds ?? rule.windowSeconds,
+      _record: record,
+    });
+
+    if (error) {
+      console.error(`Rate limit check failed for ${route}:`, error);
+      continue;
+    }
+    // Stop at the first limit hit so a refused request isn't counted against the others
+    if (typeof data === "number" && data > 0) return data;
+  }
+  return 0;
+}
+
+/** Counts this request against each rule's actor. */
+export function hitRateLimit(
+  supabase: SupabaseClient,
+  route: string,
+  actors: RateLimitActors,
+  rules: RateLimitRule[],
+): Promise<number> {
+  return applyRules(supabase, route, actors, rules, true);
+}
+
+/** Checks the rules without counting this request. */
+export function checkRateLimit(
+  supabase: SupabaseClient,
+  route: string,
+  actors: RateLimitActors,
+  rules: RateLimitRule[],
+): Promise<number> {
+  return applyRules(supabase, route, actors, rules, false);
+}
+
+/** 429 response with Retry-After. */
+export function tooManyRequests(
+  retryAfter: number,
+  headers: Record<string, string>,
+  message = "Too many requests. Please try again later.",
+): Response {
+  return new Response(JSON.stringify({ error: message, retry_after: retryAfter }), {
+    status: 429,
+    headers: { ...headers, "Retry-After": String(retryAfter), "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Signed, expiring tokens for Edge Functions
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part).
+ * Payloads carry an `exp` in Unix seconds; verification rejects expired or tampered tokens.
+ * Also home to secretMatches, the constant-time check for shared-secret headers.
+ */
+
+export interface SignedTokenPayload {
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function hmac(secret: string, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+}
+
+// Constant-time comparison so signature checks don't leak timing
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/**
+ * Whether a provided shared secret (e.g. a webhook header) equals the configured one.
+ * Both sides are hashed first so neither the contents nor the length leak through timing.
+ */
+export async function secretMatches(provided: string | null, secret: string): Promise<boolean> {
+  if (!provided) return false;
+  const [a, b] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(provided)),
+    crypto.subtle.digest("SHA-256", encoder.encode(secret)),
+  ]);
+  return timingSafeEqual(new Uint8Array(a), new Uint8Array(b));
+}
+
+/** Signs a payload. `exp` must already be set by the caller. */
+export async function signToken<T extends SignedTokenPayload>(payload: T, secret: string): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = toBase64Url(await hmac(secret, body));
+  return `${body}.${signature}`;
+}
+
+/** Returns the payload when the signature is valid and the token has not expired, otherwise null. */
+export async function verifyToken<T extends SignedTokenPayload>(token: string, secret: string): Promise<T | null> {
+  const [body, signature, extra] = token.split(".");
+  if (!body || !signature || extra !== undefined) return null;
+
+  try {
+    const expected = await hmac(secret, body);
+    if (!timingSafeEqual(expected, fromBase64Url(signature))) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as T;
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createConfirmationToken,
+  createUnsubscribeToken,
+  verifyConfirmationToken,
+  verifyUnsubscribeToken,
+} from "./subscriberToken.ts";
+
+const SECRET = "test-secret";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("unsubscribe tokens", () => {
+  it("round-trip to the normalized subscriber address", async () => {
+    const token = await createUnsubscribeToken(" Reader@Example.com ", SECRET);
+
+    expect(await verifyUnsubscribeToken(token, SECRET)).toBe("reader@example.com");
+  });
+
+  it("reject other secrets and tampered payloads", async () => {
+    const token = await createUnsubscribeToken("reader@example.com", SECRET);
+    const [, signature] = token.split(".");
+    const forged = btoa(JSON.stringify({ purpose: "unsubscribe", email: "other@example.com", exp: 9999999999 }))
+      .replace(/=+$/, "");
+
+    expect(await verifyUnsubscribeToken(token, "other-secret")).toBeNull();
+    expect(await verifyUnsubscribeToken(`${forged}.${signature}`, SECRET)).toBeNull();
+    expect(await verifyUnsubscribeToken(`${token}.extra`, SECRET)).toBeNull();
+    expect(await verifyUnsubscribeToken("not-a-token", SECRET)).toBeNull();
+  });
+
+  it("expire after a year", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const token = await createUnsubscribeToken("reader@example.com", SECRET);
+
+    vi.setSystemTime(new Date("2026-12-31T00:00:00Z"));
+    expect(await verifyUnsubscribeToken(token, SECRET)).toBe("reader@example.com");
+
+    vi.setSystemTime(new Date("2027-01-02T00:00:00Z"));
+    expect(await verifyUnsubscribeToken(token, SECRET)).toBeNull();
+  });
+});
+
+describe("confirmation tokens", () => {
+  it("can't be used as unsubscribe tokens or the other way round", async () => {
+    const confirm = await createConfirmationToken("reader@example.com", SECRET);
+    const unsubscribe = await createUnsubscribeToken("reader@example.com", SECRET);
+
+    expect(await verifyConfirmationToken(confirm, SECRET)).toBe("reader@example.com");
+    expect(await verifyUnsubscribeToken(confirm, SECRET)).toBeNull();
+    expect(await verifyConfirmationToken(unsubscribe, SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Newsletter subscriber tokens
+ * Per-subscriber signed tokens (see signedToken.ts), signed with UNSUBSCRIBE_TOKEN_SECRET:
+ * - unsubscribe tokens go in every email and open the preference center or unsubscribe
+ *   in one click, only ever for the address they were sent to
+ * - confirmation tokens go in the double opt-in email and activate a pending subscription
+ */
+
+import { signToken, verifyToken, type SignedTokenPayload } from "./signedToken.ts";
+
+type SubscriberTokenPurpose = "unsubscribe" | "confirm";
+
+interface SubscriberTokenPayload extends SignedTokenPayload {
+  purpose: SubscriberTokenPurpose;
+  email: string;
+}
+
+// Links in old emails keep working for a year; confirmation links for three days
+const UNSUBSCRIBE_TOKEN_TTL_SECONDS = 365 * 24 * 60 * 60;
+const CONFIRM_TOKEN_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+async function createSubscriberToken(
+  email: string,
+  purpose: SubscriberTokenPurpose,
+  ttlSeconds: number,
+  secret: string,
+): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return signToken<SubscriberTokenPayload>({ purpose, email: email.trim().toLowerCase(), exp }, secret);
+}
+
+async function verifySubscriberToken(
+  token: string,
+  purpose: SubscriberTokenPurpose,
+  secret: string,
+): Promise<string | null> {
+  const payload = await verifyToken<SubscriberTokenPayload>(token, secret);
+  if (!payload || payload.purpose !== purpose || typeof payload.email !== "string") return null;
+  return payload.email;
+}
+
+export function createUnsubscribeToken(email: string, secret: string): Promise<string> {
+  return createSubscriberToken(email, "unsubscribe", UNSUBSCRIBE_TOKEN_TTL_SECONDS, secret);
+}
+
+/** Returns the subscriber email the token was issued for, or null when invalid or expired. */
+export function verifyUnsubscribeToken(token: string, secret: string): Promise<string | null> {
+  return verifySubscriberToken(token, "unsubscribe", secret);
+}
+
+export function createConfirmationToken(email: string, secret: string): Promise<string> {
+  return createSubscriberToken(email, "confirm", CONFIRM_TOKEN_TTL_SECONDS, secret);
+}
+
+export function verifyConfirmationToken(token: string, secret: string): Promise<string | null> {
+  return verifySubscriberToken(token, "confirm", secret);
+}
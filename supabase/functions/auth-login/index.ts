@@ -2,10 +2,21 @@
  * Edge function: auth-login
  * Proxies login through an origin-checked edge function so the cloned frontend
  * on an unauthorized domain cannot authenticate users against production.
+ *
+ * Failed sign-ins are rate limited per address and per client IP; successful ones
+ * don't count.
  */
 
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { parseEmail } from "../_shared/authProxy.ts";
 import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { checkRateLimit, getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const RATE_LIMITS: RateLimitRule[] = [
+  { actor: "email", max: 5, windowSeconds: 15 * 60 },
+  { actor: "ip", max: 20, windowSeconds: 15 * 60 },
+];
+const RATE_LIMIT_MESSAGE = "Too many failed sign-in attempts. Please try again later or reset your password.";
 
 Deno.serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
@@ -18,19 +29,34 @@ Deno.serve(async (req) => {
   if (originBlock) return originBlock;
 
   try {
-    const { email, password } = await req.json();
+    const { email: rawEmail, password } = await req.json();
 
-    if (!email || !password) {
+    if (!rawEmail || typeof password !== "string" || !password) {
       return new Response(
         JSON.stringify({ error: "Email and password are required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
     }
 
+    // Normalized so "User@x.com" and "user@x.com" share one rate limit
+    const email = parseEmail(rawEmail);
+    if (!email) {
+      return new Response(
+        JSON.stringify({ error: "Please enter a valid email address." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const actors = { email, ip: getClientIp(req) };
+    const retryAfter = await checkRateLimit(supabaseService, "auth-login", actors, RATE_LIMITS);
+    if (retryAfter) return tooManyRequests(retryAfter, corsHeaders, RATE_LIMIT_MESSAGE);
 
     const { data, error } = await supabase.auth.signInWithPassword({
       email,
@@ -38,6 +64,11 @@ Deno.serve(async (req) => {
     });
 
     if (error) {
+      // Only wrong credentials count; an unconfirmed address isn't a guess
+      if (error.code !== "email_not_confirmed") {
+        const lockedFor = await hitRateLimit(supabaseService, "auth-login", actors, RATE_LIMITS);
+        if (lockedFor) return tooManyRequests(lockedFor, corsHeaders, RATE_LIMIT_MESSAGE);
+      }
       return new Response(
         JSON.stringify({ error: error.message }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
@@ -0,0 +1,77 @@
+/**
+ * Edge function: auth-magic-link
+ * Emails a one-time sign-in link through an origin-checked edge function. Only existing
+ * accounts get a link (new accounts go through auth-signup), and the link always lands on
+ * the canonical SITE_URL - /login unless the client asks for another page on that origin.
+ *
+ * The response is the same whether or not an account exists for the address.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { parseEmail, safeRedirectUrl } from "../_shared/authProxy.ts";
+import { getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const RATE_LIMITS: RateLimitRule[] = [
+  { actor: "ip", max: 10, windowSeconds: 60 * 60 },
+  { actor: "email", max: 3, windowSeconds: 60 * 60 },
+];
+const RATE_LIMIT_MESSAGE = "Too many sign-in links requested. Please wait a few minutes and try again.";
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    const { email: rawEmail, emailRedirectTo } = await req.json();
+
+    const email = parseEmail(rawEmail);
+    if (!email) return json({ error: "Please enter a valid email address." }, 400);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!);
+    const supabaseService = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const retryAfter = await hitRateLimit(
+      supabaseService,
+      "auth-magic-link",
+      { ip: getClientIp(req), email },
+      RATE_LIMITS,
+    );
+    if (retryAfter) return tooManyRequests(retryAfter, corsHeaders, RATE_LIMIT_MESSAGE);
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: safeRedirectUrl(emailRedirectTo, "/login"),
+        shouldCreateUser: false,
+      },
+    });
+
+    if (error?.status === 429) {
+      return json({ error: RATE_LIMIT_MESSAGE }, 429);
+    }
+    // Unknown addresses fail here too; don't tell the client
+    if (error) console.error("Magic link request failed:", error.message);
+
+    return json({
+      success: true,
+      message: "If an account exists for that address, a sign-in link is on its way.",
+    });
+  } catch (err) {
+    console.error("Error in auth-magic-link:", err);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,103 @@
+/**
+ * Edge function: auth-reset-confirm
+ * Sets a new password from a reset link, through an origin-checked edge function.
+ *
+ * Accepts either:
+ * - token_hash: from a recovery email template that links to
+ *   {{ .SiteURL }}/reset-password?token_hash={{ .TokenHash }}&type=recovery. The token is
+ *   verified here and the new session is returned for the client to use.
+ * - the session the default reset link signs the browser into, sent as the Authorization
+ *   header. Only a session recently signed in through the reset link (amr "recovery") may
+ *   set a password without the old one.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { meetsPasswordPolicy } from "../_shared/authProxy.ts";
+
+// How long after following the reset link the new password can be set
+const RECOVERY_WINDOW_SECONDS = 60 * 60;
+// Only the reset link itself may set a password without the old one; a magic-link or OTP
+// sign-in is not a password reset
+const RESET_LINK_METHOD = "recovery";
+
+/** Whether the access token was issued by a password reset link within the window. */
+function isRecentRecoverySession(accessToken: string): boolean {
+  try {
+    const payload = JSON.parse(atob(accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    const now = Math.floor(Date.now() / 1000);
+    return (payload.amr ?? []).some(
+      (entry: { method?: string; timestamp?: number }) =>
+        entry.method === RESET_LINK_METHOD && now - (entry.timestamp ?? 0) <= RECOVERY_WINDOW_SECONDS,
+    );
+  } catch {
+    return false;
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const expiredResponse = () =>
+    json({ error: "This reset link is invalid or has expired. Please request a new one.", code: "expired" }, 400);
+
+  try {
+    const { password, token_hash: tokenHash } = await req.json();
+
+    if (!meetsPasswordPolicy(password)) {
+      return json(
+        { error: "Password must be at least 8 characters with at least one letter and one number." },
+        400,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 1: Find the user the reset link was sent to
+    let userId: string;
+    let session = null;
+
+    if (typeof tokenHash === "string" && tokenHash) {
+      const { data, error } = await supabase.auth.verifyOtp({ type: "recovery", token_hash: tokenHash });
+      if (error || !data.user || !data.session) return expiredResponse();
+      userId = data.user.id;
+      session = data.session;
+    } else {
+      const accessToken = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+      const { data: { user } } = accessToken
+        ? await supabase.auth.getUser(accessToken)
+        : { data: { user: null } };
+      if (!user || !isRecentRecoverySession(accessToken)) return expiredResponse();
+      userId = user.id;
+    }
+
+    // Step 2: Set the new password
+    const { error: updateError } = await supabaseService.auth.admin.updateUserById(userId, { password });
+    if (updateError) {
+      return json({ error: updateError.message }, 400);
+    }
+
+    return json({ success: true, session });
+  } catch (err) {
+    console.error("Error in auth-reset-confirm:", err);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
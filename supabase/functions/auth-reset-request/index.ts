@@ -0,0 +1,72 @@
+/**
+ * Edge function: auth-reset-request
+ * Sends a password reset email through an origin-checked edge function. The link
+ * always leads to /reset-password on the canonical SITE_URL.
+ *
+ * The response is the same whether or not an account exists for the address, so the
+ * form cannot be used to discover accounts.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { getSiteUrl, parseEmail } from "../_shared/authProxy.ts";
+import { getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const RATE_LIMITS: RateLimitRule[] = [
+  { actor: "ip", max: 10, windowSeconds: 60 * 60 },
+  { actor: "email", max: 3, windowSeconds: 60 * 60 },
+];
+const RATE_LIMIT_MESSAGE = "Too many reset requests. Please wait a few minutes and try again.";
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    const { email: rawEmail } = await req.json();
+
+    const email = parseEmail(rawEmail);
+    if (!email) return json({ error: "Please enter a valid email address." }, 400);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!);
+    const supabaseService = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const retryAfter = await hitRateLimit(
+      supabaseService,
+      "auth-reset-request",
+      { ip: getClientIp(req), email },
+      RATE_LIMITS,
+    );
+    if (retryAfter) return tooManyRequests(retryAfter, corsHeaders, RATE_LIMIT_MESSAGE);
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${getSiteUrl()}/reset-password`,
+    });
+
+    if (error?.status === 429) {
+      return json({ error: RATE_LIMIT_MESSAGE }, 429);
+    }
+    if (error) console.error("Password reset request failed:", error.message);
+
+    return json({
+      success: true,
+      message: "If an account exists for that address, a reset link is on its way.",
+    });
+  } catch (err) {
+    console.error("Error in auth-reset-request:", err);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
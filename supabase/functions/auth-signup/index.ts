@@ -2,10 +2,18 @@
  * Edge function: auth-signup
  * Proxies signup through an origin-checked edge function so the cloned frontend
  * on an unauthorized domain cannot register users against production.
+ * Signups are rate limited per client IP and per address.
  */
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { parseEmail, safeRedirectUrl } from "../_shared/authProxy.ts";
+import { getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const RATE_LIMITS: RateLimitRule[] = [
+  { actor: "ip", max: 5, windowSeconds: 60 * 60 },
+  { actor: "email", max: 3, windowSeconds: 60 * 60 },
+];
 
 Deno.serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
@@ -18,30 +26,47 @@ Deno.serve(async (req) => {
   if (originBlock) return originBlock;
 
   try {
-    const { email, password, fullName, newsletterOptIn, emailRedirectTo } =
+    const { email: rawEmail, password, fullName, newsletterOptIn, emailRedirectTo } =
       await req.json();
 
-    if (!email || !password) {
+    if (!rawEmail || !password) {
       return new Response(
         JSON.stringify({ error: "Email and password are required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
     }
 
+    const email = parseEmail(rawEmail);
+    if (!email) {
+      return new Response(
+        JSON.stringify({ error: "Please enter a valid email address." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const retryAfter = await hitRateLimit(
+      supabaseService,
+      "auth-signup",
+      { ip: getClientIp(req), email },
+      RATE_LIMITS,
+    );
+    if (retryAfter) {
+      return tooManyRequests(retryAfter, corsHeaders, "Too many sign-up attempts. Please try again later.");
+    }
 
     // Force the redirect URL to the canonical domain regardless of what the
     // client sends — prevents redirect hijacking.
-    const safeRedirect = emailRedirectTo?.startsWith(siteUrl)
-      ? emailRedirectTo
-      : `${siteUrl}/verify-email`;
+    const safeRedirect = safeRedirectUrl(emailRedirectTo, "/verify-email");
 
     const { data, error } = await supabase.auth.signUp({
-      email: email.trim(),
+      email,
       password,
       options: {
         emailRedirectTo: safeRedirect,
@@ -0,0 +1,192 @@
+/**
+ * Edge function: contact-inbound
+ * Receives email replies to contact threads from the inbound mail route (an email worker or
+ * the mail provider's inbound webhook, mapped to the payload below) and adds them to the thread.
+ *
+ * The submission is found from the reply token in a recipient address (see
+ * _shared/contactThread.ts), falling back to the Message-IDs in In-Reply-To / References.
+ * Message-IDs travel in plain headers, so that fallback only counts when the mail comes from
+ * the submission's own address.
+ * Quoted history below the reply is dropped. Unmatched mail is acknowledged and ignored so the
+ * route doesn't retry it; the same Message-ID is only recorded once.
+ *
+ * Requires INBOUND_EMAIL_SECRET, sent as the x-inbound-secret header.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  extractReplyToken,
+  MAX_MESSAGE_LENGTH,
+  notifyTeamOfSenderReply,
+  recordSenderReply,
+  type ContactSubmission,
+} from "../_shared/contactThread.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
+import { secretMatches } from "../_shared/signedToken.ts";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+interface InboundEmail {
+  from: string;
+  to: string | string[];
+  subject?: string;
+  text?: string;
+  html?: string;
+  message_id?: string;
+  in_reply_to?: string;
+  references?: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: JSON_HEADERS });
+
+const MESSAGE_ID_PATTERN = /<[^<>\s]+>/g;
+
+// Lines that start the quoted original in common mail clients
+const QUOTE_MARKERS = [
+  /^On .+ wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{5,}$/,
+  /^From: .+$/,
+];
+
+/** The new part of a reply: everything above the quoted history and signature separator. */
+const stripQuotedReply = (text: string) => {
+  const kept: string[] = [];
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === "--" || QUOTE_MARKERS.some((marker) => marker.test(trimmed))) break;
+    if (trimmed.startsWith(">")) continue;
+    kept.push(line);
+  }
+  return kept.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+};
+
+const htmlToText = (html: string) =>
+  html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const addressOf = (value: string) => (value.match(/<([^>]+)>/)?.[1] ?? value).trim().toLowerCase();
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    // Step 1: Authenticate the inbound route
+    const inboundSecret = Deno.env.get("INBOUND_EMAIL_SECRET");
+    if (!inboundSecret) {
+      console.error("INBOUND_EMAIL_SECRET not configured");
+      return json({ error: "Inbound email not configured" }, 500);
+    }
+    if (!(await secretMatches(req.headers.get("x-inbound-secret"), inboundSecret))) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const email: InboundEmail = await req.json();
+    if (!email?.from || !email.to) return json({ error: "from and to are required" }, 400);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const messageId = email.message_id?.match(MESSAGE_ID_PATTERN)?.[0] ?? null;
+
+    // Step 2: Ignore redeliveries of a message already on a thread
+    if (messageId) {
+      const { data: existing } = await supabaseService
+        .from("contact_messages")
+        .select("id")
+        .eq("email_message_id", messageId)
+        .limit(1)
+        .maybeSingle();
+      if (existing) return json({ success: true, duplicate: true });
+    }
+
+    // Step 3: Attribute the email to a submission
+    const submissionColumns = "id, name, email, message, status, user_id, reply_token";
+    let submission: ContactSubmission | null = null;
+
+    const replyToken = extractReplyToken(Array.isArray(email.to) ? email.to : [email.to]);
+    if (replyToken) {
+      const { data } = await supabaseService
+        .from("contact_submissions")
+        .select(submissionColumns)
+        .eq("reply_token", replyToken)
+        .maybeSingle<ContactSubmission>();
+      submission = data;
+    }
+
+    const referencedIds = [
+      ...(email.in_reply_to?.match(MESSAGE_ID_PATTERN) ?? []),
+      ...(email.references?.match(MESSAGE_ID_PATTERN) ?? []),
+    ];
+    if (!submission && referencedIds.length > 0) {
+      const { data: referenced } = await supabaseService
+        .from("contact_messages")
+        .select("submission_id")
+        .in("email_message_id", referencedIds)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (referenced) {
+        const { data } = await supabaseService
+          .from("contact_submissions")
+          .select(submissionColumns)
+          .eq("id", referenced.submission_id)
+          .maybeSingle<ContactSubmission>();
+
+        // Anyone can quote a Message-ID; only the person who wrote in may reply through it
+        if (data && data.email.trim().toLowerCase() === addressOf(email.from)) {
+          submission = data;
+        } else if (data) {
+          console.warn(`Inbound email from ${addressOf(email.from)} quoted another sender's thread`);
+        }
+      }
+    }
+
+    if (!submission) {
+      console.log(`Inbound email from ${addressOf(email.from)} matched no contact thread`);
+      return json({ success: true, matched: false });
+    }
+
+    // Step 4: Keep only the new text of the reply
+    const body = stripQuotedReply(email.text || htmlToText(email.html || "")).slice(0, MAX_MESSAGE_LENGTH);
+    if (!body) return json({ success: true, matched: true, empty: true });
+
+    // Step 5: Record it and let the team know
+    const message = await recordSenderReply(supabaseService, submission, {
+      body,
+      channel: "email",
+      fromAddress: addressOf(email.from),
+      emailMessageId: messageId,
+    });
+
+    const mailTransport = getMailTransport();
+    if (mailTransport) {
+      await notifyTeamOfSenderReply(
+        supabaseService,
+        mailTransport,
+        getMailFrom("Horalix <notifications@horalix.com>"),
+        submission,
+        body,
+        siteUrl,
+      );
+    }
+
+    return json({ success: true, matched: true, message_id: message.id });
+  } catch (error: unknown) {
+    console.error("Error in contact-inbound:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
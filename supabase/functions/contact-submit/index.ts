@@ -0,0 +1,191 @@
+/**
+ * Edge function: contact-submit
+ * Public contact form, no account needed. Signed-in visitors' submissions are linked to
+ * their account so they show up on the submissions page, and always use the account's
+ * email address so nobody can open a thread in someone else's name.
+ *
+ * Actions:
+ * - challenge: a signed form challenge (_shared/formChallenge.ts), fetched when the form is
+ *              first used. Includes a proof of work when CONTACT_POW_DIFFICULTY is set (bits,
+ *              e.g. 16; unset or 0 turns it off)
+ * - submit:    checks the honeypot, that the form took at least a few seconds, the proof of
+ *              work and the rate limits, then saves the submission and sends the team
+ *              notification and sender confirmation
+ *
+ * Rate limits (_shared/rateLimit.ts): 5 submissions per IP per hour and 3 per email address
+ * per day; over the limit answers 429 with Retry-After. Bots that fill the honeypot get a
+ * success response and nothing is saved.
+ *
+ * Requires CONTACT_FORM_SECRET and mail transport settings (_shared/mail.ts).
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { sendSubmissionNotifications, type ContactSubmission } from "../_shared/contactThread.ts";
+import { getChallengeDifficulty, issueFormChallenge, verifyFormChallenge } from "../_shared/formChallenge.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
+import { getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const FORM_NAME = "contact";
+const MIN_FILL_SECONDS = 3;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const RATE_LIMITS: RateLimitRule[] = [
+  { actor: "ip", max: 5, windowSeconds: 60 * 60 },
+  { actor: "email", max: 3, windowSeconds: 24 * 60 * 60 },
+];
+
+interface SubmitRequest {
+  action: "challenge" | "submit";
+  name?: string;
+  email?: string;
+  message?: string;
+  token?: string;
+  nonce?: string;
+  /** Honeypot: hidden from people, filled in by bots */
+  website?: string;
+}
+
+const sha256Hex = async (value: string) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const submittedResponse = () =>
+    json({ success: true, message: "Your inquiry has been received. We'll respond shortly." });
+
+  try {
+    // Step 1: Validate configuration
+    const formSecret = Deno.env.get("CONTACT_FORM_SECRET");
+    if (!formSecret) {
+      console.error("CONTACT_FORM_SECRET not configured");
+      return json({ error: "Contact form not configured" }, 500);
+    }
+
+    const body: SubmitRequest = await req.json();
+
+    // Step 2: Hand out a challenge when the form is first used
+    if (body.action === "challenge") {
+      return json(await issueFormChallenge(FORM_NAME, getChallengeDifficulty("CONTACT_POW_DIFFICULTY"), formSecret));
+    }
+    if (body.action !== "submit") return json({ error: "Unknown action" }, 400);
+
+    // Step 3: Bot checks - honeypot, timing, proof of work
+    if (body.website) return submittedResponse();
+
+    const challenge = await verifyFormChallenge(FORM_NAME, body.token, body.nonce, formSecret, MIN_FILL_SECONDS);
+    if (!challenge.ok) {
+      const messages = {
+        invalid: "This form has expired. Please reload the page and try again.",
+        too_fast: "That was quick! Please take a moment and submit again.",
+        proof_of_work: "Your browser couldn't verify this submission. Please try again.",
+      };
+      return json({ error: messages[challenge.reason], code: challenge.reason }, 400);
+    }
+
+    // Step 4: Validate input (same limits as the form)
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    let email = typeof body.email === "string" ? body.email.trim() : "";
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+
+    if (!name || name.length > 100) return json({ error: "Please enter your name (up to 100 characters)." }, 400);
+    if (!email || email.length > 255 || !EMAIL_PATTERN.test(email)) {
+      return json({ error: "Please enter a valid email address." }, 400);
+    }
+    if (!message || message.length > 2000) {
+      return json({ error: "Please enter a message (up to 2000 characters)." }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 5: Link signed-in visitors (the anon key alone is not a user). Their submission
+    // uses the account's address, so replies and the thread stay with the account owner.
+    let userId: string | null = null;
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user } } = await supabaseAuth.auth.getUser();
+      if (user?.email) {
+        userId = user.id;
+        email = user.email;
+      }
+    }
+
+    // Step 6: Rate limit per IP and per email address
+    const clientIp = getClientIp(req);
+    const retryAfter = await hitRateLimit(supabaseService, "contact-submit", { ip: clientIp, email }, RATE_LIMITS);
+    if (retryAfter) {
+      return tooManyRequests(retryAfter, corsHeaders, "Too many messages. Please try again later or email us directly.");
+    }
+    const clientIpHash = clientIp ? await sha256Hex(clientIp) : null;
+
+    // Step 7: Save the submission; a reused challenge hits the unique form_token_id
+    const { data: submission, error: insertError } = await supabaseService
+      .from("contact_submissions")
+      .insert({
+        name,
+        email,
+        message,
+        user_id: userId,
+        client_ip_hash: clientIpHash,
+        form_token_id: challenge.id,
+      })
+      .select("id, name, email, message, status, user_id, reply_token, created_at")
+      .single<ContactSubmission & { created_at: string }>();
+
+    if (insertError?.code === "23505") {
+      return json({ error: "This form was already submitted. Please reload the page to send another message." }, 409);
+    }
+    if (insertError || !submission) {
+      console.error("Error saving contact submission:", insertError);
+      return json({ error: "Unable to send message. Please try again later." }, 500);
+    }
+
+    // Step 8: Notify the team and confirm to the sender
+    const mailTransport = getMailTransport();
+    if (!mailTransport) {
+      return json({ success: true, submission_id: submission.id, team_notified: false, user_notified: false });
+    }
+
+    const { teamNotified, userNotified } = await sendSubmissionNotifications(
+      supabaseService,
+      mailTransport,
+      getMailFrom("Horalix <notifications@horalix.com>"),
+      submission,
+      Deno.env.get("SITE_URL") || "https://horalix.com",
+    );
+
+    return json({
+      success: true,
+      message: "Your inquiry has been received. We'll respond shortly.",
+      submission_id: submission.id,
+      team_notified: teamNotified,
+      user_notified: userNotified,
+    });
+  } catch (error: unknown) {
+    console.error("Error in contact-submit:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,219 @@
+/**
+ * Edge function: contact-thread
+ * Adds messages to a contact submission's thread.
+ *
+ * Actions:
+ * - reply (admin):         emails the reply to the sender (contact_reply template), records it
+ *                          and marks the submission responded. The message is kept even if the
+ *                          email fails, flagged so the admin can see it wasn't delivered.
+ * - sender_reply (owner):  the signed-in sender answers from their submissions page; the team is
+ *                          notified (contact_sender_reply template) and the submission reopened.
+ *
+ * Replies by email arrive through contact-inbound instead. Requires mail transport settings
+ * (_shared/mail.ts); CONTACT_REPLY_ADDRESS enables answering by email (see _shared/contactThread.ts).
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import {
+  createMessageId,
+  getReplyAddress,
+  MAX_MESSAGE_LENGTH,
+  notifyTeamOfSenderReply,
+  recordSenderReply,
+  type ContactSubmission,
+} from "../_shared/contactThread.ts";
+import { renderTransactionalEmail } from "../_shared/emailTemplates.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
+
+interface ThreadRequest {
+  action: "reply" | "sender_reply";
+  submission_id: string;
+  body: string;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Validate configuration
+    const mailTransport = getMailTransport();
+    const mailFrom = getMailFrom("Horalix <notifications@horalix.com>");
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!mailTransport) return json({ error: "Email delivery not configured" }, 500);
+
+    // Step 2: Authenticate the caller
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Missing authorization header" }, 401);
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) return json({ error: "Unauthorized" }, 401);
+
+    // Step 3: Validate input and load the submission
+    const { action, submission_id, body: rawBody }: ThreadRequest = await req.json();
+    const body = typeof rawBody === "string" ? rawBody.trim() : "";
+
+    if (action !== "reply" && action !== "sender_reply") return json({ error: "Unknown action" }, 400);
+    if (!submission_id) return json({ error: "submission_id is required" }, 400);
+    if (!body) return json({ error: "Write a message first" }, 400);
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return json({ error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` }, 400);
+    }
+
+    const { data: submission, error: fetchError } = await supabaseService
+      .from("contact_submissions")
+      .select("id, name, email, message, status, user_id, reply_token")
+      .eq("id", submission_id)
+      .maybeSingle<ContactSubmission>();
+
+    if (fetchError) {
+      console.error("Error loading submission:", fetchError);
+      return json({ error: "Failed to load submission" }, 500);
+    }
+    if (!submission) return json({ error: "Submission not found" }, 404);
+
+    // Step 4a: The sender answers from their submissions page
+    if (action === "sender_reply") {
+      if (submission.user_id !== user.id) return json({ error: "Forbidden" }, 403);
+
+      const message = await recordSenderReply(supabaseService, submission, {
+        body,
+        channel: "portal",
+        authorId: user.id,
+      });
+      const teamNotified = await notifyTeamOfSenderReply(
+        supabaseService,
+        mailTransport,
+        mailFrom,
+        submission,
+        body,
+        siteUrl,
+      );
+
+      return json({ ok: true, message_id: message.id, team_notified: teamNotified });
+    }
+
+    // Step 4b: Staff reply - contacts are admin-only
+    const { data: roleData, error: roleError } = await supabaseService
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .limit(1)
+      .maybeSingle();
+
+    if (roleError) return json({ error: "Unable to verify role" }, 500);
+    if (!roleData) return json({ error: "Forbidden - Admin access required" }, 403);
+    if (!hasMfaSession(authHeader)) return json(MFA_REQUIRED_RESPONSE, 403);
+
+    const { data: profile } = await supabaseService
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    // Step 5: Email the reply, threaded under the sender's latest emailed message
+    const { data: lastEmailed } = await supabaseService
+      .from("contact_messages")
+      .select("email_message_id")
+      .eq("submission_id", submission.id)
+      .not("email_message_id", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const email = await renderTransactionalEmail(
+      supabaseService,
+      "contact_reply",
+      {
+        name: submission.name,
+        reply: body,
+        excerpt: `${submission.message.substring(0, 200)}${submission.message.length > 200 ? "..." : ""}`,
+        submissionsUrl: `${siteUrl}/profile/submissions`,
+      },
+      siteUrl,
+    );
+
+    const emailMessageId = createMessageId(mailFrom);
+    const headers: Record<string, string> = { "Message-ID": emailMessageId };
+    if (lastEmailed?.email_message_id) {
+      headers["In-Reply-To"] = lastEmailed.email_message_id;
+      headers["References"] = lastEmailed.email_message_id;
+    }
+
+    const emailResult = await mailTransport.send({
+      from: mailFrom,
+      to: [submission.email],
+      replyTo: getReplyAddress(submission.reply_token) ?? undefined,
+      headers,
+      ...email,
+    });
+    if (!emailResult.ok) console.error(`${mailTransport.name} error:`, emailResult.error);
+
+    // Step 6: Record the message and mark the submission responded
+    const { data: message, error: insertError } = await supabaseService
+      .from("contact_messages")
+      .insert({
+        submission_id: submission.id,
+        sender: "staff",
+        channel: "admin",
+        body,
+        author_id: user.id,
+        author_name: profile?.full_name || user.email,
+        from_address: mailFrom,
+        email_message_id: emailResult.ok ? emailMessageId : null,
+        email_status: emailResult.ok ? "sent" : "failed",
+        email_error: emailResult.ok ? null : emailResult.error,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Error recording reply:", insertError);
+      return json({ error: "Failed to record reply" }, 500);
+    }
+
+    const { error: statusError } = await supabaseService
+      .from("contact_submissions")
+      .update({
+        status: "responded",
+        responded_at: new Date().toISOString(),
+        responded_by: user.id,
+      })
+      .eq("id", submission.id);
+    if (statusError) console.error("Error marking submission responded:", statusError);
+
+    return json({
+      ok: true,
+      message_id: message.id,
+      email_sent: emailResult.ok,
+      error: emailResult.ok ? undefined : "The reply was saved, but the email could not be sent",
+    });
+  } catch (error: unknown) {
+    console.error("Error in contact-thread:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
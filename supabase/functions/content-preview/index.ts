@@ -0,0 +1,182 @@
+/**
+ * Edge function: content-preview
+ * Issues and resolves signed, expiring preview links for unpublished news articles and resources
+ *
+ * - action "create": admins/editors get a token for one record (default 72h, max 14 days)
+ * - action "resolve": anyone holding a valid token gets that record, published or not,
+ *   so reviewers without admin accounts can check a draft on the real page (only the
+ *   columns the page renders)
+ *
+ * Tokens are HMAC-signed with PREVIEW_TOKEN_SECRET and name a single record; rotating
+ * the secret revokes every outstanding link.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import { signToken, verifyToken } from "../_shared/signedToken.ts";
+
+const PREVIEW_TABLES = ["news_articles", "resources"] as const;
+type PreviewTable = (typeof PREVIEW_TABLES)[number];
+
+// What the public detail pages render; workflow columns (reviewer, review notes, submitter,
+// workflow status) stay internal even for link holders
+const PREVIEW_COLUMNS: Record<PreviewTable, string> = {
+  news_articles:
+    "id, slug, title, summary, content, category, location, image_urls, image_focus, display_date, " +
+    "published_at, content_updated_at, is_published",
+  resources:
+    "id, slug, title, summary, content, content_type, hero_kicker, audience, topic_cluster, primary_keyword, " +
+    "secondary_keywords, region_scope, author_id, hero_image_url, published_at, created_at, content_updated_at, " +
+    "seo_title, seo_description, canonical_path, solution_slugs, related_resource_slugs, source_ids, " +
+    "key_takeaways, sections, cited_claims, cta_title, is_published",
+};
+
+const DEFAULT_TTL_HOURS = 72;
+const MAX_TTL_HOURS = 24 * 14;
+
+interface PreviewTokenPayload {
+  table: PreviewTable;
+  id: string;
+  exp: number;
+}
+
+interface PreviewRequest {
+  action: "create" | "resolve";
+  table?: string;
+  record_id?: string;
+  expires_in_hours?: number;
+  token?: string;
+}
+
+const isPreviewTable = (value: unknown): value is PreviewTable =>
+  typeof value === "string" && (PREVIEW_TABLES as readonly string[]).includes(value);
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Validate secrets and parse the request
+    const previewSecret = Deno.env.get("PREVIEW_TOKEN_SECRET");
+    if (!previewSecret) {
+      console.error("PREVIEW_TOKEN_SECRET not configured");
+      return json({ error: "Preview links are not configured" }, 500);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body: PreviewRequest = await req.json();
+
+    // Step 2: Resolve a token to its record (no account required)
+    if (body.action === "resolve") {
+      const payload = body.token ? await verifyToken<PreviewTokenPayload>(body.token, previewSecret) : null;
+      if (!payload || !isPreviewTable(payload.table)) {
+        return json({ error: "Preview link is invalid or has expired" }, 404);
+      }
+
+      const { data: record, error: recordError } = await supabaseService
+        .from(payload.table)
+        .select(PREVIEW_COLUMNS[payload.table])
+        .eq("id", payload.id)
+        .maybeSingle();
+
+      if (recordError || !record) {
+        return json({ error: "Preview link is invalid or has expired" }, 404);
+      }
+
+      return json({
+        table: payload.table,
+        record,
+        expires_at: new Date(payload.exp * 1000).toISOString(),
+      });
+    }
+
+    if (body.action !== "create") {
+      return json({ error: "Unknown action" }, 400);
+    }
+
+    // Step 3: Creating links requires a staff role (viewers review drafts too)
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: roleData, error: roleError } = await supabaseService
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .in("role", ["admin", "editor", "viewer"])
+      .limit(1)
+      .maybeSingle();
+
+    if (roleError) {
+      return json({ error: "Unable to verify role" }, 500);
+    }
+
+    if (!roleData) {
+      return json({ error: "Forbidden - Staff access required" }, 403);
+    }
+
+    // Viewers sign in with a password only; admins and editors need 2FA
+    if (roleData.role !== "viewer" && !hasMfaSession(authHeader)) {
+      return json(MFA_REQUIRED_RESPONSE, 403);
+    }
+
+    // Step 4: Validate the target record
+    if (!isPreviewTable(body.table) || !body.record_id) {
+      return json({ error: "table and record_id are required" }, 400);
+    }
+
+    const { data: record, error: recordError } = await supabaseService
+      .from(body.table)
+      .select("id, slug")
+      .eq("id", body.record_id)
+      .maybeSingle();
+
+    if (recordError || !record) {
+      return json({ error: "Record not found" }, 404);
+    }
+
+    // Step 5: Sign the token
+    const ttlHours = Math.min(Math.max(Number(body.expires_in_hours) || DEFAULT_TTL_HOURS, 1), MAX_TTL_HOURS);
+    const exp = Math.floor(Date.now() / 1000) + Math.round(ttlHours * 3600);
+    const token = await signToken<PreviewTokenPayload>({ table: body.table, id: record.id, exp }, previewSecret);
+
+    console.log(`Preview link created for ${body.table}/${record.slug} by ${user.id}, expires in ${ttlHours}h`);
+
+    return json({
+      token,
+      slug: record.slug,
+      expires_at: new Date(exp * 1000).toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error("Error in content-preview:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
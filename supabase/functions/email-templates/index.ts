@@ -0,0 +1,93 @@
+/**
+ * Edge function: email-templates
+ * Backs the email templates admin. Templates are defined in _shared/emailTemplates.ts; the
+ * CMS saves copy straight to the email_templates table and uses this function for the rest.
+ *
+ * Actions (admin/editor):
+ * - definitions: every template's name, description, variables and default copy
+ * - preview:     renders the given (possibly unsaved) copy with the template's sample data
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import {
+  isEmailTemplateKey,
+  listEmailTemplates,
+  renderEmailPreview,
+  resolveEmailCopy,
+  type EmailCopy,
+} from "../_shared/emailTemplates.ts";
+
+interface TemplatesRequest {
+  action: "definitions" | "preview";
+  key?: string;
+  copy?: Partial<EmailCopy>;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Initialize Supabase clients
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 2: Verify the caller is an admin or editor
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Missing authorization header" }, 401);
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) return json({ error: "Unauthorized" }, 401);
+
+    const { data: roleData, error: roleError } = await supabaseService
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .in("role", ["admin", "editor"])
+      .limit(1)
+      .maybeSingle();
+
+    if (roleError) return json({ error: "Unable to verify role" }, 500);
+    if (!roleData) return json({ error: "Forbidden - Editor access required" }, 403);
+    if (!hasMfaSession(authHeader)) return json(MFA_REQUIRED_RESPONSE, 403);
+
+    // Step 3: Handle the action
+    const body: TemplatesRequest = await req.json();
+
+    if (body.action === "definitions") {
+      return json({ templates: listEmailTemplates() });
+    }
+
+    if (body.action === "preview") {
+      if (!isEmailTemplateKey(body.key)) return json({ error: "Unknown template" }, 400);
+
+      return json(renderEmailPreview(body.key, resolveEmailCopy(body.key, body.copy ?? null), siteUrl));
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in email-templates:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,237 @@
+/**
+ * Edge function: manage-user-roles
+ * Backs the /admin/users screen: invite staff by email, change a user's role, or revoke access
+ *
+ * - action "invite": invites a new account (or reuses an existing one) and grants the role
+ * - action "set_role": replaces the user's staff roles with a single role
+ * - action "revoke": removes every staff role from the user
+ * - action "reset_mfa": removes the user's authenticator and recovery codes (lost device);
+ *                       they enrol again at their next sign-in
+ *
+ * Admin only. Never leaves the site without an admin, and every change is written to
+ * user_role_changes with the acting admin.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+
+const STAFF_ROLES = ["admin", "editor", "viewer"] as const;
+type StaffRole = (typeof STAFF_ROLES)[number];
+
+interface ManageRolesRequest {
+  action: "invite" | "set_role" | "revoke" | "reset_mfa";
+  email?: string;
+  user_id?: string;
+  role?: string;
+}
+
+const isStaffRole = (value: unknown): value is StaffRole =>
+  typeof value === "string" && (STAFF_ROLES as readonly string[]).includes(value);
+
+// set_staff_role() raises restrict_violation instead of removing the last admin
+const LAST_ADMIN_ERROR_CODE = "23001";
+
+// Highest role wins when a user holds several
+const primaryRole = (roles: StaffRole[]): StaffRole | null =>
+  STAFF_ROLES.find((role) => roles.includes(role)) ?? null;
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Verify the caller is an admin
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: adminRole, error: roleError } = await supabaseService
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .limit(1)
+      .maybeSingle();
+
+    if (roleError) {
+      return json({ error: "Unable to verify role" }, 500);
+    }
+
+    if (!adminRole) {
+      return json({ error: "Forbidden - Admin access required" }, 403);
+    }
+
+    if (!hasMfaSession(authHeader)) {
+      return json(MFA_REQUIRED_RESPONSE, 403);
+    }
+
+    const body: ManageRolesRequest = await req.json();
+
+    if (body.action !== "revoke" && body.action !== "reset_mfa" && !isStaffRole(body.role)) {
+      return json({ error: "role must be admin, editor or viewer" }, 400);
+    }
+
+    // Step 2: Resolve the target account
+    let targetUserId = body.user_id ?? null;
+    let targetEmail: string | null = null;
+    let invited = false;
+
+    if (body.action === "invite") {
+      const email = body.email?.trim().toLowerCase();
+      if (!email || !email.includes("@")) {
+        return json({ error: "A valid email is required" }, 400);
+      }
+      targetEmail = email;
+
+      const { data: existingProfile } = await supabaseService
+        .from("profiles")
+        .select("user_id")
+        .ilike("email", email.replace(/[\\%_]/g, "\\$&"))
+        .limit(1)
+        .maybeSingle();
+
+      if (existingProfile) {
+        targetUserId = existingProfile.user_id;
+      } else {
+        const { data: inviteData, error: inviteError } = await supabaseService.auth.admin.inviteUserByEmail(email, {
+          redirectTo: `${siteUrl}/admin`,
+        });
+        if (inviteError || !inviteData.user) {
+          console.error("Invite failed:", inviteError);
+          return json({ error: inviteError?.message || "Failed to send invite" }, 400);
+        }
+        targetUserId = inviteData.user.id;
+        invited = true;
+      }
+    } else if (!targetUserId) {
+      return json({ error: "user_id is required" }, 400);
+    } else {
+      const { data: profile } = await supabaseService
+        .from("profiles")
+        .select("email")
+        .eq("user_id", targetUserId)
+        .maybeSingle();
+      targetEmail = profile?.email ?? null;
+    }
+
+    // Step 2b: Reset 2FA instead of changing roles
+    if (body.action === "reset_mfa") {
+      if (targetUserId === user.id) {
+        return json({ error: "Manage your own authenticator from the two-factor page" }, 400);
+      }
+
+      const { data: factorData, error: factorsError } = await supabaseService.auth.admin.mfa.listFactors({
+        userId: targetUserId,
+      });
+      if (factorsError) throw factorsError;
+
+      for (const factor of factorData.factors) {
+        const { error: deleteFactorError } = await supabaseService.auth.admin.mfa.deleteFactor({
+          id: factor.id,
+          userId: targetUserId,
+        });
+        if (deleteFactorError) throw deleteFactorError;
+      }
+
+      const { error: codesError } = await supabaseService
+        .from("mfa_recovery_codes")
+        .delete()
+        .eq("user_id", targetUserId);
+      if (codesError) throw codesError;
+
+      const { error: logError } = await supabaseService.from("user_role_changes").insert({
+        actor_id: user.id,
+        actor_email: user.email ?? null,
+        target_user_id: targetUserId,
+        target_email: targetEmail,
+        action: "reset_mfa",
+      });
+      if (logError) console.error("Failed to log 2FA reset:", logError);
+
+      console.log(`2FA reset by ${user.id}: ${targetUserId}`);
+      return json({ success: true, action: "reset_mfa", user_id: targetUserId });
+    }
+
+    // Step 3: Work out the change
+    const { data: currentRows, error: currentError } = await supabaseService
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", targetUserId);
+
+    if (currentError) throw currentError;
+
+    const currentRoles = (currentRows ?? []).map((row) => row.role as StaffRole);
+    const nextRole = body.action === "revoke" ? null : (body.role as StaffRole);
+
+    if (primaryRole(currentRoles) === nextRole && currentRoles.length <= 1) {
+      return json({ success: true, unchanged: true });
+    }
+
+    // Step 4: Apply the change in one transaction; the database refuses to remove the last admin
+    const { data: replacedRoles, error: setRoleError } = await supabaseService.rpc("set_staff_role", {
+      _user_id: targetUserId,
+      _role: nextRole,
+    });
+
+    if (setRoleError?.code === LAST_ADMIN_ERROR_CODE) {
+      return json({ error: "At least one admin must remain" }, 409);
+    }
+    if (setRoleError) throw setRoleError;
+
+    // Step 5: Record who changed what, against the roles the change actually replaced
+    const previousRole = primaryRole((replacedRoles ?? []) as StaffRole[]);
+    const logAction = invited ? "invite" : !nextRole ? "revoke" : previousRole ? "change" : "grant";
+    const { error: logError } = await supabaseService.from("user_role_changes").insert({
+      actor_id: user.id,
+      actor_email: user.email ?? null,
+      target_user_id: targetUserId,
+      target_email: targetEmail,
+      action: logAction,
+      previous_role: previousRole,
+      new_role: nextRole,
+    });
+
+    if (logError) {
+      console.error("Failed to log role change:", logError);
+    }
+
+    console.log(`Role ${logAction} by ${user.id}: ${targetUserId} ${previousRole ?? "none"} -> ${nextRole ?? "none"}`);
+
+    return json({ success: true, action: logAction, user_id: targetUserId, role: nextRole });
+  } catch (error: unknown) {
+    console.error("Error in manage-user-roles:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
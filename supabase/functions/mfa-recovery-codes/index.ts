@@ -0,0 +1,172 @@
+/**
+ * Edge function: mfa-recovery-codes
+ * One-time recovery codes for staff two-factor authentication (see the staff_mfa migration).
+ *
+ * Actions:
+ * - status:   how many unused codes the caller has left
+ * - generate: replaces the caller's codes with new ones, shown once. Needs an AAL2 session,
+ *             i.e. an authenticator code was just entered
+ * - redeem:   for a caller signed in with their password who lost their authenticator. A valid
+ *             unused code removes their TOTP factors so they can enrol a new one. Wrong codes
+ *             are rate limited per user (_shared/rateLimit.ts)
+ *
+ * Codes are stored as SHA-256 of "<user id>:<code>" and can each be used once.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import { checkRateLimit, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const CODE_COUNT = 10;
+const CODE_LENGTH = 10;
+// No 0/o, 1/i/l: codes are typed from a printout
+const CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const REDEEM_RATE_LIMITS: RateLimitRule[] = [{ actor: "user", max: 5, windowSeconds: 60 * 60 }];
+const REDEEM_RATE_LIMIT_MESSAGE =
+  "Too many wrong recovery codes. Please try again later or ask an admin to reset your two-factor authentication.";
+
+interface RecoveryRequest {
+  action: "status" | "generate" | "redeem";
+  code?: string;
+}
+
+const sha256Hex = async (value: string) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const normalizeCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function generateCode(): string {
+  let code = "";
+  while (code.length < CODE_LENGTH) {
+    const [byte] = crypto.getRandomValues(new Uint8Array(1));
+    // Skip the top of the byte range so every character is equally likely
+    if (byte < CODE_ALPHABET.length * Math.floor(256 / CODE_ALPHABET.length)) {
+      code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+    }
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Authenticate the caller
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Missing authorization header" }, 401);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) return json({ error: "Unauthorized" }, 401);
+
+    const body: RecoveryRequest = await req.json();
+
+    const countRemaining = async () => {
+      const { count, error } = await supabaseService
+        .from("mfa_recovery_codes")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("used_at", null);
+      if (error) throw error;
+      return count ?? 0;
+    };
+
+    // Step 2: Handle the action
+    if (body.action === "status") {
+      return json({ remaining: await countRemaining() });
+    }
+
+    if (body.action === "generate") {
+      if (!hasMfaSession(authHeader)) return json(MFA_REQUIRED_RESPONSE, 403);
+
+      const codes = Array.from({ length: CODE_COUNT }, generateCode);
+      const rows = await Promise.all(
+        codes.map(async (code) => ({
+          user_id: user.id,
+          code_hash: await sha256Hex(`${user.id}:${normalizeCode(code)}`),
+        })),
+      );
+
+      const { error: deleteError } = await supabaseService.from("mfa_recovery_codes").delete().eq("user_id", user.id);
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabaseService.from("mfa_recovery_codes").insert(rows);
+      if (insertError) throw insertError;
+
+      return json({ codes });
+    }
+
+    if (body.action === "redeem") {
+      const code = typeof body.code === "string" ? normalizeCode(body.code) : "";
+      if (code.length !== CODE_LENGTH) return json({ error: "Enter one of your recovery codes" }, 400);
+
+      const actors = { user: user.id };
+      const retryAfter = await checkRateLimit(supabaseService, "mfa-recovery-redeem", actors, REDEEM_RATE_LIMITS);
+      if (retryAfter) return tooManyRequests(retryAfter, corsHeaders, REDEEM_RATE_LIMIT_MESSAGE);
+
+      const { data: used, error: useError } = await supabaseService
+        .from("mfa_recovery_codes")
+        .update({ used_at: new Date().toISOString() })
+        .eq("user_id", user.id)
+        .eq("code_hash", await sha256Hex(`${user.id}:${code}`))
+        .is("used_at", null)
+        .select("id");
+      if (useError) throw useError;
+      if (!used || used.length === 0) {
+        const lockedFor = await hitRateLimit(supabaseService, "mfa-recovery-redeem", actors, REDEEM_RATE_LIMITS);
+        if (lockedFor) return tooManyRequests(lockedFor, corsHeaders, REDEEM_RATE_LIMIT_MESSAGE);
+        return json({ error: "That recovery code is not valid or was already used" }, 400);
+      }
+
+      // The lost authenticator goes; the next sign-in enrols a new one
+      const { data: factorData, error: factorsError } = await supabaseService.auth.admin.mfa.listFactors({
+        userId: user.id,
+      });
+      if (factorsError) throw factorsError;
+
+      for (const factor of factorData.factors) {
+        const { error: deleteFactorError } = await supabaseService.auth.admin.mfa.deleteFactor({
+          id: factor.id,
+          userId: user.id,
+        });
+        if (deleteFactorError) throw deleteFactorError;
+      }
+
+      console.log(`Recovery code used by ${user.id}`);
+      return json({ success: true, remaining: await countRemaining() });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in mfa-recovery-codes:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,264 @@
+/**
+ * Edge function: newsletter-campaign
+ * Preview, test-send and send digest campaigns composed in the admin.
+ *
+ * Actions (admin/editor):
+ * - preview: renders the campaign and counts the subscribers in its topic and segment
+ * - test:    sends the rendered campaign to the caller's own address only
+ * - send:    marks the campaign sent and enqueues it for newsletter-worker
+ *
+ * Scheduled campaigns are sent by publish-scheduled, which calls "send" with SCHEDULER_SECRET.
+ * Only news articles and resources that are live at render time are included.
+ *
+ * Test sends need UNSUBSCRIBE_TOKEN_SECRET and mail transport settings (_shared/mail.ts).
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
+import {
+  renderDigestEmail,
+  UNSUBSCRIBE_PLACEHOLDER,
+  type NewsletterArticle,
+  type NewsletterResource,
+} from "../_shared/newsletterEmail.ts";
+import {
+  enqueueNewsletterSend,
+  fetchSegmentEmails,
+  kickNewsletterWorker,
+  type NewsletterSegment,
+  type NewsletterTopic,
+} from "../_shared/newsletterQueue.ts";
+import { secretMatches } from "../_shared/signedToken.ts";
+import { createUnsubscribeToken } from "../_shared/subscriberToken.ts";
+
+const MAIL_FROM_DEFAULT = "Horalix <newsletter@horalix.com>";
+
+type CampaignAction = "preview" | "test" | "send";
+
+interface CampaignRequest {
+  action: CampaignAction;
+  campaign_id: string;
+}
+
+interface Campaign {
+  id: string;
+  campaign_type: string;
+  subject: string;
+  intro: string;
+  article_ids: string[];
+  resource_ids: string[];
+  topic: NewsletterTopic;
+  segment: NewsletterSegment;
+  segment_subscribed_since: string | null;
+  status: string;
+  scheduled_at: string | null;
+}
+
+// Keeps the editor's chosen order, which .in() does not preserve
+const inOrder = <T extends { id: string }>(ids: string[], rows: T[]) =>
+  ids.map((id) => rows.find((row) => row.id === id)).filter((row): row is T => !!row);
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Scheduler calls come from another edge function and carry no Origin header
+  const schedulerSecret = Deno.env.get("SCHEDULER_SECRET");
+  const isSchedulerCall =
+    !!schedulerSecret && (await secretMatches(req.headers.get("x-scheduler-secret"), schedulerSecret));
+
+  if (!isSchedulerCall) {
+    const originBlock = rejectUnknownOrigin(req);
+    if (originBlock) return originBlock;
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Initialize Supabase clients
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 2: Verify the caller is an admin or editor (the scheduler may only send)
+    const body: CampaignRequest = await req.json();
+    let callerEmail: string | null = null;
+
+    if (isSchedulerCall) {
+      if (body.action !== "send") return json({ error: "Forbidden" }, 403);
+    } else {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) return json({ error: "Missing authorization header" }, 401);
+
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+      if (authError || !user) return json({ error: "Unauthorized" }, 401);
+
+      const { data: roleData, error: roleError } = await supabaseService
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .in("role", ["admin", "editor"])
+        .limit(1)
+        .maybeSingle();
+
+      if (roleError) return json({ error: "Unable to verify role" }, 500);
+      if (!roleData) return json({ error: "Forbidden - Editor access required" }, 403);
+      if (!hasMfaSession(authHeader)) return json(MFA_REQUIRED_RESPONSE, 403);
+      callerEmail = user.email ?? null;
+    }
+
+    if (!["preview", "test", "send"].includes(body.action) || !body.campaign_id) {
+      return json({ error: "action and campaign_id are required" }, 400);
+    }
+
+    // Step 3: Load the campaign and the live content it references
+    const { data: campaign, error: campaignError } = await supabaseService
+      .from("newsletter_campaigns")
+      .select("*")
+      .eq("id", body.campaign_id)
+      .maybeSingle<Campaign>();
+
+    if (campaignError) return json({ error: "Failed to load campaign" }, 500);
+    if (!campaign) return json({ error: "Campaign not found" }, 404);
+    if (campaign.campaign_type !== "digest") {
+      return json({ error: "Article campaigns are sent automatically when the article goes live" }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const [articlesResult, resourcesResult] = await Promise.all([
+      campaign.article_ids.length > 0
+        ? supabaseService
+            .from("news_articles")
+            .select("id, title, slug, summary, content, image_urls")
+            .in("id", campaign.article_ids)
+            .eq("is_published", true)
+            .lte("published_at", now)
+        : Promise.resolve({ data: [], error: null }),
+      campaign.resource_ids.length > 0
+        ? supabaseService
+            .from("resources")
+            .select("id, title, slug, summary, hero_image_url")
+            .in("id", campaign.resource_ids)
+            .eq("is_published", true)
+            .lte("published_at", now)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (articlesResult.error || resourcesResult.error) {
+      console.error("Error loading campaign content:", articlesResult.error ?? resourcesResult.error);
+      return json({ error: "Failed to load campaign content" }, 500);
+    }
+
+    const articles = inOrder(campaign.article_ids, (articlesResult.data ?? []) as (NewsletterArticle & { id: string })[]);
+    const resources = inOrder(
+      campaign.resource_ids,
+      (resourcesResult.data ?? []) as (NewsletterResource & { id: string })[]
+    );
+    const excludedCount =
+      campaign.article_ids.length + campaign.resource_ids.length - articles.length - resources.length;
+
+    if (articles.length === 0 && resources.length === 0 && !campaign.intro.trim()) {
+      return json({ error: "Add an intro or at least one live article or resource" }, 400);
+    }
+
+    const html = renderDigestEmail({ intro: campaign.intro, articles, resources }, siteUrl);
+    const audience = {
+      topic: campaign.topic,
+      segment: campaign.segment,
+      subscribedSince: campaign.segment_subscribed_since,
+    };
+
+    // Step 4a: Preview - rendered email plus the recipient count for the segment
+    if (body.action === "preview") {
+      const recipients = await fetchSegmentEmails(supabaseService, audience);
+      return json({
+        subject: campaign.subject,
+        html: html.split(UNSUBSCRIBE_PLACEHOLDER).join("preview"),
+        recipients: recipients.length,
+        excluded: excludedCount,
+      });
+    }
+
+    // Step 4b: Test send - only ever to the caller
+    if (body.action === "test") {
+      const mailTransport = getMailTransport();
+      const unsubscribeSecret = Deno.env.get("UNSUBSCRIBE_TOKEN_SECRET");
+      if (!mailTransport || !unsubscribeSecret) {
+        return json({ error: "Newsletter delivery not configured" }, 500);
+      }
+      if (!callerEmail) return json({ error: "Your account has no email address" }, 400);
+
+      const unsubscribeToken = await createUnsubscribeToken(callerEmail, unsubscribeSecret);
+      const result = await mailTransport.send({
+        from: getMailFrom(MAIL_FROM_DEFAULT),
+        to: [callerEmail],
+        subject: `[Test] ${campaign.subject}`,
+        html: html.split(UNSUBSCRIBE_PLACEHOLDER).join(encodeURIComponent(unsubscribeToken)),
+      });
+
+      if (!result.ok) {
+        console.error("Test send failed:", result.error);
+        return json({ error: "Test email could not be sent" }, 502);
+      }
+      return json({ success: true, email: callerEmail });
+    }
+
+    // Step 4c: Send - claim the campaign so a double click or overlapping cron run sends once
+    if (isSchedulerCall && (campaign.status !== "scheduled" || !campaign.scheduled_at || campaign.scheduled_at > now)) {
+      return json({ success: true, skipped: true, message: "Campaign is not due" });
+    }
+
+    if (campaign.status === "sent") {
+      const { data: existingSend } = await supabaseService
+        .from("newsletter_sends")
+        .select("total_count, completed_at")
+        .eq("campaign_id", campaign.id)
+        .maybeSingle();
+      if (existingSend && (existingSend.total_count > 0 || existingSend.completed_at)) {
+        return json({ success: true, skipped: true, message: "Campaign already sent" });
+      }
+    } else {
+      const { data: claimed, error: claimError } = await supabaseService
+        .from("newsletter_campaigns")
+        .update({ status: "sent", sent_at: now })
+        .eq("id", campaign.id)
+        .in("status", ["draft", "scheduled"])
+        .select("id")
+        .maybeSingle();
+
+      if (claimError) return json({ error: "Failed to send campaign" }, 500);
+      if (!claimed) return json({ success: true, skipped: true, message: "Campaign already sent" });
+    }
+
+    const emails = await fetchSegmentEmails(supabaseService, audience);
+    const { queued } = await enqueueNewsletterSend(
+      supabaseService,
+      { campaignId: campaign.id, subject: campaign.subject, html },
+      emails
+    );
+
+    if (queued > 0) kickNewsletterWorker();
+
+    console.log(`Campaign ${campaign.id} queued for ${queued} subscribers`);
+
+    return json({ success: true, recipients: queued, excluded: excludedCount });
+  } catch (error: unknown) {
+    console.error("Error in newsletter-campaign:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
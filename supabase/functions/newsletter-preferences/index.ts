@@ -0,0 +1,175 @@
+/**
+ * Edge function: newsletter-preferences
+ * Backs the public /newsletter/confirm and /newsletter/preferences pages. No account is
+ * needed; every action is authorized by a signed subscriber token (_shared/subscriberToken.ts).
+ *
+ * Actions:
+ * - confirm: activates a pending subscription (confirmation token from the opt-in email)
+ * - get:     current status and topics (unsubscribe token from any newsletter email)
+ * - update:  change topics, unsubscribe from everything or resubscribe (unsubscribe token)
+ *
+ * Requires UNSUBSCRIBE_TOKEN_SECRET.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import {
+  createUnsubscribeToken,
+  verifyConfirmationToken,
+  verifyUnsubscribeToken,
+} from "../_shared/subscriberToken.ts";
+
+const TOPICS = ["news", "resources", "product_updates"];
+
+interface PreferencesRequest {
+  action: "confirm" | "get" | "update";
+  token: string;
+  topics?: string[];
+  is_subscribed?: boolean;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    // Step 1: Verify the token for the requested action
+    const tokenSecret = Deno.env.get("UNSUBSCRIBE_TOKEN_SECRET");
+    if (!tokenSecret) {
+      console.error("UNSUBSCRIBE_TOKEN_SECRET not configured");
+      return json({ error: "Newsletter preferences are not available right now." }, 500);
+    }
+
+    const body: PreferencesRequest = await req.json();
+    if (!["confirm", "get", "update"].includes(body.action) || typeof body.token !== "string") {
+      return json({ error: "action and token are required" }, 400);
+    }
+
+    const email = body.action === "confirm"
+      ? await verifyConfirmationToken(body.token, tokenSecret)
+      : await verifyUnsubscribeToken(body.token, tokenSecret);
+
+    if (!email) {
+      return json({ error: "This link is invalid or has expired." }, 400);
+    }
+
+    // Step 2: Initialize Supabase service client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: subscription, error: fetchError } = await supabase
+      .from("newsletter_subscriptions")
+      .select("id, is_subscribed, confirmed_at, topics")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Error loading subscription:", fetchError);
+      return json({ error: "Failed to load subscription" }, 500);
+    }
+
+    const now = new Date().toISOString();
+
+    // Step 3a: Confirm - activate and hand back a preferences token for the next page
+    if (body.action === "confirm") {
+      if (!subscription) return json({ error: "This link is invalid or has expired." }, 400);
+
+      if (!subscription.is_subscribed) {
+        const { error: confirmError } = await supabase
+          .from("newsletter_subscriptions")
+          .update({
+            is_subscribed: true,
+            confirmed_at: now,
+            subscribed_at: now,
+            unsubscribed_at: null,
+          })
+          .eq("id", subscription.id);
+
+        if (confirmError) {
+          console.error("Error confirming subscription:", confirmError);
+          return json({ error: "Failed to confirm subscription" }, 500);
+        }
+        console.log(`Newsletter subscription confirmed: ${email}`);
+      }
+
+      return json({
+        success: true,
+        email,
+        preferences_token: await createUnsubscribeToken(email, tokenSecret),
+      });
+    }
+
+    // Step 3b: Get - addresses without a row read as unsubscribed with every topic selected
+    if (body.action === "get") {
+      return json({
+        email,
+        is_subscribed: subscription?.is_subscribed ?? false,
+        topics: subscription?.topics ?? TOPICS,
+      });
+    }
+
+    // Step 3c: Update - the token proves the address receives our email, so it also confirms it
+    const isSubscribed = body.is_subscribed !== false;
+    const topics = Array.isArray(body.topics)
+      ? TOPICS.filter((topic) => body.topics!.includes(topic))
+      : subscription?.topics ?? TOPICS;
+
+    if (isSubscribed && topics.length === 0) {
+      return json({ error: "Choose at least one topic, or unsubscribe from everything." }, 400);
+    }
+
+    if (!subscription) {
+      if (!isSubscribed) return json({ success: true, email, is_subscribed: false, topics });
+
+      const { error: insertError } = await supabase
+        .from("newsletter_subscriptions")
+        .insert({ email, topics, is_subscribed: true, confirmed_at: now, source: "form" });
+      if (insertError) {
+        console.error("Error creating subscription:", insertError);
+        return json({ error: "Failed to save preferences" }, 500);
+      }
+      return json({ success: true, email, is_subscribed: true, topics });
+    }
+
+    const update: Record<string, unknown> = { topics };
+    if (isSubscribed && !subscription.is_subscribed) {
+      Object.assign(update, {
+        is_subscribed: true,
+        subscribed_at: now,
+        unsubscribed_at: null,
+        confirmed_at: subscription.confirmed_at ?? now,
+      });
+    } else if (!isSubscribed && subscription.is_subscribed) {
+      Object.assign(update, { is_subscribed: false, unsubscribed_at: now });
+    }
+
+    const { error: updateError } = await supabase
+      .from("newsletter_subscriptions")
+      .update(update)
+      .eq("id", subscription.id);
+
+    if (updateError) {
+      console.error("Error updating preferences:", updateError);
+      return json({ error: "Failed to save preferences" }, 500);
+    }
+
+    return json({ success: true, email, is_subscribed: isSubscribed, topics });
+  } catch (error: unknown) {
+    console.error("Error in newsletter-preferences:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
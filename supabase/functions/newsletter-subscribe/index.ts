@@ -0,0 +1,149 @@
+/**
+ * Edge function: newsletter-subscribe
+ * Public newsletter sign-up, no account needed. Records a pending subscription with the
+ * chosen topics and emails a confirmation link (double opt-in); nothing is sent to the
+ * address until it is confirmed through newsletter-preferences.
+ *
+ * The response is the same whether or not the address is already subscribed, so the form
+ * cannot be used to discover subscribers. Confirmation emails are not resent more than once
+ * every 10 minutes per address.
+ *
+ * Requires UNSUBSCRIBE_TOKEN_SECRET and mail transport settings (_shared/mail.ts); MAIL_FROM is optional.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
+import { renderTransactionalEmail } from "../_shared/emailTemplates.ts";
+import { createConfirmationToken } from "../_shared/subscriberToken.ts";
+
+const MAIL_FROM_DEFAULT = "Horalix <newsletter@horalix.com>";
+const TOPICS = ["news", "resources", "product_updates"];
+const RESEND_COOLDOWN_MS = 10 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface SubscribeRequest {
+  email: string;
+  topics?: string[];
+  /** Honeypot: hidden from people, filled in by bots */
+  website?: string;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const originBlock = rejectUnknownOrigin(req);
+  if (originBlock) return originBlock;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const pendingResponse = () =>
+    json({ success: true, message: "Check your inbox to confirm your subscription." });
+
+  try {
+    // Step 1: Validate input
+    const { email: rawEmail, topics: rawTopics, website }: SubscribeRequest = await req.json();
+    if (website) return pendingResponse();
+
+    const email = typeof rawEmail === "string" ? rawEmail.trim().toLowerCase() : "";
+    if (!email || email.length > 254 || !EMAIL_PATTERN.test(email)) {
+      return json({ error: "Please enter a valid email address." }, 400);
+    }
+
+    const topics = Array.isArray(rawTopics) ? TOPICS.filter((topic) => rawTopics.includes(topic)) : TOPICS;
+    if (topics.length === 0) {
+      return json({ error: "Choose at least one topic." }, 400);
+    }
+
+    const mailTransport = getMailTransport();
+    const tokenSecret = Deno.env.get("UNSUBSCRIBE_TOKEN_SECRET");
+    if (!mailTransport || !tokenSecret) {
+      console.error("Mail transport or UNSUBSCRIBE_TOKEN_SECRET not configured");
+      return json({ error: "Newsletter sign-up is not available right now." }, 500);
+    }
+
+    // Step 2: Initialize Supabase service client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 3: Confirmed subscribers keep their settings; they can change topics from any email
+    const { data: existing, error: fetchError } = await supabase
+      .from("newsletter_subscriptions")
+      .select("id, is_subscribed, confirmation_sent_at")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Error looking up subscription:", fetchError);
+      return json({ error: "Failed to subscribe" }, 500);
+    }
+
+    if (existing?.is_subscribed) return pendingResponse();
+
+    if (
+      existing?.confirmation_sent_at &&
+      Date.now() - new Date(existing.confirmation_sent_at).getTime() < RESEND_COOLDOWN_MS
+    ) {
+      return pendingResponse();
+    }
+
+    // Step 4: Record the pending subscription
+    const now = new Date().toISOString();
+    const { error: saveError } = existing
+      ? await supabase
+          .from("newsletter_subscriptions")
+          .update({ topics, confirmation_sent_at: now })
+          .eq("id", existing.id)
+      : await supabase
+          .from("newsletter_subscriptions")
+          .insert({ email, topics, is_subscribed: false, source: "form", confirmation_sent_at: now });
+
+    if (saveError) {
+      console.error("Error saving pending subscription:", saveError);
+      return json({ error: "Failed to subscribe" }, 500);
+    }
+
+    // Step 5: Send the confirmation email
+    const token = await createConfirmationToken(email, tokenSecret);
+    const confirmUrl = `${siteUrl}/newsletter/confirm?token=${encodeURIComponent(token)}`;
+
+    const confirmationEmail = await renderTransactionalEmail(
+      supabase,
+      "newsletter_confirmation",
+      { email, confirmUrl },
+      siteUrl,
+    );
+
+    const result = await mailTransport.send({
+      from: getMailFrom(MAIL_FROM_DEFAULT),
+      to: [email],
+      ...confirmationEmail,
+    });
+
+    if (!result.ok) {
+      console.error("Confirmation email failed:", result.error);
+      // Allow an immediate retry instead of waiting out the cooldown
+      await supabase
+        .from("newsletter_subscriptions")
+        .update({ confirmation_sent_at: null })
+        .eq("email", email);
+      return json({ error: "We couldn't send the confirmation email. Please try again." }, 502);
+    }
+
+    return pendingResponse();
+  } catch (error: unknown) {
+    console.error("Error in newsletter-subscribe:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
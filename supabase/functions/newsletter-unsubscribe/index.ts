@@ -1,13 +1,29 @@
 /**
  * Edge function: newsletter-unsubscribe
- * Handles newsletter unsubscribe requests from email links
+ * Handles newsletter unsubscribe requests. Every request must carry a signed
+ * per-subscriber token (see _shared/subscriberToken.ts); the address comes from the
+ * token, never from the request, so nobody can unsubscribe someone else.
+ *
+ * Two entry points:
+ * - JSON POST { token } from the site (origin-checked); the preference center uses
+ *   newsletter-preferences, which can also unsubscribe
+ * - RFC 8058 one-click POST to ?token=... sent by mail clients from the
+ *   List-Unsubscribe header; these carry no Origin, the token is the authorization
+ *
+ * Invalid tokens are rate limited per client IP (_shared/rateLimit.ts) so tokens can't be
+ * guessed.
+ *
+ * Requires UNSUBSCRIBE_TOKEN_SECRET.
  */
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { verifyUnsubscribeToken } from "../_shared/subscriberToken.ts";
+import { checkRateLimit, getClientIp, hitRateLimit, tooManyRequests, type RateLimitRule } from "../_shared/rateLimit.ts";
+
+const RATE_LIMITS: RateLimitRule[] = [{ actor: "ip", max: 10, windowSeconds: 60 * 60 }];
 
 interface UnsubscribeRequest {
-  email: string;
   token?: string;
 }
 
@@ -19,17 +35,29 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
-  const originBlock = rejectUnknownOrigin(req);
-  if (originBlock) return originBlock;
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // One-click requests put the token in the URL and post "List-Unsubscribe=One-Click"
+  const oneClickToken = new URL(req.url).searchParams.get("token");
 
-  try {
-    // Step 1: Parse request body
-    const { email, token }: UnsubscribeRequest = await req.json();
+  if (!oneClickToken) {
+    const originBlock = rejectUnknownOrigin(req);
+    if (originBlock) return originBlock;
+  }
 
-    if (!email) {
+  try {
+    // Step 1: Validate configuration
+    const unsubscribeSecret = Deno.env.get("UNSUBSCRIBE_TOKEN_SECRET");
+    if (!unsubscribeSecret) {
+      console.error("UNSUBSCRIBE_TOKEN_SECRET not configured");
       return new Response(
-        JSON.stringify({ error: "Email is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "Unsubscribe not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
@@ -38,30 +66,35 @@ Deno.serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Step 3: Find and update subscription
-    const { data: subscription, error: fetchError } = await supabase
-      .from("newsletter_subscriptions")
-      .select("*")
-      .eq("email", email.toLowerCase())
-      .single();
+    const actors = { ip: getClientIp(req) };
+    const retryAfter = await checkRateLimit(supabase, "newsletter-unsubscribe", actors, RATE_LIMITS);
+    if (retryAfter) return tooManyRequests(retryAfter, corsHeaders);
 
-    if (fetchError || !subscription) {
-      console.log("Subscription not found for email:", email);
-      // Return success anyway to prevent email enumeration
+    // Step 3: Read and verify the token
+    let token = oneClickToken;
+    if (!token) {
+      const body: UnsubscribeRequest = await req.json().catch(() => ({}));
+      token = body.token ?? null;
+    }
+
+    const email = token ? await verifyUnsubscribeToken(token, unsubscribeSecret) : null;
+    if (!email) {
+      await hitRateLimit(supabase, "newsletter-unsubscribe", actors, RATE_LIMITS);
       return new Response(
-        JSON.stringify({ success: true, message: "Unsubscribed successfully" }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "This unsubscribe link is invalid or has expired." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Step 4: Update subscription status
+    // Step 4: Update subscription status (already-unsubscribed or unknown addresses are a no-op)
     const { error: updateError } = await supabase
       .from("newsletter_subscriptions")
       .update({
         is_subscribed: false,
         unsubscribed_at: new Date().toISOString(),
       })
-      .eq("email", email.toLowerCase());
+      .eq("email", email)
+      .eq("is_subscribed", true);
 
     if (updateError) {
       console.error("Error updating subscription:", updateError);
@@ -71,10 +104,10 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`Successfully unsubscribed: ${email}`);
+    console.log(`Successfully unsubscribed${oneClickToken ? " (one-click)" : ""}: ${email}`);
 
     return new Response(
-      JSON.stringify({ success: true, message: "Unsubscribed successfully" }),
+      JSON.stringify({ success: true, message: "Unsubscribed successfully", email }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error: any) {
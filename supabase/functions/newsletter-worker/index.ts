@@ -0,0 +1,241 @@
+/**
+ * Edge function: newsletter-worker
+ * Drains the newsletter_deliveries queue in batches and sends each email through the
+ * configured mail transport (_shared/mail.ts).
+ *
+ * Transient failures (rate limits, server errors, network errors) are requeued with exponential
+ * backoff until MAX_ATTEMPTS; other provider rejections fail the delivery immediately.
+ * A run stops claiming new batches once its time budget is spent, so a large send simply
+ * continues on the next run.
+ *
+ * Kicked by send-newsletter after enqueueing, and invoked every minute by Supabase Cron
+ * (pg_cron + pg_net) to pick up retries, e.g.:
+ *   select cron.schedule('newsletter-worker', '* * * * *', $$
+ *     select net.http_post(
+ *       url := '<SUPABASE_URL>/functions/v1/newsletter-worker',
+ *       headers := jsonb_build_object('x-scheduler-secret', '<SCHEDULER_SECRET>')
+ *     );
+ *   $$);
+ *
+ * Deliveries to addresses that unsubscribed after the send was queued are cancelled when
+ * claimed (claim_newsletter_deliveries), so they are never mailed.
+ *
+ * Each email gets its own signed unsubscribe token, used both for the footer link and for
+ * the RFC 8058 List-Unsubscribe headers that give mail clients a native unsubscribe button.
+ *
+ * Requires SCHEDULER_SECRET, UNSUBSCRIBE_TOKEN_SECRET and mail transport settings; MAIL_FROM is optional.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getMailFrom, getMailTransport, type MailResult, type MailTransport } from "../_shared/mail.ts";
+import { secretMatches } from "../_shared/signedToken.ts";
+import { createUnsubscribeToken } from "../_shared/subscriberToken.ts";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+const MAIL_FROM_DEFAULT = "Horalix <newsletter@horalix.com>";
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 5;
+const TIME_BUDGET_MS = 50_000;
+const MAX_BACKOFF_MINUTES = 60;
+
+interface Delivery {
+  id: string;
+  send_id: string;
+  email: string;
+  attempts: number;
+}
+
+interface SendContent {
+  subject: string;
+  html: string;
+}
+
+interface Recipient {
+  email: string;
+  unsubscribeToken: string;
+  oneClickUrl: string;
+}
+
+// 2, 4, 8... minutes after each attempt, capped, with jitter so retries don't arrive together
+const nextAttemptAt = (attempts: number) => {
+  const minutes = Math.min(2 ** attempts, MAX_BACKOFF_MINUTES);
+  const jitterMs = Math.random() * 30_000;
+  return new Date(Date.now() + minutes * 60_000 + jitterMs).toISOString();
+};
+
+const sendEmail = (
+  transport: MailTransport,
+  from: string,
+  recipient: Recipient,
+  content: SendContent
+): Promise<MailResult> =>
+  transport.send({
+    from,
+    to: [recipient.email],
+    subject: content.subject,
+    // Sends queued before signed links still carry the old {{EMAIL}} placeholder
+    html: content.html
+      .replace(/{{UNSUBSCRIBE_TOKEN}}/g, encodeURIComponent(recipient.unsubscribeToken))
+      .replace(/{{EMAIL}}/g, encodeURIComponent(recipient.email)),
+    headers: {
+      "List-Unsubscribe": `<${recipient.oneClickUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: JSON_HEADERS }
+    );
+  }
+
+  try {
+    // Step 1: Validate the scheduler secret
+    const schedulerSecret = Deno.env.get("SCHEDULER_SECRET");
+    if (!schedulerSecret) {
+      console.error("SCHEDULER_SECRET not configured");
+      return new Response(
+        JSON.stringify({ error: "Scheduler not configured" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    if (!(await secretMatches(req.headers.get("x-scheduler-secret"), schedulerSecret))) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: JSON_HEADERS }
+      );
+    }
+
+    // Step 2: Initialize Supabase client and validate secrets
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const mailTransport = getMailTransport();
+    const mailFrom = getMailFrom(MAIL_FROM_DEFAULT);
+    const unsubscribeSecret = Deno.env.get("UNSUBSCRIBE_TOKEN_SECRET");
+
+    if (!mailTransport || !unsubscribeSecret) {
+      console.error("Mail transport or UNSUBSCRIBE_TOKEN_SECRET not configured");
+      return new Response(
+        JSON.stringify({ error: "Newsletter delivery not configured" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const startedAt = Date.now();
+    const sendContent = new Map<string, SendContent | null>();
+    const touchedSends = new Set<string>();
+    let sent = 0;
+    let retried = 0;
+    let failed = 0;
+
+    // Step 3: Claim and send batches until the queue is empty or the time budget is spent
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: batch, error: claimError } = await supabaseService.rpc("claim_newsletter_deliveries", {
+        _limit: BATCH_SIZE,
+      });
+
+      if (claimError) {
+        console.error("Error claiming deliveries:", claimError);
+        break;
+      }
+
+      const deliveries: Delivery[] = batch ?? [];
+      if (deliveries.length === 0) break;
+
+      // Load the rendered email once per send
+      const missingSendIds = [...new Set(deliveries.map((d) => d.send_id))].filter((id) => !sendContent.has(id));
+      if (missingSendIds.length > 0) {
+        const { data: sends, error: sendsError } = await supabaseService
+          .from("newsletter_sends")
+          .select("id, subject, html")
+          .in("id", missingSendIds);
+
+        if (sendsError) {
+          console.error("Error loading newsletter content:", sendsError);
+          break;
+        }
+
+        for (const id of missingSendIds) {
+          const send = sends?.find((s) => s.id === id);
+          sendContent.set(id, send?.subject && send?.html ? { subject: send.subject, html: send.html } : null);
+        }
+      }
+
+      for (const delivery of deliveries) {
+        touchedSends.add(delivery.send_id);
+        const content = sendContent.get(delivery.send_id);
+
+        let result: MailResult;
+        if (content) {
+          const unsubscribeToken = await createUnsubscribeToken(delivery.email, unsubscribeSecret);
+          const oneClickUrl =
+            `${supabaseUrl}/functions/v1/newsletter-unsubscribe?token=${encodeURIComponent(unsubscribeToken)}`;
+          result = await sendEmail(
+            mailTransport,
+            mailFrom,
+            { email: delivery.email, unsubscribeToken, oneClickUrl },
+            content
+          );
+        } else {
+          result = { ok: false, retryable: false, error: "Newsletter content missing" };
+        }
+
+        let update: Record<string, unknown>;
+        if (result.ok) {
+          sent++;
+          update = {
+            status: "sent",
+            provider_message_id: result.messageId,
+            sent_at: new Date().toISOString(),
+            locked_at: null,
+            last_error: null,
+          };
+        } else if (result.retryable && delivery.attempts < MAX_ATTEMPTS) {
+          retried++;
+          update = {
+            status: "queued",
+            next_attempt_at: nextAttemptAt(delivery.attempts),
+            locked_at: null,
+            last_error: result.error,
+          };
+        } else {
+          failed++;
+          update = { status: "failed", locked_at: null, last_error: result.error };
+        }
+
+        const { error: updateError } = await supabaseService
+          .from("newsletter_deliveries")
+          .update(update)
+          .eq("id", delivery.id);
+
+        if (updateError) {
+          console.error(`Error updating delivery ${delivery.id}:`, updateError);
+        }
+      }
+    }
+
+    // Step 4: Refresh counts and completion on every send this run touched
+    for (const sendId of touchedSends) {
+      const { error } = await supabaseService.rpc("refresh_newsletter_send", { _send_id: sendId });
+      if (error) console.error(`Error refreshing send ${sendId}:`, error);
+    }
+
+    console.log(`Newsletter worker: ${sent} sent, ${retried} requeued, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent, retried, failed }),
+      { status: 200, headers: JSON_HEADERS }
+    );
+  } catch (error: unknown) {
+    console.error("Error in newsletter-worker:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: JSON_HEADERS }
+    );
+  }
+});
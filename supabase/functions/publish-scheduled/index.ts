@@ -0,0 +1,247 @@
+/**
+ * Edge function: publish-scheduled
+ * Runs the go-live side effects for news articles and resources whose scheduled
+ * published_at has passed: sends the article newsletter and triggers a static site rebuild.
+ * Also sends newsletter campaigns whose scheduled_at has passed.
+ *
+ * Visibility itself is enforced by RLS (published_at <= now()), so a late run never
+ * leaks or hides content; it only delays the newsletter and rebuild.
+ *
+ * went_live_at is stamped once the rebuild has been triggered, so each row rebuilds the
+ * site once. An article newsletter that fails is retried on later runs for up to
+ * NEWSLETTER_RETRY_DAYS after going live, without triggering further rebuilds.
+ *
+ * Invoked every 5 minutes by Supabase Cron (pg_cron + pg_net), e.g.:
+ *   select cron.schedule('publish-scheduled', '*\/5 * * * *', $$
+ *     select net.http_post(
+ *       url := '<SUPABASE_URL>/functions/v1/publish-scheduled',
+ *       headers := jsonb_build_object('x-scheduler-secret', '<SCHEDULER_SECRET>')
+ *     );
+ *   $$);
+ *
+ * Requires SCHEDULER_SECRET; SITE_REBUILD_HOOK_URL is optional.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { secretMatches } from "../_shared/signedToken.ts";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+const NEWSLETTER_RETRY_DAYS = 7;
+
+interface DueRow {
+  id: string;
+  slug: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: JSON_HEADERS }
+    );
+  }
+
+  try {
+    // Step 1: Validate the scheduler secret
+    const schedulerSecret = Deno.env.get("SCHEDULER_SECRET");
+    if (!schedulerSecret) {
+      console.error("SCHEDULER_SECRET not configured");
+      return new Response(
+        JSON.stringify({ error: "Scheduler not configured" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    if (!(await secretMatches(req.headers.get("x-scheduler-secret"), schedulerSecret))) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: JSON_HEADERS }
+      );
+    }
+
+    // Step 2: Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const rebuildHookUrl = Deno.env.get("SITE_REBUILD_HOOK_URL");
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date().toISOString();
+
+    // Step 3: Find rows that are due but have not gone live yet
+    const [newsResult, resourcesResult] = await Promise.all([
+      supabaseService
+        .from("news_articles")
+        .select("id, slug")
+        .eq("is_published", true)
+        .lte("published_at", now)
+        .is("went_live_at", null),
+      supabaseService
+        .from("resources")
+        .select("id, slug")
+        .eq("is_published", true)
+        .lte("published_at", now)
+        .is("went_live_at", null),
+    ]);
+
+    if (newsResult.error || resourcesResult.error) {
+      console.error("Error fetching due content:", newsResult.error ?? resourcesResult.error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch scheduled content" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    const dueArticles: DueRow[] = newsResult.data ?? [];
+    const dueResources: DueRow[] = resourcesResult.data ?? [];
+
+    // Articles that went live in an earlier run but whose newsletter was never queued in full
+    const retrySince = new Date(Date.now() - NEWSLETTER_RETRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: recentArticles, error: recentError } = await supabaseService
+      .from("news_articles")
+      .select("id, slug")
+      .eq("is_published", true)
+      .gte("went_live_at", retrySince);
+
+    if (recentError) console.error("Error fetching recently live articles:", recentError);
+
+    let retryArticles: DueRow[] = [];
+    if (recentArticles && recentArticles.length > 0) {
+      const { data: sends, error: sendsError } = await supabaseService
+        .from("newsletter_sends")
+        .select("article_id, total_count, completed_at")
+        .in("article_id", recentArticles.map((article) => article.id));
+
+      if (sendsError) {
+        console.error("Error fetching article newsletter sends:", sendsError);
+      } else {
+        // Same test as send-newsletter's idempotency check
+        const queuedIds = new Set(
+          (sends ?? [])
+            .filter((send) => send.total_count > 0 || send.completed_at)
+            .map((send) => send.article_id),
+        );
+        retryArticles = recentArticles.filter((article) => !queuedIds.has(article.id));
+      }
+    }
+
+    // Step 4: Send scheduled campaigns (newsletter-campaign claims each one, so overlaps send once)
+    const { data: dueCampaigns, error: campaignsError } = await supabaseService
+      .from("newsletter_campaigns")
+      .select("id")
+      .eq("status", "scheduled")
+      .lte("scheduled_at", now);
+
+    if (campaignsError) console.error("Error fetching scheduled campaigns:", campaignsError);
+
+    let campaignsSent = 0;
+    for (const campaign of dueCampaigns ?? []) {
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/newsletter-campaign`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${supabaseServiceKey}`,
+            "x-scheduler-secret": schedulerSecret,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ action: "send", campaign_id: campaign.id }),
+        });
+
+        if (response.ok) {
+          campaignsSent++;
+        } else {
+          console.error(`Campaign ${campaign.id} failed:`, await response.text());
+        }
+      } catch (campaignError) {
+        console.error(`Error sending campaign ${campaign.id}:`, campaignError);
+      }
+    }
+
+    if (dueArticles.length === 0 && dueResources.length === 0 && retryArticles.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, articles: 0, resources: 0, campaigns: campaignsSent }),
+        { status: 200, headers: JSON_HEADERS }
+      );
+    }
+
+    // Step 5: Send newsletters for due articles and retries (send-newsletter is idempotent per article)
+    const newsletterFailures: string[] = [];
+    for (const article of [...dueArticles, ...retryArticles]) {
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-newsletter`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${supabaseServiceKey}`,
+            "x-scheduler-secret": schedulerSecret,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ article_id: article.id }),
+        });
+
+        if (!response.ok) {
+          newsletterFailures.push(article.slug);
+          console.error(`Newsletter failed for ${article.slug}:`, await response.text());
+        }
+      } catch (newsletterError) {
+        newsletterFailures.push(article.slug);
+        console.error(`Error sending newsletter for ${article.slug}:`, newsletterError);
+      }
+    }
+
+    // Step 6: Trigger one static site rebuild for everything that went live in this run
+    // (newsletter retries alone don't change the site)
+    const wentLive = dueArticles.length > 0 || dueResources.length > 0;
+    if (rebuildHookUrl && wentLive) {
+      try {
+        const response = await fetch(rebuildHookUrl, { method: "POST" });
+        if (!response.ok) {
+          console.error("Rebuild hook failed:", response.status);
+        }
+      } catch (rebuildError) {
+        console.error("Error calling rebuild hook:", rebuildError);
+      }
+    }
+
+    // Step 7: Stamp went_live_at so the rebuild isn't repeated; failed newsletters are
+    // picked up again by the retry query above
+    const liveArticleIds = dueArticles.map((article) => article.id);
+    const liveResourceIds = dueResources.map((resource) => resource.id);
+
+    if (liveArticleIds.length > 0) {
+      const { error } = await supabaseService
+        .from("news_articles")
+        .update({ went_live_at: now })
+        .in("id", liveArticleIds);
+      if (error) console.error("Error stamping articles:", error);
+    }
+
+    if (liveResourceIds.length > 0) {
+      const { error } = await supabaseService
+        .from("resources")
+        .update({ went_live_at: now })
+        .in("id", liveResourceIds);
+      if (error) console.error("Error stamping resources:", error);
+    }
+
+    console.log(
+      `Scheduled publish: ${liveArticleIds.length} articles, ${liveResourceIds.length} resources, ` +
+        `${retryArticles.length} newsletter retries, ${newsletterFailures.length} newsletter failures`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        articles: liveArticleIds.length,
+        resources: liveResourceIds.length,
+        campaigns: campaignsSent,
+        newsletter_retries: retryArticles.length,
+        newsletter_failures: newsletterFailures,
+      }),
+      { status: 200, headers: JSON_HEADERS }
+    );
+  } catch (error: unknown) {
+    console.error("Error in publish-scheduled:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: JSON_HEADERS }
+    );
+  }
+});
@@ -0,0 +1,137 @@
+/**
+ * Edge function: resend-webhook
+ * Receives Resend delivery events. A bounced newsletter email marks its delivery as
+ * bounced and unsubscribes the address so later sends skip it.
+ *
+ * Resend signs webhooks with Svix: HMAC-SHA256 over "<svix-id>.<svix-timestamp>.<body>"
+ * keyed with the base64 secret after the "whsec_" prefix.
+ *
+ * Requires RESEND_WEBHOOK_SECRET.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+// Reject deliveries replayed more than five minutes after signing
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+interface ResendEvent {
+  type: string;
+  data?: {
+    email_id?: string;
+  };
+}
+
+const base64ToBytes = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const bytesToBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const verifySignature = async (secret: string, req: Request, body: string): Promise<boolean> => {
+  const id = req.headers.get("svix-id");
+  const timestamp = req.headers.get("svix-timestamp");
+  const signatures = req.headers.get("svix-signature");
+  if (!id || !timestamp || !signatures) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > TIMESTAMP_TOLERANCE_SECONDS) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64ToBytes(secret.replace(/^whsec_/, "")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const expected = bytesToBase64(
+    await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`))
+  );
+
+  // Header holds space-separated "v1,<signature>" entries (several during key rotation)
+  return signatures
+    .split(" ")
+    .map((entry) => entry.split(",")[1])
+    .some((signature) => signature === expected);
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Method not allowed" }),
+      { status: 405, headers: JSON_HEADERS }
+    );
+  }
+
+  try {
+    // Step 1: Verify the webhook signature
+    const webhookSecret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      console.error("RESEND_WEBHOOK_SECRET not configured");
+      return new Response(
+        JSON.stringify({ error: "Webhook not configured" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    const body = await req.text();
+    if (!(await verifySignature(webhookSecret, req, body))) {
+      return new Response(
+        JSON.stringify({ error: "Invalid signature" }),
+        { status: 401, headers: JSON_HEADERS }
+      );
+    }
+
+    // Step 2: Only bounces change anything; acknowledge every other event
+    const event: ResendEvent = JSON.parse(body);
+    const messageId = event.data?.email_id;
+    if (event.type !== "email.bounced" || !messageId) {
+      return new Response(JSON.stringify({ success: true, ignored: true }), { status: 200, headers: JSON_HEADERS });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Step 3: Mark the delivery bounced (transactional emails have no delivery row)
+    const { data: delivery, error: deliveryError } = await supabaseService
+      .from("newsletter_deliveries")
+      .update({ status: "bounced", last_error: "Bounced" })
+      .eq("provider_message_id", messageId)
+      .select("send_id, email")
+      .maybeSingle();
+
+    if (deliveryError) {
+      console.error("Error marking delivery bounced:", deliveryError);
+      return new Response(
+        JSON.stringify({ error: "Failed to record bounce" }),
+        { status: 500, headers: JSON_HEADERS }
+      );
+    }
+
+    if (!delivery) {
+      return new Response(JSON.stringify({ success: true, matched: false }), { status: 200, headers: JSON_HEADERS });
+    }
+
+    // Step 4: Stop mailing the address and refresh the send's counts
+    const { error: unsubscribeError } = await supabaseService
+      .from("newsletter_subscriptions")
+      .update({ is_subscribed: false })
+      .eq("email", delivery.email);
+    if (unsubscribeError) console.error("Error unsubscribing bounced address:", unsubscribeError);
+
+    const { error: refreshError } = await supabaseService.rpc("refresh_newsletter_send", {
+      _send_id: delivery.send_id,
+    });
+    if (refreshError) console.error("Error refreshing send:", refreshError);
+
+    console.log(`Newsletter bounce recorded for delivery on send ${delivery.send_id}`);
+
+    return new Response(JSON.stringify({ success: true, matched: true }), { status: 200, headers: JSON_HEADERS });
+  } catch (error: unknown) {
+    console.error("Error in resend-webhook:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: JSON_HEADERS }
+    );
+  }
+});
@@ -1,13 +1,18 @@
 /**
  * Edge function: send-newsletter
- * Sends newsletter email to all subscribed users when a new article is published
- * Includes idempotency check to prevent duplicate sends
+ * Queues the newsletter email for all subscribed users when a new article is published.
+ * This is the "article" campaign type: the email is recorded as a newsletter_campaigns row
+ * and enqueued for newsletter-worker (digests go through newsletter-campaign instead).
+ * Idempotent per article: a repeat call only fills in recipients a previous call missed.
+ * Also called server-to-server by publish-scheduled, authenticated with SCHEDULER_SECRET
  */
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
-
-const RESEND_FROM_DEFAULT = "Horalix <newsletter@horalix.com>";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import { renderArticleEmail } from "../_shared/newsletterEmail.ts";
+import { enqueueNewsletterSend, fetchSegmentEmails, kickNewsletterWorker } from "../_shared/newsletterQueue.ts";
+import { secretMatches } from "../_shared/signedToken.ts";
 
 interface NewsletterRequest {
   article_id: string;
@@ -21,13 +26,20 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
-  const originBlock = rejectUnknownOrigin(req);
-  if (originBlock) return originBlock;
+  // Scheduler calls come from another edge function and carry no Origin header
+  const schedulerSecret = Deno.env.get("SCHEDULER_SECRET");
+  const isSchedulerCall =
+    !!schedulerSecret && (await secretMatches(req.headers.get("x-scheduler-secret"), schedulerSecret));
+
+  if (!isSchedulerCall) {
+    const originBlock = rejectUnknownOrigin(req);
+    if (originBlock) return originBlock;
+  }
 
   try {
     // Step 1: Verify admin authorization
     const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
+    if (!authHeader && !isSchedulerCall) {
       return new Response(
         JSON.stringify({ error: "Missing authorization header" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -38,51 +50,52 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const resendApiKey = Deno.env.get("RESEND_API_KEY");
-    const resendFrom = Deno.env.get("RESEND_FROM") || RESEND_FROM_DEFAULT;
     const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
 
-    if (!resendApiKey) {
-      return new Response(
-        JSON.stringify({ error: "RESEND_API_KEY not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
     const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Step 3: Verify user is authenticated and is admin
-    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    // Step 3: Verify user is authenticated and is admin (skipped for the scheduler)
+    if (!isSchedulerCall) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader! } },
+      });
 
-    const { data: roleData, error: roleError } = await supabaseService
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", user.id)
-      .in("role", ["admin", "editor"])
-      .limit(1)
-      .maybeSingle();
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
-    if (roleError) {
-      return new Response(
-        JSON.stringify({ error: "Unable to verify role" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+      const { data: roleData, error: roleError } = await supabaseService
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .in("role", ["admin", "editor"])
+        .limit(1)
+        .maybeSingle();
+
+      if (roleError) {
+        return new Response(
+          JSON.stringify({ error: "Unable to verify role" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
-    if (!roleData) {
-      return new Response(
-        JSON.stringify({ error: "Forbidden - Admin access required" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      if (!roleData) {
+        return new Response(
+          JSON.stringify({ error: "Forbidden - Admin access required" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!hasMfaSession(authHeader)) {
+        return new Response(
+          JSON.stringify(MFA_REQUIRED_RESPONSE),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
     }
 
     // Step 4: Parse request body
@@ -94,42 +107,69 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Step 5: Check idempotency - has this article already been sent?
+    // Step 5: Check idempotency - has this article already been queued in full?
     const { data: existingSend } = await supabaseService
       .from("newsletter_sends")
-      .select("id")
+      .select("id, campaign_id, total_count, completed_at")
       .eq("article_id", article_id)
-      .single();
+      .maybeSingle();
 
-    if (existingSend) {
+    if (existingSend && (existingSend.total_count > 0 || existingSend.completed_at)) {
       return new Response(
         JSON.stringify({ success: true, message: "Newsletter already sent for this article", skipped: true }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Step 6: Fetch the article
+    // Step 6: Fetch the article (scheduled articles are not sent before their go-live time)
     const { data: article, error: articleError } = await supabaseService
       .from("news_articles")
       .select("*")
       .eq("id", article_id)
       .eq("is_published", true)
+      .lte("published_at", new Date().toISOString())
       .single();
 
     if (articleError || !article) {
       return new Response(
-        JSON.stringify({ error: "Article not found or not published" }),
+        JSON.stringify({ error: "Article not found or not yet live" }),
         { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Step 7: Fetch all active subscribers
-    const { data: subscribers, error: subError } = await supabaseService
-      .from("newsletter_subscriptions")
-      .select("email")
-      .eq("is_subscribed", true);
+    // Step 7: Record the article campaign (reused when resuming a partial enqueue)
+    const subject = `New from Horalix: ${article.title}`;
+    let campaignId: string | null = existingSend?.campaign_id ?? null;
+
+    if (!campaignId) {
+      const { data: campaign, error: campaignError } = await supabaseService
+        .from("newsletter_campaigns")
+        .insert({
+          campaign_type: "article",
+          topic: "news",
+          subject,
+          article_ids: [article_id],
+          status: "sent",
+          sent_at: new Date().toISOString(),
+        })
+        .select("id")
+        .single();
+
+      if (campaignError || !campaign) {
+        console.error("Error recording article campaign:", campaignError);
+        return new Response(
+          JSON.stringify({ error: "Failed to queue newsletter" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      campaignId = campaign.id;
+    }
 
-    if (subError) {
+    // Step 8: Fetch all confirmed subscribers who want news
+    let recipientEmails: string[];
+    try {
+      recipientEmails = await fetchSegmentEmails(supabaseService, { topic: "news", segment: "all" });
+    } catch (subError) {
       console.error("Error fetching subscribers:", subError);
       return new Response(
         JSON.stringify({ error: "Failed to fetch subscribers" }),
@@ -137,129 +177,39 @@ Deno.serve(async (req) => {
       );
     }
 
-    if (!subscribers || subscribers.length === 0) {
-      await supabaseService.from("newsletter_sends").insert({
-        article_id: article_id,
-        recipients_count: 0,
-      });
+    // Step 9: Render once and enqueue one delivery per subscriber
+    try {
+      await enqueueNewsletterSend(
+        supabaseService,
+        { campaignId, articleId: article_id, subject, html: renderArticleEmail(article, siteUrl) },
+        recipientEmails
+      );
+    } catch (enqueueError) {
+      console.error("Error enqueueing newsletter:", enqueueError);
+      return new Response(
+        JSON.stringify({ error: "Failed to queue newsletter" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
+    if (recipientEmails.length === 0) {
       return new Response(
         JSON.stringify({ success: true, message: "No subscribers to notify", recipients: 0 }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Step 8: Prepare email content
-    const articleUrl = `${siteUrl}/news/${article.slug}`;
-    const imageUrl = article.image_urls?.[0] || "";
-
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f5f5f5; }
-          .container { max-width: 600px; margin: 0 auto; }
-          .header { background: linear-gradient(135deg, #1a1a2e, #16213e); color: white; padding: 30px 20px; text-align: center; }
-          .header .logo { color: #00D4FF; font-weight: bold; font-size: 28px; margin-bottom: 10px; }
-          .content { background: white; padding: 30px 20px; }
-          .article-card { border: 1px solid #eee; border-radius: 8px; overflow: hidden; }
-          .article-image { width: 100%; height: 200px; object-fit: cover; }
-          .article-body { padding: 20px; }
-          .article-title { font-size: 22px; font-weight: 600; color: #1a1a2e; margin: 0 0 10px 0; }
-          .article-summary { color: #666; margin: 0 0 20px 0; }
-          .btn { display: inline-block; background: #00D4FF; color: #1a1a2e !important; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; }
-          .footer { background: #1a1a2e; color: #888; padding: 20px; text-align: center; font-size: 12px; }
-          .footer a { color: #00D4FF; text-decoration: none; }
-          .unsubscribe { margin-top: 15px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div class="logo">HORALIX</div>
-            <p style="margin: 0; opacity: 0.9;">New Article Published</p>
-          </div>
-          <div class="content">
-            <p>Hi there,</p>
-            <p>We've just published a new article that we think you'll find interesting:</p>
-            
-            <div class="article-card">
-              ${imageUrl ? `<img src="${imageUrl}" alt="${article.title}" class="article-image" />` : ''}
-              <div class="article-body">
-                <h2 class="article-title">${article.title}</h2>
-                <p class="article-summary">${article.summary}</p>
-                <a href="${articleUrl}" class="btn">Read Full Article</a>
-              </div>
-            </div>
-          </div>
-          <div class="footer">
-            <p>Thank you for being part of the Horalix community.</p>
-            <p><a href="${siteUrl}">horalix.com</a></p>
-            <p class="unsubscribe">
-              <a href="${siteUrl}/unsubscribe?email={{EMAIL}}">Unsubscribe from newsletter</a>
-            </p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    // Step 9: Send emails via Resend
-    const recipientEmails = subscribers.map((s) => s.email);
-    let successCount = 0;
-    let failCount = 0;
-
-    const batchSize = 50;
-    for (let i = 0; i < recipientEmails.length; i += batchSize) {
-      const batch = recipientEmails.slice(i, i + batchSize);
-      
-      for (const email of batch) {
-        const personalizedHtml = emailHtml.replace(/{{EMAIL}}/g, encodeURIComponent(email));
-        
-        try {
-          const response = await fetch("https://api.resend.com/emails", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${resendApiKey}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              from: resendFrom,
-              to: [email],
-              subject: `New from Horalix: ${article.title}`,
-              html: personalizedHtml,
-            }),
-          });
-
-          if (response.ok) {
-            successCount++;
-          } else {
-            failCount++;
-            const errorData = await response.json();
-            console.error(`Failed to send to ${email}:`, errorData);
-          }
-        } catch (emailError) {
-          failCount++;
-          console.error(`Error sending to ${email}:`, emailError);
-        }
-      }
-    }
-
-    // Step 10: Record the send for idempotency
-    await supabaseService.from("newsletter_sends").insert({
-      article_id: article_id,
-      recipients_count: successCount,
-    });
+    // Step 10: Start draining straight away rather than waiting for the next cron tick
+    kickNewsletterWorker();
 
-    console.log(`Newsletter sent: ${successCount} success, ${failCount} failed`);
+    console.log(`Newsletter queued for ${recipientEmails.length} subscribers`);
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Newsletter sent to ${successCount} subscribers`,
-        recipients: successCount,
-        failed: failCount,
+        message: `Newsletter queued for ${recipientEmails.length} subscribers`,
+        recipients: recipientEmails.length,
+        queued: true,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -2,32 +2,18 @@
  * Edge function: send-status-notification
  * Sends email to user when their contact submission status changes
  * Called from admin ContactsManager with JWT auth
+ * Copy comes from the editable contact_status_* templates (_shared/emailTemplates.ts) and is
+ * delivered through the configured mail transport (_shared/mail.ts)
  */
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { getCorsHeaders, rejectUnknownOrigin } from "../_shared/cors.ts";
+import { hasMfaSession, MFA_REQUIRED_RESPONSE } from "../_shared/mfa.ts";
+import { renderTransactionalEmail, type EmailTemplateKey } from "../_shared/emailTemplates.ts";
+import { getMailFrom, getMailTransport } from "../_shared/mail.ts";
 
-// Status-specific messaging
-const STATUS_MESSAGES: Record<
-  string,
-  { subject: string; heading: string; body: string }
-> = {
-  in_progress: {
-    subject: "We're Reviewing Your Inquiry",
-    heading: "Your Message is Being Reviewed",
-    body: "Our team has received your message and is currently reviewing it. We'll get back to you as soon as possible with a response.",
-  },
-  responded: {
-    subject: "We've Responded to Your Inquiry",
-    heading: "Response Ready",
-    body: "Great news! Our team has reviewed your inquiry and prepared a response. Please check your email for our detailed reply, or log in to view your submission status.",
-  },
-  archived: {
-    subject: "Your Inquiry Has Been Closed",
-    heading: "Inquiry Closed",
-    body: "Your inquiry has been marked as complete and archived. If you have any further questions, feel free to submit a new inquiry through our contact form.",
-  },
-};
+// Statuses that notify the sender; copy lives in the contact_status_* email templates
+const NOTIFIED_STATUSES = ["in_progress", "responded", "archived"];
 
 Deno.serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
@@ -49,16 +35,15 @@ Deno.serve(async (req) => {
 
   try {
     // Step 3: Validate required secrets
-    const resendApiKey = Deno.env.get("RESEND_API_KEY");
-    const resendFrom =
-      Deno.env.get("RESEND_FROM") || "Horalix <notifications@horalix.com>";
+    const mailTransport = getMailTransport();
+    const mailFrom = getMailFrom("Horalix <notifications@horalix.com>");
     const siteUrl = Deno.env.get("SITE_URL") || "https://horalix.com";
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!resendApiKey) {
-      return jsonResponse({ error: "RESEND_API_KEY not configured" }, 500);
+    if (!mailTransport) {
+      return jsonResponse({ error: "Email delivery not configured" }, 500);
     }
     if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
       return jsonResponse(
@@ -86,12 +71,12 @@ Deno.serve(async (req) => {
       return jsonResponse({ error: "Unauthorized" }, 401);
     }
 
-    // Step 5: Verify admin/editor role
+    // Step 5: Verify admin role (contacts are admin-only)
     const { data: roleData, error: roleError } = await supabaseService
       .from("user_roles")
       .select("role")
       .eq("user_id", user.id)
-      .in("role", ["admin", "editor"])
+      .eq("role", "admin")
       .limit(1)
       .maybeSingle();
 
@@ -106,6 +91,10 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (!hasMfaSession(authHeader)) {
+      return jsonResponse(MFA_REQUIRED_RESPONSE, 403);
+    }
+
     // Step 6: Parse request body
     const { submission_id, new_status } = await req.json();
 
@@ -128,69 +117,48 @@ Deno.serve(async (req) => {
       return jsonResponse({ error: "Submission not found" }, 404);
     }
 
-    // Step 8: Get status-specific messaging
-    const statusMessage = STATUS_MESSAGES[new_status];
-    if (!statusMessage) {
+    // Step 8: Only some statuses notify the sender
+    if (!NOTIFIED_STATUSES.includes(new_status)) {
       return jsonResponse(
         { ok: true, message: `No notification configured for status: ${new_status}` },
         200
       );
     }
 
-    // Step 9: Build and send email
-    const emailHtml = `<!DOCTYPE html><html><head><style>
-      body{font-family:'Segoe UI',sans-serif;line-height:1.6;color:#333;margin:0;padding:0}
-      .container{max-width:600px;margin:0 auto;padding:20px}
-      .header{background:linear-gradient(135deg,#1a1a2e,#16213e);color:#fff;padding:30px 20px;border-radius:8px 8px 0 0;text-align:center}
-      .header .logo{color:#00D4FF;font-weight:bold;font-size:28px;margin-bottom:10px}
-      .content{background:#f9f9f9;padding:30px 20px}
-      .status-box{background:#fff;border-left:4px solid #00D4FF;padding:20px;margin:20px 0;border-radius:0 8px 8px 0;box-shadow:0 2px 4px rgba(0,0,0,.1)}
-      .status-heading{font-size:20px;font-weight:600;color:#1a1a2e;margin:0 0 10px}
-      .original-message{background:#e8e8e8;padding:15px;border-radius:4px;margin:20px 0;font-style:italic;color:#666}
-      .btn{display:inline-block;background:#00D4FF;color:#1a1a2e!important;padding:12px 24px;text-decoration:none;border-radius:6px;font-weight:600;margin-top:20px}
-      .footer{background:#1a1a2e;color:#888;padding:20px;text-align:center;border-radius:0 0 8px 8px;font-size:12px}
-      .footer a{color:#00D4FF;text-decoration:none}
-    </style></head><body><div class="container">
-      <div class="header"><div class="logo">HORALIX</div><h1 style="margin:0;font-size:20px">${statusMessage.subject}</h1></div>
-      <div class="content">
-        <p style="font-size:18px">Hi ${submission.name},</p>
-        <div class="status-box"><h2 class="status-heading">${statusMessage.heading}</h2><p style="color:#555;margin:0">${statusMessage.body}</p></div>
-        ${submission.message ? `<div class="original-message"><p style="font-weight:600;font-style:normal;color:#333;margin-bottom:5px">Your Original Inquiry:</p><p>${submission.message.substring(0, 200)}${submission.message.length > 200 ? "..." : ""}</p></div>` : ""}
-        <a href="${siteUrl}/profile/submissions" class="btn">View Your Submissions</a>
-      </div>
-      <div class="footer"><p>Thank you for contacting Horalix.</p><p><a href="${siteUrl}">horalix.com</a></p></div>
-    </div></body></html>`;
-
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
+    // Step 9: Render the template and send
+    const email = await renderTransactionalEmail(
+      supabaseService,
+      `contact_status_${new_status}` as EmailTemplateKey,
+      {
+        name: submission.name,
+        excerpt: submission.message
+          ? `${submission.message.substring(0, 200)}${submission.message.length > 200 ? "..." : ""}`
+          : "",
+        submissionsUrl: `${siteUrl}/profile/submissions`,
       },
-      body: JSON.stringify({
-        from: resendFrom,
-        to: [submission.email],
-        subject: `Horalix: ${statusMessage.subject}`,
-        html: emailHtml,
-      }),
+      siteUrl
+    );
+
+    const emailResult = await mailTransport.send({
+      from: mailFrom,
+      to: [submission.email],
+      ...email,
     });
 
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error("Resend API error:", errorData);
+    if (!emailResult.ok) {
+      console.error(`${mailTransport.name} error:`, emailResult.error);
       return jsonResponse(
-        { error: "Failed to send notification email", details: errorData },
+        { error: "Failed to send notification email", details: emailResult.error },
         500
       );
     }
 
-    const emailData = await emailResponse.json();
-    console.log(`Status notification sent to ${submission.email}:`, emailData);
+    console.log(`Status notification sent to ${submission.email}:`, emailResult.messageId);
 
     return jsonResponse({
       ok: true,
       message: "Notification sent",
-      email_id: emailData.id,
+      email_id: emailResult.messageId,
     });
   } catch (error) {
     console.error("Error in send-status-notification:", error);
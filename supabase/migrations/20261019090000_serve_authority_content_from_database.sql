@@ -0,0 +1,90 @@
+-- ============================================================================
+-- Serve public resources and team profiles from the database
+-- ============================================================================
+-- Public pages and the static build now read published rows from
+-- public.contributors and public.resources. The hard-coded entries in
+-- src/content/authorityData.js remain as a fallback for slugs that do not have
+-- a database row yet.
+-- ============================================================================
+
+ALTER TABLE public.contributors
+ADD COLUMN IF NOT EXISTS focus_areas JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Seed the founding contributors so resource authors can be assigned from the
+-- admin without recreating the profiles by hand.
+INSERT INTO public.contributors (
+  slug,
+  name,
+  role,
+  credentials,
+  specialty,
+  contributor_type,
+  bio_short,
+  bio_long,
+  focus_areas,
+  linkedin_url,
+  same_as,
+  display_order
+)
+VALUES
+(
+  'kerim-sabic',
+  'Kerim Sabic',
+  'CEO & Co-Founder',
+  'Medical student, operator and product lead',
+  'Clinical workflow design and company strategy',
+  'founder',
+  'Kerim works on clinical direction, product strategy, and hospital partnership design at Horalix.',
+  'Kerim Sabic leads Horalix as CEO and co-founder. His work centers on translating real-world clinical workflow friction into product decisions that improve speed, structure, and trust in AI-assisted care operations.',
+  '["Clinical workflow automation", "AI-assisted echocardiography", "Hospital deployment strategy"]'::jsonb,
+  'https://www.linkedin.com/in/kerims/',
+  '["https://www.linkedin.com/in/kerims/"]'::jsonb,
+  1
+),
+(
+  'amr-husain',
+  'Amr Husain',
+  'CFO & Co-Founder',
+  'Finance and operations lead',
+  'Operational scale and commercial systems',
+  'founder',
+  'Amr leads finance and operations across Horalix commercialization and deployment readiness.',
+  'Amr Husain oversees the financial and operating systems that support Horalix growth. His work focuses on translating workflow efficiency into scalable business execution and durable healthcare partnerships.',
+  '["Healthcare operations", "Commercial scale", "Deployment economics"]'::jsonb,
+  'https://www.linkedin.com/in/amr-husain-6ab6b71b/',
+  '["https://www.linkedin.com/in/amr-husain-6ab6b71b/"]'::jsonb,
+  2
+),
+(
+  'affan-kapidzic',
+  'Affan Kapidzic',
+  'Chief Technology Officer',
+  'Software engineering lead',
+  'Clinical AI platform architecture',
+  'author',
+  'Affan leads platform architecture, engineering execution, and product delivery for Horalix.',
+  'Affan Kapidzic is the engineering lead behind Horalix platform execution. He focuses on reliable product architecture, workflow usability, and the software systems needed to make clinical AI operationally useful.',
+  '["Platform architecture", "Clinical workflow software", "Deployment reliability"]'::jsonb,
+  'https://www.linkedin.com/in/affan-kapidzic/',
+  '["https://www.linkedin.com/in/affan-kapidzic/"]'::jsonb,
+  3
+),
+(
+  'neuman-alkhalil',
+  'Neuman Alkhalil',
+  'Chief Science Officer',
+  'Machine learning lead',
+  'Model development and evaluation',
+  'author',
+  'Neuman leads the scientific direction behind model development and AI evaluation at Horalix.',
+  'Neuman Alkhalil leads the machine learning direction at Horalix. His work focuses on model performance, evaluation discipline, and ensuring the scientific layer supports clinically useful workflow outcomes rather than isolated benchmark theater.',
+  '["Model evaluation", "Medical imaging AI", "Benchmark governance"]'::jsonb,
+  'https://www.linkedin.com/in/neuman-alkhalil/',
+  '["https://www.linkedin.com/in/neuman-alkhalil/"]'::jsonb,
+  4
+)
+ON CONFLICT (slug) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_resources_published_at
+ON public.resources (published_at DESC)
+WHERE is_published = true;
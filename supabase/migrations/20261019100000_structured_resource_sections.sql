@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Structured resource content
+-- ============================================================================
+-- Resources authored in the admin can now carry the same structure as the
+-- static entries in src/content/authorityData.js: key takeaways, titled
+-- sections with paragraphs and bullets, cited claims with source IDs, related
+-- resources, solution links and a CTA title.
+--
+-- Shapes:
+--   key_takeaways          [{ "label": text, "text": text }]
+--   sections               [{ "title": text, "paragraphs": [text], "bullets": [text] }]
+--   cited_claims           [{ "text": text, "sourceIds": [text] }]
+--   source_ids             [text]
+--   related_resource_slugs [text]
+--   solution_slugs         [text]
+--
+-- The flat content column stays as a fallback for resources without sections.
+-- ============================================================================
+
+ALTER TABLE public.resources
+ADD COLUMN IF NOT EXISTS hero_kicker TEXT,
+ADD COLUMN IF NOT EXISTS audience TEXT,
+ADD COLUMN IF NOT EXISTS key_takeaways JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS cited_claims JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS source_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS related_resource_slugs JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS solution_slugs JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS cta_title TEXT;
+
+ALTER TABLE public.resources
+ALTER COLUMN content SET DEFAULT '';
+
+ALTER TABLE public.resources
+ADD CONSTRAINT resources_structured_content_arrays CHECK (
+    jsonb_typeof(key_takeaways) = 'array'
+    AND jsonb_typeof(sections) = 'array'
+    AND jsonb_typeof(cited_claims) = 'array'
+    AND jsonb_typeof(source_ids) = 'array'
+    AND jsonb_typeof(related_resource_slugs) = 'array'
+    AND jsonb_typeof(solution_slugs) = 'array'
+);
+
+CREATE INDEX IF NOT EXISTS idx_resources_solution_slugs
+ON public.resources USING GIN (solution_slugs);
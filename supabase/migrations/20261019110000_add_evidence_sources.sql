@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Evidence source registry
+-- ============================================================================
+-- Replaces the hard-coded S1-S3 sources in src/content/authorityData.js with a
+-- CMS-managed table. Resources and the homepage comparison cite sources by
+-- source_key, so new keys (S4, S5, ...) can be added without code changes.
+-- ============================================================================
+
+CREATE TABLE public.evidence_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_key TEXT NOT NULL UNIQUE CHECK (source_key ~ '^[A-Z][A-Z0-9-]*$'),
+    short_label TEXT NOT NULL,
+    full_citation TEXT NOT NULL,
+    url TEXT,
+    doi TEXT,
+    accessed_on DATE,
+    disclosure_type TEXT NOT NULL DEFAULT 'external_evidence'
+        CHECK (disclosure_type IN ('external_evidence', 'benchmark_context', 'internal_benchmark')),
+    display_order INTEGER NOT NULL DEFAULT 0,
+    is_public BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.evidence_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view public evidence sources"
+ON public.evidence_sources FOR SELECT
+USING (is_public = true);
+
+CREATE POLICY "Admins can manage evidence sources"
+ON public.evidence_sources FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+CREATE TRIGGER update_evidence_sources_updated_at
+    BEFORE UPDATE ON public.evidence_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.evidence_sources (
+    source_key, short_label, full_citation, url, disclosure_type, display_order
+)
+VALUES
+    (
+        'S1',
+        'IAC Adult Echo Standards (2025)',
+        'IAC Adult Echocardiography Standards & Guidelines (2025)',
+        'https://intersocietal.org/wp-content/uploads/2025/04/IACAdultEchocardiographyStandards2025.pdf',
+        'external_evidence',
+        1
+    ),
+    (
+        'S2',
+        'AI-assisted FoCUS benchmark',
+        'AI-assisted FoCUS benchmark context',
+        'https://pmc.ncbi.nlm.nih.gov/articles/PMC12610991/',
+        'benchmark_context',
+        2
+    ),
+    (
+        'S3',
+        'AI-Echo workflow trial',
+        'AI-Echo randomized trial workflow and interaction burden context',
+        'https://pmc.ncbi.nlm.nih.gov/articles/PMC12909003/',
+        'benchmark_context',
+        3
+    )
+ON CONFLICT (source_key) DO NOTHING;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Scheduled publishing for news and resources
+-- ============================================================================
+-- is_published is the editor's intent; published_at is the go-live time and
+-- may be in the future. Public reads require both, so scheduled rows stay
+-- hidden until their time even if the scheduler runs late.
+--
+-- went_live_at is stamped by the publish-scheduled edge function once the
+-- go-live side effects (newsletter, static site rebuild) have been triggered.
+-- ============================================================================
+
+ALTER TABLE public.news_articles
+ADD COLUMN IF NOT EXISTS went_live_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.resources
+ADD COLUMN IF NOT EXISTS went_live_at TIMESTAMP WITH TIME ZONE;
+
+-- Rows published before scheduling existed are already live
+UPDATE public.news_articles
+SET published_at = COALESCE(published_at, created_at),
+    went_live_at = COALESCE(published_at, created_at)
+WHERE is_published = true;
+
+UPDATE public.resources
+SET published_at = COALESCE(published_at, created_at),
+    went_live_at = COALESCE(published_at, created_at)
+WHERE is_published = true;
+
+DROP POLICY IF EXISTS "Anyone can view published articles" ON public.news_articles;
+CREATE POLICY "Anyone can view published articles"
+ON public.news_articles FOR SELECT
+USING (is_published = true AND published_at IS NOT NULL AND published_at <= now());
+
+DROP POLICY IF EXISTS "Anyone can view published resources" ON public.resources;
+CREATE POLICY "Anyone can view published resources"
+ON public.resources FOR SELECT
+USING (is_published = true AND published_at IS NOT NULL AND published_at <= now());
+
+-- Lets the scheduler find due rows without scanning everything
+CREATE INDEX IF NOT EXISTS idx_news_articles_pending_go_live
+ON public.news_articles (published_at)
+WHERE is_published = true AND went_live_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_resources_pending_go_live
+ON public.resources (published_at)
+WHERE is_published = true AND went_live_at IS NULL;
+
+-- Unpublishing clears went_live_at so a later re-publish triggers a rebuild again
+CREATE OR REPLACE FUNCTION public.reset_went_live_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.is_published = false
+       OR (NEW.published_at IS DISTINCT FROM OLD.published_at AND NEW.published_at > now()) THEN
+        NEW.went_live_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_news_articles_went_live_at
+    BEFORE UPDATE OF is_published, published_at ON public.news_articles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reset_went_live_at();
+
+CREATE TRIGGER reset_resources_went_live_at
+    BEFORE UPDATE OF is_published, published_at ON public.resources
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reset_went_live_at();
@@ -0,0 +1,209 @@
+-- ============================================================================
+-- Stable publish dates and content revision history
+-- ============================================================================
+-- published_at is the first-publish date and no longer moves once content has
+-- gone live. content_updated_at records the last substantive update, which
+-- editors opt into; updated_at keeps tracking every save.
+--
+-- Every insert and update on a CMS content table is snapshotted into
+-- content_revisions so editors can diff and restore earlier versions.
+-- ============================================================================
+
+ALTER TABLE public.news_articles
+ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.resources
+ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Resources previously surfaced updated_at as their "Updated" date
+UPDATE public.resources
+SET content_updated_at = updated_at
+WHERE content_updated_at IS NULL AND published_at IS NOT NULL AND updated_at > published_at;
+
+-- Once content has gone live its first-publish date is fixed, including across unpublish/republish
+CREATE OR REPLACE FUNCTION public.preserve_first_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.published_at IS NOT NULL AND OLD.published_at <= now() THEN
+        NEW.published_at := OLD.published_at;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Named to sort before reset_*_went_live_at so that trigger sees the preserved value
+CREATE TRIGGER preserve_news_articles_published_at
+    BEFORE UPDATE ON public.news_articles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.preserve_first_published_at();
+
+CREATE TRIGGER preserve_resources_published_at
+    BEFORE UPDATE ON public.resources
+    FOR EACH ROW
+    EXECUTE FUNCTION public.preserve_first_published_at();
+
+-- ============================================================================
+-- content_revisions
+-- ============================================================================
+
+CREATE TABLE public.content_revisions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    table_name TEXT NOT NULL CHECK (table_name IN (
+        'contributors', 'evidence_sources', 'faq_items', 'linkedin_posts', 'news_articles',
+        'resources', 'site_content', 'solutions', 'team_members'
+    )),
+    record_id UUID NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'restore')),
+    snapshot JSONB NOT NULL,
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    is_substantive BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_content_revisions_record
+ON public.content_revisions (table_name, record_id, created_at DESC);
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the capture trigger; nobody edits history
+CREATE POLICY "Admins and editors can view content revisions"
+ON public.content_revisions FOR SELECT
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+-- updated_at and went_live_at are ignored when diffing: they change without an editorial edit.
+-- A revision is substantive when the save also moved content_updated_at (tables without it always are).
+CREATE OR REPLACE FUNCTION public.capture_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _new JSONB := to_jsonb(NEW);
+    _old JSONB;
+    _changed TEXT[] := '{}';
+    _operation TEXT := 'insert';
+    _substantive BOOLEAN := true;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        _old := to_jsonb(OLD);
+        SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+        INTO _changed
+        FROM jsonb_each(_new) AS n(key, value)
+        WHERE key NOT IN ('updated_at', 'went_live_at')
+          AND n.value IS DISTINCT FROM _old -> key;
+
+        IF array_length(_changed, 1) IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        _operation := COALESCE(NULLIF(current_setting('app.revision_operation', true), ''), 'update');
+        _substantive := NOT (_new ? 'content_updated_at')
+            OR (_new -> 'content_updated_at') IS DISTINCT FROM (_old -> 'content_updated_at');
+    END IF;
+
+    INSERT INTO public.content_revisions (table_name, record_id, operation, snapshot, changed_fields, is_substantive, created_by)
+    VALUES (TG_TABLE_NAME, NEW.id, _operation, _new, _changed, _substantive, auth.uid());
+
+    RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+    _table TEXT;
+BEGIN
+    FOREACH _table IN ARRAY ARRAY[
+        'contributors', 'evidence_sources', 'faq_items', 'linkedin_posts', 'news_articles',
+        'resources', 'site_content', 'solutions', 'team_members'
+    ] LOOP
+        EXECUTE format(
+            'CREATE TRIGGER capture_%1$s_revision
+                AFTER INSERT OR UPDATE ON public.%1$I
+                FOR EACH ROW
+                EXECUTE FUNCTION public.capture_content_revision()',
+            _table
+        );
+    END LOOP;
+END;
+$$;
+
+-- Baseline revision for existing rows so the first edit has something to diff against
+INSERT INTO public.content_revisions (table_name, record_id, operation, snapshot)
+SELECT 'contributors', id, 'insert', to_jsonb(t) FROM public.contributors t
+UNION ALL SELECT 'evidence_sources', id, 'insert', to_jsonb(t) FROM public.evidence_sources t
+UNION ALL SELECT 'faq_items', id, 'insert', to_jsonb(t) FROM public.faq_items t
+UNION ALL SELECT 'linkedin_posts', id, 'insert', to_jsonb(t) FROM public.linkedin_posts t
+UNION ALL SELECT 'news_articles', id, 'insert', to_jsonb(t) FROM public.news_articles t
+UNION ALL SELECT 'resources', id, 'insert', to_jsonb(t) FROM public.resources t
+UNION ALL SELECT 'site_content', id, 'insert', to_jsonb(t) FROM public.site_content t
+UNION ALL SELECT 'solutions', id, 'insert', to_jsonb(t) FROM public.solutions t
+UNION ALL SELECT 'team_members', id, 'insert', to_jsonb(t) FROM public.team_members t;
+
+-- ============================================================================
+-- Restore
+-- ============================================================================
+-- Runs as the caller so the content table's own RLS decides who may restore.
+-- Publish state and system columns are left alone: restoring old copy never
+-- unpublishes, reschedules or re-dates an item. The restore is recorded as a
+-- substantive 'restore' revision.
+
+CREATE OR REPLACE FUNCTION public.restore_content_revision(_revision_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    _revision public.content_revisions%ROWTYPE;
+    _assignments TEXT;
+    _updated INTEGER;
+BEGIN
+    SELECT * INTO _revision FROM public.content_revisions WHERE id = _revision_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Revision not found';
+    END IF;
+
+    SELECT string_agg(format('%1$I = r.%1$I', c.column_name), ', ')
+    INTO _assignments
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = _revision.table_name
+      AND _revision.snapshot ? c.column_name
+      AND c.column_name NOT IN (
+          'id', 'created_at', 'updated_at', 'is_published', 'published_at', 'went_live_at',
+          'content_updated_at', 'is_active', 'is_public', 'is_visible'
+      );
+
+    IF _assignments IS NULL THEN
+        RAISE EXCEPTION 'Revision has no restorable fields';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = _revision.table_name AND column_name = 'content_updated_at'
+    ) THEN
+        _assignments := _assignments || ', content_updated_at = now()';
+    END IF;
+
+    PERFORM set_config('app.revision_operation', 'restore', true);
+
+    EXECUTE format(
+        'UPDATE public.%1$I AS t SET %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) AS r WHERE t.id = $2',
+        _revision.table_name,
+        _assignments
+    )
+    USING _revision.snapshot, _revision.record_id;
+    GET DIAGNOSTICS _updated = ROW_COUNT;
+
+    PERFORM set_config('app.revision_operation', '', true);
+
+    IF _updated = 0 THEN
+        RAISE EXCEPTION 'Record not found or not editable';
+    END IF;
+END;
+$$;
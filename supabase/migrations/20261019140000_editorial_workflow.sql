@@ -0,0 +1,285 @@
+-- ============================================================================
+-- Editorial review workflow for news and resources
+-- ============================================================================
+-- workflow_status: draft -> in_review -> approved -> published
+--
+--   submit           draft      -> in_review   admin, editor
+--   request_changes  in_review  -> draft       designated reviewer, admin
+--   approve          in_review  -> approved    designated reviewer (resources),
+--                                              admin (news); stamps reviewed_at
+--   publish          approved   -> published   admin, editor
+--   unpublish        published  -> draft       admin, editor
+--
+-- Transitions only happen through transition_content_workflow(); a trigger
+-- rejects direct status changes and keeps is_published in sync, so RLS and the
+-- scheduled publisher keep working off is_published/published_at.
+--
+-- Viewers get read-only access to everything the admin area shows.
+-- ============================================================================
+
+-- Step 1: Staff helpers
+CREATE OR REPLACE FUNCTION public.has_admin_access(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = _user_id
+          AND role IN ('admin', 'editor', 'viewer')
+    )
+$$;
+
+-- Contributors can be linked to a login so reviewer_id can be matched to a user
+ALTER TABLE public.contributors
+ADD COLUMN IF NOT EXISTS user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.link_contributor_account(_contributor_id UUID, _email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can link contributor accounts';
+    END IF;
+
+    IF NULLIF(trim(_email), '') IS NOT NULL THEN
+        SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(trim(_email));
+        IF _user_id IS NULL THEN
+            RAISE EXCEPTION 'No account found for %', _email;
+        END IF;
+    END IF;
+
+    UPDATE public.contributors SET user_id = _user_id WHERE id = _contributor_id;
+    RETURN _user_id;
+END;
+$$;
+
+-- Editors can update contributors, but only admins decide who may approve as a reviewer
+CREATE OR REPLACE FUNCTION public.enforce_contributor_user_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    -- Restoring a revision brings back the profile, not an old account link
+    IF TG_OP = 'UPDATE' AND current_setting('app.revision_operation', true) = 'restore' THEN
+        NEW.user_id := OLD.user_id;
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+       AND NEW.user_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.user_id END)
+       AND NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can link contributor accounts';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_contributors_user_link
+    BEFORE INSERT OR UPDATE ON public.contributors
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_contributor_user_link();
+
+-- Step 2: Workflow columns
+ALTER TABLE public.news_articles
+ADD COLUMN IF NOT EXISTS workflow_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_status IN ('draft', 'in_review', 'approved', 'published')),
+ADD COLUMN IF NOT EXISTS review_notes TEXT;
+
+ALTER TABLE public.resources
+ADD COLUMN IF NOT EXISTS workflow_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_status IN ('draft', 'in_review', 'approved', 'published')),
+ADD COLUMN IF NOT EXISTS review_notes TEXT;
+
+UPDATE public.news_articles SET workflow_status = 'published' WHERE is_published = true;
+UPDATE public.resources SET workflow_status = 'published' WHERE is_published = true;
+
+-- Step 3: Guard status changes and keep is_published derived from the workflow
+CREATE OR REPLACE FUNCTION public.enforce_editorial_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _in_transition BOOLEAN := current_setting('app.workflow_transition', true) = 'on';
+    _old_content JSONB;
+    _new_content JSONB;
+BEGIN
+    -- Service-role jobs (no auth.uid()) and migrations are trusted
+    IF auth.uid() IS NOT NULL AND NOT _in_transition THEN
+        -- Restoring a revision brings back copy, never an old workflow state
+        IF TG_OP = 'UPDATE' AND current_setting('app.revision_operation', true) = 'restore' THEN
+            NEW.workflow_status := OLD.workflow_status;
+            NEW.review_notes := OLD.review_notes;
+        END IF;
+
+        IF TG_OP = 'INSERT' THEN
+            NEW.workflow_status := 'draft';
+        ELSIF NEW.workflow_status IS DISTINCT FROM OLD.workflow_status THEN
+            RAISE EXCEPTION 'Use transition_content_workflow() to change workflow status';
+        ELSIF NEW.workflow_status = 'approved' THEN
+            -- Editing approved copy needs a fresh review
+            _old_content := to_jsonb(OLD) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+            _new_content := to_jsonb(NEW) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+            IF _old_content IS DISTINCT FROM _new_content THEN
+                NEW.workflow_status := 'in_review';
+            END IF;
+        END IF;
+    END IF;
+
+    NEW.is_published := NEW.workflow_status = 'published';
+    RETURN NEW;
+END;
+$$;
+
+-- Named to sort before preserve_* and reset_* so they see the derived is_published
+CREATE TRIGGER enforce_news_articles_workflow
+    BEFORE INSERT OR UPDATE ON public.news_articles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_editorial_workflow();
+
+CREATE TRIGGER enforce_resources_workflow
+    BEFORE INSERT OR UPDATE ON public.resources
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_editorial_workflow();
+
+-- Step 4: The only way to move content through the workflow
+CREATE OR REPLACE FUNCTION public.transition_content_workflow(
+    _table TEXT,
+    _record_id UUID,
+    _action TEXT,
+    _note TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _uid UUID := auth.uid();
+    _current TEXT;
+    _reviewer_id UUID;
+    _next TEXT;
+    _can_edit BOOLEAN := public.has_role(_uid, 'admin') OR public.has_role(_uid, 'editor');
+    _is_admin BOOLEAN := public.has_role(_uid, 'admin');
+    _is_reviewer BOOLEAN := false;
+BEGIN
+    IF _table NOT IN ('news_articles', 'resources') THEN
+        RAISE EXCEPTION 'Unsupported table %', _table;
+    END IF;
+
+    IF _table = 'resources' THEN
+        SELECT workflow_status, reviewer_id INTO _current, _reviewer_id
+        FROM public.resources WHERE id = _record_id FOR UPDATE;
+        _is_reviewer := _reviewer_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.contributors WHERE id = _reviewer_id AND user_id = _uid
+        ) AND public.has_admin_access(_uid);
+    ELSE
+        SELECT workflow_status INTO _current
+        FROM public.news_articles WHERE id = _record_id FOR UPDATE;
+    END IF;
+
+    IF _current IS NULL THEN
+        RAISE EXCEPTION 'Record not found';
+    END IF;
+
+    CASE _action
+        WHEN 'submit' THEN
+            IF _current <> 'draft' THEN RAISE EXCEPTION 'Only drafts can be submitted for review'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'in_review';
+        WHEN 'request_changes' THEN
+            IF _current <> 'in_review' THEN RAISE EXCEPTION 'Only items in review can be sent back'; END IF;
+            IF NOT (_is_reviewer OR _is_admin) THEN RAISE EXCEPTION 'Only the designated reviewer can request changes'; END IF;
+            _next := 'draft';
+        WHEN 'approve' THEN
+            IF _current <> 'in_review' THEN RAISE EXCEPTION 'Only items in review can be approved'; END IF;
+            IF _table = 'resources' THEN
+                IF _reviewer_id IS NULL THEN RAISE EXCEPTION 'Assign a reviewer before approving'; END IF;
+                IF NOT _is_reviewer THEN RAISE EXCEPTION 'Only the designated reviewer can approve this resource'; END IF;
+            ELSIF NOT _is_admin THEN
+                RAISE EXCEPTION 'Only admins can approve news articles';
+            END IF;
+            _next := 'approved';
+        WHEN 'publish' THEN
+            IF _current <> 'approved' THEN RAISE EXCEPTION 'Only approved items can be published'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'published';
+        WHEN 'unpublish' THEN
+            IF _current <> 'published' THEN RAISE EXCEPTION 'Item is not published'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'draft';
+        ELSE
+            RAISE EXCEPTION 'Unknown action %', _action;
+    END CASE;
+
+    PERFORM set_config('app.workflow_transition', 'on', true);
+
+    IF _table = 'resources' THEN
+        UPDATE public.resources
+        SET workflow_status = _next,
+            review_notes = CASE WHEN _action IN ('request_changes', 'approve') THEN NULLIF(trim(_note), '') ELSE review_notes END,
+            reviewed_at = CASE WHEN _action = 'approve' THEN now() ELSE reviewed_at END,
+            published_at = CASE WHEN _action = 'publish' THEN COALESCE(published_at, now()) ELSE published_at END
+        WHERE id = _record_id;
+    ELSE
+        UPDATE public.news_articles
+        SET workflow_status = _next,
+            review_notes = CASE WHEN _action IN ('request_changes', 'approve') THEN NULLIF(trim(_note), '') ELSE review_notes END,
+            published_at = CASE WHEN _action = 'publish' THEN COALESCE(published_at, now()) ELSE published_at END
+        WHERE id = _record_id;
+    END IF;
+
+    PERFORM set_config('app.workflow_transition', '', true);
+    RETURN _next;
+END;
+$$;
+
+-- Step 5: Read-only admin access for viewers
+CREATE POLICY "Staff can view all articles"
+ON public.news_articles FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all resources"
+ON public.resources FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all contributors"
+ON public.contributors FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all evidence sources"
+ON public.evidence_sources FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all FAQ items"
+ON public.faq_items FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all LinkedIn posts"
+ON public.linkedin_posts FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all solutions"
+ON public.solutions FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view all team members"
+ON public.team_members FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view contact submissions"
+ON public.contact_submissions FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view content revisions"
+ON public.content_revisions FOR SELECT
+USING (public.has_admin_access(auth.uid()));
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Admin user and role management
+-- ============================================================================
+-- Roles are managed from /admin/users through the manage-user-roles edge
+-- function, which enforces that at least one admin remains and records every
+-- change in user_role_changes. Admins keep read access to roles and profiles;
+-- direct writes to user_roles from the client are no longer allowed.
+-- ============================================================================
+
+-- Step 1: Route role writes through the edge function
+DROP POLICY IF EXISTS "Admins can manage all roles" ON public.user_roles;
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.is_allowed_origin());
+
+-- Step 2: Admins can list staff profiles
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.is_allowed_origin());
+
+-- Step 3: Who changed what
+CREATE TABLE public.user_role_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_email TEXT,
+    target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    target_email TEXT,
+    action TEXT NOT NULL CHECK (action IN ('invite', 'grant', 'change', 'revoke')),
+    previous_role app_role,
+    new_role app_role,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_role_changes_created_at ON public.user_role_changes (created_at DESC);
+
+ALTER TABLE public.user_role_changes ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role only
+CREATE POLICY "Admins can view role changes"
+  ON public.user_role_changes FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
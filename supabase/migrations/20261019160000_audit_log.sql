@@ -0,0 +1,106 @@
+-- ============================================================================
+-- Audit log for CMS mutations
+-- ============================================================================
+-- Every insert, update and delete on a CMS table is recorded with the acting
+-- user, so deletes, status changes and unpublishes can be traced. Unlike
+-- content_revisions (which powers diff/restore for editable copy), audit_log
+-- also covers deletes and contact submissions, and is append-only.
+-- ============================================================================
+
+-- Step 1: Table
+CREATE TABLE public.audit_log (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    old_data JSONB,
+    new_data JSONB,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_email TEXT,
+    -- 'authenticated' for CMS users, 'service_role' for edge functions and jobs
+    actor_role TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX idx_audit_log_actor ON public.audit_log (actor_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the trigger; nobody edits or deletes the log
+CREATE POLICY "Staff can view the audit log"
+ON public.audit_log FOR SELECT
+USING (public.has_admin_access(auth.uid()));
+
+-- Step 2: Capture trigger
+CREATE OR REPLACE FUNCTION public.capture_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _old JSONB;
+    _new JSONB;
+    _changed TEXT[] := '{}';
+    _claims JSONB := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        _old := to_jsonb(OLD);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        _new := to_jsonb(NEW);
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+        INTO _changed
+        FROM jsonb_each(_new) AS n(key, value)
+        WHERE key <> 'updated_at'
+          AND n.value IS DISTINCT FROM _old -> key;
+
+        -- Saves that only touch updated_at are noise
+        IF array_length(_changed, 1) IS NULL THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    INSERT INTO public.audit_log (
+        table_name, record_id, action, changed_fields, old_data, new_data, actor_id, actor_email, actor_role
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        COALESCE(NEW.id, OLD.id),
+        lower(TG_OP),
+        _changed,
+        _old,
+        _new,
+        auth.uid(),
+        _claims ->> 'email',
+        _claims ->> 'role'
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DO $$
+DECLARE
+    _table TEXT;
+BEGIN
+    FOREACH _table IN ARRAY ARRAY[
+        'contact_submissions', 'contributors', 'evidence_sources', 'faq_items', 'linkedin_posts',
+        'news_articles', 'resources', 'site_content', 'solutions', 'team_members'
+    ] LOOP
+        EXECUTE format(
+            'CREATE TRIGGER audit_%1$s
+                AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+                FOR EACH ROW
+                EXECUTE FUNCTION public.capture_audit_log()',
+            _table
+        );
+    END LOOP;
+END;
+$$;
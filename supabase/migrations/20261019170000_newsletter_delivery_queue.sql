@@ -0,0 +1,178 @@
+-- ============================================================================
+-- Newsletter delivery queue
+-- ============================================================================
+-- send-newsletter no longer mails every subscriber inside one request. It
+-- renders the email once onto newsletter_sends and enqueues one
+-- newsletter_deliveries row per recipient; newsletter-worker drains the queue
+-- in batches with exponential backoff. A timeout midway loses nothing: rows
+-- still queued (or stuck in 'sending') are picked up by the next run, and
+-- failures can be retried from the admin.
+--
+--   queued -> sending -> sent
+--                     -> queued (transient error, next_attempt_at backs off)
+--                     -> failed (permanent error or out of attempts)
+--   sent   -> bounced (provider webhook)
+-- ============================================================================
+
+-- Step 1: newsletter_sends becomes the send header; recipients_count counts delivered emails
+ALTER TABLE public.newsletter_sends
+ADD COLUMN IF NOT EXISTS subject TEXT,
+ADD COLUMN IF NOT EXISTS html TEXT,
+ADD COLUMN IF NOT EXISTS total_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Sends recorded before the queue existed are finished
+UPDATE public.newsletter_sends
+SET total_count = recipients_count, completed_at = sent_at
+WHERE completed_at IS NULL;
+
+-- Step 2: One row per recipient
+CREATE TABLE public.newsletter_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    send_id UUID NOT NULL REFERENCES public.newsletter_sends(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    provider_message_id TEXT,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (send_id, email)
+);
+
+CREATE INDEX idx_newsletter_deliveries_due
+ON public.newsletter_deliveries (next_attempt_at)
+WHERE status = 'queued';
+
+CREATE INDEX idx_newsletter_deliveries_send_status
+ON public.newsletter_deliveries (send_id, status);
+
+CREATE INDEX idx_newsletter_deliveries_provider_message
+ON public.newsletter_deliveries (provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE public.newsletter_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions with the service role only
+CREATE POLICY "Staff can view newsletter deliveries"
+ON public.newsletter_deliveries FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Staff can view newsletter sends"
+ON public.newsletter_sends FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()));
+
+CREATE TRIGGER update_newsletter_deliveries_updated_at
+    BEFORE UPDATE ON public.newsletter_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Per-send status counts for the admin
+CREATE VIEW public.newsletter_send_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    s.id AS send_id,
+    COUNT(d.id) FILTER (WHERE d.status IN ('queued', 'sending'))::INTEGER AS pending_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'sent')::INTEGER AS sent_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'failed')::INTEGER AS failed_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'bounced')::INTEGER AS bounced_count
+FROM public.newsletter_sends s
+LEFT JOIN public.newsletter_deliveries d ON d.send_id = s.id
+GROUP BY s.id;
+
+-- Step 4: Worker helpers (service role only)
+-- Claims due rows for one worker; SKIP LOCKED lets overlapping runs share the queue.
+-- Rows left in 'sending' by a crashed run are reclaimed after 10 minutes.
+CREATE OR REPLACE FUNCTION public.claim_newsletter_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.newsletter_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.newsletter_deliveries d
+    SET status = 'sending',
+        attempts = d.attempts + 1,
+        locked_at = now()
+    WHERE d.id IN (
+        SELECT id
+        FROM public.newsletter_deliveries
+        WHERE (status = 'queued' AND next_attempt_at <= now())
+           OR (status = 'sending' AND locked_at < now() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+END;
+$$;
+
+-- Syncs the send header once its deliveries change
+CREATE OR REPLACE FUNCTION public.refresh_newsletter_send(_send_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.newsletter_sends s
+    SET recipients_count = (
+            SELECT COUNT(*) FROM public.newsletter_deliveries
+            WHERE send_id = _send_id AND status = 'sent'
+        ),
+        completed_at = CASE
+            WHEN EXISTS (
+                SELECT 1 FROM public.newsletter_deliveries
+                WHERE send_id = _send_id AND status IN ('queued', 'sending')
+            ) THEN NULL
+            ELSE COALESCE(s.completed_at, now())
+        END
+    WHERE s.id = _send_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_newsletter_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_newsletter_send(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Step 5: Admin retry - puts failed deliveries back in the queue (bounced addresses stay out)
+CREATE OR REPLACE FUNCTION public.retry_newsletter_deliveries(
+    _send_id UUID,
+    _delivery_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _count INTEGER;
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor')) THEN
+        RAISE EXCEPTION 'Editor access required';
+    END IF;
+
+    UPDATE public.newsletter_deliveries
+    SET status = 'queued',
+        attempts = 0,
+        next_attempt_at = now(),
+        locked_at = NULL,
+        last_error = NULL
+    WHERE send_id = _send_id
+      AND status = 'failed'
+      AND (_delivery_ids IS NULL OR id = ANY(_delivery_ids));
+
+    GET DIAGNOSTICS _count = ROW_COUNT;
+
+    IF _count > 0 THEN
+        UPDATE public.newsletter_sends SET completed_at = NULL WHERE id = _send_id;
+    END IF;
+
+    RETURN _count;
+END;
+$$;
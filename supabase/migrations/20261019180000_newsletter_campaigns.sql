@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Newsletter campaigns
+-- ============================================================================
+-- A campaign is one composed newsletter: an automatic "article" email fired when
+-- a news article goes live, or a hand-built "digest" of several articles and
+-- resources with an intro. Digests can be previewed, test-sent, scheduled and
+-- targeted at a subscriber segment. Sending a campaign creates its
+-- newsletter_sends row, which the delivery queue (newsletter-worker) drains.
+--
+--   draft <-> scheduled -> sent
+-- ============================================================================
+
+-- Step 1: Campaigns
+CREATE TABLE public.newsletter_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_type TEXT NOT NULL DEFAULT 'digest'
+        CHECK (campaign_type IN ('article', 'digest')),
+    subject TEXT NOT NULL,
+    intro TEXT NOT NULL DEFAULT '',
+    article_ids UUID[] NOT NULL DEFAULT '{}',
+    resource_ids UUID[] NOT NULL DEFAULT '{}',
+    -- all: every subscriber, registered: subscribers with an account, guests: without one
+    segment TEXT NOT NULL DEFAULT 'all'
+        CHECK (segment IN ('all', 'registered', 'guests')),
+    -- Optional: only subscribers who joined on or after this time
+    segment_subscribed_since TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'scheduled', 'sent')),
+    scheduled_at TIMESTAMP WITH TIME ZONE,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT newsletter_campaigns_scheduled_at_check
+        CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL)
+);
+
+CREATE INDEX idx_newsletter_campaigns_due
+ON public.newsletter_campaigns (scheduled_at)
+WHERE status = 'scheduled';
+
+CREATE TRIGGER update_newsletter_campaigns_updated_at
+    BEFORE UPDATE ON public.newsletter_campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.newsletter_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view newsletter campaigns"
+ON public.newsletter_campaigns FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()));
+
+-- Staff compose drafts and schedule them; only the newsletter-campaign function marks them sent
+CREATE POLICY "Editors can create newsletter campaigns"
+ON public.newsletter_campaigns FOR INSERT
+TO authenticated
+WITH CHECK (
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'))
+    AND campaign_type = 'digest'
+    AND status IN ('draft', 'scheduled')
+);
+
+CREATE POLICY "Editors can update unsent newsletter campaigns"
+ON public.newsletter_campaigns FOR UPDATE
+TO authenticated
+USING (
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'))
+    AND status IN ('draft', 'scheduled')
+)
+WITH CHECK (
+    campaign_type = 'digest'
+    AND status IN ('draft', 'scheduled')
+);
+
+CREATE POLICY "Editors can delete unsent newsletter campaigns"
+ON public.newsletter_campaigns FOR DELETE
+TO authenticated
+USING (
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'))
+    AND status IN ('draft', 'scheduled')
+);
+
+-- Step 2: A send belongs to a campaign; article sends keep their one-per-article key
+ALTER TABLE public.newsletter_sends
+ALTER COLUMN article_id DROP NOT NULL,
+ADD COLUMN campaign_id UUID UNIQUE REFERENCES public.newsletter_campaigns(id) ON DELETE SET NULL;
+
+-- Step 3: Existing article sends become article campaigns
+WITH backfilled AS (
+    INSERT INTO public.newsletter_campaigns (campaign_type, subject, article_ids, status, sent_at, created_at)
+    SELECT
+        'article',
+        COALESCE(s.subject, 'New from Horalix: ' || a.title),
+        ARRAY[s.article_id],
+        'sent',
+        s.sent_at,
+        s.sent_at
+    FROM public.newsletter_sends s
+    JOIN public.news_articles a ON a.id = s.article_id
+    WHERE s.campaign_id IS NULL
+    RETURNING id, article_ids[1] AS article_id
+)
+UPDATE public.newsletter_sends s
+SET campaign_id = b.id
+FROM backfilled b
+WHERE s.article_id = b.article_id;
@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Newsletter double opt-in and topic preferences
+-- ============================================================================
+-- Anyone can now subscribe from the public form without an account. A
+-- subscription only becomes active (is_subscribed) once the address is
+-- confirmed: by the link in the confirmation email (newsletter-subscribe), or,
+-- for signup opt-ins, by confirming the account email.
+--
+-- Subscribers choose topics; campaigns target one topic and only reach
+-- subscribers who kept it. Both are managed from /newsletter/preferences, which
+-- every email links to with a signed per-subscriber token.
+-- ============================================================================
+
+-- Step 1: Confirmation state, topics and where the subscription came from
+ALTER TABLE public.newsletter_subscriptions
+ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN confirmation_sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN topics TEXT[] NOT NULL DEFAULT ARRAY['news', 'resources', 'product_updates'],
+ADD COLUMN source TEXT NOT NULL DEFAULT 'signup',
+ADD CONSTRAINT newsletter_subscriptions_topics_check
+    CHECK (topics <@ ARRAY['news', 'resources', 'product_updates']),
+ADD CONSTRAINT newsletter_subscriptions_source_check
+    CHECK (source IN ('signup', 'form', 'admin', 'import'));
+
+-- Everyone subscribed before double opt-in counts as confirmed
+UPDATE public.newsletter_subscriptions
+SET confirmed_at = subscribed_at
+WHERE is_subscribed;
+
+CREATE INDEX idx_newsletter_subscriptions_topics
+ON public.newsletter_subscriptions USING GIN (topics)
+WHERE is_subscribed;
+
+-- Step 2: Campaigns target a topic; article announcements are "news"
+ALTER TABLE public.newsletter_campaigns
+ADD COLUMN topic TEXT NOT NULL DEFAULT 'news'
+    CHECK (topic IN ('news', 'resources', 'product_updates'));
+
+-- Step 3: Signup opt-ins wait for the account email to be confirmed
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wants_newsletter BOOLEAN := false;
+  is_confirmed BOOLEAN := NEW.email_confirmed_at IS NOT NULL;
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name, email, avatar_url)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
+    NEW.email,
+    NEW.raw_user_meta_data->>'avatar_url'
+  );
+
+  wants_newsletter := COALESCE((NEW.raw_user_meta_data->>'newsletter_opt_in')::BOOLEAN, false);
+
+  IF wants_newsletter THEN
+    INSERT INTO public.newsletter_subscriptions (
+      user_id,
+      email,
+      is_subscribed,
+      subscribed_at,
+      unsubscribed_at,
+      confirmed_at,
+      source
+    )
+    VALUES (
+      NEW.id,
+      LOWER(NEW.email),
+      is_confirmed,
+      now(),
+      NULL,
+      CASE WHEN is_confirmed THEN now() END,
+      'signup'
+    )
+    ON CONFLICT (email) DO UPDATE
+    SET
+      user_id = EXCLUDED.user_id,
+      -- An already confirmed address stays subscribed
+      is_subscribed = newsletter_subscriptions.is_subscribed OR EXCLUDED.is_subscribed,
+      confirmed_at = COALESCE(newsletter_subscriptions.confirmed_at, EXCLUDED.confirmed_at),
+      unsubscribed_at = NULL,
+      updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Activates a pending signup opt-in when the account email is confirmed
+CREATE OR REPLACE FUNCTION public.confirm_signup_newsletter()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.newsletter_subscriptions
+  SET is_subscribed = true,
+      confirmed_at = now(),
+      subscribed_at = now(),
+      updated_at = now()
+  WHERE user_id = NEW.id
+    AND email = LOWER(NEW.email)
+    AND confirmed_at IS NULL
+    AND unsubscribed_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_confirmed
+    AFTER UPDATE OF email_confirmed_at ON auth.users
+    FOR EACH ROW
+    WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+    EXECUTE FUNCTION public.confirm_signup_newsletter();
@@ -0,0 +1,154 @@
+-- ============================================================================
+-- Subscriber management for the admin
+-- ============================================================================
+-- Admins could read newsletter_subscriptions but not change it, and the row
+-- only keeps the latest subscribed_at/unsubscribed_at pair. This adds:
+-- 1. Admin insert/update/delete policies for manual adds, removals and CSV import
+-- 2. newsletter_subscription_events: an append-only subscribe/unsubscribe history,
+--    kept by email so it survives the row being removed
+-- 3. newsletter_subscriber_growth(): daily joins, leaves and running total
+-- ============================================================================
+
+-- Step 1: Admin write access
+CREATE POLICY "Admins can insert subscriptions"
+ON public.newsletter_subscriptions FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update subscriptions"
+ON public.newsletter_subscriptions FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete subscriptions"
+ON public.newsletter_subscriptions FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Step 2: Event history
+CREATE TABLE public.newsletter_subscription_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- No foreign key: history outlives removed subscriptions
+    subscription_id UUID NOT NULL,
+    email TEXT NOT NULL,
+    event TEXT NOT NULL CHECK (event IN ('pending', 'subscribed', 'unsubscribed', 'topics_changed', 'removed')),
+    source TEXT,
+    topics TEXT[] NOT NULL DEFAULT '{}',
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_newsletter_subscription_events_email
+    ON public.newsletter_subscription_events (email, created_at DESC);
+CREATE INDEX idx_newsletter_subscription_events_created_at
+    ON public.newsletter_subscription_events (created_at DESC);
+
+ALTER TABLE public.newsletter_subscription_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only by the trigger below
+CREATE POLICY "Admins can view subscription events"
+ON public.newsletter_subscription_events FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Step 3: Capture trigger
+CREATE OR REPLACE FUNCTION public.record_newsletter_subscription_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _row public.newsletter_subscriptions := COALESCE(NEW, OLD);
+    _events TEXT[] := '{}';
+    _event TEXT;
+    _claims JSONB := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        _events := ARRAY[CASE WHEN NEW.is_subscribed THEN 'subscribed' ELSE 'pending' END];
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF NEW.is_subscribed AND NOT OLD.is_subscribed THEN
+            _events := ARRAY['subscribed'];
+        ELSIF OLD.is_subscribed AND NOT NEW.is_subscribed THEN
+            _events := ARRAY['unsubscribed'];
+        ELSIF NEW.topics IS DISTINCT FROM OLD.topics THEN
+            _events := ARRAY['topics_changed'];
+        END IF;
+    ELSE
+        -- Removing an active subscriber also counts as an unsubscribe for the growth chart
+        _events := CASE WHEN OLD.is_subscribed THEN ARRAY['unsubscribed', 'removed'] ELSE ARRAY['removed'] END;
+    END IF;
+
+    FOREACH _event IN ARRAY _events LOOP
+        INSERT INTO public.newsletter_subscription_events (
+            subscription_id, email, event, source, topics, actor_id, actor_email
+        )
+        VALUES (
+            _row.id, _row.email, _event, _row.source, _row.topics, auth.uid(), _claims ->> 'email'
+        );
+    END LOOP;
+
+    RETURN _row;
+END;
+$$;
+
+CREATE TRIGGER on_newsletter_subscription_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.newsletter_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_newsletter_subscription_event();
+
+-- Step 4: Backfill history from the timestamps already on each row
+INSERT INTO public.newsletter_subscription_events (subscription_id, email, event, source, topics, created_at)
+SELECT id, email, 'subscribed', source, topics, COALESCE(confirmed_at, subscribed_at)
+FROM public.newsletter_subscriptions
+WHERE is_subscribed OR unsubscribed_at IS NOT NULL;
+
+INSERT INTO public.newsletter_subscription_events (subscription_id, email, event, source, topics, created_at)
+SELECT id, email, 'unsubscribed', source, topics, unsubscribed_at
+FROM public.newsletter_subscriptions
+WHERE NOT is_subscribed AND unsubscribed_at IS NOT NULL;
+
+INSERT INTO public.newsletter_subscription_events (subscription_id, email, event, source, topics, created_at)
+SELECT id, email, 'pending', source, topics, created_at
+FROM public.newsletter_subscriptions
+WHERE NOT is_subscribed AND unsubscribed_at IS NULL;
+
+-- Step 5: Growth series for the admin charts
+-- The running total is counted back from today's active subscribers, so it stays
+-- correct even where the backfilled history is incomplete. Runs with the caller's
+-- rights: RLS limits it to admins.
+CREATE OR REPLACE FUNCTION public.newsletter_subscriber_growth(_days INT DEFAULT 90)
+RETURNS TABLE (day DATE, subscribed BIGINT, unsubscribed BIGINT, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH days AS (
+        SELECT generate_series(current_date - (_days - 1), current_date, INTERVAL '1 day')::date AS day
+    ),
+    daily AS (
+        SELECT
+            created_at::date AS day,
+            count(*) FILTER (WHERE event = 'subscribed') AS subscribed,
+            count(*) FILTER (WHERE event = 'unsubscribed') AS unsubscribed
+        FROM public.newsletter_subscription_events
+        WHERE created_at >= current_date - (_days - 1)
+        GROUP BY 1
+    ),
+    series AS (
+        SELECT days.day, COALESCE(daily.subscribed, 0) AS subscribed, COALESCE(daily.unsubscribed, 0) AS unsubscribed
+        FROM days
+        LEFT JOIN daily USING (day)
+    )
+    SELECT
+        series.day,
+        series.subscribed,
+        series.unsubscribed,
+        (SELECT count(*) FROM public.newsletter_subscriptions WHERE is_subscribed)
+            - COALESCE(SUM(series.subscribed - series.unsubscribed) OVER (
+                ORDER BY series.day DESC ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ), 0) AS total
+    FROM series
+    ORDER BY series.day;
+$$;
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Captured emails for local development and tests
+-- ============================================================================
+-- With MAIL_TRANSPORT=capture, Edge Functions store outgoing messages here
+-- instead of sending them (see supabase/functions/_shared/mail.ts). The table
+-- stays empty in production, where a real transport is configured.
+-- ============================================================================
+
+-- Step 1: Table
+CREATE TABLE public.captured_emails (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    from_address TEXT NOT NULL,
+    to_addresses TEXT[] NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT,
+    reply_to TEXT,
+    headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_captured_emails_created_at ON public.captured_emails (created_at DESC);
+
+-- Step 2: RLS - written by the service role only; admins can read and clear it
+ALTER TABLE public.captured_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view captured emails"
+ON public.captured_emails FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete captured emails"
+ON public.captured_emails FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Editable transactional email copy
+-- ============================================================================
+-- Transactional emails are defined in supabase/functions/_shared/emailTemplates.ts
+-- (layout, partials, variables and default copy). Each has a row here whose
+-- subject/heading/body override the defaults when set; NULL means "use the
+-- default". Rows are seeded per template so edits get revision history and an
+-- audit trail like other CMS copy.
+-- ============================================================================
+
+-- Step 1: Table
+CREATE TABLE public.email_templates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    subject TEXT,
+    heading TEXT,
+    body TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_email_templates_updated_at
+    BEFORE UPDATE ON public.email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: RLS - staff can read, admins and editors can edit copy; templates
+-- themselves are added in code, so nobody inserts or deletes rows from the CMS
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view email templates"
+ON public.email_templates FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Admins and editors can edit email templates"
+ON public.email_templates FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+-- Step 3: One row per template defined in _shared/emailTemplates.ts
+INSERT INTO public.email_templates (key)
+VALUES
+    ('contact_team_notification'),
+    ('contact_confirmation'),
+    ('contact_status_in_progress'),
+    ('contact_status_responded'),
+    ('contact_status_archived'),
+    ('newsletter_confirmation');
+
+-- Step 4: Revision history and audit trail
+ALTER TABLE public.content_revisions DROP CONSTRAINT content_revisions_table_name_check;
+ALTER TABLE public.content_revisions ADD CONSTRAINT content_revisions_table_name_check CHECK (table_name IN (
+    'contributors', 'email_templates', 'evidence_sources', 'faq_items', 'linkedin_posts', 'news_articles',
+    'resources', 'site_content', 'solutions', 'team_members'
+));
+
+CREATE TRIGGER capture_email_templates_revision
+    AFTER INSERT OR UPDATE ON public.email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_content_revision();
+
+CREATE TRIGGER audit_email_templates
+    AFTER INSERT OR UPDATE OR DELETE ON public.email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_audit_log();
+
+-- Baseline revision for the seeded rows (inserted before the trigger existed)
+INSERT INTO public.content_revisions (table_name, record_id, operation, snapshot)
+SELECT 'email_templates', id, 'insert', to_jsonb(t) FROM public.email_templates t;
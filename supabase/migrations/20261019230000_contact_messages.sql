@@ -0,0 +1,89 @@
+-- ============================================================================
+-- Threaded replies on contact submissions
+-- ============================================================================
+-- Each submission gets a message thread. Staff replies are written in the
+-- admin and emailed to the sender; senders answer from their submissions page
+-- or by replying to the email. Inbound email is matched to its submission by
+-- the reply_token in the Reply-To address, or by the Message-ID it answers.
+--
+-- All writes go through the contact-thread and contact-inbound Edge
+-- Functions (service role), which also send the emails. The original form
+-- message stays on contact_submissions and is shown as the thread's start.
+-- ============================================================================
+
+-- Step 1: Per-submission reply token and thread activity
+ALTER TABLE public.contact_submissions
+    ADD COLUMN reply_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+    ADD COLUMN last_message_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 2: Messages
+CREATE TABLE public.contact_messages (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    submission_id UUID NOT NULL REFERENCES public.contact_submissions(id) ON DELETE CASCADE,
+    sender TEXT NOT NULL CHECK (sender IN ('staff', 'user')),
+    channel TEXT NOT NULL CHECK (channel IN ('admin', 'portal', 'email')),
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_name TEXT,
+    from_address TEXT,
+    -- Message-ID header of the email that carried (or delivered) this message
+    email_message_id TEXT,
+    email_status TEXT CHECK (email_status IN ('sent', 'failed')),
+    email_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_contact_messages_submission ON public.contact_messages (submission_id, created_at);
+CREATE INDEX idx_contact_messages_email_message_id ON public.contact_messages (email_message_id)
+    WHERE email_message_id IS NOT NULL;
+
+-- Step 3: RLS - staff read every thread, senders read their own
+ALTER TABLE public.contact_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view contact messages"
+ON public.contact_messages FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()));
+
+CREATE POLICY "Users can view messages on own submissions"
+ON public.contact_messages FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.contact_submissions s
+        WHERE s.id = submission_id AND s.user_id = auth.uid()
+    )
+    AND public.is_allowed_origin()
+);
+
+-- Step 4: Keep last_message_at current for sorting and unread cues
+CREATE OR REPLACE FUNCTION public.touch_contact_submission_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.contact_submissions
+    SET last_message_at = NEW.created_at
+    WHERE id = NEW.submission_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_contact_submission_thread
+    AFTER INSERT ON public.contact_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.touch_contact_submission_thread();
+
+-- Step 5: Audit trail
+CREATE TRIGGER audit_contact_messages
+    AFTER INSERT OR UPDATE OR DELETE ON public.contact_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_audit_log();
+
+-- Step 6: Templates for the reply emails (copy defaults live in _shared/emailTemplates.ts);
+-- the revision trigger records their baseline
+INSERT INTO public.email_templates (key)
+VALUES ('contact_reply'), ('contact_sender_reply');
+
@@ -0,0 +1,122 @@
+-- ============================================================================
+-- Contact submission triage
+-- ============================================================================
+-- Assignment, tags, priority and a first-response SLA on contact submissions,
+-- plus a full-text search column for the admin list.
+--
+-- SLA: response_due_at is created_at plus the priority's window (urgent 4h,
+-- high 8h, normal 24h, low 72h) and moves when the priority changes.
+-- first_response_at is the first staff reply in the thread, or the first time
+-- the submission was marked responded; until then a submission past its due
+-- time (and not archived) is overdue.
+-- ============================================================================
+
+-- Step 1: Triage columns
+ALTER TABLE public.contact_submissions
+    ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}'
+        CHECK (tags <@ ARRAY['demo_request', 'partnership', 'press', 'investor']),
+    ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal'
+        CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+    ADD COLUMN response_due_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN first_response_at TIMESTAMP WITH TIME ZONE,
+    -- Email addresses are split into words so "jordan" or "example-hospital" find them
+    ADD COLUMN search TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple',
+            coalesce(name, '') || ' ' ||
+            coalesce(email, '') || ' ' ||
+            regexp_replace(coalesce(email, ''), '[@._+-]+', ' ', 'g') || ' ' ||
+            coalesce(message, ''))
+    ) STORED;
+
+CREATE INDEX idx_contact_submissions_search ON public.contact_submissions USING GIN (search);
+CREATE INDEX idx_contact_submissions_assigned_to ON public.contact_submissions (assigned_to);
+CREATE INDEX idx_contact_submissions_due ON public.contact_submissions (response_due_at)
+    WHERE first_response_at IS NULL;
+
+-- Step 2: SLA window per priority
+CREATE OR REPLACE FUNCTION public.contact_response_window(_priority TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE _priority
+        WHEN 'urgent' THEN INTERVAL '4 hours'
+        WHEN 'high' THEN INTERVAL '8 hours'
+        WHEN 'low' THEN INTERVAL '72 hours'
+        ELSE INTERVAL '24 hours'
+    END;
+$$;
+
+-- Step 3: Keep response_due_at and first_response_at current
+CREATE OR REPLACE FUNCTION public.set_contact_submission_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+        NEW.response_due_at := NEW.created_at + public.contact_response_window(NEW.priority);
+    END IF;
+
+    IF NEW.first_response_at IS NULL AND NEW.responded_at IS NOT NULL THEN
+        NEW.first_response_at := NEW.responded_at;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_contact_submission_sla
+    BEFORE INSERT OR UPDATE ON public.contact_submissions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_contact_submission_sla();
+
+-- A staff reply in the thread is a response too (replaces the thread-activity trigger)
+CREATE OR REPLACE FUNCTION public.touch_contact_submission_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.contact_submissions
+    SET last_message_at = NEW.created_at,
+        first_response_at = CASE
+            WHEN NEW.sender = 'staff' THEN COALESCE(first_response_at, NEW.created_at)
+            ELSE first_response_at
+        END
+    WHERE id = NEW.submission_id;
+    RETURN NEW;
+END;
+$$;
+
+-- Step 4: Backfill existing submissions (kept out of the audit log)
+ALTER TABLE public.contact_submissions DISABLE TRIGGER audit_contact_submissions;
+
+UPDATE public.contact_submissions
+SET response_due_at = created_at + public.contact_response_window(priority),
+    first_response_at = COALESCE(
+        (SELECT min(m.created_at) FROM public.contact_messages m
+         WHERE m.submission_id = contact_submissions.id AND m.sender = 'staff'),
+        responded_at
+    );
+
+ALTER TABLE public.contact_submissions ENABLE TRIGGER audit_contact_submissions;
+
+-- Step 5: People a submission can be assigned to. SECURITY DEFINER because
+-- editors cannot read other users' roles or profiles; staff only.
+CREATE OR REPLACE FUNCTION public.contact_assignees()
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT p.user_id, p.full_name, p.email
+    FROM public.user_roles r
+    JOIN public.profiles p ON p.user_id = r.user_id
+    WHERE r.role IN ('admin', 'editor')
+      AND public.has_admin_access(auth.uid())
+    ORDER BY p.full_name, p.email;
+$$;
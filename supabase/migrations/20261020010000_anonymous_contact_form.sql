@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Anonymous contact form
+-- ============================================================================
+-- Contact submissions no longer require an account. They are created by the
+-- contact-submit Edge Function, which checks the honeypot, form timing and
+-- optional proof of work, rate limits per IP and per email, and links the
+-- submission to the signed-in user when there is one.
+--
+-- Direct inserts from the browser are closed so those checks can't be skipped.
+-- ============================================================================
+
+-- Step 1: What the rate limits and replay check need
+ALTER TABLE public.contact_submissions
+    -- SHA-256 of the client IP; the address itself is never stored
+    ADD COLUMN client_ip_hash TEXT,
+    -- One submission per signed form token
+    ADD COLUMN form_token_id TEXT UNIQUE;
+
+CREATE INDEX idx_contact_submissions_ip_recent ON public.contact_submissions (client_ip_hash, created_at)
+    WHERE client_ip_hash IS NOT NULL;
+
+-- Step 2: Only the Edge Function (service role) inserts submissions
+DROP POLICY IF EXISTS "Only horalix.com can submit contact form" ON public.contact_submissions;
+DROP POLICY IF EXISTS "Anyone can submit contact form" ON public.contact_submissions;
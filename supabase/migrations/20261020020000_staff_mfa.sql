@@ -0,0 +1,101 @@
+-- ============================================================================
+-- Two-factor authentication for admins and editors
+-- ============================================================================
+-- Admins and editors must sign in with a TOTP code (Supabase Auth MFA, AAL2).
+-- The admin area sends them to /admin/mfa to enrol or verify, the role-checking
+-- Edge Functions refuse AAL1 tokens, and here has_role()/has_admin_access()
+-- stop counting their admin/editor role until the session is AAL2 - so a
+-- password alone no longer reaches staff data through the API either.
+--
+-- Viewers are read-only and keep password sign-in.
+--
+-- Recovery codes are stored hashed and only handled by the mfa-recovery-codes
+-- Edge Function. An admin can also reset a colleague's 2FA from /admin/users.
+-- ============================================================================
+
+-- Step 1: Has the caller passed 2FA for staff checks about themselves?
+-- Checks about other users, and service-role calls (no auth.uid()), are not affected.
+CREATE OR REPLACE FUNCTION public.staff_mfa_satisfied(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT _user_id IS DISTINCT FROM auth.uid()
+        OR COALESCE(auth.jwt() ->> 'aal', '') = 'aal2'
+$$;
+
+-- Step 2: Admin and editor roles need 2FA; viewer does not
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = _user_id
+          AND role = _role
+    )
+    AND (_role = 'viewer' OR public.staff_mfa_satisfied(_user_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_admin_access(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = _user_id
+          AND (
+              role = 'viewer'
+              OR (role IN ('admin', 'editor') AND public.staff_mfa_satisfied(_user_id))
+          )
+    )
+$$;
+
+-- Step 3: Recovery codes (SHA-256 of user id + code; service role only)
+CREATE TABLE public.mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Admin 2FA resets are logged with the role changes
+ALTER TABLE public.user_role_changes DROP CONSTRAINT IF EXISTS user_role_changes_action_check;
+ALTER TABLE public.user_role_changes
+    ADD CONSTRAINT user_role_changes_action_check
+    CHECK (action IN ('invite', 'grant', 'change', 'revoke', 'reset_mfa'));
+
+-- Step 5: 2FA status per staff member for /admin/users
+CREATE OR REPLACE FUNCTION public.staff_mfa_status()
+RETURNS TABLE (user_id UUID, mfa_enrolled BOOLEAN, recovery_codes_left INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        r.user_id,
+        EXISTS (
+            SELECT 1 FROM auth.mfa_factors f
+            WHERE f.user_id = r.user_id AND f.factor_type = 'totp' AND f.status = 'verified'
+        ),
+        (
+            SELECT COUNT(*)::INTEGER FROM public.mfa_recovery_codes c
+            WHERE c.user_id = r.user_id AND c.used_at IS NULL
+        )
+    FROM (SELECT DISTINCT user_id FROM public.user_roles) r
+    WHERE public.has_role(auth.uid(), 'admin');
+$$;
@@ -0,0 +1,148 @@
+-- ============================================================================
+-- Rate limiting for public Edge Functions
+-- ============================================================================
+-- Sliding-window limits per route and actor (client IP, email address or
+-- user), shared by the auth, contact and newsletter functions through
+-- _shared/rateLimit.ts. Going over a limit blocks the actor on that route for
+-- the lockout period, doubling with each repeat within a day (up to a day).
+--
+-- Actors are stored as SHA-256 hashes with a masked label for the admin view
+-- (/admin/rate-limits), where admins can lift a block early.
+-- ============================================================================
+
+-- Step 1: Hits within the window
+CREATE TABLE public.rate_limit_events (
+    id BIGSERIAL PRIMARY KEY,
+    route TEXT NOT NULL,
+    actor_type TEXT NOT NULL CHECK (actor_type IN ('ip', 'email', 'user')),
+    actor_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rate_limit_events_actor ON public.rate_limit_events (route, actor_type, actor_hash, created_at);
+CREATE INDEX idx_rate_limit_events_created_at ON public.rate_limit_events (created_at);
+
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+-- Step 2: Current and past lockouts
+CREATE TABLE public.rate_limit_blocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route TEXT NOT NULL,
+    actor_type TEXT NOT NULL CHECK (actor_type IN ('ip', 'email', 'user')),
+    actor_hash TEXT NOT NULL,
+    -- Masked for display, e.g. j•••@example.com or 203.0.113.x
+    actor_label TEXT,
+    strikes INTEGER NOT NULL DEFAULT 1,
+    blocked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_blocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (route, actor_type, actor_hash)
+);
+
+CREATE INDEX idx_rate_limit_blocks_last_blocked ON public.rate_limit_blocks (last_blocked_at DESC);
+
+ALTER TABLE public.rate_limit_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view rate limit blocks"
+  ON public.rate_limit_blocks FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.is_allowed_origin());
+
+-- Step 3: Check (and optionally record) a hit; returns 0 or the seconds until the actor may retry
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+    _route TEXT,
+    _actor_type TEXT,
+    _actor_hash TEXT,
+    _actor_label TEXT,
+    _max_hits INTEGER,
+    _window_seconds INTEGER,
+    _lockout_seconds INTEGER,
+    _record BOOLEAN DEFAULT TRUE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _block public.rate_limit_blocks%ROWTYPE;
+    _hits INTEGER;
+    _strikes INTEGER;
+    _lockout INTEGER;
+BEGIN
+    -- One request at a time per actor so concurrent requests can't slip past the count
+    PERFORM pg_advisory_xact_lock(hashtext(_route || ':' || _actor_type || ':' || _actor_hash));
+
+    SELECT * INTO _block
+    FROM public.rate_limit_blocks
+    WHERE route = _route AND actor_type = _actor_type AND actor_hash = _actor_hash;
+
+    IF _block.id IS NOT NULL AND _block.blocked_until > now() THEN
+        RETURN GREATEST(1, CEIL(EXTRACT(EPOCH FROM _block.blocked_until - now())))::INTEGER;
+    END IF;
+
+    SELECT COUNT(*) INTO _hits
+    FROM public.rate_limit_events
+    WHERE route = _route
+      AND actor_type = _actor_type
+      AND actor_hash = _actor_hash
+      AND created_at > now() - make_interval(secs => _window_seconds);
+
+    IF _hits >= _max_hits THEN
+        -- Repeat offenders within a day wait twice as long each time, up to a day
+        _strikes := CASE
+            WHEN _block.id IS NOT NULL AND _block.last_blocked_at > now() - INTERVAL '1 day' THEN _block.strikes + 1
+            ELSE 1
+        END;
+        _lockout := LEAST(_lockout_seconds * power(2, _strikes - 1), 86400)::INTEGER;
+
+        INSERT INTO public.rate_limit_blocks (route, actor_type, actor_hash, actor_label, strikes, blocked_until, last_blocked_at)
+        VALUES (_route, _actor_type, _actor_hash, _actor_label, _strikes, now() + make_interval(secs => _lockout), now())
+        ON CONFLICT (route, actor_type, actor_hash) DO UPDATE
+        SET actor_label = EXCLUDED.actor_label,
+            strikes = EXCLUDED.strikes,
+            blocked_until = EXCLUDED.blocked_until,
+            last_blocked_at = EXCLUDED.last_blocked_at;
+
+        RETURN _lockout;
+    END IF;
+
+    IF _record THEN
+        INSERT INTO public.rate_limit_events (route, actor_type, actor_hash)
+        VALUES (_route, _actor_type, _actor_hash);
+    END IF;
+
+    -- Now and then, drop hits older than any window
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limit_events WHERE created_at < now() - INTERVAL '2 days';
+    END IF;
+
+    RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN)
+    FROM PUBLIC, anon, authenticated;
+
+-- Step 4: Admins lift a block; the actor's recent hits go too so it doesn't trip again straight away
+CREATE OR REPLACE FUNCTION public.rate_limit_unblock(_block_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _block public.rate_limit_blocks%ROWTYPE;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can lift rate limit blocks';
+    END IF;
+
+    DELETE FROM public.rate_limit_blocks WHERE id = _block_id RETURNING * INTO _block;
+    IF _block.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    DELETE FROM public.rate_limit_events
+    WHERE route = _block.route AND actor_type = _block.actor_type AND actor_hash = _block.actor_hash;
+END;
+$$;
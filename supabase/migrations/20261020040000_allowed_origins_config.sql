@@ -0,0 +1,99 @@
+-- ============================================================================
+-- Configurable origin allowlist
+-- ============================================================================
+-- is_allowed_origin() used to hard-code https://horalix.com and www, so staging,
+-- Netlify deploy previews and local Supabase could not use any authenticated
+-- flow. It now reads the allowed_origins table, which holds the same
+-- ALLOWED_ORIGINS list the edge functions (_shared/cors.ts) and the frontend
+-- (src/lib/allowedOrigins.js) use. Keep it in sync with:
+--
+--   ALLOWED_ORIGINS=... SUPABASE_SERVICE_ROLE_KEY=... npm run sync:origins
+--
+-- Patterns may carry one "*" in the leftmost host label, matching letters,
+-- digits and hyphens only (never a dot), e.g.
+-- https://deploy-preview-*--horalix.netlify.app. Plain http is only accepted
+-- for localhost, and a bare "*" on shared hosting (*.netlify.app) is refused.
+-- ============================================================================
+
+-- Step 1: Pattern rules (mirrors validateOriginPattern in src/lib/allowedOrigins.js)
+CREATE OR REPLACE FUNCTION public.is_safe_origin_pattern(_pattern TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _pattern ~ '^https?://[a-z0-9*.-]+(:[0-9]{1,5})?$'
+    -- No empty host labels
+    AND _pattern !~ '(://\.|\.\.|\.(:|$))'
+    -- Plain http only for local development
+    AND (_pattern ~ '^https://' OR _pattern ~ '^http://(localhost|127\.0\.0\.1)(:[0-9]+)?$')
+    -- At most one *, in the leftmost label, with at least two labels after it
+    AND (
+      strpos(_pattern, '*') = 0
+      OR _pattern ~ '^https://[a-z0-9-]*\*[a-z0-9-]*(\.[a-z0-9-]+){2,}(:[0-9]+)?$'
+    )
+    -- A bare * on shared hosting would admit every customer's site
+    AND _pattern !~ '^https://\*\.(netlify\.app|lovable\.app|vercel\.app|pages\.dev|github\.io|supabase\.co)(:[0-9]+)?$';
+$$;
+
+-- Step 2: The allowlist, seeded with the production origins
+CREATE TABLE public.allowed_origins (
+    pattern TEXT PRIMARY KEY CHECK (public.is_safe_origin_pattern(pattern)),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read only through is_allowed_origin(); written by the sync script with the service role
+ALTER TABLE public.allowed_origins ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.allowed_origins (pattern) VALUES
+  ('https://horalix.com'),
+  ('https://www.horalix.com');
+
+-- Step 3: Origin check used by the RLS policies
+-- (SECURITY DEFINER so every role can read the allowlist; still evaluated per request)
+CREATE OR REPLACE FUNCTION public.is_allowed_origin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.allowed_origins
+    WHERE CASE
+      WHEN strpos(pattern, '*') = 0
+        THEN pattern = lower(current_setting('request.header.origin', true))
+      ELSE lower(current_setting('request.header.origin', true))
+        ~ ('^' || replace(replace(pattern, '.', '\.'), '*', '[a-z0-9-]+') || '$')
+    END
+  );
+$$;
+
+-- Step 4: Replace the allowlist in one go (scripts/sync-allowed-origins.mjs)
+CREATE OR REPLACE FUNCTION public.replace_allowed_origins(_patterns TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _normalized TEXT[] := ARRAY(
+        SELECT DISTINCT lower(btrim(entry))
+        FROM unnest(_patterns) AS entry
+        WHERE btrim(entry) <> ''
+    );
+BEGIN
+    -- An empty list would lock every browser out of the site
+    IF coalesce(array_length(_normalized, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'At least one allowed origin is required';
+    END IF;
+
+    DELETE FROM public.allowed_origins WHERE pattern <> ALL (_normalized);
+
+    INSERT INTO public.allowed_origins (pattern)
+    SELECT unnest(_normalized)
+    ON CONFLICT (pattern) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_allowed_origins(TEXT[]) FROM PUBLIC, anon, authenticated;
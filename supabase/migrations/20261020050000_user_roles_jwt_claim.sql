@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Staff roles in the access token
+-- ============================================================================
+-- A custom access token hook adds the user's roles to every JWT as the
+-- "user_roles" claim (e.g. ["admin"], or [] for visitors), so the frontend
+-- (src/components/auth/AuthProvider.tsx) no longer queries user_roles after
+-- each sign-in. Users may hold several roles.
+--
+-- The claim only drives navigation and route guards. RLS and the Edge
+-- Functions keep checking user_roles through has_role()/has_admin_access(),
+-- so a role change takes effect server-side at once and in the claim at the
+-- next token refresh.
+--
+-- Enabled in config.toml under [auth.hook.custom_access_token]; on hosted
+-- projects also enable it under Authentication > Hooks.
+-- ============================================================================
+
+-- Step 1: The hook (called by Supabase Auth whenever it issues a token)
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _roles JSONB;
+BEGIN
+    SELECT COALESCE(jsonb_agg(role ORDER BY role), '[]'::jsonb) INTO _roles
+    FROM public.user_roles
+    WHERE user_id = (event ->> 'user_id')::UUID;
+
+    RETURN jsonb_set(event, '{claims,user_roles}', _roles);
+END;
+$$;
+
+-- Step 2: Only Supabase Auth may run it, and it needs to read user_roles
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT SELECT ON TABLE public.user_roles TO supabase_auth_admin;
+
+CREATE POLICY "Auth can read roles for access tokens"
+  ON public.user_roles FOR SELECT
+  TO supabase_auth_admin
+  USING (true);
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Editorial workflow: separation of duties
+-- ============================================================================
+-- Tightens the review workflow from 20261019140000_editorial_workflow.sql:
+--
+--   * submitted_by records who sent an item to review (or reopened it by
+--     editing approved copy). That user can't approve or publish it, so every
+--     item goes live with a second pair of eyes.
+--   * A resource's reviewer_id is fixed once it leaves draft; only admins can
+--     reassign the reviewer of an item in review, approved or published.
+--   * Contact submissions are personal data and stay admin-only: the viewer
+--     read policy added with the workflow is dropped.
+-- ============================================================================
+
+-- Step 1: Who submitted each item for review
+ALTER TABLE public.news_articles
+ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.resources
+ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Step 2: Guard status, submitter and reviewer changes
+CREATE OR REPLACE FUNCTION public.enforce_editorial_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _in_transition BOOLEAN := current_setting('app.workflow_transition', true) = 'on';
+    _old_content JSONB;
+    _new_content JSONB;
+BEGIN
+    -- Service-role jobs (no auth.uid()) and migrations are trusted
+    IF auth.uid() IS NOT NULL AND NOT _in_transition THEN
+        -- Restoring a revision brings back copy, never an old workflow state or reviewer
+        IF TG_OP = 'UPDATE' AND current_setting('app.revision_operation', true) = 'restore' THEN
+            NEW.workflow_status := OLD.workflow_status;
+            NEW.review_notes := OLD.review_notes;
+            NEW.submitted_by := OLD.submitted_by;
+            IF TG_TABLE_NAME = 'resources' AND OLD.workflow_status <> 'draft' THEN
+                NEW.reviewer_id := OLD.reviewer_id;
+            END IF;
+        END IF;
+
+        IF TG_OP = 'INSERT' THEN
+            NEW.workflow_status := 'draft';
+            NEW.submitted_by := NULL;
+        ELSE
+            IF NEW.workflow_status IS DISTINCT FROM OLD.workflow_status THEN
+                RAISE EXCEPTION 'Use transition_content_workflow() to change workflow status';
+            END IF;
+            IF NEW.submitted_by IS DISTINCT FROM OLD.submitted_by THEN
+                RAISE EXCEPTION 'Use transition_content_workflow() to submit for review';
+            END IF;
+
+            -- The reviewer is part of what was submitted; swapping it would let the submitter pick their approver
+            -- (nested: news_articles has no reviewer_id column to compare)
+            IF TG_TABLE_NAME = 'resources' THEN
+                IF OLD.workflow_status <> 'draft'
+                   AND NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id
+                   AND NOT public.has_role(auth.uid(), 'admin') THEN
+                    RAISE EXCEPTION 'Only admins can change the reviewer once a resource has been submitted';
+                END IF;
+            END IF;
+
+            IF NEW.workflow_status = 'approved' THEN
+                -- Editing approved copy needs a fresh review, with the editor as the new submitter
+                _old_content := to_jsonb(OLD) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+                _new_content := to_jsonb(NEW) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+                IF _old_content IS DISTINCT FROM _new_content THEN
+                    NEW.workflow_status := 'in_review';
+                    NEW.submitted_by := auth.uid();
+                END IF;
+            END IF;
+        END IF;
+    END IF;
+
+    NEW.is_published := NEW.workflow_status = 'published';
+    RETURN NEW;
+END;
+$$;
+
+-- Step 3: Submitters can't approve or publish their own work
+CREATE OR REPLACE FUNCTION public.transition_content_workflow(
+    _table TEXT,
+    _record_id UUID,
+    _action TEXT,
+    _note TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _uid UUID := auth.uid();
+    _current TEXT;
+    _reviewer_id UUID;
+    _submitted_by UUID;
+    _next TEXT;
+    _can_edit BOOLEAN := public.has_role(_uid, 'admin') OR public.has_role(_uid, 'editor');
+    _is_admin BOOLEAN := public.has_role(_uid, 'admin');
+    _is_reviewer BOOLEAN := false;
+BEGIN
+    IF _table NOT IN ('news_articles', 'resources') THEN
+        RAISE EXCEPTION 'Unsupported table %', _table;
+    END IF;
+
+    IF _table = 'resources' THEN
+        SELECT workflow_status, reviewer_id, submitted_by INTO _current, _reviewer_id, _submitted_by
+        FROM public.resources WHERE id = _record_id FOR UPDATE;
+        _is_reviewer := _reviewer_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.contributors WHERE id = _reviewer_id AND user_id = _uid
+        ) AND public.has_admin_access(_uid);
+    ELSE
+        SELECT workflow_status, submitted_by INTO _current, _submitted_by
+        FROM public.news_articles WHERE id = _record_id FOR UPDATE;
+    END IF;
+
+    IF _current IS NULL THEN
+        RAISE EXCEPTION 'Record not found';
+    END IF;
+
+    IF _action IN ('approve', 'publish') AND _submitted_by = _uid THEN
+        RAISE EXCEPTION 'Someone other than the submitter has to % this item', _action;
+    END IF;
+
+    CASE _action
+        WHEN 'submit' THEN
+            IF _current <> 'draft' THEN RAISE EXCEPTION 'Only drafts can be submitted for review'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'in_review';
+        WHEN 'request_changes' THEN
+            IF _current <> 'in_review' THEN RAISE EXCEPTION 'Only items in review can be sent back'; END IF;
+            IF NOT (_is_reviewer OR _is_admin) THEN RAISE EXCEPTION 'Only the designated reviewer can request changes'; END IF;
+            _next := 'draft';
+        WHEN 'approve' THEN
+            IF _current <> 'in_review' THEN RAISE EXCEPTION 'Only items in review can be approved'; END IF;
+            IF _table = 'resources' THEN
+                IF _reviewer_id IS NULL THEN RAISE EXCEPTION 'Assign a reviewer before approving'; END IF;
+                IF NOT _is_reviewer THEN RAISE EXCEPTION 'Only the designated reviewer can approve this resource'; END IF;
+            ELSIF NOT _is_admin THEN
+                RAISE EXCEPTION 'Only admins can approve news articles';
+            END IF;
+            _next := 'approved';
+        WHEN 'publish' THEN
+            IF _current <> 'approved' THEN RAISE EXCEPTION 'Only approved items can be published'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'published';
+        WHEN 'unpublish' THEN
+            IF _current <> 'published' THEN RAISE EXCEPTION 'Item is not published'; END IF;
+            IF NOT _can_edit THEN RAISE EXCEPTION 'Editor access required'; END IF;
+            _next := 'draft';
+        ELSE
+            RAISE EXCEPTION 'Unknown action %', _action;
+    END CASE;
+
+    PERFORM set_config('app.workflow_transition', 'on', true);
+
+    IF _table = 'resources' THEN
+        UPDATE public.resources
+        SET workflow_status = _next,
+            submitted_by = CASE WHEN _action = 'submit' THEN _uid ELSE submitted_by END,
+            review_notes = CASE WHEN _action IN ('request_changes', 'approve') THEN NULLIF(trim(_note), '') ELSE review_notes END,
+            reviewed_at = CASE WHEN _action = 'approve' THEN now() ELSE reviewed_at END,
+            published_at = CASE WHEN _action = 'publish' THEN COALESCE(published_at, now()) ELSE published_at END
+        WHERE id = _record_id;
+    ELSE
+        UPDATE public.news_articles
+        SET workflow_status = _next,
+            submitted_by = CASE WHEN _action = 'submit' THEN _uid ELSE submitted_by END,
+            review_notes = CASE WHEN _action IN ('request_changes', 'approve') THEN NULLIF(trim(_note), '') ELSE review_notes END,
+            published_at = CASE WHEN _action = 'publish' THEN COALESCE(published_at, now()) ELSE published_at END
+        WHERE id = _record_id;
+    END IF;
+
+    PERFORM set_config('app.workflow_transition', '', true);
+    RETURN _next;
+END;
+$$;
+
+-- Step 4: Contact submissions are admin-only
+DROP POLICY IF EXISTS "Staff can view contact submissions" ON public.contact_submissions;
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- Atomic staff role changes
+-- ============================================================================
+-- manage-user-roles used to count admins and then delete roles in separate
+-- requests, so two admins demoting each other at the same time could both pass
+-- the "at least one admin remains" check and leave the site without an admin.
+-- set_staff_role() now makes the whole change in one transaction while holding
+-- a lock that serialises role changes, and refuses to remove the last admin
+-- with SQLSTATE 23001 (restrict_violation).
+-- ============================================================================
+
+-- Step 1: Replace a user's staff roles with one role (NULL revokes them all)
+CREATE OR REPLACE FUNCTION public.set_staff_role(_user_id UUID, _role app_role)
+RETURNS app_role[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _previous app_role[];
+BEGIN
+    -- Conflicts with itself and with every write, but not with reads, so
+    -- concurrent changes run one after another and each sees the last one's result
+    LOCK TABLE public.user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+    SELECT COALESCE(array_agg(role), '{}') INTO _previous
+    FROM public.user_roles
+    WHERE user_id = _user_id;
+
+    IF 'admin' = ANY(_previous)
+       AND _role IS DISTINCT FROM 'admin'
+       AND NOT EXISTS (
+           SELECT 1 FROM public.user_roles WHERE role = 'admin' AND user_id <> _user_id
+       ) THEN
+        RAISE EXCEPTION 'At least one admin must remain' USING ERRCODE = 'restrict_violation';
+    END IF;
+
+    DELETE FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IS DISTINCT FROM _role;
+
+    IF _role IS NOT NULL THEN
+        INSERT INTO public.user_roles (user_id, role)
+        VALUES (_user_id, _role)
+        ON CONFLICT (user_id, role) DO NOTHING;
+    END IF;
+
+    -- The roles held before the change, for the role change log
+    RETURN _previous;
+END;
+$$;
+
+-- Step 2: Only the edge function (service role) may call it
+REVOKE EXECUTE ON FUNCTION public.set_staff_role(UUID, app_role) FROM PUBLIC, anon, authenticated;
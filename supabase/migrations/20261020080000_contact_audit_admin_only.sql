@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Contact audit entries are admin-only
+-- ============================================================================
+-- capture_audit_log() stores whole rows, so audit entries for contact
+-- submissions and contact messages hold names, email addresses and message
+-- bodies. Every staff role could read them through the audit log, viewers
+-- included. Those entries now follow the contact tables themselves and are
+-- visible to admins only; the rest of the log stays open to all staff.
+-- ============================================================================
+
+-- Step 1: Split the read policy by table
+DROP POLICY IF EXISTS "Staff can view the audit log" ON public.audit_log;
+
+CREATE POLICY "Staff can view the content audit log"
+ON public.audit_log FOR SELECT
+USING (
+    public.has_admin_access(auth.uid())
+    AND table_name NOT IN ('contact_submissions', 'contact_messages')
+);
+
+CREATE POLICY "Admins can view the contact audit log"
+ON public.audit_log FOR SELECT
+USING (
+    public.has_role(auth.uid(), 'admin')
+    AND table_name IN ('contact_submissions', 'contact_messages')
+);
@@ -0,0 +1,116 @@
+-- ============================================================================
+-- Newsletter deliveries respect later unsubscribes
+-- ============================================================================
+-- Recipients are resolved when a send is queued, but a large send or a retry
+-- can go out hours later. Someone who unsubscribed in the meantime must not
+-- get the email, so deliveries are checked against newsletter_subscriptions
+-- again whenever they are claimed or retried, and cancelled when the address
+-- is no longer subscribed:
+--
+--   queued -> cancelled (unsubscribed before it was sent)
+--   failed -> cancelled (unsubscribed before an admin retry)
+-- ============================================================================
+
+-- Step 1: New terminal status
+ALTER TABLE public.newsletter_deliveries DROP CONSTRAINT IF EXISTS newsletter_deliveries_status_check;
+ALTER TABLE public.newsletter_deliveries
+    ADD CONSTRAINT newsletter_deliveries_status_check
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced', 'cancelled'));
+
+-- Step 2: Claim only deliveries whose address is still subscribed
+CREATE OR REPLACE FUNCTION public.claim_newsletter_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.newsletter_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _send_id UUID;
+BEGIN
+    -- Cancelling can finish a send, so refresh its header like the worker does
+    FOR _send_id IN
+        WITH cancelled AS (
+            UPDATE public.newsletter_deliveries d
+            SET status = 'cancelled',
+                locked_at = NULL,
+                last_error = 'Unsubscribed before delivery'
+            WHERE ((d.status = 'queued' AND d.next_attempt_at <= now())
+                   OR (d.status = 'sending' AND d.locked_at < now() - INTERVAL '10 minutes'))
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.newsletter_subscriptions s
+                  WHERE s.email = d.email AND s.is_subscribed
+              )
+            RETURNING d.send_id
+        )
+        SELECT DISTINCT send_id FROM cancelled
+    LOOP
+        PERFORM public.refresh_newsletter_send(_send_id);
+    END LOOP;
+
+    RETURN QUERY
+    UPDATE public.newsletter_deliveries d
+    SET status = 'sending',
+        attempts = d.attempts + 1,
+        locked_at = now()
+    WHERE d.id IN (
+        SELECT id
+        FROM public.newsletter_deliveries
+        WHERE (status = 'queued' AND next_attempt_at <= now())
+           OR (status = 'sending' AND locked_at < now() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_newsletter_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Step 3: Admin retry requeues subscribed addresses and cancels the rest
+CREATE OR REPLACE FUNCTION public.retry_newsletter_deliveries(
+    _send_id UUID,
+    _delivery_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _count INTEGER;
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor')) THEN
+        RAISE EXCEPTION 'Editor access required';
+    END IF;
+
+    UPDATE public.newsletter_deliveries d
+    SET status = 'cancelled',
+        last_error = 'Unsubscribed before delivery'
+    WHERE d.send_id = _send_id
+      AND d.status = 'failed'
+      AND (_delivery_ids IS NULL OR d.id = ANY(_delivery_ids))
+      AND NOT EXISTS (
+          SELECT 1 FROM public.newsletter_subscriptions s
+          WHERE s.email = d.email AND s.is_subscribed
+      );
+
+    UPDATE public.newsletter_deliveries
+    SET status = 'queued',
+        attempts = 0,
+        next_attempt_at = now(),
+        locked_at = NULL,
+        last_error = NULL
+    WHERE send_id = _send_id
+      AND status = 'failed'
+      AND (_delivery_ids IS NULL OR id = ANY(_delivery_ids));
+
+    GET DIAGNOSTICS _count = ROW_COUNT;
+
+    IF _count > 0 THEN
+        UPDATE public.newsletter_sends SET completed_at = NULL WHERE id = _send_id;
+    END IF;
+
+    RETURN _count;
+END;
+$$;
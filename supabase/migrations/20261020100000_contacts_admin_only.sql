@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Contacts are admin-only in the database too
+-- ============================================================================
+-- The admin area has shown contacts to admins only since the role claim and
+-- section permissions (src/lib/permissions.ts), but RLS still let editors read
+-- and change contact submissions and every staff role read contact threads.
+-- The same rule now holds server-side: contact submissions, their messages
+-- and the list of assignees are for admins only (with 2FA, via has_role()).
+-- Senders keep access to their own submissions and threads.
+-- ============================================================================
+
+-- Step 1: Contact submissions
+DROP POLICY IF EXISTS "Admins can manage contact submissions" ON public.contact_submissions;
+
+CREATE POLICY "Admins can manage contact submissions"
+ON public.contact_submissions FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Step 2: Contact threads
+DROP POLICY IF EXISTS "Staff can view contact messages" ON public.contact_messages;
+
+CREATE POLICY "Admins can view contact messages"
+ON public.contact_messages FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Step 3: Only admins handle submissions, so only admins can be assigned them
+CREATE OR REPLACE FUNCTION public.contact_assignees()
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT p.user_id, p.full_name, p.email
+    FROM public.user_roles r
+    JOIN public.profiles p ON p.user_id = r.user_id
+    WHERE r.role = 'admin'
+      AND public.has_role(auth.uid(), 'admin')
+    ORDER BY p.full_name, p.email;
+$$;
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Viewers don't reach personal data
+-- ============================================================================
+-- Viewers sign in with a password alone (see 20261020020000_staff_mfa.sql), so
+-- nothing they can read may hold personal data. Contact submissions, contact
+-- threads and their audit entries are already admin-only; the last staff-wide
+-- read of email addresses is newsletter_deliveries, which lists every
+-- recipient. Deliveries now need admin or editor (both behind 2FA through
+-- has_role()); viewers keep the per-send counts through newsletter_send_stats,
+-- which no longer depends on reading the rows it counts.
+-- ============================================================================
+
+-- Step 1: Recipient lists need 2FA
+DROP POLICY IF EXISTS "Staff can view newsletter deliveries" ON public.newsletter_deliveries;
+
+CREATE POLICY "Editors can view newsletter deliveries"
+ON public.newsletter_deliveries FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor'));
+
+-- Step 2: Counts only, for every staff role
+-- (runs as the view owner so the counts cover rows the caller can't read; the
+-- WHERE clause keeps it staff-only)
+DROP VIEW IF EXISTS public.newsletter_send_stats;
+
+CREATE VIEW public.newsletter_send_stats
+WITH (security_invoker = false)
+AS
+SELECT
+    s.id AS send_id,
+    COUNT(d.id) FILTER (WHERE d.status IN ('queued', 'sending'))::INTEGER AS pending_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'sent')::INTEGER AS sent_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'failed')::INTEGER AS failed_count,
+    COUNT(d.id) FILTER (WHERE d.status = 'bounced')::INTEGER AS bounced_count
+FROM public.newsletter_sends s
+LEFT JOIN public.newsletter_deliveries d ON d.send_id = s.id
+WHERE public.has_admin_access(auth.uid())
+GROUP BY s.id;
+
+REVOKE ALL ON public.newsletter_send_stats FROM anon;
+GRANT SELECT ON public.newsletter_send_stats TO authenticated;
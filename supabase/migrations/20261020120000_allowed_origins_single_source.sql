@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Origin allowlist: one set of matching rules
+-- ============================================================================
+-- 20261020040000_allowed_origins_config.sql re-implemented the origin
+-- pattern rules in SQL (is_safe_origin_pattern() and the wildcard expansion in
+-- is_allowed_origin()), a third copy next to the edge functions and the
+-- frontend. The rules now live only in supabase/functions/_shared/allowedOrigins.js:
+-- scripts/sync-allowed-origins.mjs validates each pattern there and stores the
+-- regex that module builds for it, and is_allowed_origin() just applies it.
+-- The sync runs as its own deploy step (sync-allowed-origins workflow), so
+-- the table follows ALLOWED_ORIGINS without a manual step.
+-- ============================================================================
+
+-- Step 1: Drop the SQL copy of the pattern rules
+ALTER TABLE public.allowed_origins DROP CONSTRAINT IF EXISTS allowed_origins_pattern_check;
+DROP FUNCTION IF EXISTS public.is_safe_origin_pattern(TEXT);
+
+-- Step 2: Store the regex built by the shared module next to each pattern
+ALTER TABLE public.allowed_origins ADD COLUMN IF NOT EXISTS match_regex TEXT;
+
+-- One-off backfill for rows synced before this migration, in the module's format
+UPDATE public.allowed_origins
+SET match_regex = '^' || replace(replace(pattern, '.', '\.'), '*', '[a-z0-9-]+') || '$'
+WHERE match_regex IS NULL;
+
+ALTER TABLE public.allowed_origins ALTER COLUMN match_regex SET NOT NULL;
+ALTER TABLE public.allowed_origins
+    ADD CONSTRAINT allowed_origins_match_regex_anchored CHECK (match_regex ~ '^\^.*\$$');
+
+-- Same defaults as DEFAULT_ALLOWED_ORIGINS, so deploy previews work before the first sync
+INSERT INTO public.allowed_origins (pattern, match_regex) VALUES
+  ('https://deploy-preview-*--horalix.netlify.app', '^https://deploy-preview-[a-z0-9-]+--horalix\.netlify\.app$')
+ON CONFLICT (pattern) DO NOTHING;
+
+-- Step 3: Origin check used by the RLS policies
+CREATE OR REPLACE FUNCTION public.is_allowed_origin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.allowed_origins
+    WHERE lower(current_setting('request.header.origin', true)) ~ match_regex
+  );
+$$;
+
+-- Step 4: Replace the allowlist in one go with [{ pattern, match_regex }, ...]
+DROP FUNCTION IF EXISTS public.replace_allowed_origins(TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.replace_allowed_origins(_origins JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- An empty list would lock every browser out of the site
+    IF jsonb_typeof(_origins) IS DISTINCT FROM 'array' OR jsonb_array_length(_origins) = 0 THEN
+        RAISE EXCEPTION 'At least one allowed origin is required';
+    END IF;
+
+    DELETE FROM public.allowed_origins
+    WHERE pattern NOT IN (SELECT entry->>'pattern' FROM jsonb_array_elements(_origins) AS entry);
+
+    INSERT INTO public.allowed_origins (pattern, match_regex)
+    SELECT DISTINCT ON (entry->>'pattern') entry->>'pattern', entry->>'match_regex'
+    FROM jsonb_array_elements(_origins) AS entry
+    ON CONFLICT (pattern) DO UPDATE SET match_regex = EXCLUDED.match_regex;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_allowed_origins(JSONB) FROM PUBLIC, anon, authenticated;
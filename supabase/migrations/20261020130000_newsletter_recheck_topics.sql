@@ -0,0 +1,125 @@
+-- ============================================================================
+-- Newsletter deliveries respect later topic changes
+-- ============================================================================
+-- 20261020090000_newsletter_skip_unsubscribed.sql cancels deliveries whose
+-- address unsubscribed after the send was queued, but it compared addresses
+-- case-sensitively and ignored topic preferences: a subscriber who turned off
+-- the send's topic still got the email, and a differently-cased stored address
+-- was cancelled although it was still subscribed. Both checks now go through
+-- is_newsletter_recipient(), which matches addresses case-insensitively and
+-- requires the send's topic (its campaign's, "news" for article sends without
+-- one) to still be among the subscriber's topics.
+-- ============================================================================
+
+-- Step 1: Whether an address should still get a send
+CREATE OR REPLACE FUNCTION public.is_newsletter_recipient(_email TEXT, _send_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.newsletter_sends ns
+        LEFT JOIN public.newsletter_campaigns c ON c.id = ns.campaign_id
+        JOIN public.newsletter_subscriptions s ON lower(s.email) = lower(_email)
+        WHERE ns.id = _send_id
+          AND s.is_subscribed
+          AND COALESCE(c.topic, 'news') = ANY(s.topics)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_newsletter_recipient(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Step 2: Claim only deliveries whose address still wants the send
+CREATE OR REPLACE FUNCTION public.claim_newsletter_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.newsletter_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _send_id UUID;
+BEGIN
+    -- Cancelling can finish a send, so refresh its header like the worker does
+    FOR _send_id IN
+        WITH cancelled AS (
+            UPDATE public.newsletter_deliveries d
+            SET status = 'cancelled',
+                locked_at = NULL,
+                last_error = 'Unsubscribed or dropped the topic before delivery'
+            WHERE ((d.status = 'queued' AND d.next_attempt_at <= now())
+                   OR (d.status = 'sending' AND d.locked_at < now() - INTERVAL '10 minutes'))
+              AND NOT public.is_newsletter_recipient(d.email, d.send_id)
+            RETURNING d.send_id
+        )
+        SELECT DISTINCT send_id FROM cancelled
+    LOOP
+        PERFORM public.refresh_newsletter_send(_send_id);
+    END LOOP;
+
+    RETURN QUERY
+    UPDATE public.newsletter_deliveries d
+    SET status = 'sending',
+        attempts = d.attempts + 1,
+        locked_at = now()
+    WHERE d.id IN (
+        SELECT id
+        FROM public.newsletter_deliveries
+        WHERE (status = 'queued' AND next_attempt_at <= now())
+           OR (status = 'sending' AND locked_at < now() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_newsletter_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Step 3: Admin retry requeues addresses that still want the send and cancels the rest
+CREATE OR REPLACE FUNCTION public.retry_newsletter_deliveries(
+    _send_id UUID,
+    _delivery_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _count INTEGER;
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'editor')) THEN
+        RAISE EXCEPTION 'Editor access required';
+    END IF;
+
+    UPDATE public.newsletter_deliveries d
+    SET status = 'cancelled',
+        last_error = 'Unsubscribed or dropped the topic before delivery'
+    WHERE d.send_id = _send_id
+      AND d.status = 'failed'
+      AND (_delivery_ids IS NULL OR d.id = ANY(_delivery_ids))
+      AND NOT public.is_newsletter_recipient(d.email, d.send_id);
+
+    UPDATE public.newsletter_deliveries
+    SET status = 'queued',
+        attempts = 0,
+        next_attempt_at = now(),
+        locked_at = NULL,
+        last_error = NULL
+    WHERE send_id = _send_id
+      AND status = 'failed'
+      AND (_delivery_ids IS NULL OR id = ANY(_delivery_ids));
+
+    GET DIAGNOSTICS _count = ROW_COUNT;
+
+    IF _count > 0 THEN
+        UPDATE public.newsletter_sends SET completed_at = NULL WHERE id = _send_id;
+    END IF;
+
+    RETURN _count;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- ============================================================================
+-- Editorial workflow: published copy is reviewed too
+-- ============================================================================
+-- 20261020060000_editorial_workflow_separation.sql sent edits to approved copy
+-- back to review, but a published item could still be changed directly, or
+-- overwritten through restore_content_revision(), with nobody else looking at
+-- it. Edits to published copy now take the same path: the item goes back to
+-- in_review (and offline) with the editor as its submitter, so a second person
+-- approves and publishes it again.
+--
+-- The staff read policies from 20261019140000_editorial_workflow.sql also
+-- gain the is_allowed_origin() check the other admin policies use.
+-- ============================================================================
+
+-- Step 1: Edits to approved or published copy need a fresh review
+CREATE OR REPLACE FUNCTION public.enforce_editorial_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _in_transition BOOLEAN := current_setting('app.workflow_transition', true) = 'on';
+    _old_content JSONB;
+    _new_content JSONB;
+BEGIN
+    -- Service-role jobs (no auth.uid()) and migrations are trusted
+    IF auth.uid() IS NOT NULL AND NOT _in_transition THEN
+        -- Restoring a revision brings back copy, never an old workflow state or reviewer
+        IF TG_OP = 'UPDATE' AND current_setting('app.revision_operation', true) = 'restore' THEN
+            NEW.workflow_status := OLD.workflow_status;
+            NEW.review_notes := OLD.review_notes;
+            NEW.submitted_by := OLD.submitted_by;
+            IF TG_TABLE_NAME = 'resources' AND OLD.workflow_status <> 'draft' THEN
+                NEW.reviewer_id := OLD.reviewer_id;
+            END IF;
+        END IF;
+
+        IF TG_OP = 'INSERT' THEN
+            NEW.workflow_status := 'draft';
+            NEW.submitted_by := NULL;
+        ELSE
+            IF NEW.workflow_status IS DISTINCT FROM OLD.workflow_status THEN
+                RAISE EXCEPTION 'Use transition_content_workflow() to change workflow status';
+            END IF;
+            IF NEW.submitted_by IS DISTINCT FROM OLD.submitted_by THEN
+                RAISE EXCEPTION 'Use transition_content_workflow() to submit for review';
+            END IF;
+
+            -- The reviewer is part of what was submitted; swapping it would let the submitter pick their approver
+            -- (nested: news_articles has no reviewer_id column to compare)
+            IF TG_TABLE_NAME = 'resources' THEN
+                IF OLD.workflow_status <> 'draft'
+                   AND NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id
+                   AND NOT public.has_role(auth.uid(), 'admin') THEN
+                    RAISE EXCEPTION 'Only admins can change the reviewer once a resource has been submitted';
+                END IF;
+            END IF;
+
+            IF NEW.workflow_status IN ('approved', 'published') THEN
+                -- Editing approved or live copy (restores included) needs a fresh review, with
+                -- the editor as the new submitter; a published item goes offline until then
+                _old_content := to_jsonb(OLD) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+                _new_content := to_jsonb(NEW) - ARRAY['updated_at', 'went_live_at', 'published_at', 'review_notes'];
+                IF _old_content IS DISTINCT FROM _new_content THEN
+                    NEW.workflow_status := 'in_review';
+                    NEW.submitted_by := auth.uid();
+                END IF;
+            END IF;
+        END IF;
+    END IF;
+
+    NEW.is_published := NEW.workflow_status = 'published';
+    RETURN NEW;
+END;
+$$;
+
+-- Step 2: Staff reads only from allowed origins
+DROP POLICY IF EXISTS "Staff can view all articles" ON public.news_articles;
+
+CREATE POLICY "Staff can view all articles"
+ON public.news_articles FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all resources" ON public.resources;
+
+CREATE POLICY "Staff can view all resources"
+ON public.resources FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all contributors" ON public.contributors;
+
+CREATE POLICY "Staff can view all contributors"
+ON public.contributors FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all evidence sources" ON public.evidence_sources;
+
+CREATE POLICY "Staff can view all evidence sources"
+ON public.evidence_sources FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all FAQ items" ON public.faq_items;
+
+CREATE POLICY "Staff can view all FAQ items"
+ON public.faq_items FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all LinkedIn posts" ON public.linkedin_posts;
+
+CREATE POLICY "Staff can view all LinkedIn posts"
+ON public.linkedin_posts FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all solutions" ON public.solutions;
+
+CREATE POLICY "Staff can view all solutions"
+ON public.solutions FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view all team members" ON public.team_members;
+
+CREATE POLICY "Staff can view all team members"
+ON public.team_members FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
+
+DROP POLICY IF EXISTS "Staff can view content revisions" ON public.content_revisions;
+
+CREATE POLICY "Staff can view content revisions"
+ON public.content_revisions FOR SELECT
+TO authenticated
+USING (public.has_admin_access(auth.uid()) AND public.is_allowed_origin());
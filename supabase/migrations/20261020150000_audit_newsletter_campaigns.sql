@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Audit newsletter campaigns
+-- ============================================================================
+-- newsletter_campaigns (20261019180000_newsletter_campaigns.sql) was added
+-- after the audit log and never got its trigger, so creating, editing,
+-- scheduling and deleting campaigns left no trace in the admin audit log.
+-- ============================================================================
+
+CREATE TRIGGER audit_newsletter_campaigns
+    AFTER INSERT OR UPDATE OR DELETE ON public.newsletter_campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_audit_log();
@@ -9,6 +9,8 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
+  // ALLOWED_ORIGINS is shared with the edge functions, so it keeps its unprefixed name
+  envPrefix: ["VITE_", "ALLOWED_ORIGINS"],
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {